@@ -0,0 +1,84 @@
+// Keeps the app shell on the phone so the till opens with the shop Wi-Fi
+// down. Shop data never goes through here: it lives in IndexedDB and
+// reaches the server through the sync queue.
+
+const CACHE = 'shop-shell-v1';
+
+// Built files carry a content hash in their name, so a cached copy is
+// never stale
+const HASHED_ASSET = /^\/assets\//;
+
+// Every built file, from the manifest Vite writes. The page only names the
+// entry chunk; Excel import, the AI client and other lazily loaded chunks
+// would otherwise be missing offline until they had been used online once.
+async function builtAssets() {
+  const response = await fetch('/asset-manifest.json', { cache: 'no-cache' });
+  if (!response.ok) return [];
+  const files = new Set();
+  for (const chunk of Object.values(await response.json())) {
+    [chunk.file, ...(chunk.css ?? []), ...(chunk.assets ?? [])].forEach(file => files.add(`/${file}`));
+  }
+  return Array.from(files);
+}
+
+// Caching the whole build at install means the first visit already works
+// offline afterwards
+async function precacheShell() {
+  const cache = await caches.open(CACHE);
+  const response = await fetch('/', { cache: 'no-cache' });
+  if (!response.ok) return;
+  await cache.put('/', response);
+  await cache.addAll(['/manifest.webmanifest', '/icon.svg', '/icon-192.png', ...await builtAssets()]);
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    for (const key of await caches.keys()) {
+      if (key !== CACHE) await caches.delete(key);
+    }
+    await self.clients.claim();
+  })());
+});
+
+async function fromNetwork(request, cacheKey) {
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE);
+    await cache.put(cacheKey, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  // Pages: the newest version when online, the cached one otherwise. Every
+  // route is the same single-page app.
+  if (request.mode === 'navigate') {
+    event.respondWith(fromNetwork(request, '/').catch(async () => (await caches.match('/')) ?? Response.error()));
+    return;
+  }
+
+  if (HASHED_ASSET.test(url.pathname)) {
+    event.respondWith((async () => (await caches.match(request)) ?? fromNetwork(request, request))());
+    return;
+  }
+
+  // Icons, the manifest and other files: answer from the cache at once and
+  // refresh it in the background
+  event.respondWith((async () => {
+    const cached = await caches.match(request);
+    const update = fromNetwork(request, request);
+    if (cached) {
+      event.waitUntil(update.catch(() => undefined));
+      return cached;
+    }
+    return update;
+  })());
+});
@@ -0,0 +1,37 @@
+import 'dotenv/config';
+import path from 'path';
+import express from 'express';
+import { createServer as createViteServer } from 'vite';
+import { openDatabase } from './server/db';
+import { createStore } from './server/store';
+import { createApiRouter } from './server/api';
+
+const PORT = Number(process.env.PORT) || 3000;
+const DATABASE_PATH = process.env.DATABASE_PATH || 'data/shop.db';
+
+async function startServer() {
+  const db = openDatabase(DATABASE_PATH);
+  const app = express();
+
+  app.use('/api', createApiRouter(createStore(db)));
+
+  if (process.env.NODE_ENV !== 'production') {
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.join(process.cwd(), 'dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  }
+
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`Server running on http://localhost:${PORT}`);
+  });
+}
+
+startServer();
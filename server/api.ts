@@ -0,0 +1,483 @@
+import express, { type NextFunction, type Request, type Response } from 'express';
+import type {
+  AuditAction,
+  AuditEntry,
+  Cashier,
+  CashierRole,
+  ManualMovementType,
+  Product,
+  Promotion,
+  PromotionType,
+  PurchaseOrder,
+  Receiving,
+  Refund,
+  Sale,
+  Shift,
+  Stocktake,
+  Supplier,
+  SyncOp,
+} from '../src/types';
+import type { Store } from './store';
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const MANUAL_MOVEMENT_TYPES: ManualMovementType[] = ['purchase', 'adjustment', 'stocktake', 'return', 'damage'];
+const PROMOTION_TYPES: PromotionType[] = ['nth_item', 'buy_get', 'bundle', 'category', 'sale_price'];
+const CASHIER_ROLES: CashierRole[] = ['owner', 'cashier'];
+const AUDIT_ACTIONS: AuditAction[] = [
+  'price.change',
+  'product.delete',
+  'stock.adjust',
+  'discount',
+  'refund',
+  'import',
+  'restore',
+  'staff',
+  'shift.open',
+  'shift.close',
+  'override',
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Pack barcodes; null clears them in a product.save
+function parseProductBarcodes(value: unknown) {
+  if (value === undefined || value === null) return;
+  if (!Array.isArray(value)) throw new HttpError(400, '包装条码格式错误');
+  for (const item of value) {
+    if (!isRecord(item) || typeof item.barcode !== 'string' || !item.barcode.trim()) {
+      throw new HttpError(400, '包装条码不能为空');
+    }
+    if (!isFiniteNumber(item.factor) || item.factor <= 0) throw new HttpError(400, '包装数量无效');
+    if (item.price !== undefined && (!isFiniteNumber(item.price) || item.price < 0)) throw new HttpError(400, '包装价格无效');
+  }
+}
+
+// Cost price; null clears it in a product.save
+function parseCostPrice(value: unknown) {
+  if (value === undefined || value === null) return;
+  if (!isFiniteNumber(value) || value < 0) throw new HttpError(400, '进价无效');
+}
+
+export function parseProduct(value: unknown): Product {
+  if (!isRecord(value)) throw new HttpError(400, '商品数据格式错误');
+  const { id, barcode, name, price, stock } = value;
+  if (typeof id !== 'string' || !id) throw new HttpError(400, '缺少商品 ID');
+  if (typeof barcode !== 'string' || !barcode.trim()) throw new HttpError(400, '条形码不能为空');
+  if (typeof name !== 'string' || !name.trim()) throw new HttpError(400, '商品名称不能为空');
+  if (!isFiniteNumber(price) || price < 0) throw new HttpError(400, '价格无效');
+  if (!isFiniteNumber(stock)) throw new HttpError(400, '库存无效');
+  parseProductBarcodes(value.barcodes);
+  parseCostPrice(value.costPrice);
+  return { ...value, id, barcode: barcode.trim(), name: name.trim(), price, stock } as Product;
+}
+
+export function parseSale(value: unknown): Sale {
+  if (!isRecord(value)) throw new HttpError(400, '订单数据格式错误');
+  const { id, orderNo, createdAt, items, totalAmount } = value;
+  if (typeof id !== 'string' || typeof orderNo !== 'string' || typeof createdAt !== 'string') {
+    throw new HttpError(400, '订单缺少编号或时间');
+  }
+  if (!Array.isArray(items) || items.length === 0) throw new HttpError(400, '订单没有商品');
+  for (const item of items) {
+    if (!isRecord(item) || typeof item.productId !== 'string' || !isFiniteNumber(item.quantity)) {
+      throw new HttpError(400, '订单商品数据格式错误');
+    }
+  }
+  if (!isFiniteNumber(totalAmount)) throw new HttpError(400, '订单金额无效');
+  return value as unknown as Sale;
+}
+
+export function parseRefund(value: unknown): Refund {
+  if (!isRecord(value)) throw new HttpError(400, '退货单数据格式错误');
+  const { id, refundNo, saleId, createdAt, items, totalAmount } = value;
+  if (typeof id !== 'string' || typeof refundNo !== 'string' || typeof saleId !== 'string' || typeof createdAt !== 'string') {
+    throw new HttpError(400, '退货单缺少编号、原订单或时间');
+  }
+  if (!Array.isArray(items) || items.length === 0) throw new HttpError(400, '退货单没有商品');
+  for (const item of items) {
+    if (
+      !isRecord(item) ||
+      typeof item.productId !== 'string' ||
+      !Number.isInteger(item.lineIndex) ||
+      !isFiniteNumber(item.quantity) || item.quantity <= 0 ||
+      !isFiniteNumber(item.amount) || item.amount < 0
+    ) {
+      throw new HttpError(400, '退货商品数据格式错误');
+    }
+  }
+  if (!isFiniteNumber(totalAmount)) throw new HttpError(400, '退款金额无效');
+  return value as unknown as Refund;
+}
+
+export function parseReceiving(value: unknown): Receiving {
+  if (!isRecord(value)) throw new HttpError(400, '入库单数据格式错误');
+  const { id, receivingNo, createdAt, items } = value;
+  if (typeof id !== 'string' || typeof receivingNo !== 'string' || typeof createdAt !== 'string') {
+    throw new HttpError(400, '入库单缺少编号或时间');
+  }
+  if (!Array.isArray(items) || items.length === 0) throw new HttpError(400, '入库单没有商品');
+  for (const item of items) {
+    if (!isRecord(item) || typeof item.productId !== 'string' || !isFiniteNumber(item.quantity) || item.quantity <= 0) {
+      throw new HttpError(400, '入库商品数据格式错误');
+    }
+    if (item.costPrice !== undefined && (!isFiniteNumber(item.costPrice) || item.costPrice < 0)) {
+      throw new HttpError(400, '进价无效');
+    }
+  }
+  return value as unknown as Receiving;
+}
+
+export function parseStocktake(value: unknown): Stocktake {
+  if (!isRecord(value)) throw new HttpError(400, '盘点单数据格式错误');
+  const { id, stocktakeNo, completedAt, lines } = value;
+  if (typeof id !== 'string' || typeof stocktakeNo !== 'string' || typeof completedAt !== 'string') {
+    throw new HttpError(400, '盘点单缺少编号或时间');
+  }
+  if (!Array.isArray(lines)) throw new HttpError(400, '盘点单没有明细');
+  for (const line of lines) {
+    if (!isRecord(line) || typeof line.productId !== 'string' || !isFiniteNumber(line.variance)) {
+      throw new HttpError(400, '盘点明细数据格式错误');
+    }
+    if (line.counted !== undefined && !isFiniteNumber(line.counted)) throw new HttpError(400, '实盘数量无效');
+  }
+  return value as unknown as Stocktake;
+}
+
+function isIdList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length > 0 && value.every(id => typeof id === 'string');
+}
+
+function isPercent(value: unknown) {
+  return isFiniteNumber(value) && value > 0 && value <= 100;
+}
+
+function isCount(value: unknown) {
+  return Number.isInteger(value) && (value as number) >= 1;
+}
+
+export function parsePromotion(value: unknown): Promotion {
+  if (!isRecord(value)) throw new HttpError(400, '促销数据格式错误');
+  const { id, name, type, startsAt, endsAt } = value;
+  if (typeof id !== 'string' || !id) throw new HttpError(400, '缺少促销 ID');
+  if (typeof name !== 'string' || !name.trim()) throw new HttpError(400, '促销名称不能为空');
+  if (!PROMOTION_TYPES.includes(type as PromotionType)) throw new HttpError(400, '无效的促销类型');
+  if ((startsAt !== undefined && typeof startsAt !== 'string') || (endsAt !== undefined && typeof endsAt !== 'string')) {
+    throw new HttpError(400, '促销时间无效');
+  }
+
+  let valid = false;
+  switch (type as PromotionType) {
+    case 'nth_item':
+      valid = isIdList(value.productIds) && isCount(value.nth) && isPercent(value.percentOff);
+      break;
+    case 'buy_get':
+      valid = isIdList(value.productIds) && isCount(value.buy) && isCount(value.free);
+      break;
+    case 'bundle':
+      valid = Array.isArray(value.items) && value.items.length > 0
+        && value.items.every(item => isRecord(item) && typeof item.productId === 'string' && isCount(item.quantity))
+        && isFiniteNumber(value.price) && value.price >= 0;
+      break;
+    case 'category':
+      valid = typeof value.category === 'string' && !!value.category.trim() && isPercent(value.percentOff);
+      break;
+    case 'sale_price':
+      valid = isIdList(value.productIds) && isFiniteNumber(value.price) && value.price >= 0;
+      break;
+  }
+  if (!valid) throw new HttpError(400, `促销「${name}」的规则不完整`);
+  return { ...value, enabled: value.enabled !== false } as unknown as Promotion;
+}
+
+export function parseCashier(value: unknown): Cashier {
+  if (!isRecord(value)) throw new HttpError(400, '收银员数据格式错误');
+  const { id, name, role, pinHash } = value;
+  if (typeof id !== 'string' || !id) throw new HttpError(400, '缺少收银员 ID');
+  if (typeof name !== 'string' || !name.trim()) throw new HttpError(400, '收银员姓名不能为空');
+  if (!CASHIER_ROLES.includes(role as CashierRole)) throw new HttpError(400, '无效的收银员角色');
+  if (pinHash !== undefined && (typeof pinHash !== 'string' || !pinHash)) throw new HttpError(400, '收银员 PIN 无效');
+  return { ...value, name: name.trim() } as unknown as Cashier;
+}
+
+export function parseShift(value: unknown): Shift {
+  if (!isRecord(value)) throw new HttpError(400, '班次数据格式错误');
+  const { id, shiftNo, deviceId, openedAt, openingFloat, closedAt, countedCash } = value;
+  if (typeof id !== 'string' || typeof shiftNo !== 'string' || typeof deviceId !== 'string' || typeof openedAt !== 'string') {
+    throw new HttpError(400, '班次缺少编号、设备或时间');
+  }
+  if (!isFiniteNumber(openingFloat) || openingFloat < 0) throw new HttpError(400, '备用金无效');
+  if (closedAt !== undefined && typeof closedAt !== 'string') throw new HttpError(400, '交班时间无效');
+  if (countedCash !== undefined && (!isFiniteNumber(countedCash) || countedCash < 0)) throw new HttpError(400, '实点现金无效');
+  return value as unknown as Shift;
+}
+
+export function parseAuditEntry(value: unknown): AuditEntry {
+  if (!isRecord(value)) throw new HttpError(400, '日志数据格式错误');
+  const { id, createdAt, action, detail } = value;
+  if (typeof id !== 'string' || typeof createdAt !== 'string') throw new HttpError(400, '日志缺少编号或时间');
+  if (!AUDIT_ACTIONS.includes(action as AuditAction)) throw new HttpError(400, '无效的日志类型');
+  if (typeof detail !== 'string') throw new HttpError(400, '日志缺少内容');
+  return value as unknown as AuditEntry;
+}
+
+export function parseSupplier(value: unknown): Supplier {
+  if (!isRecord(value)) throw new HttpError(400, '供应商数据格式错误');
+  const { id, name, productIds } = value;
+  if (typeof id !== 'string' || !id) throw new HttpError(400, '缺少供应商 ID');
+  if (typeof name !== 'string' || !name.trim()) throw new HttpError(400, '供应商名称不能为空');
+  if (productIds !== undefined && (!Array.isArray(productIds) || productIds.some(p => typeof p !== 'string'))) {
+    throw new HttpError(400, '供应商的商品列表格式错误');
+  }
+  return { ...value, name: name.trim(), productIds: productIds ?? [] } as unknown as Supplier;
+}
+
+export function parsePurchaseOrder(value: unknown): PurchaseOrder {
+  if (!isRecord(value)) throw new HttpError(400, '采购单数据格式错误');
+  const { id, orderNo, createdAt, supplierName, items, closedAt } = value;
+  if (typeof id !== 'string' || typeof orderNo !== 'string' || typeof createdAt !== 'string') {
+    throw new HttpError(400, '采购单缺少编号或时间');
+  }
+  if (typeof supplierName !== 'string' || !supplierName.trim()) throw new HttpError(400, '采购单缺少供应商');
+  if (!Array.isArray(items) || items.length === 0) throw new HttpError(400, '采购单没有商品');
+  for (const item of items) {
+    if (!isRecord(item) || typeof item.productId !== 'string' || !isFiniteNumber(item.quantity) || item.quantity <= 0) {
+      throw new HttpError(400, '采购商品数据格式错误');
+    }
+    if (item.costPrice !== undefined && (!isFiniteNumber(item.costPrice) || item.costPrice < 0)) {
+      throw new HttpError(400, '采购单价无效');
+    }
+  }
+  if (closedAt !== undefined && typeof closedAt !== 'string') throw new HttpError(400, '关闭时间无效');
+  return value as unknown as PurchaseOrder;
+}
+
+export function parseSyncOp(value: unknown): SyncOp {
+  if (!isRecord(value)) throw new HttpError(400, '同步数据格式错误');
+  const { id, createdAt, type, productId } = value;
+  if (typeof id !== 'string' || typeof createdAt !== 'string') throw new HttpError(400, '同步操作缺少编号或时间');
+
+  switch (type) {
+    case 'product.save': {
+      if (typeof productId !== 'string' || !isFiniteNumber(value.baseVersion) || !isRecord(value.changes)) break;
+      // New products must arrive complete
+      if (value.baseVersion === 0) parseProduct({ stock: 0, ...value.changes, id: productId });
+      else {
+        parseProductBarcodes(value.changes.barcodes);
+        parseCostPrice(value.changes.costPrice);
+      }
+      return value as unknown as SyncOp;
+    }
+    case 'product.delete':
+      if (typeof productId !== 'string') break;
+      return value as unknown as SyncOp;
+    case 'stock.adjust':
+      if (typeof productId !== 'string' || !isFiniteNumber(value.quantity)) break;
+      if (value.movementType !== undefined && !MANUAL_MOVEMENT_TYPES.includes(value.movementType as ManualMovementType)) break;
+      return value as unknown as SyncOp;
+    case 'sale.create':
+      return { ...value, sale: parseSale(value.sale) } as unknown as SyncOp;
+    case 'refund.create':
+      return { ...value, refund: parseRefund(value.refund) } as unknown as SyncOp;
+    case 'receiving.create':
+      return { ...value, receiving: parseReceiving(value.receiving) } as unknown as SyncOp;
+    case 'stocktake.create':
+      return { ...value, stocktake: parseStocktake(value.stocktake) } as unknown as SyncOp;
+    case 'promotion.save':
+      return { ...value, promotion: parsePromotion(value.promotion) } as unknown as SyncOp;
+    case 'promotion.delete':
+      if (typeof value.promotionId !== 'string') break;
+      return value as unknown as SyncOp;
+    case 'cashier.save':
+      if (value.approval !== undefined && typeof value.approval !== 'string') break;
+      return { ...value, cashier: parseCashier(value.cashier) } as unknown as SyncOp;
+    case 'shift.save':
+      return { ...value, shift: parseShift(value.shift) } as unknown as SyncOp;
+    case 'audit.create':
+      return { ...value, entry: parseAuditEntry(value.entry) } as unknown as SyncOp;
+    case 'supplier.save':
+      return { ...value, supplier: parseSupplier(value.supplier) } as unknown as SyncOp;
+    case 'supplier.delete':
+      if (typeof value.supplierId !== 'string') break;
+      return value as unknown as SyncOp;
+    case 'purchaseOrder.save':
+      return { ...value, purchaseOrder: parsePurchaseOrder(value.purchaseOrder) } as unknown as SyncOp;
+  }
+  throw new HttpError(400, `无效的同步操作: ${String(type)}`);
+}
+
+function parseArray<T>(value: unknown, parse: (item: unknown) => T) {
+  if (!Array.isArray(value)) throw new HttpError(400, '数据必须是数组');
+  return value.map(parse);
+}
+
+export function createApiRouter(store: Store) {
+  const router = express.Router();
+  router.use(express.json({ limit: '20mb' }));
+
+  router.get('/products', (_req, res) => {
+    res.json(store.listProducts());
+  });
+
+  router.post('/products', (req, res) => {
+    const product = parseProduct(req.body);
+    if (store.getProduct(product.id)) throw new HttpError(409, '商品已存在');
+    res.status(201).json(store.createProduct(product));
+  });
+
+  // Replaces the whole catalogue including stock
+  router.put('/products', (req, res) => {
+    res.json(store.replaceProducts(parseArray(req.body, parseProduct)));
+  });
+
+  router.put('/products/:id', (req, res) => {
+    const product = parseProduct({ ...req.body, id: req.params.id });
+    const updated = store.updateProduct(product);
+    if (!updated) throw new HttpError(404, '商品不存在');
+    res.json(updated);
+  });
+
+  router.delete('/products/:id', (req, res) => {
+    if (!store.deleteProduct(req.params.id)) throw new HttpError(404, '商品不存在');
+    res.status(204).end();
+  });
+
+  router.get('/products/:id/movements', (req, res) => {
+    res.json(store.listMovements(req.params.id));
+  });
+
+  // Stock value by the ledger at a moment, now when no time is given
+  router.get('/stock/valuation', (req, res) => {
+    const at = typeof req.query.at === 'string' ? new Date(req.query.at) : new Date();
+    if (isNaN(at.getTime())) throw new HttpError(400, '无效的日期');
+    res.json(store.valuationAt(at.toISOString()));
+  });
+
+  router.get('/stock/reconcile', (_req, res) => {
+    res.json(store.reconcileStock(false));
+  });
+
+  router.post('/stock/reconcile', (_req, res) => {
+    res.json(store.reconcileStock(true));
+  });
+
+  router.get('/sales', (req, res) => {
+    const { from, to } = req.query;
+    res.json(store.listSales(
+      typeof from === 'string' ? from : undefined,
+      typeof to === 'string' ? to : undefined
+    ));
+  });
+
+  router.post('/sales', (req, res) => {
+    const { error, ...result } = store.recordSale(parseSale(req.body));
+    if (error) throw new HttpError(409, error);
+    res.status(201).json(result);
+  });
+
+  router.get('/refunds', (_req, res) => {
+    res.json(store.listRefunds());
+  });
+
+  router.get('/receivings', (_req, res) => {
+    res.json(store.listReceivings());
+  });
+
+  router.post('/receivings', (req, res) => {
+    res.status(201).json(store.recordReceiving(parseReceiving(req.body)));
+  });
+
+  router.get('/stocktakes', (_req, res) => {
+    res.json(store.listStocktakes());
+  });
+
+  router.get('/promotions', (_req, res) => {
+    res.json(store.listPromotions());
+  });
+
+  router.get('/shifts', (_req, res) => {
+    res.json(store.listShifts());
+  });
+
+  router.get('/audit', (_req, res) => {
+    res.json(store.listAuditLog());
+  });
+
+  router.get('/suppliers', (_req, res) => {
+    res.json(store.listSuppliers());
+  });
+
+  router.get('/purchase-orders', (_req, res) => {
+    res.json(store.listPurchaseOrders());
+  });
+
+  router.post('/import/legacy', (req, res) => {
+    if (!isRecord(req.body)) throw new HttpError(400, '数据格式错误');
+    const products = parseArray(req.body.products ?? [], parseProduct);
+    const sales = parseArray(req.body.sales ?? [], parseSale);
+    res.json(store.importLegacy(products, sales));
+  });
+
+  // Restores a full backup: the catalogue is replaced, documents are merged in
+  router.post('/restore', (req, res) => {
+    if (!isRecord(req.body)) throw new HttpError(400, '数据格式错误');
+    res.json(store.restoreBackup({
+      products: parseArray(req.body.products, parseProduct),
+      sales: parseArray(req.body.sales ?? [], parseSale),
+      refunds: parseArray(req.body.refunds ?? [], parseRefund),
+      receivings: parseArray(req.body.receivings ?? [], parseReceiving),
+      stocktakes: parseArray(req.body.stocktakes ?? [], parseStocktake),
+      promotions: parseArray(req.body.promotions ?? [], parsePromotion),
+      cashiers: parseArray(req.body.cashiers ?? [], parseCashier),
+      shifts: parseArray(req.body.shifts ?? [], parseShift),
+      auditLog: parseArray(req.body.auditLog ?? [], parseAuditEntry),
+      suppliers: parseArray(req.body.suppliers ?? [], parseSupplier),
+      purchaseOrders: parseArray(req.body.purchaseOrders ?? [], parsePurchaseOrder),
+    }));
+  });
+
+  router.post('/pin', (req, res) => {
+    if (!isRecord(req.body)) throw new HttpError(400, '数据格式错误');
+    const { cashierId, pin } = req.body;
+    if (typeof cashierId !== 'string' || typeof pin !== 'string') throw new HttpError(400, '缺少账号或 PIN');
+    const { approval, error } = store.checkPin(cashierId, pin);
+    if (error) throw new HttpError(403, error);
+    res.json({ approval });
+  });
+
+  router.get('/sync', (req, res) => {
+    const cursor = Number(req.query.cursor ?? 0);
+    if (!Number.isInteger(cursor) || cursor < 0) throw new HttpError(400, '无效的同步游标');
+    res.json(store.changesSince(cursor));
+  });
+
+  router.post('/sync', (req, res) => {
+    if (!isRecord(req.body)) throw new HttpError(400, '数据格式错误');
+    res.json({ results: store.applyOps(parseArray(req.body.ops, parseSyncOp)) });
+  });
+
+  router.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
+    if (err instanceof HttpError) {
+      res.status(err.status).json({ error: err.message });
+      return;
+    }
+    if (err instanceof SyntaxError) {
+      res.status(400).json({ error: '请求数据不是有效的 JSON' });
+      return;
+    }
+    console.error(err);
+    res.status(500).json({ error: '服务器内部错误' });
+  });
+
+  return router;
+}
@@ -0,0 +1,196 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+export type DB = Database.Database;
+
+// Columns the server needs to query or update atomically are real columns;
+// everything else about a record lives in the `data` JSON document so new
+// client-side fields don't require a schema migration.
+//
+// Each entry upgrades the schema by one step and is applied once, tracked by
+// SQLite's user_version. Append only; never edit a migration that has shipped.
+const MIGRATIONS = [
+  `
+    CREATE TABLE IF NOT EXISTS products (
+      id TEXT PRIMARY KEY,
+      barcode TEXT NOT NULL,
+      name TEXT NOT NULL,
+      stock REAL NOT NULL DEFAULT 0,
+      data TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_products_barcode ON products(barcode);
+
+    CREATE TABLE IF NOT EXISTS sales (
+      id TEXT PRIMARY KEY,
+      order_no TEXT NOT NULL UNIQUE,
+      created_at TEXT NOT NULL,
+      total_amount REAL NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_sales_created_at ON sales(created_at);
+
+    CREATE TABLE IF NOT EXISTS stock_movements (
+      id TEXT PRIMARY KEY,
+      product_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      quantity REAL NOT NULL,
+      stock_after REAL NOT NULL,
+      reference TEXT,
+      note TEXT,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_movements_product ON stock_movements(product_id, created_at);
+  `,
+  // Sync: per-record versions, a global change sequence for incremental
+  // pulls, tombstones for deleted products and a log of applied client ops.
+  `
+    ALTER TABLE products ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+    ALTER TABLE products ADD COLUMN seq INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE products ADD COLUMN deleted INTEGER NOT NULL DEFAULT 0;
+    CREATE INDEX idx_products_seq ON products(seq);
+
+    ALTER TABLE sales ADD COLUMN seq INTEGER NOT NULL DEFAULT 0;
+    CREATE INDEX idx_sales_seq ON sales(seq);
+
+    CREATE TABLE sync_state (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      seq INTEGER NOT NULL
+    );
+    -- Rows from before sync existed must still reach a device pulling from 0
+    UPDATE products SET seq = 1;
+    UPDATE sales SET seq = 1;
+    INSERT INTO sync_state (id, seq) VALUES (1, 1);
+
+    CREATE TABLE applied_ops (
+      id TEXT PRIMARY KEY,
+      result TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `,
+  `
+    ALTER TABLE stock_movements ADD COLUMN operator TEXT;
+  `,
+  `
+    CREATE TABLE receivings (
+      id TEXT PRIMARY KEY,
+      created_at TEXT NOT NULL,
+      supplier TEXT,
+      data TEXT NOT NULL,
+      seq INTEGER NOT NULL
+    );
+    CREATE INDEX idx_receivings_seq ON receivings(seq);
+    CREATE INDEX idx_receivings_created_at ON receivings(created_at);
+  `,
+  `
+    CREATE TABLE stocktakes (
+      id TEXT PRIMARY KEY,
+      completed_at TEXT NOT NULL,
+      data TEXT NOT NULL,
+      seq INTEGER NOT NULL
+    );
+    CREATE INDEX idx_stocktakes_seq ON stocktakes(seq);
+  `,
+  `
+    CREATE TABLE promotions (
+      id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      deleted INTEGER NOT NULL DEFAULT 0,
+      seq INTEGER NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX idx_promotions_seq ON promotions(seq);
+  `,
+  `
+    CREATE TABLE refunds (
+      id TEXT PRIMARY KEY,
+      sale_id TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      total_amount REAL NOT NULL,
+      data TEXT NOT NULL,
+      seq INTEGER NOT NULL
+    );
+    CREATE INDEX idx_refunds_seq ON refunds(seq);
+    CREATE INDEX idx_refunds_sale_id ON refunds(sale_id);
+  `,
+  `
+    CREATE TABLE cashiers (
+      id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      seq INTEGER NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX idx_cashiers_seq ON cashiers(seq);
+
+    CREATE TABLE shifts (
+      id TEXT PRIMARY KEY,
+      opened_at TEXT NOT NULL,
+      closed_at TEXT,
+      data TEXT NOT NULL,
+      seq INTEGER NOT NULL
+    );
+    CREATE INDEX idx_shifts_seq ON shifts(seq);
+
+    CREATE TABLE audit_log (
+      id TEXT PRIMARY KEY,
+      created_at TEXT NOT NULL,
+      action TEXT NOT NULL,
+      data TEXT NOT NULL,
+      seq INTEGER NOT NULL
+    );
+    CREATE INDEX idx_audit_log_seq ON audit_log(seq);
+    CREATE INDEX idx_audit_log_created_at ON audit_log(created_at);
+  `,
+  `
+    ALTER TABLE stock_movements ADD COLUMN unit_cost REAL;
+  `,
+  `
+    CREATE TABLE suppliers (
+      id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      deleted INTEGER NOT NULL DEFAULT 0,
+      seq INTEGER NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX idx_suppliers_seq ON suppliers(seq);
+
+    CREATE TABLE purchase_orders (
+      id TEXT PRIMARY KEY,
+      created_at TEXT NOT NULL,
+      supplier_id TEXT,
+      data TEXT NOT NULL,
+      seq INTEGER NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX idx_purchase_orders_seq ON purchase_orders(seq);
+  `,
+  `
+    CREATE TABLE server_keys (
+      name TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+  `,
+];
+
+function migrate(db: DB) {
+  const current = db.pragma('user_version', { simple: true }) as number;
+  for (let version = current; version < MIGRATIONS.length; version++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[version]);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+  }
+}
+
+export function openDatabase(file: string): DB {
+  if (file !== ':memory:') {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  return db;
+}
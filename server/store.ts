@@ -0,0 +1,993 @@
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import Database from 'better-sqlite3';
+import type { DB } from './db';
+import type {
+  AuditEntry,
+  Cashier,
+  Product,
+  Promotion,
+  PurchaseOrder,
+  Receiving,
+  Refund,
+  Sale,
+  Shift,
+  Stocktake,
+  StockMovement,
+  StockMovementType,
+  Supplier,
+  SyncOp,
+  SyncOpResult,
+  SyncPull,
+} from '../src/types';
+import { movingAverageCost } from '../src/lib/costing';
+import type { ValuationLine } from '../src/lib/report';
+
+// A constraint the op's own data breaks fails the same way on every retry.
+// Anything else, like a busy or full database, may pass next time.
+function isPermanentFailure(err: unknown) {
+  return err instanceof Database.SqliteError && err.code.startsWith('SQLITE_CONSTRAINT');
+}
+
+// How long a PIN check vouches for an owner, long enough for a change made
+// on a phone with a shaky connection to reach the server
+const APPROVAL_TTL_MS = 24 * 60 * 60 * 1000;
+// A four-digit PIN falls to guessing unless tries are limited
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_MS = 5 * 60 * 1000;
+
+// Same as the app's hashPin, so a PIN set on a phone checks out here
+function hashPin(cashierId: string, pin: string) {
+  return createHash('sha256').update(`${cashierId}:${pin}`).digest('hex');
+}
+
+function safeEqual(a: string, b: string) {
+  return a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+// PIN hashes never leave the server: a four-digit PIN is quickly found from one
+function withoutPin({ pinHash: _pinHash, ...cashier }: Cashier): Cashier {
+  return cashier;
+}
+
+interface ProductRow {
+  id: string;
+  stock: number;
+  version: number;
+  deleted: number;
+  data: string;
+}
+
+interface DataRow {
+  data: string;
+}
+
+// Promotions and suppliers are soft-deleted so other devices hear about it
+interface DeletableRow {
+  id: string;
+  deleted: number;
+  data: string;
+}
+
+export interface BackupData {
+  products: Product[];
+  sales: Sale[];
+  refunds: Refund[];
+  receivings: Receiving[];
+  stocktakes: Stocktake[];
+  promotions: Promotion[];
+  cashiers: Cashier[];
+  shifts: Shift[];
+  auditLog: AuditEntry[];
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+}
+
+interface MovementRow {
+  id: string;
+  product_id: string;
+  type: StockMovementType;
+  quantity: number;
+  stock_after: number;
+  unit_cost: number | null;
+  reference: string | null;
+  note: string | null;
+  operator: string | null;
+  created_at: string;
+}
+
+// Fields a product edit may never set directly: identity, and the values the
+// server owns (stock moves only through the ledger, version through writes).
+const PROTECTED_FIELDS = ['id', 'stock', 'version'] as const;
+
+function rowToProduct(row: ProductRow): Product {
+  // The stock and version columns are authoritative; copies inside `data` may be stale
+  return { ...JSON.parse(row.data), id: row.id, stock: row.stock, version: row.version };
+}
+
+function rowToMovement(row: MovementRow): StockMovement {
+  return {
+    id: row.id,
+    productId: row.product_id,
+    type: row.type,
+    quantity: row.quantity,
+    stockAfter: row.stock_after,
+    unitCost: row.unit_cost ?? undefined,
+    reference: row.reference ?? undefined,
+    note: row.note ?? undefined,
+    operator: row.operator ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+function productData(product: Product) {
+  const { stock: _stock, version: _version, ...data } = product;
+  return JSON.stringify(data);
+}
+
+export function createStore(db: DB) {
+  const now = () => new Date().toISOString();
+
+  const nextSeq = () => {
+    return (db.prepare('UPDATE sync_state SET seq = seq + 1 WHERE id = 1 RETURNING seq').get() as { seq: number }).seq;
+  };
+
+  const getProductRow = (id: string) => {
+    return db.prepare('SELECT id, stock, version, deleted, data FROM products WHERE id = ?').get(id) as ProductRow | undefined;
+  };
+
+  const getProduct = (id: string) => {
+    const row = getProductRow(id);
+    return row && !row.deleted ? rowToProduct(row) : undefined;
+  };
+
+  const listProducts = () => {
+    const rows = db.prepare(`
+      SELECT id, stock, version, deleted, data FROM products WHERE deleted = 0 ORDER BY created_at
+    `).all() as ProductRow[];
+    return rows.map(rowToProduct);
+  };
+
+  const insertMovement = (movement: Omit<StockMovement, 'id' | 'createdAt'> & { createdAt?: string }) => {
+    db.prepare(`
+      INSERT INTO stock_movements (id, product_id, type, quantity, stock_after, unit_cost, reference, note, operator, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      randomUUID(),
+      movement.productId,
+      movement.type,
+      movement.quantity,
+      movement.stockAfter,
+      movement.unitCost ?? null,
+      movement.reference ?? null,
+      movement.note ?? null,
+      movement.operator ?? null,
+      movement.createdAt ?? now()
+    );
+  };
+
+  // Every stock change goes through here so the ledger and the stock column
+  // agree. Stock changes are deltas that merge cleanly, so they move the sync
+  // sequence but not the edit version.
+  const adjustStock = (
+    productId: string,
+    quantity: number,
+    type: StockMovementType,
+    options: { reference?: string; note?: string; operator?: string; createdAt?: string } = {}
+  ) => {
+    const product = getProduct(productId);
+    if (!product) return undefined;
+    const stockAfter = product.stock + quantity;
+    db.prepare(`
+      UPDATE products SET stock = ?, seq = ?, updated_at = ? WHERE id = ?
+    `).run(stockAfter, nextSeq(), now(), productId);
+    insertMovement({ productId, type, quantity, stockAfter, unitCost: product.costPrice, ...options });
+    return getProduct(productId)!;
+  };
+
+  // Like stock, the average cost follows the deliveries rather than being
+  // an edit, so it leaves the version alone
+  const setCostPrice = (productId: string, costPrice: number) => {
+    const product = getProduct(productId);
+    if (!product) return;
+    db.prepare(`
+      UPDATE products SET data = ?, seq = ?, updated_at = ? WHERE id = ?
+    `).run(productData({ ...product, costPrice }), nextSeq(), now(), productId);
+  };
+
+  const insertProductRow = (product: Product) => {
+    const timestamp = now();
+    db.prepare(`
+      INSERT INTO products (id, barcode, name, stock, data, created_at, updated_at, version, seq, deleted)
+      VALUES (?, ?, ?, 0, ?, ?, ?, 1, ?, 0)
+    `).run(product.id, product.barcode, product.name, productData(product), timestamp, timestamp, nextSeq());
+    if (product.stock) {
+      adjustStock(product.id, product.stock, 'initial');
+    }
+    return getProduct(product.id)!;
+  };
+
+  // Writes everything except stock; a tombstoned row is brought back to life
+  const writeProductFields = (product: Product) => {
+    db.prepare(`
+      UPDATE products
+      SET barcode = ?, name = ?, data = ?, deleted = 0, version = version + 1, seq = ?, updated_at = ?
+      WHERE id = ?
+    `).run(product.barcode, product.name, productData(product), nextSeq(), now(), product.id);
+  };
+
+  const createProduct = db.transaction((product: Product) => {
+    return insertProductRow(product);
+  });
+
+  // Full replacement including stock; a changed stock value is recorded as a
+  // manual adjustment of the difference.
+  const putProduct = (product: Product) => {
+    const row = getProductRow(product.id);
+    if (!row) return insertProductRow(product);
+
+    const previousStock = row.deleted ? 0 : row.stock;
+    writeProductFields(product);
+    const delta = product.stock - previousStock;
+    if (delta !== 0) {
+      adjustStock(product.id, delta, 'adjustment');
+    }
+    return getProduct(product.id)!;
+  };
+
+  const updateProduct = db.transaction((product: Product) => {
+    if (!getProduct(product.id)) return undefined;
+    return putProduct(product);
+  });
+
+  // Soft delete, so other devices learn about it on their next pull
+  const deleteProduct = (id: string) => {
+    return db.prepare(`
+      UPDATE products SET deleted = 1, version = version + 1, seq = ?, updated_at = ? WHERE id = ? AND deleted = 0
+    `).run(nextSeq(), now(), id).changes > 0;
+  };
+
+  const replaceProducts = db.transaction((products: Product[]) => {
+    const keep = new Set(products.map(p => p.id));
+    for (const existing of listProducts()) {
+      if (!keep.has(existing.id)) deleteProduct(existing.id);
+    }
+    for (const product of products) {
+      putProduct(product);
+    }
+    return listProducts();
+  });
+
+  const listSales = (from?: string, to?: string) => {
+    const rows = db.prepare(`
+      SELECT data FROM sales
+      WHERE (@from IS NULL OR created_at >= @from) AND (@to IS NULL OR created_at <= @to)
+      ORDER BY created_at
+    `).all({ from: from ?? null, to: to ?? null }) as DataRow[];
+    return rows.map(row => JSON.parse(row.data) as Sale);
+  };
+
+  const getSale = (id: string) => {
+    const row = db.prepare('SELECT data FROM sales WHERE id = ?').get(id) as DataRow | undefined;
+    return row ? JSON.parse(row.data) as Sale : undefined;
+  };
+
+  const insertSaleRow = (sale: Sale) => {
+    db.prepare(`
+      INSERT INTO sales (id, order_no, created_at, total_amount, data, seq) VALUES (?, ?, ?, ?, ?, ?)
+    `).run(sale.id, sale.orderNo, sale.createdAt, sale.totalAmount, JSON.stringify(sale), nextSeq());
+  };
+
+  // Idempotent on sale id, so a client retrying after a dropped response
+  // cannot deduct stock twice. The order number is already printed on the
+  // receipt, so a sale whose number another till used is refused rather
+  // than renumbered; tills put their own code in every number to avoid it.
+  const recordSale = db.transaction((sale: Sale): { sale: Sale; products: Product[]; error?: string } => {
+    const existing = getSale(sale.id);
+    if (existing) return { sale: existing, products: [] };
+    if (db.prepare('SELECT 1 FROM sales WHERE order_no = ?').get(sale.orderNo)) {
+      return { sale, products: [], error: `订单号 ${sale.orderNo} 已被其他收银台使用，这笔销售未能同步` };
+    }
+
+    insertSaleRow(sale);
+    const touched = new Map<string, Product>();
+    for (const item of sale.items) {
+      // Deleted products still keep their sale line, there is just no stock to move
+      const product = adjustStock(item.productId, -item.quantity, 'sale', {
+        reference: sale.id,
+        operator: sale.operator,
+        createdAt: sale.createdAt,
+      });
+      if (product) touched.set(product.id, product);
+    }
+    return { sale, products: Array.from(touched.values()) };
+  });
+
+  const listRefunds = () => {
+    const rows = db.prepare('SELECT data FROM refunds ORDER BY created_at').all() as DataRow[];
+    return rows.map(row => JSON.parse(row.data) as Refund);
+  };
+
+  const getRefund = (id: string) => {
+    const row = db.prepare('SELECT data FROM refunds WHERE id = ?').get(id) as DataRow | undefined;
+    return row ? JSON.parse(row.data) as Refund : undefined;
+  };
+
+  const insertRefundRow = (refund: Refund) => {
+    db.prepare(`
+      INSERT INTO refunds (id, sale_id, created_at, total_amount, data, seq) VALUES (?, ?, ?, ?, ?, ?)
+    `).run(refund.id, refund.saleId, refund.createdAt, refund.totalAmount, JSON.stringify(refund), nextSeq());
+  };
+
+  // Two devices refunding the same order offline could together give back
+  // more than was sold; the second refund to arrive is turned away.
+  const refundError = (refund: Refund) => {
+    const sale = getSale(refund.saleId);
+    if (!sale) return '原订单不存在';
+    const earlier = (db.prepare('SELECT data FROM refunds WHERE sale_id = ?').all(refund.saleId) as DataRow[])
+      .flatMap(row => (JSON.parse(row.data) as Refund).items);
+    for (const item of refund.items) {
+      const line = sale.items[item.lineIndex];
+      if (!line || line.productId !== item.productId) return '退货商品不在原订单中';
+      const refunded = earlier.filter(r => r.lineIndex === item.lineIndex).reduce((sum, r) => sum + r.quantity, 0);
+      if (refunded + item.quantity > line.quantity + 1e-9) return `「${line.name}」的退货数量超过了售出数量`;
+    }
+    return undefined;
+  };
+
+  // Returned goods come back through the ledger; damaged ones are written
+  // straight off again so the loss shows up as 报损
+  const recordRefund = db.transaction((refund: Refund): { refund: Refund; error?: string } => {
+    const existing = getRefund(refund.id);
+    if (existing) return { refund: existing };
+    const error = refundError(refund);
+    if (error) return { refund, error };
+
+    insertRefundRow(refund);
+    const options = { reference: refund.id, operator: refund.operator, createdAt: refund.createdAt };
+    for (const item of refund.items) {
+      adjustStock(item.productId, item.quantity, 'return', { ...options, note: `退货 ${refund.orderNo}` });
+      if (!item.restock) {
+        adjustStock(item.productId, -item.quantity, 'damage', { ...options, note: `退货报损 ${refund.orderNo}` });
+      }
+    }
+    return { refund };
+  });
+
+  const listReceivings = () => {
+    const rows = db.prepare('SELECT data FROM receivings ORDER BY created_at').all() as DataRow[];
+    return rows.map(row => JSON.parse(row.data) as Receiving);
+  };
+
+  // The whole delivery is booked in one transaction, and like sales it is
+  // idempotent on id.
+  const getReceiving = (id: string) => {
+    const row = db.prepare('SELECT data FROM receivings WHERE id = ?').get(id) as DataRow | undefined;
+    return row ? JSON.parse(row.data) as Receiving : undefined;
+  };
+
+  const insertReceivingRow = (receiving: Receiving) => {
+    db.prepare(`
+      INSERT INTO receivings (id, created_at, supplier, data, seq) VALUES (?, ?, ?, ?, ?)
+    `).run(receiving.id, receiving.createdAt, receiving.supplier ?? null, JSON.stringify(receiving), nextSeq());
+  };
+
+  const recordReceiving = db.transaction((receiving: Receiving) => {
+    const existing = getReceiving(receiving.id);
+    if (existing) return existing;
+
+    insertReceivingRow(receiving);
+    for (const item of receiving.items) {
+      const product = getProduct(item.productId);
+      if (product && item.costPrice !== undefined) {
+        setCostPrice(product.id, movingAverageCost(product.stock, product.costPrice, item.quantity, item.costPrice));
+      }
+      adjustStock(item.productId, item.quantity, 'purchase', {
+        reference: receiving.id,
+        note: receiving.supplier ? `供应商：${receiving.supplier}` : undefined,
+        operator: receiving.operator,
+        createdAt: receiving.createdAt,
+      });
+    }
+    return receiving;
+  });
+
+  const listStocktakes = () => {
+    const rows = db.prepare('SELECT data FROM stocktakes ORDER BY completed_at').all() as DataRow[];
+    return rows.map(row => JSON.parse(row.data) as Stocktake);
+  };
+
+  // Counted lines with a variance become corrections; uncounted lines are
+  // only reported.
+  const getStocktake = (id: string) => {
+    const row = db.prepare('SELECT data FROM stocktakes WHERE id = ?').get(id) as DataRow | undefined;
+    return row ? JSON.parse(row.data) as Stocktake : undefined;
+  };
+
+  const insertStocktakeRow = (stocktake: Stocktake) => {
+    db.prepare(`
+      INSERT INTO stocktakes (id, completed_at, data, seq) VALUES (?, ?, ?, ?)
+    `).run(stocktake.id, stocktake.completedAt, JSON.stringify(stocktake), nextSeq());
+  };
+
+  const recordStocktake = db.transaction((stocktake: Stocktake) => {
+    const existing = getStocktake(stocktake.id);
+    if (existing) return existing;
+
+    insertStocktakeRow(stocktake);
+    for (const line of stocktake.lines) {
+      if (line.counted === undefined || line.variance === 0) continue;
+      adjustStock(line.productId, line.variance, 'stocktake', {
+        reference: stocktake.id,
+        note: `盘点 ${stocktake.stocktakeNo}`,
+        operator: stocktake.operator,
+        createdAt: stocktake.completedAt,
+      });
+    }
+    return stocktake;
+  });
+
+  const listPromotions = () => {
+    const rows = db.prepare('SELECT data FROM promotions WHERE deleted = 0 ORDER BY rowid').all() as DataRow[];
+    return rows.map(row => JSON.parse(row.data) as Promotion);
+  };
+
+  const getPromotionRow = (id: string) => {
+    return db.prepare('SELECT id, deleted, data FROM promotions WHERE id = ?').get(id) as DeletableRow | undefined;
+  };
+
+  // Upsert; also brings back a deleted promotion, which restoring a backup relies on
+  const putPromotion = (promotion: Promotion) => {
+    const stored = { ...promotion, updatedAt: now() };
+    db.prepare(`
+      INSERT INTO promotions (id, data, deleted, seq, updated_at) VALUES (@id, @data, 0, @seq, @updatedAt)
+      ON CONFLICT(id) DO UPDATE SET data = @data, deleted = 0, seq = @seq, updated_at = @updatedAt
+    `).run({ id: promotion.id, data: JSON.stringify(stored), seq: nextSeq(), updatedAt: stored.updatedAt });
+    return stored;
+  };
+
+  const deletePromotion = (id: string) => {
+    return db.prepare(`
+      UPDATE promotions SET deleted = 1, seq = ?, updated_at = ? WHERE id = ? AND deleted = 0
+    `).run(nextSeq(), now(), id).changes > 0;
+  };
+
+  const listCashiers = () => {
+    const rows = db.prepare('SELECT data FROM cashiers ORDER BY rowid').all() as DataRow[];
+    return rows.map(row => withoutPin(JSON.parse(row.data) as Cashier));
+  };
+
+  const getCashier = (id: string) => {
+    const row = db.prepare('SELECT data FROM cashiers WHERE id = ?').get(id) as DataRow | undefined;
+    return row ? JSON.parse(row.data) as Cashier : undefined;
+  };
+
+  const hasCashier = (id: string) => {
+    return !!db.prepare('SELECT 1 FROM cashiers WHERE id = ?').get(id);
+  };
+
+  // Signs approvals; made once per database and never sent anywhere
+  const approvalKey = (() => {
+    const row = db.prepare(`SELECT value FROM server_keys WHERE name = 'approval'`).get() as { value: string } | undefined;
+    if (row) return row.value;
+    const key = randomBytes(32).toString('hex');
+    db.prepare(`INSERT INTO server_keys (name, value) VALUES ('approval', ?)`).run(key);
+    return key;
+  })();
+  const sign = (payload: string) => createHmac('sha256', approvalKey).update(payload).digest('hex');
+
+  const pinFailures = new Map<string, { count: number; until: number }>();
+
+  // A correct PIN earns a signed approval the phone sends along with the
+  // changes it allows
+  const checkPin = (cashierId: string, pin: string): { approval?: string; error?: string } => {
+    const failures = pinFailures.get(cashierId);
+    const recent = failures && failures.until > Date.now() ? failures.count : 0;
+    if (recent >= MAX_PIN_ATTEMPTS) return { error: 'PIN 错误次数过多，请 5 分钟后再试' };
+    const cashier = getCashier(cashierId);
+    if (!cashier || cashier.disabled || !cashier.pinHash || !safeEqual(hashPin(cashierId, pin), cashier.pinHash)) {
+      pinFailures.set(cashierId, { count: recent + 1, until: Date.now() + PIN_LOCKOUT_MS });
+      return { error: 'PIN 不正确' };
+    }
+    pinFailures.delete(cashierId);
+    const payload = `${cashierId}.${Date.now() + APPROVAL_TTL_MS}`;
+    return { approval: `${payload}.${sign(payload)}` };
+  };
+
+  // Who an approval was issued to, while it is still good
+  const approvedCashierId = (approval?: string) => {
+    const [cashierId, expires, signature] = approval?.split('.') ?? [];
+    if (!signature || !(Number(expires) > Date.now())) return undefined;
+    return safeEqual(sign(`${cashierId}.${expires}`), signature) ? cashierId : undefined;
+  };
+
+  // The one role check made here rather than in the app: without it anyone
+  // on the shop's network could post themselves an owner account. Other
+  // owner-only changes are checked on the phone, which has to work offline.
+  const staffChangeError = (cashier: Cashier, approval?: string) => {
+    const active = listCashiers().filter(c => !c.disabled);
+    const approver = approvedCashierId(approval);
+    if (active.length > 0 && !active.some(c => c.id === approver && c.role === 'owner')) {
+      return `修改账号「${cashier.name}」需要店主输入 PIN 授权`;
+    }
+    if (!cashier.pinHash && !getCashier(cashier.id)?.pinHash) return `账号「${cashier.name}」还没有设置 PIN`;
+    const after = [...active.filter(c => c.id !== cashier.id), ...(cashier.disabled ? [] : [cashier])];
+    if (!after.some(c => c.role === 'owner')) return '至少要保留一个启用的店主账号';
+    return undefined;
+  };
+
+  const putCashier = (cashier: Cashier) => {
+    const stored = { ...cashier, updatedAt: now() };
+    db.prepare(`
+      INSERT INTO cashiers (id, data, seq, updated_at) VALUES (@id, @data, @seq, @updatedAt)
+      ON CONFLICT(id) DO UPDATE SET data = @data, seq = @seq, updated_at = @updatedAt
+    `).run({ id: cashier.id, data: JSON.stringify(stored), seq: nextSeq(), updatedAt: stored.updatedAt });
+    return stored;
+  };
+
+  const listShifts = () => {
+    const rows = db.prepare('SELECT data FROM shifts ORDER BY opened_at').all() as DataRow[];
+    return rows.map(row => JSON.parse(row.data) as Shift);
+  };
+
+  const getShift = (id: string) => {
+    const row = db.prepare('SELECT data FROM shifts WHERE id = ?').get(id) as DataRow | undefined;
+    return row ? JSON.parse(row.data) as Shift : undefined;
+  };
+
+  const putShift = (shift: Shift) => {
+    db.prepare(`
+      INSERT INTO shifts (id, opened_at, closed_at, data, seq) VALUES (@id, @openedAt, @closedAt, @data, @seq)
+      ON CONFLICT(id) DO UPDATE SET closed_at = @closedAt, data = @data, seq = @seq
+    `).run({ id: shift.id, openedAt: shift.openedAt, closedAt: shift.closedAt ?? null, data: JSON.stringify(shift), seq: nextSeq() });
+  };
+
+  // Once counted, a shift's figures are what was handed over; a late save
+  // from the device that opened it can't reopen it
+  const recordShift = (shift: Shift) => {
+    const existing = getShift(shift.id);
+    if (existing?.closedAt) return existing.closedAt === shift.closedAt ? undefined : `班次 ${shift.shiftNo} 已交班`;
+    putShift(shift);
+    return undefined;
+  };
+
+  const listSuppliers = () => {
+    const rows = db.prepare('SELECT data FROM suppliers WHERE deleted = 0 ORDER BY rowid').all() as DataRow[];
+    return rows.map(row => JSON.parse(row.data) as Supplier);
+  };
+
+  const getSupplierRow = (id: string) => {
+    return db.prepare('SELECT id, deleted, data FROM suppliers WHERE id = ?').get(id) as DeletableRow | undefined;
+  };
+
+  // Like promotions: upsert, bringing back a deleted supplier on restore
+  const putSupplier = (supplier: Supplier) => {
+    const stored = { ...supplier, updatedAt: now() };
+    db.prepare(`
+      INSERT INTO suppliers (id, data, deleted, seq, updated_at) VALUES (@id, @data, 0, @seq, @updatedAt)
+      ON CONFLICT(id) DO UPDATE SET data = @data, deleted = 0, seq = @seq, updated_at = @updatedAt
+    `).run({ id: supplier.id, data: JSON.stringify(stored), seq: nextSeq(), updatedAt: stored.updatedAt });
+    return stored;
+  };
+
+  const deleteSupplier = (id: string) => {
+    return db.prepare(`
+      UPDATE suppliers SET deleted = 1, seq = ?, updated_at = ? WHERE id = ? AND deleted = 0
+    `).run(nextSeq(), now(), id).changes > 0;
+  };
+
+  const listPurchaseOrders = () => {
+    const rows = db.prepare('SELECT data FROM purchase_orders ORDER BY created_at').all() as DataRow[];
+    return rows.map(row => JSON.parse(row.data) as PurchaseOrder);
+  };
+
+  const hasPurchaseOrder = (id: string) => {
+    return !!db.prepare('SELECT 1 FROM purchase_orders WHERE id = ?').get(id);
+  };
+
+  // Orders travel whole and the last save wins; deliveries against them are
+  // separate documents, so editing an order never loses what has arrived
+  const putPurchaseOrder = (order: PurchaseOrder) => {
+    const stored = { ...order, updatedAt: now() };
+    db.prepare(`
+      INSERT INTO purchase_orders (id, created_at, supplier_id, data, seq, updated_at)
+      VALUES (@id, @createdAt, @supplierId, @data, @seq, @updatedAt)
+      ON CONFLICT(id) DO UPDATE SET supplier_id = @supplierId, data = @data, seq = @seq, updated_at = @updatedAt
+    `).run({
+      id: order.id,
+      createdAt: order.createdAt,
+      supplierId: order.supplierId ?? null,
+      data: JSON.stringify(stored),
+      seq: nextSeq(),
+      updatedAt: stored.updatedAt,
+    });
+    return stored;
+  };
+
+  const listAuditLog = () => {
+    const rows = db.prepare('SELECT data FROM audit_log ORDER BY created_at').all() as DataRow[];
+    return rows.map(row => JSON.parse(row.data) as AuditEntry);
+  };
+
+  // Append only: an entry arriving twice is stored once
+  const recordAudit = (entry: AuditEntry) => {
+    db.prepare(`
+      INSERT OR IGNORE INTO audit_log (id, created_at, action, data, seq) VALUES (?, ?, ?, ?, ?)
+    `).run(entry.id, entry.createdAt, entry.action, JSON.stringify(entry), nextSeq());
+  };
+
+  const listMovements = (productId: string) => {
+    const rows = db.prepare(`
+      SELECT * FROM stock_movements WHERE product_id = ? ORDER BY created_at, rowid
+    `).all(productId) as MovementRow[];
+    return rows.map(rowToMovement);
+  };
+
+  // Stock at a moment is the ledger summed up to it, valued at the average
+  // cost its latest movement recorded. Movements from before costs were kept
+  // carry none, so those fall back to today's cost. Products deleted since
+  // still count for the time they were on the shelf.
+  const valuationAt = (at: string): ValuationLine[] => {
+    const rows = db.prepare(`
+      SELECT p.id, p.data, SUM(m.quantity) AS stock, (
+        SELECT c.unit_cost FROM stock_movements c
+        WHERE c.product_id = p.id AND c.created_at <= @at AND c.unit_cost IS NOT NULL
+        ORDER BY c.created_at DESC, c.rowid DESC LIMIT 1
+      ) AS unit_cost
+      FROM products p JOIN stock_movements m ON m.product_id = p.id AND m.created_at <= @at
+      WHERE p.deleted = 0 OR p.updated_at > @at
+      GROUP BY p.id
+    `).all({ at }) as { id: string; data: string; stock: number; unit_cost: number | null }[];
+    return rows.map(row => {
+      const product = JSON.parse(row.data) as Product;
+      return {
+        productId: row.id,
+        name: product.name,
+        barcode: product.barcode,
+        category: product.category,
+        stock: row.stock,
+        unitCost: row.unit_cost ?? product.costPrice,
+      };
+    });
+  };
+
+  // The ledger is the record of truth: a product whose stock column has
+  // drifted from the sum of its movements (e.g. after editing the database by
+  // hand) is reported, and with `fix` set brought back in line by a
+  // correction movement.
+  const reconcileStock = db.transaction((fix: boolean) => {
+    const rows = db.prepare(`
+      SELECT p.id, p.name, p.stock, COALESCE(SUM(m.quantity), 0) AS ledger
+      FROM products p LEFT JOIN stock_movements m ON m.product_id = p.id
+      WHERE p.deleted = 0
+      GROUP BY p.id
+      HAVING ABS(p.stock - ledger) > 1e-9
+    `).all() as { id: string; name: string; stock: number; ledger: number }[];
+
+    if (fix) {
+      for (const row of rows) {
+        db.prepare('UPDATE products SET stock = ?, seq = ?, updated_at = ? WHERE id = ?').run(row.ledger, nextSeq(), now(), row.id);
+        insertMovement({
+          productId: row.id,
+          type: 'adjustment',
+          quantity: 0,
+          stockAfter: row.ledger,
+          note: `按台账校正库存 (原记录 ${row.stock})`,
+        });
+      }
+    }
+    return rows.map(row => ({ productId: row.id, name: row.name, stock: row.stock, ledger: row.ledger }));
+  });
+
+  // One-off upload of data kept in browser localStorage before the server
+  // existed. Existing ids win, so a second device migrating its own copy only
+  // adds what the server hasn't seen. Legacy sales already reduced the legacy
+  // stock figures, so they are stored without moving stock again.
+  const importLegacy = db.transaction((products: Product[], sales: Sale[]) => {
+    let productCount = 0;
+    let saleCount = 0;
+    for (const product of products) {
+      if (getProductRow(product.id)) continue;
+      insertProductRow(product);
+      productCount++;
+    }
+    for (const sale of sales) {
+      if (getSale(sale.id)) continue;
+      insertSaleRow(sale);
+      saleCount++;
+    }
+    return { products: productCount, sales: saleCount };
+  });
+
+  // The backup's stock figures already include its sales, deliveries and
+  // counts, so those documents are only filed, not booked again. Documents
+  // the server already has are left untouched.
+  const restoreBackup = db.transaction((backup: BackupData) => {
+    replaceProducts(backup.products);
+    const restored = {
+      products: backup.products.length,
+      sales: 0,
+      refunds: 0,
+      receivings: 0,
+      stocktakes: 0,
+      promotions: backup.promotions.length,
+      shifts: 0,
+      auditLog: 0,
+      suppliers: backup.suppliers.length,
+      purchaseOrders: 0,
+    };
+    for (const sale of backup.sales) {
+      if (getSale(sale.id)) continue;
+      insertSaleRow(sale);
+      restored.sales++;
+    }
+    for (const refund of backup.refunds) {
+      if (getRefund(refund.id)) continue;
+      insertRefundRow(refund);
+      restored.refunds++;
+    }
+    for (const receiving of backup.receivings) {
+      if (getReceiving(receiving.id)) continue;
+      insertReceivingRow(receiving);
+      restored.receivings++;
+    }
+    for (const stocktake of backup.stocktakes) {
+      if (getStocktake(stocktake.id)) continue;
+      insertStocktakeRow(stocktake);
+      restored.stocktakes++;
+    }
+    // Promotions are set up like the catalogue, so they are replaced too
+    const keep = new Set(backup.promotions.map(p => p.id));
+    for (const existing of listPromotions()) {
+      if (!keep.has(existing.id)) deletePromotion(existing.id);
+    }
+    backup.promotions.forEach(putPromotion);
+    // Accounts already here keep their current PIN; an old backup must not
+    // bring back a PIN that was changed for a reason. Once the shop has
+    // accounts, a backup can't add any either, or it could add an owner.
+    // Backups made since PINs stay on the server carry none, so their
+    // accounts have to be set up again.
+    if (!listCashiers().some(c => !c.disabled)) {
+      backup.cashiers.filter(cashier => cashier.pinHash && !hasCashier(cashier.id)).forEach(putCashier);
+    }
+    for (const shift of backup.shifts) {
+      if (getShift(shift.id)) continue;
+      putShift(shift);
+      restored.shifts++;
+    }
+    const known = new Set(listAuditLog().map(entry => entry.id));
+    for (const entry of backup.auditLog) {
+      if (known.has(entry.id)) continue;
+      recordAudit(entry);
+      restored.auditLog++;
+    }
+    // The directory is set up like the catalogue and replaced with it
+    const suppliers = new Set(backup.suppliers.map(s => s.id));
+    for (const existing of listSuppliers()) {
+      if (!suppliers.has(existing.id)) deleteSupplier(existing.id);
+    }
+    backup.suppliers.forEach(putSupplier);
+    for (const order of backup.purchaseOrders) {
+      if (hasPurchaseOrder(order.id)) continue;
+      putPurchaseOrder(order);
+      restored.purchaseOrders++;
+    }
+    return restored;
+  });
+
+  // Edits carry only the fields the user changed. When someone else changed
+  // the product since the device last saw it, the edit is still applied field
+  // by field (last writer wins) but reported back as a conflict.
+  const saveProductChanges = (productId: string, baseVersion: number, changes: Partial<Product>): Omit<SyncOpResult, 'id'> & { product?: Product } => {
+    const patch: Partial<Product> = { ...changes };
+    for (const field of PROTECTED_FIELDS) delete patch[field];
+
+    const row = getProductRow(productId);
+    if (!row) {
+      if (baseVersion !== 0) {
+        return { status: 'rejected', message: '商品不存在' };
+      }
+      const product = insertProductRow({ ...patch, id: productId, stock: changes.stock ?? 0 } as Product);
+      return { status: 'applied', product };
+    }
+    if (row.deleted) {
+      return { status: 'rejected', message: '商品已在其他设备删除' };
+    }
+
+    const before = rowToProduct(row);
+    const merged: Record<string, unknown> = { ...before, ...patch };
+    for (const key of Object.keys(merged)) {
+      if (merged[key] === null) delete merged[key];
+    }
+    writeProductFields(merged as unknown as Product);
+    const product = getProduct(productId)!;
+    // A cost typed in by hand goes into the ledger as an empty movement, so
+    // valuations from then on use it
+    if (product.costPrice !== undefined && product.costPrice !== before.costPrice) {
+      insertMovement({
+        productId,
+        type: 'adjustment',
+        quantity: 0,
+        stockAfter: product.stock,
+        unitCost: product.costPrice,
+        note: `进价改为 ¥${product.costPrice}`,
+      });
+    }
+    return baseVersion === row.version
+      ? { status: 'applied', product }
+      : { status: 'conflict', message: `「${product.name}」已被其他设备修改，已合并`, product };
+  };
+
+  const applyOp = (op: SyncOp): SyncOpResult => {
+    switch (op.type) {
+      case 'product.save': {
+        const { status, message } = saveProductChanges(op.productId, op.baseVersion, op.changes);
+        return { id: op.id, status, message };
+      }
+      case 'product.delete':
+        deleteProduct(op.productId);
+        return { id: op.id, status: 'applied' };
+      case 'stock.adjust':
+        // Ops queued by older clients carry no movement type
+        return adjustStock(op.productId, op.quantity, op.movementType ?? 'adjustment', {
+          note: op.note,
+          operator: op.operator,
+          createdAt: op.createdAt,
+        })
+          ? { id: op.id, status: 'applied' }
+          : { id: op.id, status: 'rejected', message: '商品不存在' };
+      case 'sale.create': {
+        const { error } = recordSale(op.sale);
+        return error ? { id: op.id, status: 'rejected', message: error } : { id: op.id, status: 'applied' };
+      }
+      case 'refund.create': {
+        const { error } = recordRefund(op.refund);
+        return error ? { id: op.id, status: 'rejected', message: error } : { id: op.id, status: 'applied' };
+      }
+      case 'receiving.create':
+        recordReceiving(op.receiving);
+        return { id: op.id, status: 'applied' };
+      case 'stocktake.create':
+        recordStocktake(op.stocktake);
+        return { id: op.id, status: 'applied' };
+      case 'promotion.save':
+        if (getPromotionRow(op.promotion.id)?.deleted) {
+          return { id: op.id, status: 'rejected', message: `促销「${op.promotion.name}」已在其他设备删除` };
+        }
+        putPromotion(op.promotion);
+        return { id: op.id, status: 'applied' };
+      case 'promotion.delete':
+        deletePromotion(op.promotionId);
+        return { id: op.id, status: 'applied' };
+      case 'cashier.save': {
+        const error = staffChangeError(op.cashier, op.approval);
+        if (error) return { id: op.id, status: 'rejected', message: error };
+        // Without a new PIN the account keeps its current one
+        putCashier({ ...op.cashier, pinHash: op.cashier.pinHash ?? getCashier(op.cashier.id)?.pinHash });
+        return { id: op.id, status: 'applied' };
+      }
+      case 'shift.save': {
+        const error = recordShift(op.shift);
+        return error ? { id: op.id, status: 'rejected', message: error } : { id: op.id, status: 'applied' };
+      }
+      case 'audit.create':
+        recordAudit(op.entry);
+        return { id: op.id, status: 'applied' };
+      case 'supplier.save':
+        if (getSupplierRow(op.supplier.id)?.deleted) {
+          return { id: op.id, status: 'rejected', message: `供应商「${op.supplier.name}」已在其他设备删除` };
+        }
+        putSupplier(op.supplier);
+        return { id: op.id, status: 'applied' };
+      case 'supplier.delete':
+        deleteSupplier(op.supplierId);
+        return { id: op.id, status: 'applied' };
+      case 'purchaseOrder.save':
+        putPurchaseOrder(op.purchaseOrder);
+        return { id: op.id, status: 'applied' };
+    }
+  };
+
+  const rememberResult = (result: SyncOpResult) => {
+    db.prepare('INSERT INTO applied_ops (id, result, applied_at) VALUES (?, ?, ?)').run(result.id, JSON.stringify(result), now());
+  };
+
+  // Ops are applied in order, each in its own transaction, and remembered by
+  // id so a batch resent after a lost response is not applied twice. An op
+  // whose data can never be applied is rolled back and rejected on its own,
+  // or it would block everything queued after it. Any other error fails the
+  // request and the device resends from that op, since a rejected op leaves
+  // its queue for good.
+  const applyOps = (ops: SyncOp[]) => {
+    return ops.map(op => {
+      try {
+        return db.transaction(() => {
+          const seen = db.prepare('SELECT result FROM applied_ops WHERE id = ?').get(op.id) as { result: string } | undefined;
+          if (seen) return JSON.parse(seen.result) as SyncOpResult;
+
+          const result = applyOp(op);
+          rememberResult(result);
+          return result;
+        })();
+      } catch (err) {
+        if (!isPermanentFailure(err)) throw err;
+        console.error(`Rejected sync op ${op.id} (${op.type})`, err);
+        const result: SyncOpResult = {
+          id: op.id,
+          status: 'rejected',
+          message: `有一项修改未能同步：${err instanceof Error ? err.message : String(err)}`,
+        };
+        rememberResult(result);
+        return result;
+      }
+    });
+  };
+
+  const changesSince = (cursor: number): SyncPull => {
+    const productRows = db.prepare(`
+      SELECT id, stock, version, deleted, data FROM products WHERE seq > ? ORDER BY seq
+    `).all(cursor) as ProductRow[];
+    const saleRows = db.prepare('SELECT data FROM sales WHERE seq > ? ORDER BY seq').all(cursor) as DataRow[];
+    const refundRows = db.prepare('SELECT data FROM refunds WHERE seq > ? ORDER BY seq').all(cursor) as DataRow[];
+    const receivingRows = db.prepare('SELECT data FROM receivings WHERE seq > ? ORDER BY seq').all(cursor) as DataRow[];
+    const stocktakeRows = db.prepare('SELECT data FROM stocktakes WHERE seq > ? ORDER BY seq').all(cursor) as DataRow[];
+    const promotionRows = db.prepare('SELECT id, deleted, data FROM promotions WHERE seq > ? ORDER BY seq').all(cursor) as DeletableRow[];
+    const cashierRows = db.prepare('SELECT data FROM cashiers WHERE seq > ? ORDER BY seq').all(cursor) as DataRow[];
+    const shiftRows = db.prepare('SELECT data FROM shifts WHERE seq > ? ORDER BY seq').all(cursor) as DataRow[];
+    const auditRows = db.prepare('SELECT data FROM audit_log WHERE seq > ? ORDER BY seq').all(cursor) as DataRow[];
+    const supplierRows = db.prepare('SELECT id, deleted, data FROM suppliers WHERE seq > ? ORDER BY seq').all(cursor) as DeletableRow[];
+    const orderRows = db.prepare('SELECT data FROM purchase_orders WHERE seq > ? ORDER BY seq').all(cursor) as DataRow[];
+    const { seq } = db.prepare('SELECT seq FROM sync_state WHERE id = 1').get() as { seq: number };
+
+    return {
+      cursor: seq,
+      products: productRows.filter(row => !row.deleted).map(rowToProduct),
+      deletedProductIds: productRows.filter(row => row.deleted).map(row => row.id),
+      sales: saleRows.map(row => JSON.parse(row.data) as Sale),
+      refunds: refundRows.map(row => JSON.parse(row.data) as Refund),
+      receivings: receivingRows.map(row => JSON.parse(row.data) as Receiving),
+      stocktakes: stocktakeRows.map(row => JSON.parse(row.data) as Stocktake),
+      promotions: promotionRows.filter(row => !row.deleted).map(row => JSON.parse(row.data) as Promotion),
+      deletedPromotionIds: promotionRows.filter(row => row.deleted).map(row => row.id),
+      cashiers: cashierRows.map(row => withoutPin(JSON.parse(row.data) as Cashier)),
+      shifts: shiftRows.map(row => JSON.parse(row.data) as Shift),
+      auditLog: auditRows.map(row => JSON.parse(row.data) as AuditEntry),
+      suppliers: supplierRows.filter(row => !row.deleted).map(row => JSON.parse(row.data) as Supplier),
+      deletedSupplierIds: supplierRows.filter(row => row.deleted).map(row => row.id),
+      purchaseOrders: orderRows.map(row => JSON.parse(row.data) as PurchaseOrder),
+    };
+  };
+
+  return {
+    getProduct,
+    listProducts,
+    createProduct,
+    updateProduct,
+    deleteProduct,
+    replaceProducts,
+    listSales,
+    getSale,
+    recordSale,
+    listRefunds,
+    recordRefund,
+    listReceivings,
+    recordReceiving,
+    listStocktakes,
+    recordStocktake,
+    listPromotions,
+    listCashiers,
+    checkPin,
+    listShifts,
+    listAuditLog,
+    listSuppliers,
+    listPurchaseOrders,
+    listMovements,
+    valuationAt,
+    reconcileStock,
+    importLegacy,
+    restoreBackup,
+    applyOps,
+    changesSince,
+  };
+}
+
+export type Store = ReturnType<typeof createStore>;
@@ -3,137 +3,890 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { 
   LayoutGrid, 
   ShoppingCart, 
   Settings as SettingsIcon, 
   Plus, 
-  Trash2, 
-  Edit3, 
-  Search, 
   Download, 
   Upload, 
   Share2, 
   Send,
   Barcode,
   X,
-  Check
+  Check,
+  Receipt,
+  CloudOff,
+  RefreshCw,
+  History,
+  User,
+  ClipboardCheck,
+  ClipboardList,
+  BadgePercent,
+  AlertTriangle,
+  FileSpreadsheet,
+  PackagePlus,
+  Scale,
+  Printer,
+  Sparkles,
+  ScanLine,
+  Users,
+  Wallet,
+  ShieldCheck,
+  LogOut,
+  Truck,
+  Archive,
+  Tag
 } from 'lucide-react';
 import { Toaster, toast } from 'react-hot-toast';
-import { useInventory, Product } from './hooks/useInventory';
+import { useInventory, type StockAdjustment } from './hooks/useInventory';
+import { useSettings, OVERSELL_POLICY_LABELS, type OversellPolicy } from './hooks/useSettings';
+import { useStocktake } from './hooks/useStocktake';
+import { useCart } from './hooks/useCart';
+import { useKeyboardWedge } from './hooks/useKeyboardWedge';
+import { useSession } from './hooks/useSession';
+import { useSnapshots } from './hooks/useSnapshots';
+import {
+  CASHIER_ROLE_LABELS,
+  MOVEMENT_TYPE_LABELS,
+  type AuditAction,
+  type Cashier,
+  type CartItem,
+  type Discount,
+  type Payment,
+  type Product,
+  type ProductBarcode,
+  type Promotion,
+  type PurchaseOrder,
+  type PurchaseOrderItem,
+  type ReceivingItem,
+  type Sale,
+  type Supplier
+} from './types';
 import { Scanner } from './components/Scanner';
-import { clsx, type ClassValue } from 'clsx';
-import { twMerge } from 'tailwind-merge';
+import { Cart } from './components/Cart';
+import { ProductLookup } from './components/ProductLookup';
+import { CheckoutModal } from './components/CheckoutModal';
+import { SalesHistory } from './components/SalesHistory';
+import { StockHistory } from './components/StockHistory';
+import { StockAdjustModal } from './components/StockAdjustModal';
+import { ReceivingPanel } from './components/ReceivingPanel';
+import { StocktakePanel } from './components/StocktakePanel';
+import { InventoryList } from './components/InventoryList';
+import { CategoryManager } from './components/CategoryManager';
+import { ImportModal } from './components/ImportModal';
+import { ReorderPanel } from './components/ReorderPanel';
+import { PromotionPanel } from './components/PromotionPanel';
+import { ScaleFormatModal } from './components/ScaleFormatModal';
+import { PackBarcodeEditor } from './components/PackBarcodeEditor';
+import { ReceiptModal } from './components/ReceiptModal';
+import { RefundModal } from './components/RefundModal';
+import { ProductRecognizeButton } from './components/ProductRecognizeButton';
+import { AssistantModal } from './components/AssistantModal';
+import { ReceiptSettingsModal } from './components/ReceiptSettingsModal';
+import { ScannerSettingsModal } from './components/ScannerSettingsModal';
+import { PinModal } from './components/PinModal';
+import { CashierManager } from './components/CashierManager';
+import { ShiftModal } from './components/ShiftModal';
+import { AuditLog } from './components/AuditLog';
+import { ValuationReport } from './components/ValuationReport';
+import { SupplierManager } from './components/SupplierManager';
+import { PurchaseOrders } from './components/PurchaseOrders';
+import { SnapshotRestore } from './components/SnapshotRestore';
+import { LabelPrinter } from './components/LabelPrinter';
+import { addToReceiving } from './lib/receiving';
+import { findByPlu, parseScaleBarcode, scaleQuantity } from './lib/scaleBarcode';
+import { barcodeConflicts, packLabel } from './lib/barcodes';
+import { PRINT_MODE_LABELS } from './lib/receipt';
+import { cartLineKey, describeDiscount } from './lib/sales';
+import { findSaleByOrderNo, type RefundSelection } from './lib/refunds';
+import { scanFeedback, type ScanOutcome } from './lib/feedback';
+import { SCAN_FORMAT_LABELS } from './lib/scanning';
+import { isWeighed, parseQuantity, quantityStep, withUnit, WEIGHT_UNIT } from './lib/units';
+import { DEFAULT_MIN_STOCK, listCategories } from './lib/productSearch';
+import type { ReorderSuggestion } from './lib/reorder';
+import {
+  buildPurchaseOrder,
+  buildSupplier,
+  isAwaitingDelivery,
+  outstandingReceivingItems,
+  purchaseOrderProgress,
+  type SupplierDraft
+} from './lib/purchasing';
+import { buildSalesReport, reportToText } from './lib/report';
+import { activeCashiers, buildCashier, PERMISSION_LABELS, rememberPin, type CashierDraft, type Permission } from './lib/cashiers';
+import { buildAuditEntry, type AuditFields } from './lib/audit';
+import { formatMarginRate, marginOf } from './lib/costing';
+import { buildShift, cashDifference, closeShift, findOpenShift, getDeviceId, summarizeShift } from './lib/shifts';
+import { endOfDay, formatDateTime, startOfDay, toDateKey } from './lib/date';
+import { downloadFile, shareFile, shareText } from './lib/share';
+import { buildBackup, type Backup } from './lib/backup';
+import { productsToRows, type ImportPlan } from './lib/productImport';
+import { downloadSpreadsheet, type SheetFormat } from './lib/spreadsheet';
+import type { Snapshot } from './lib/snapshots';
+import { findLabelSize, generateInternalBarcode, LABEL_CODE_TYPE_LABELS } from './lib/labels';
+import { cn } from './lib/utils';
 
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
-}
-
-type Tab = 'checkout' | 'inventory' | 'settings';
+type Tab = 'checkout' | 'inventory' | 'sales' | 'settings';
 
 export default function App() {
   const [activeTab, setActiveTab] = useState<Tab>('checkout');
-  const { products, addProduct, updateProduct, deleteProduct, findByBarcode, exportData, importData } = useInventory();
+  const {
+    products,
+    sales,
+    refunds,
+    receivings,
+    stocktakes,
+    promotions,
+    cashiers,
+    shifts,
+    auditLog,
+    suppliers,
+    purchaseOrders,
+    loading,
+    isOnline,
+    isSyncing,
+    pendingCount,
+    syncError,
+    conflicts,
+    dismissConflicts,
+    syncNow,
+    addProduct,
+    updateProduct,
+    renameCategory,
+    deleteProduct,
+    adjustStock,
+    getStockHistory,
+    getValuation,
+    reconcileStock,
+    findByBarcode,
+    checkout,
+    refundSale,
+    receiveGoods,
+    completeStocktake,
+    savePromotion,
+    deletePromotion,
+    saveCashier,
+    saveShift,
+    recordAudit,
+    saveSupplier,
+    deleteSupplier,
+    savePurchaseOrder,
+    applyImport,
+    restoreBackup
+  } = useInventory();
+  const { settings, updateSettings } = useSettings();
+  const session = useSession(cashiers);
+  // The signed-in account's name wins over the typed-in one
+  const operatorName = session.cashier?.name ?? settings.operatorName;
+  const isLocked = !loading && session.accountsEnabled && !session.cashier;
+  const [deviceId] = useState(getDeviceId);
+  const currentShift = findOpenShift(shifts, deviceId);
+  const {
+    draft: stocktakeDraft,
+    start: startStocktake,
+    addCount: addStocktakeCount,
+    setCount: setStocktakeCount,
+    discard: discardStocktake
+  } = useStocktake();
   
   // Checkout State
-  const [cart, setCart] = useState<{ product: Product; quantity: number }[]>([]);
+  const cart = useCart(promotions);
   const [isScanning, setIsScanning] = useState(false);
+  const [isCheckoutOpen, setIsCheckoutOpen] = useState(false);
+  // The receipt shown after a sale, or reopened from the order history
+  const [receiptSale, setReceiptSale] = useState<Sale | null>(null);
+  // 'lookup' until the order number is entered or scanned
+  const [refundingSale, setRefundingSale] = useState<Sale | 'lookup' | null>(null);
+  const [isAssistantOpen, setIsAssistantOpen] = useState(false);
+
+  // Goods Receiving State
+  const [isReceiving, setIsReceiving] = useState(false);
+  const [receivingItems, setReceivingItems] = useState<ReceivingItem[]>([]);
+  // Set while checking a delivery off against a purchase order
+  const [receivingOrderId, setReceivingOrderId] = useState<string | null>(null);
+  const receivingOrder = purchaseOrders.find(o => o.id === receivingOrderId);
+
+  // Stocktake State
+  const [isStocktaking, setIsStocktaking] = useState(false);
+
+  const [isReordering, setIsReordering] = useState(false);
+  const [isValuationOpen, setIsValuationOpen] = useState(false);
+  const [isManagingPromotions, setIsManagingPromotions] = useState(false);
+
+  // Which list a scan goes into
+  const scanMode = activeTab !== 'inventory'
+    ? 'checkout'
+    : isReceiving ? 'receiving' : isStocktaking ? 'stocktake' : 'checkout';
 
   // Inventory Modal State
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Partial<Product> | null>(null);
+  const [isCategoryManagerOpen, setIsCategoryManagerOpen] = useState(false);
+  const [isScaleFormatOpen, setIsScaleFormatOpen] = useState(false);
+  const [isReceiptSettingsOpen, setIsReceiptSettingsOpen] = useState(false);
+  const [isScannerSettingsOpen, setIsScannerSettingsOpen] = useState(false);
+  // Products on the label sheet; null while it is closed
+  const [labelProductIds, setLabelProductIds] = useState<string[] | null>(null);
+
+  // A picked file opens the import preview; nothing changes until confirmed
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [isSnapshotsOpen, setIsSnapshotsOpen] = useState(false);
+
+  // Staff State
+  const [isCashierManagerOpen, setIsCashierManagerOpen] = useState(false);
+  // The server's approval for the owner PIN that opened the account manager
+  const [staffApproval, setStaffApproval] = useState<string>();
+  const [isShiftOpen, setIsShiftOpen] = useState(false);
+  const [isAuditLogOpen, setIsAuditLogOpen] = useState(false);
+
+  // Purchasing State
+  const [isSupplierManagerOpen, setIsSupplierManagerOpen] = useState(false);
+  // 'list' shows every order; an order opens on its details
+  const [viewingOrders, setViewingOrders] = useState<PurchaseOrder | 'list' | null>(null);
+  const openOrderCount = purchaseOrders.filter(o => isAwaitingDelivery(purchaseOrderProgress(o, receivings))).length;
+  // A cashier's gated action, waiting for an owner's PIN. `online` ones need
+  // the server to have checked it.
+  const [pendingApproval, setPendingApproval] = useState<{
+    permission: Permission;
+    online?: boolean;
+    run: (approver?: Cashier, approval?: string) => void;
+  } | null>(null);
+
+  // Stock ledger state, keyed by id so the views follow live stock changes
+  const [historyProductId, setHistoryProductId] = useState<string | null>(null);
+  const [adjustingProductId, setAdjustingProductId] = useState<string | null>(null);
+  const historyProduct = products.find(p => p.id === historyProductId);
+  const adjustingProduct = products.find(p => p.id === adjustingProductId);
+
+  // Surface edits that were merged with, or rejected because of, another device
+  useEffect(() => {
+    if (conflicts.length === 0) return;
+    conflicts.forEach(message => toast(message, { icon: '⚠️' }));
+    dismissConflicts();
+  }, [conflicts, dismissConflicts]);
+
+  // Sensitive actions are logged against whoever is signed in
+  const audit = (action: AuditAction, detail: string, fields: AuditFields = {}) => {
+    recordAudit(buildAuditEntry(action, detail, { cashierId: session.cashier?.id, operator: operatorName, ...fields }))
+      .catch(err => console.error('Failed to record audit entry', err));
+  };
+
+  // Runs straight away when allowed, otherwise once an owner enters their PIN
+  const withPermission = (permission: Permission, run: (approver?: Cashier) => void) => {
+    if (session.can(permission)) run();
+    else setPendingApproval({ permission, run });
+  };
+
+  const handleApprove = (owner: Cashier, approval?: string) => {
+    if (!pendingApproval) return;
+    setPendingApproval(null);
+    if (pendingApproval.online && !approval) {
+      toast.error('无法连接门店服务器，请联网后再试');
+      return;
+    }
+    audit('override', `授权${PERMISSION_LABELS[pendingApproval.permission]}`, { approvedBy: owner.name });
+    pendingApproval.run(owner, approval);
+  };
+
+  // The server checks account changes itself, so they always take an owner's
+  // PIN it has confirmed, even with an owner signed in
+  const openCashierManager = () => {
+    if (!session.accountsEnabled) {
+      setStaffApproval(undefined);
+      setIsCashierManagerOpen(true);
+      return;
+    }
+    setPendingApproval({
+      permission: 'staff',
+      online: true,
+      run: (_owner, approval) => {
+        setStaffApproval(approval);
+        setIsCashierManagerOpen(true);
+      },
+    });
+  };
 
-  const totalAmount = cart.reduce((sum, item) => sum + item.product.price * item.quantity, 0);
+  const cartCount = cart.items.reduce((sum, item) => sum + (isWeighed(item.product) ? 1 : item.quantity), 0);
+
+  // Applies the oversell policy; returns false when the quantity was refused
+  const allowQuantity = (product: Product, quantity: number) => {
+    if (quantity <= product.stock) return true;
+    const message = `库存不足: ${product.name} 仅剩 ${withUnit(Math.max(0, product.stock), product)}`;
+    if (settings.oversellPolicy === 'block') {
+      toast.error(message);
+      return false;
+    }
+    toast(`${message}，已加入购物车`, { icon: '⚠️' });
+    return true;
+  };
+
+  // `quantity` counts packs when a pack is given
+  const addToCart = (product: Product, quantity = 1, pack?: ProductBarcode) => {
+    const total = cart.quantityOf(product.id) + quantity * (pack?.factor ?? 1);
+    if (!allowQuantity(product, total)) return;
+    cart.add(product, quantity, pack);
+    if (total <= product.stock) {
+      toast.success(
+        pack ? `已添加: ${product.name} 1${packLabel(product, pack)}`
+          : isWeighed(product) ? `已添加: ${product.name} ${withUnit(quantity, product)}`
+          : `已添加: ${product.name}`
+      );
+    }
+  };
+
+  const handleCartQuantity = (item: CartItem, quantity: number) => {
+    const key = cartLineKey(item);
+    const factor = item.pack?.factor ?? 1;
+    const total = cart.quantityOf(item.product.id) + (quantity - item.quantity) * factor;
+    if (quantity <= 0) {
+      cart.remove(key);
+    } else if (quantity <= item.quantity || allowQuantity(item.product, total)) {
+      cart.setQuantity(key, quantity);
+    }
+  };
+
+  // A catalogue barcode is one piece, a pack barcode one pack; a scale label
+  // carries its own weight
+  const lookupBarcode = (barcode: string) => {
+    const match = findByBarcode(barcode);
+    if (match) return { product: match.product, quantity: 1, pack: match.pack };
+    const reading = parseScaleBarcode(barcode, settings.scaleFormats);
+    if (!reading) return undefined;
+    const weighed = findByPlu(products, reading.plu);
+    const quantity = weighed && scaleQuantity(reading, weighed);
+    return weighed && quantity ? { product: weighed, quantity } : { plu: reading.plu };
+  };
 
   const handleScan = useCallback((barcode: string) => {
-    const product = findByBarcode(barcode);
-    if (product) {
-      setCart(prev => {
-        const existing = prev.find(item => item.product.barcode === barcode);
-        if (existing) {
-          return prev.map(item => 
-            item.product.barcode === barcode 
-              ? { ...item, quantity: item.quantity + 1 } 
-              : item
-          );
-        }
-        return [...prev, { product, quantity: 1 }];
-      });
-      toast.success(`已添加: ${product.name}`);
-      // Beep or haptic feedback could be added here
+    // In continuous mode the camera stays open unless a form takes over
+    const done = (outcome: ScanOutcome, keepScanning = settings.scanner.continuous) => {
+      scanFeedback(outcome, settings.scanner);
+      if (!keepScanning) setIsScanning(false);
+    };
+    const found = lookupBarcode(barcode);
+    if (found && 'plu' in found) {
+      // A scale label, but no weighed product carries its PLU
+      toast.error(`未找到 PLU ${found.plu} 的称重商品`);
+      done('unknown');
+      return;
+    }
+    const product = found?.product;
+    const quantity = found?.quantity ?? 1;
+    const pack = found && 'pack' in found ? found.pack : undefined;
+    // Counting and receiving work in units of stock: a case is 24 bottles
+    const units = quantity * (pack?.factor ?? 1);
+    // The barcode on a customer's receipt starts a return
+    const returnedSale = product ? undefined : findSaleByOrderNo(sales, barcode);
+    if (scanMode === 'stocktake') {
+      // Counting only covers products already in the catalogue
+      if (product) {
+        addStocktakeCount(product.id, product.stock, units);
+        toast.success(`盘点: ${product.name} +${withUnit(units, product)}`);
+        done('found');
+      } else {
+        toast.error(`未找到条码: ${barcode}`);
+        done('unknown');
+      }
+    } else if (product && scanMode === 'receiving') {
+      setReceivingItems(prev => addToReceiving(prev, product, units));
+      toast.success(`入库: ${product.name}${units !== 1 ? ` +${withUnit(units, product)}` : ''}`);
+      done('found');
+    } else if (product) {
+      addToCart(product, quantity, pack);
+      done('found');
+    } else if (returnedSale) {
+      setRefundingSale(returnedSale);
+      done('found', false);
     } else {
       toast.error(`未找到条码: ${barcode}`);
-      // Optionally open add product modal with this barcode
-      setEditingProduct({ barcode, name: '', price: 0, stock: 0 });
-      setIsModalOpen(true);
+      // Those who may add products get the form with this barcode filled in
+      if (session.can('product.edit')) {
+        setEditingProduct({ barcode, name: '', price: 0, stock: 0 });
+        setIsModalOpen(true);
+        done('unknown', false);
+      } else {
+        done('unknown');
+      }
     }
+  }, [findByBarcode, products, sales, scanMode, addStocktakeCount, cart, session, settings.oversellPolicy, settings.scaleFormats, settings.scanner]);
+
+  const handleCameraChange = (cameraId: string) => {
+    updateSettings({ scanner: { ...settings.scanner, cameraId } });
+  };
+
+  // A handheld scanner works on whatever page is showing: checkout, receiving
+  // and stocktake take it like a camera scan, the product list opens the
+  // product and the sales list the order
+  const handleWedgeScan = (barcode: string) => {
+    if (activeTab === 'checkout' || scanMode !== 'checkout') {
+      handleScan(barcode);
+    } else if (activeTab === 'inventory') {
+      const match = findByBarcode(barcode);
+      if (match) {
+        scanFeedback('found', settings.scanner);
+        openEditProduct(match.product);
+      } else {
+        handleScan(barcode);
+      }
+    } else if (activeTab === 'sales') {
+      const sale = findSaleByOrderNo(sales, barcode);
+      if (sale) {
+        setRefundingSale(sale);
+        scanFeedback('found', settings.scanner);
+      } else {
+        toast.error(`未找到订单 ${barcode}`);
+        scanFeedback('unknown', settings.scanner);
+      }
+    }
+  };
+
+  // Open forms and dialogs get the keystrokes to themselves
+  const isOverlayOpen = isModalOpen || isCheckoutOpen || !!receiptSale || !!refundingSale || isAssistantOpen
+    || isCategoryManagerOpen || isScaleFormatOpen || isReceiptSettingsOpen || isScannerSettingsOpen
+    || !!importFile || !!historyProductId || !!adjustingProductId
+    || isValuationOpen || isCashierManagerOpen || isShiftOpen || isAuditLogOpen || !!pendingApproval || isLocked
+    || isSupplierManagerOpen || !!viewingOrders || isSnapshotsOpen || !!labelProductIds;
+  useKeyboardWedge(handleWedgeScan, settings.scanner.wedge, settings.scanner.wedge.enabled && !isOverlayOpen);
+
+  const switchTab = (tab: Tab) => {
+    setActiveTab(tab);
     setIsScanning(false);
-  }, [findByBarcode]);
+  };
 
-  const handleAddOrUpdateProduct = (e: React.FormEvent) => {
+  const handleReceive = async (supplier: string) => {
+    // A typed-in name that is in the directory links the delivery to it
+    const known = suppliers.find(s => s.name === supplier.trim());
+    try {
+      const receiving = await receiveGoods(receivingItems, supplier, operatorName, {
+        supplierId: known?.id,
+        purchaseOrderId: receivingOrder?.id,
+      });
+      setReceivingItems([]);
+      setReceivingOrderId(null);
+      toast.success(`已入库 ${receiving.itemCount} 件商品`);
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '入库失败');
+      return false;
+    }
+  };
+
+  // The purchase list becomes the expected delivery, ready to scan against
+  const handleReceiveReorder = (suggestions: ReorderSuggestion[]) => {
+    setReceivingItems(prev => suggestions.reduce((items, s) => addToReceiving(items, s.product, s.suggestedQty), prev));
+    setIsReordering(false);
+    setIsReceiving(true);
+  };
+
+  const handleSaveSupplier = async (draft: SupplierDraft) => {
+    try {
+      await saveSupplier(buildSupplier(draft, suppliers));
+      toast.success('供应商已保存');
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '保存失败');
+      return false;
+    }
+  };
+
+  const handleDeleteSupplier = async (supplier: Supplier) => {
+    if (!confirm(`确定要删除供应商「${supplier.name}」吗？已有的采购单和入库记录会保留。`)) return false;
+    try {
+      await deleteSupplier(supplier.id);
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '删除失败');
+      return false;
+    }
+  };
+
+  const handleCreatePurchaseOrder = async (supplier: Supplier, items: PurchaseOrderItem[]) => {
+    try {
+      const order = buildPurchaseOrder(supplier, items, '', operatorName);
+      await savePurchaseOrder(order);
+      toast.success(`已生成采购单 ${order.orderNo}`);
+      setViewingOrders(order);
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '生成失败');
+      return false;
+    }
+  };
+
+  // What is still to come replaces the receiving list, ready to scan against
+  const handleReceiveOrder = (order: PurchaseOrder) => {
+    setReceivingItems(outstandingReceivingItems(purchaseOrderProgress(order, receivings)));
+    setReceivingOrderId(order.id);
+    setViewingOrders(null);
+    setIsReordering(false);
+    setIsStocktaking(false);
+    setIsReceiving(true);
+    switchTab('inventory');
+  };
+
+  const handleCloseOrder = async (order: PurchaseOrder) => {
+    try {
+      await savePurchaseOrder({ ...order, closedAt: new Date().toISOString() });
+      toast.success('采购单已关闭');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '关闭失败');
+    }
+  };
+
+  const handleCompleteStocktake = async () => {
+    if (!stocktakeDraft) return null;
+    try {
+      const result = await completeStocktake(stocktakeDraft, operatorName);
+      discardStocktake();
+      toast.success(`盘点完成，已修正 ${result.lines.filter(l => l.counted !== undefined && l.variance !== 0).length} 个商品的库存`);
+      return result;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '盘点失败');
+      return null;
+    }
+  };
+
+  const handleCheckout = async (payment: Payment) => {
+    try {
+      const sale = await checkout(cart.items, payment, operatorName, cart.adjustments, currentShift?.id);
+      cart.clear();
+      setIsCheckoutOpen(false);
+      setReceiptSale(sale);
+      toast.success(sale.change ? `收款成功，找零 ¥${sale.change.toFixed(2)}` : '收款成功');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '结账失败');
+    }
+  };
+
+  const handleRefund = async (sale: Sale, selections: RefundSelection[], reason: string) => {
+    try {
+      const refund = await refundSale(sale, selections, reason, operatorName, currentShift?.id);
+      audit('refund', `订单 ${sale.orderNo} 退款 ¥${refund.totalAmount.toFixed(2)}${reason ? ` · ${reason}` : ''}`, { reference: refund.id });
+      toast.success(`已退款 ¥${refund.totalAmount.toFixed(2)}`);
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '退款失败');
+      return false;
+    }
+  };
+
+  const openNewProduct = () => {
+    withPermission('product.edit', () => {
+      setEditingProduct({ barcode: '', name: '', price: 0, stock: 0 });
+      setIsModalOpen(true);
+    });
+  };
+
+  const openEditProduct = (product: Product) => {
+    withPermission('product.edit', () => {
+      setEditingProduct(product);
+      setIsModalOpen(true);
+    });
+  };
+
+  // Taking a discount off is always allowed; giving one may need an owner
+  const handleLineDiscount = (key: string, discount?: Discount) => {
+    if (!discount) {
+      cart.setLineDiscount(key);
+      return;
+    }
+    withPermission('discount', approver => {
+      cart.setLineDiscount(key, discount);
+      const item = cart.items.find(i => cartLineKey(i) === key);
+      audit('discount', `${item?.product.name ?? '商品'} ${describeDiscount(discount)}`, { approvedBy: approver?.name });
+    });
+  };
+
+  const handleOrderDiscount = (discount?: Discount) => {
+    if (!discount) {
+      cart.setOrderDiscount();
+      return;
+    }
+    withPermission('discount', approver => {
+      cart.setOrderDiscount(discount);
+      audit('discount', `整单 ${describeDiscount(discount)}`, { approvedBy: approver?.name });
+    });
+  };
+
+  const handleRenameCategory = async (from: string, to: string) => {
+    try {
+      await renameCategory(from, to);
+      toast.success(to ? '分类已更新' : '分类已删除');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '操作失败');
+    }
+  };
+
+  // Shown as the codes are typed, so a clash is caught before saving
+  const barcodeProblems = editingProduct
+    ? barcodeConflicts(editingProduct.soldByWeight ? { ...editingProduct, barcodes: undefined } : editingProduct, products)
+    : [];
+
+  const productMargin = editingProduct && marginOf(editingProduct.price ?? 0, editingProduct.costPrice);
+
+  // Loose and homemade goods get a code from the in-store range
+  const handleGenerateBarcode = () => {
+    try {
+      const barcode = generateInternalBarcode(products, settings.labels.codeType, settings.scaleFormats);
+      setEditingProduct(prev => ({ ...prev, barcode }));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '生成条码失败');
+    }
+  };
+
+  const handleAddOrUpdateProduct = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!editingProduct?.barcode || !editingProduct?.name) return;
+    // Rows left without a code are dropped; weighed goods aren't sold by the pack
+    const barcodes = editingProduct.soldByWeight ? [] : (editingProduct.barcodes ?? [])
+      .map(b => ({ ...b, barcode: b.barcode.trim(), unit: b.unit?.trim() || undefined }))
+      .filter(b => b.barcode);
+    if (barcodes.some(b => !(b.factor > 0))) {
+      toast.error('包装条码的数量需大于 0');
+      return;
+    }
+    if (editingProduct.costPrice !== undefined && !(editingProduct.costPrice >= 0)) {
+      toast.error('进价无效');
+      return;
+    }
+    // An emptied field stays '' rather than undefined so the removal syncs
+    const product = {
+      ...editingProduct,
+      barcode: editingProduct.barcode.trim(),
+      category: editingProduct.category?.trim(),
+      spec: editingProduct.spec?.trim() || undefined,
+      plu: editingProduct.soldByWeight ? editingProduct.plu?.trim() || undefined : undefined,
+      unit: editingProduct.soldByWeight ? undefined : editingProduct.unit?.trim() || undefined,
+      barcodes: barcodes.length > 0 ? barcodes : undefined,
+    } as Product;
+    const conflict = barcodeConflicts(product, products)[0];
+    if (conflict) {
+      toast.error(conflict);
+      return;
+    }
+    const pluOwner = product.plu && findByPlu(products, product.plu);
+    if (pluOwner && pluOwner.id !== product.id) {
+      toast.error(`PLU ${product.plu} 已被「${pluOwner.name}」使用`);
+      return;
+    }
 
-    if (editingProduct.id) {
-      updateProduct(editingProduct as Product);
-      toast.success('商品已更新');
-    } else {
-      const newProduct: Product = {
-        ...editingProduct as Product,
-        id: crypto.randomUUID(),
-      };
-      addProduct(newProduct);
-      toast.success('商品已添加');
+    try {
+      if (product.id) {
+        const before = products.find(p => p.id === product.id);
+        await updateProduct(product);
+        if (before && before.price !== product.price) {
+          audit('price.change', `${product.name} ¥${before.price} → ¥${product.price}`, { reference: product.id });
+        }
+        toast.success('商品已更新');
+      } else {
+        const newProduct: Product = {
+          ...product,
+          id: crypto.randomUUID(),
+        };
+        await addProduct(newProduct);
+        // A new product found during a delivery is part of that delivery
+        if (scanMode === 'receiving') {
+          setReceivingItems(prev => addToReceiving(prev, newProduct));
+        }
+        toast.success('商品已添加');
+      }
+      setIsModalOpen(false);
+      setEditingProduct(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '保存失败');
+    }
+  };
+
+  const handleAdjustStock = async (adjustment: Omit<StockAdjustment, 'operator'>) => {
+    try {
+      await adjustStock({ ...adjustment, operator: operatorName });
+      const product = products.find(p => p.id === adjustment.productId);
+      if (product) {
+        const change = `${adjustment.quantity > 0 ? '+' : ''}${withUnit(adjustment.quantity, product)}`;
+        audit('stock.adjust', `${product.name} ${MOVEMENT_TYPE_LABELS[adjustment.type]} ${change}${adjustment.note ? ` · ${adjustment.note}` : ''}`, { reference: product.id });
+      }
+      setAdjustingProductId(null);
+      toast.success('库存已调整');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '调整失败');
+    }
+  };
+
+  const handleReconcileStock = async () => {
+    try {
+      const fixed = await reconcileStock();
+      toast.success(fixed.length > 0 ? `已按台账修正 ${fixed.length} 个商品的库存` : '库存与台账一致');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '核对失败');
+    }
+  };
+
+  const handleDeleteProduct = (id: string) => {
+    const product = products.find(p => p.id === id);
+    if (!product || !confirm(`确定要删除「${product.name}」吗？`)) return;
+    withPermission('product.delete', async approver => {
+      try {
+        await deleteProduct(id);
+        audit('product.delete', `${product.name} (${product.barcode})`, { approvedBy: approver?.name, reference: id });
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : '删除失败');
+      }
+    });
+  };
+
+  const handleSavePromotion = async (promotion: Promotion) => {
+    try {
+      await savePromotion(promotion);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '保存失败');
     }
-    setIsModalOpen(false);
-    setEditingProduct(null);
   };
 
+  const handleDeletePromotion = async (promotion: Promotion) => {
+    if (!confirm(`确定要删除促销「${promotion.name}」吗？`)) return;
+    try {
+      await deletePromotion(promotion.id);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '删除失败');
+    }
+  };
+
+  const currentBackup = () => {
+    return buildBackup({
+      products,
+      sales,
+      refunds,
+      receivings,
+      stocktakes,
+      promotions,
+      cashiers,
+      shifts,
+      auditLog,
+      suppliers,
+      purchaseOrders,
+    }, settings);
+  };
+  const backupJson = () => JSON.stringify(currentBackup(), null, 2);
+  const snapshotStore = useSnapshots(currentBackup, !loading);
+
   const handleExport = () => {
-    const data = exportData();
-    const blob = new Blob([data], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `inventory_backup_${new Date().toISOString().split('T')[0]}.json`;
-    a.click();
+    downloadFile(backupJson(), `shop_backup_${toDateKey()}.json`);
     toast.success('数据已导出');
   };
 
+  const handleExportProducts = async (format: SheetFormat) => {
+    try {
+      await downloadSpreadsheet(productsToRows(products), `products_${toDateKey()}`, format);
+      toast.success('商品表已导出');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '导出失败');
+    }
+  };
+
   const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file) return;
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const content = event.target?.result as string;
-      if (importData(content)) {
-        toast.success('数据导入成功');
-      } else {
-        toast.error('数据格式错误');
-      }
-    };
-    reader.readAsText(file);
+    // Clearing lets the same file be picked again after fixing it
+    e.target.value = '';
+    if (file) withPermission('import', () => setImportFile(file));
   };
 
-  const handleShare = async () => {
-    const data = exportData();
-    if (navigator.share) {
-      try {
-        await navigator.share({
-          title: '库存数据备份',
-          text: '这是我的商品库存数据备份。',
-          url: window.location.href,
-        });
-      } catch (err) {
-        console.error('Share failed', err);
+  const handleApplyImport = async (plan: ImportPlan) => {
+    try {
+      await applyImport(plan, operatorName);
+      const count = (action: string) => plan.rows.filter(row => row.action === action).length;
+      audit('import', `导入商品：新增 ${count('add')} 个，更新 ${count('update')} 个${plan.removed.length > 0 ? `，删除 ${plan.removed.length} 个` : ''}`);
+      setImportFile(null);
+      toast.success('商品已导入');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '导入失败');
+    }
+  };
+
+  const handleRestore = async (backup: Backup) => {
+    try {
+      // What is being replaced stays on the phone, in case this was the wrong file
+      await snapshotStore.takeSnapshot('before-restore');
+      const result = await restoreBackup(backup);
+      if (backup.settings) updateSettings(backup.settings);
+      audit('restore', `恢复备份：${result.products} 个商品、${result.sales} 笔销售记录`);
+      setImportFile(null);
+      toast.success(`已恢复 ${result.products} 个商品、${result.sales} 笔销售记录`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '恢复失败');
+    }
+  };
+
+  const handleRestoreSnapshot = (snapshot: Snapshot) => {
+    withPermission('import', () => {
+      setIsSnapshotsOpen(false);
+      setImportFile(new File([JSON.stringify(snapshot.backup)], `快照 ${formatDateTime(snapshot.createdAt)}.json`, { type: 'application/json' }));
+    });
+  };
+
+  const handleSaveCashier = async (draft: CashierDraft) => {
+    try {
+      const cashier = await buildCashier(draft, cashiers);
+      const before = cashiers.find(c => c.id === cashier.id);
+      await saveCashier(cashier, staffApproval);
+      if (cashier.pinHash) rememberPin(cashier.id, cashier.pinHash);
+      audit('staff', before
+        ? `修改账号「${cashier.name}」${cashier.disabled && !before.disabled ? '，已停用' : ''}`
+        : `添加${CASHIER_ROLE_LABELS[cashier.role]}「${cashier.name}」`);
+      // Whoever sets up the first account stays signed in with it. Further
+      // changes need that owner's PIN, once the server has the account.
+      if (activeCashiers(cashiers).length === 0) {
+        session.signIn(cashier);
+        setIsCashierManagerOpen(false);
       }
-    } else {
-      navigator.clipboard.writeText(data);
-      toast.success('数据已复制到剪贴板');
+      toast.success('账号已保存');
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '保存失败');
+      return false;
     }
   };
 
+  const handleOpenShift = async (openingFloat: number) => {
+    try {
+      const shift = buildShift(openingFloat, deviceId, { id: session.cashier?.id, name: operatorName });
+      await saveShift(shift);
+      audit('shift.open', `${shift.shiftNo} 备用金 ¥${shift.openingFloat.toFixed(2)}`, { reference: shift.id });
+      toast.success('已开班');
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '开班失败');
+      return false;
+    }
+  };
+
+  const handleCloseShift = async (countedCash: number, note: string) => {
+    if (!currentShift) return null;
+    try {
+      const shift = closeShift(currentShift, summarizeShift(currentShift, sales, refunds), countedCash, note);
+      await saveShift(shift);
+      audit('shift.close', `${shift.shiftNo} 应有 ¥${shift.expectedCash!.toFixed(2)}，实点 ¥${countedCash.toFixed(2)}，差额 ¥${(cashDifference(shift) ?? 0).toFixed(2)}`, { reference: shift.id });
+      toast.success('已交班');
+      return shift;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '交班失败');
+      return null;
+    }
+  };
+
+  const handleShare = async () => {
+    const result = await shareFile(backupJson(), `shop_backup_${toDateKey()}.json`);
+    if (result === 'downloaded') toast.success('当前浏览器不支持分享文件，已改为下载');
+  };
+
+  const handleSendReport = async () => {
+    const now = new Date();
+    const report = buildSalesReport(sales, products, { from: startOfDay(now), to: endOfDay(now) }, refunds);
+    const result = await shareText('今日销售报表', reportToText(report));
+    if (result === 'copied') toast.success('报表已复制到剪贴板');
+  };
+
   return (
     <div className="min-h-screen bg-zinc-50 font-sans text-zinc-900 pb-20">
       <Toaster position="top-center" />
@@ -144,20 +897,58 @@ export default function App() {
           <Barcode className="text-emerald-600" />
           <span>条码收银助手</span>
         </h1>
-        {activeTab === 'checkout' && cart.length > 0 && (
-          <button 
-            onClick={() => setCart([])}
-            className="text-sm text-red-500 font-medium"
+        <div className="flex items-center gap-3">
+          {session.cashier && (
+            <button
+              onClick={session.signOut}
+              title="退出登录"
+              className="flex items-center gap-1 px-2 py-1 rounded-full bg-zinc-100 text-zinc-600 text-xs font-bold"
+            >
+              <User size={14} />
+              {session.cashier.name}
+            </button>
+          )}
+          {(pendingCount > 0 || !isOnline) && (
+            <button 
+              onClick={syncNow}
+              title={syncError ?? undefined}
+              className="flex items-center gap-1 px-2 py-1 rounded-full bg-amber-50 text-amber-700 text-xs font-bold"
+            >
+              {isOnline ? <RefreshCw size={14} className={cn(isSyncing && "animate-spin")} /> : <CloudOff size={14} />}
+              {pendingCount > 0 ? `未同步 ${pendingCount} 条` : '离线'}
+            </button>
+          )}
+          <button
+            onClick={() => setIsAssistantOpen(true)}
+            className="flex items-center gap-1 px-2 py-1 rounded-full bg-violet-50 text-violet-700 text-xs font-bold"
           >
-            清空购物车
+            <Sparkles size={14} />
+            助手
           </button>
-        )}
+          {activeTab === 'checkout' && cart.items.length > 0 && (
+            <button 
+              onClick={cart.clear}
+              className="text-sm text-red-500 font-medium"
+            >
+              清空购物车
+            </button>
+          )}
+        </div>
       </header>
 
       <main className="max-w-2xl mx-auto p-4">
         {/* Checkout Tab */}
         {activeTab === 'checkout' && (
           <div className="space-y-6">
+            {session.accountsEnabled && !currentShift && (
+              <button
+                onClick={() => setIsShiftOpen(true)}
+                className="w-full p-3 rounded-xl bg-amber-50 text-amber-700 text-sm font-bold flex items-center justify-center gap-2"
+              >
+                <Wallet size={16} />
+                尚未开班，点此清点备用金后开班
+              </button>
+            )}
             <div className="flex flex-col gap-4">
               <button 
                 onClick={() => setIsScanning(!isScanning)}
@@ -172,122 +963,158 @@ export default function App() {
 
               {isScanning && (
                 <div className="animate-in fade-in zoom-in duration-300">
-                  <Scanner onScan={handleScan} active={isScanning} />
-                </div>
-              )}
-            </div>
-
-            <div className="bg-white rounded-2xl border border-zinc-200 overflow-hidden shadow-sm">
-              <div className="p-4 border-b border-zinc-100 bg-zinc-50/50 flex justify-between items-center">
-                <h2 className="font-bold">当前订单</h2>
-                <span className="text-xs text-zinc-500">共 {cart.length} 项商品</span>
-              </div>
-              
-              {cart.length === 0 ? (
-                <div className="p-12 text-center text-zinc-400">
-                  <ShoppingCart size={48} className="mx-auto mb-4 opacity-20" />
-                  <p>购物车是空的，请扫码添加商品</p>
-                </div>
-              ) : (
-                <div className="divide-y divide-zinc-100">
-                  {cart.map((item, idx) => (
-                    <div key={idx} className="p-4 flex justify-between items-center">
-                      <div>
-                        <p className="font-medium">{item.product.name}</p>
-                        <p className="text-xs text-zinc-500">¥{item.product.price} x {item.quantity}</p>
-                      </div>
-                      <div className="flex items-center gap-4">
-                        <p className="font-bold text-emerald-700">¥{(item.product.price * item.quantity).toFixed(2)}</p>
-                        <button 
-                          onClick={() => setCart(prev => prev.filter((_, i) => i !== idx))}
-                          className="p-2 text-zinc-400 hover:text-red-500 transition-colors"
-                        >
-                          <Trash2 size={18} />
-                        </button>
-                      </div>
-                    </div>
-                  ))}
+                  <Scanner
+                    onScan={handleScan}
+                    active={isScanning}
+                    settings={settings.scanner}
+                    onCameraChange={handleCameraChange}
+                  />
                 </div>
               )}
 
-              <div className="p-6 bg-emerald-50 border-t border-emerald-100 flex justify-between items-center">
-                <span className="text-emerald-800 font-medium">总金额</span>
-                <span className="text-3xl font-black text-emerald-700">¥{totalAmount.toFixed(2)}</span>
-              </div>
+              <ProductLookup products={products} onBarcode={handleScan} onSelect={addToCart} />
             </div>
+
+            <Cart
+              items={cart.items}
+              adjustments={cart.adjustments}
+              totals={cart.totals}
+              onQuantityChange={handleCartQuantity}
+              onRemove={cart.remove}
+              onLineDiscount={handleLineDiscount}
+              onOrderDiscount={handleOrderDiscount}
+              onRounding={cart.setRounding}
+              onCheckout={() => {
+                setIsScanning(false);
+                setIsCheckoutOpen(true);
+              }}
+            />
           </div>
         )}
 
+        {/* Goods Receiving */}
+        {activeTab === 'inventory' && isReceiving && (
+          <ReceivingPanel 
+            items={receivingItems}
+            onItemsChange={setReceivingItems}
+            receivings={receivings}
+            suppliers={suppliers}
+            purchaseOrder={receivingOrder}
+            onDetachOrder={() => setReceivingOrderId(null)}
+            isScanning={isScanning}
+            onToggleScan={() => setIsScanning(!isScanning)}
+            onScan={handleScan}
+            scannerSettings={settings.scanner}
+            onCameraChange={handleCameraChange}
+            onConfirm={handleReceive}
+            onExit={() => {
+              setIsReceiving(false);
+              setIsScanning(false);
+            }}
+          />
+        )}
+
+        {/* Stocktake */}
+        {activeTab === 'inventory' && isStocktaking && (
+          <StocktakePanel
+            draft={stocktakeDraft}
+            products={products}
+            stocktakes={stocktakes}
+            isScanning={isScanning}
+            onToggleScan={() => setIsScanning(!isScanning)}
+            onScan={handleScan}
+            scannerSettings={settings.scanner}
+            onCameraChange={handleCameraChange}
+            onStart={startStocktake}
+            onSetCount={setStocktakeCount}
+            onComplete={handleCompleteStocktake}
+            onDiscard={discardStocktake}
+            onExit={() => {
+              setIsStocktaking(false);
+              setIsScanning(false);
+            }}
+          />
+        )}
+
+        {/* Reorder Suggestions */}
+        {activeTab === 'inventory' && isReordering && !isReceiving && (
+          <ReorderPanel
+            products={products}
+            sales={sales}
+            suppliers={suppliers}
+            receivings={receivings}
+            onReceive={handleReceiveReorder}
+            onCreateOrder={handleCreatePurchaseOrder}
+            onExit={() => setIsReordering(false)}
+          />
+        )}
+
+        {/* Promotions */}
+        {activeTab === 'inventory' && isManagingPromotions && !isReceiving && !isStocktaking && !isReordering && (
+          <PromotionPanel
+            promotions={promotions}
+            products={products}
+            onSave={handleSavePromotion}
+            onDelete={handleDeletePromotion}
+            onExit={() => setIsManagingPromotions(false)}
+          />
+        )}
+
         {/* Inventory Tab */}
-        {activeTab === 'inventory' && (
-          <div className="space-y-4">
-            <div className="flex gap-2">
-              <div className="relative flex-1">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-400" size={18} />
-                <input 
-                  type="text" 
-                  placeholder="搜索商品名称或条码..." 
-                  className="w-full pl-10 pr-4 py-3 rounded-xl border border-zinc-200 focus:outline-none focus:ring-2 focus:ring-emerald-500 bg-white"
-                />
-              </div>
-              <button 
-                onClick={() => {
-                  setEditingProduct({ barcode: '', name: '', price: 0, stock: 0 });
-                  setIsModalOpen(true);
-                }}
-                className="p-3 bg-emerald-600 text-white rounded-xl shadow-md"
-              >
-                <Plus size={24} />
-              </button>
-            </div>
+        {activeTab === 'inventory' && !isReceiving && !isStocktaking && !isReordering && !isManagingPromotions && (
+          <InventoryList
+            products={products}
+            sales={sales}
+            onAdd={openNewProduct}
+            onHistory={setHistoryProductId}
+            onEdit={openEditProduct}
+            onDelete={handleDeleteProduct}
+            onManageCategories={() => withPermission('product.edit', () => setIsCategoryManagerOpen(true))}
+            onShowReorder={() => setIsReordering(true)}
+            onShowValuation={() => setIsValuationOpen(true)}
+            actions={
+              <>
+                <button 
+                  onClick={() => setIsReceiving(true)}
+                  className="p-3 bg-blue-600 text-white rounded-xl shadow-md"
+                  title="扫码入库"
+                >
+                  <PackagePlus size={24} />
+                </button>
+                <button 
+                  onClick={() => setIsStocktaking(true)}
+                  className="p-3 bg-violet-600 text-white rounded-xl shadow-md"
+                  title="库存盘点"
+                >
+                  <ClipboardList size={24} />
+                </button>
+                <button 
+                  onClick={() => withPermission('product.edit', () => setIsManagingPromotions(true))}
+                  className="p-3 bg-rose-600 text-white rounded-xl shadow-md"
+                  title="促销活动"
+                >
+                  <BadgePercent size={24} />
+                </button>
+                <button 
+                  onClick={openNewProduct}
+                  className="p-3 bg-emerald-600 text-white rounded-xl shadow-md"
+                >
+                  <Plus size={24} />
+                </button>
+              </>
+            }
+          />
+        )}
 
-            <div className="grid gap-3">
-              {products.length === 0 ? (
-                <div className="p-12 text-center text-zinc-400 bg-white rounded-2xl border border-dashed border-zinc-300">
-                  <LayoutGrid size={48} className="mx-auto mb-4 opacity-20" />
-                  <p>库存中没有商品</p>
-                  <button 
-                    onClick={() => setIsModalOpen(true)}
-                    className="mt-4 text-emerald-600 font-bold"
-                  >
-                    立即添加
-                  </button>
-                </div>
-              ) : (
-                products.map(product => (
-                  <div key={product.id} className="bg-white p-4 rounded-xl border border-zinc-200 flex justify-between items-center shadow-sm">
-                    <div>
-                      <h3 className="font-bold">{product.name}</h3>
-                      <p className="text-xs text-zinc-500 font-mono">{product.barcode}</p>
-                      <div className="mt-1 flex gap-3 text-sm">
-                        <span className="text-emerald-600 font-bold">¥{product.price}</span>
-                        <span className="text-zinc-400">库存: {product.stock}</span>
-                      </div>
-                    </div>
-                    <div className="flex gap-1">
-                      <button 
-                        onClick={() => {
-                          setEditingProduct(product);
-                          setIsModalOpen(true);
-                        }}
-                        className="p-2 text-zinc-400 hover:text-emerald-600"
-                      >
-                        <Edit3 size={18} />
-                      </button>
-                      <button 
-                        onClick={() => {
-                          if (confirm('确定要删除该商品吗？')) deleteProduct(product.id);
-                        }}
-                        className="p-2 text-zinc-400 hover:text-red-500"
-                      >
-                        <Trash2 size={18} />
-                      </button>
-                    </div>
-                  </div>
-                ))
-              )}
-            </div>
-          </div>
+        {/* Sales Tab */}
+        {activeTab === 'sales' && (
+          <SalesHistory
+            sales={sales}
+            products={products}
+            refunds={refunds}
+            onReceipt={setReceiptSale}
+            onRefund={sale => setRefundingSale(sale ?? 'lookup')}
+          />
         )}
 
         {/* Settings Tab */}
@@ -306,22 +1133,61 @@ export default function App() {
                   <Download size={20} />
                 </div>
                 <div className="text-left">
-                  <p className="font-bold">导出数据</p>
-                  <p className="text-xs text-zinc-500">将库存备份为 JSON 文件</p>
+                  <p className="font-bold">导出备份</p>
+                  <p className="text-xs text-zinc-500">商品、销售、入库、盘点、促销和本机设置</p>
                 </div>
               </button>
 
+              <div className="w-full p-4 flex items-center gap-4">
+                <div className="w-10 h-10 rounded-full bg-emerald-50 text-emerald-600 flex items-center justify-center">
+                  <FileSpreadsheet size={20} />
+                </div>
+                <div className="flex-1 text-left">
+                  <p className="font-bold">导出商品表</p>
+                  <p className="text-xs text-zinc-500">可编辑后再导入</p>
+                </div>
+                <button 
+                  onClick={() => handleExportProducts('csv')}
+                  className="px-3 py-1.5 rounded-lg border border-zinc-200 text-sm font-bold text-zinc-600"
+                >
+                  CSV
+                </button>
+                <button 
+                  onClick={() => handleExportProducts('xlsx')}
+                  className="px-3 py-1.5 rounded-lg border border-zinc-200 text-sm font-bold text-zinc-600"
+                >
+                  Excel
+                </button>
+              </div>
+
               <label className="w-full p-4 flex items-center gap-4 hover:bg-zinc-50 transition-colors cursor-pointer">
                 <div className="w-10 h-10 rounded-full bg-amber-50 text-amber-600 flex items-center justify-center">
                   <Upload size={20} />
                 </div>
                 <div className="text-left">
                   <p className="font-bold">导入数据</p>
-                  <p className="text-xs text-zinc-500">从备份文件恢复库存</p>
+                  <p className="text-xs text-zinc-500">恢复备份，或从 CSV / Excel 导入商品</p>
                 </div>
-                <input type="file" accept=".json" onChange={handleImport} className="hidden" />
+                <input type="file" accept=".json,.csv,.xlsx" onChange={handleImport} className="hidden" />
               </label>
 
+              <button 
+                onClick={() => setIsSnapshotsOpen(true)}
+                className="w-full p-4 flex items-center gap-4 hover:bg-zinc-50 transition-colors"
+              >
+                <div className="w-10 h-10 rounded-full bg-zinc-100 text-zinc-600 flex items-center justify-center">
+                  <Archive size={20} />
+                </div>
+                <div className="text-left">
+                  <p className="font-bold">本机快照</p>
+                  <p className="text-xs text-zinc-500">
+                    {snapshotStore.snapshots.length > 0
+                      ? `最近一次 ${formatDateTime(snapshotStore.snapshots[0].createdAt)}，可从快照恢复`
+                      : '自动保存在本机的备份，可从快照恢复'}
+                  </p>
+                </div>
+              </button>
+
               <button 
                 onClick={handleShare}
                 className="w-full p-4 flex items-center gap-4 hover:bg-zinc-50 transition-colors"
@@ -336,6 +1202,7 @@ export default function App() {
               </button>
 
               <button 
+                onClick={handleSendReport}
                 className="w-full p-4 flex items-center gap-4 hover:bg-zinc-50 transition-colors"
               >
                 <div className="w-10 h-10 rounded-full bg-emerald-50 text-emerald-600 flex items-center justify-center">
@@ -348,9 +1215,224 @@ export default function App() {
               </button>
             </div>
 
+            <div className="bg-white rounded-2xl border border-zinc-200 divide-y divide-zinc-100 shadow-sm overflow-hidden">
+              <div className="p-4 bg-zinc-50/50">
+                <h2 className="font-bold text-zinc-500 text-xs uppercase tracking-wider">采购</h2>
+              </div>
+
+              <button 
+                onClick={() => withPermission('product.edit', () => setIsSupplierManagerOpen(true))}
+                className="w-full p-4 flex items-center gap-4 hover:bg-zinc-50 transition-colors"
+              >
+                <div className="w-10 h-10 rounded-full bg-blue-50 text-blue-600 flex items-center justify-center">
+                  <Truck size={20} />
+                </div>
+                <div className="text-left">
+                  <p className="font-bold">供应商</p>
+                  <p className="text-xs text-zinc-500">
+                    {suppliers.length > 0 ? `${suppliers.length} 个供应商，联系方式、供货商品和最近进价` : '记录联系方式、供货商品和进价'}
+                  </p>
+                </div>
+              </button>
+
+              <button 
+                onClick={() => setViewingOrders('list')}
+                className="w-full p-4 flex items-center gap-4 hover:bg-zinc-50 transition-colors"
+              >
+                <div className="w-10 h-10 rounded-full bg-emerald-50 text-emerald-600 flex items-center justify-center">
+                  <ClipboardList size={20} />
+                </div>
+                <div className="text-left">
+                  <p className="font-bold">采购订单</p>
+                  <p className="text-xs text-zinc-500">{openOrderCount > 0 ? `${openOrderCount} 张待到货` : '分享或导出采购单，按单收货'}</p>
+                </div>
+              </button>
+            </div>
+
+            <div className="bg-white rounded-2xl border border-zinc-200 divide-y divide-zinc-100 shadow-sm overflow-hidden">
+              <div className="p-4 bg-zinc-50/50">
+                <h2 className="font-bold text-zinc-500 text-xs uppercase tracking-wider">店员</h2>
+              </div>
+
+              <button 
+                onClick={openCashierManager}
+                className="w-full p-4 flex items-center gap-4 hover:bg-zinc-50 transition-colors"
+              >
+                <div className="w-10 h-10 rounded-full bg-emerald-50 text-emerald-600 flex items-center justify-center">
+                  <Users size={20} />
+                </div>
+                <div className="text-left">
+                  <p className="font-bold">收银员账号</p>
+                  <p className="text-xs text-zinc-500">
+                    {session.accountsEnabled ? `${activeCashiers(cashiers).length} 个账号，按角色限制改价、删除、打折和导入` : '未设置，所有人可使用全部功能'}
+                  </p>
+                </div>
+              </button>
+
+              <button 
+                onClick={() => setIsShiftOpen(true)}
+                className="w-full p-4 flex items-center gap-4 hover:bg-zinc-50 transition-colors"
+              >
+                <div className="w-10 h-10 rounded-full bg-amber-50 text-amber-600 flex items-center justify-center">
+                  <Wallet size={20} />
+                </div>
+                <div className="text-left">
+                  <p className="font-bold">{currentShift ? '交班' : '开班'}</p>
+                  <p className="text-xs text-zinc-500">
+                    {currentShift ? `${currentShift.shiftNo} · ${formatDateTime(currentShift.openedAt)} 开班` : '录入备用金，交班时核对现金'}
+                  </p>
+                </div>
+              </button>
+
+              <button 
+                onClick={() => withPermission('staff', () => setIsAuditLogOpen(true))}
+                className="w-full p-4 flex items-center gap-4 hover:bg-zinc-50 transition-colors"
+              >
+                <div className="w-10 h-10 rounded-full bg-zinc-100 text-zinc-600 flex items-center justify-center">
+                  <ShieldCheck size={20} />
+                </div>
+                <div className="text-left">
+                  <p className="font-bold">操作日志</p>
+                  <p className="text-xs text-zinc-500">{auditLog.length} 条改价、删除、打折、退款和授权记录</p>
+                </div>
+              </button>
+            </div>
+
+            <div className="bg-white rounded-2xl border border-zinc-200 divide-y divide-zinc-100 shadow-sm overflow-hidden">
+              <div className="p-4 bg-zinc-50/50">
+                <h2 className="font-bold text-zinc-500 text-xs uppercase tracking-wider">本机设置</h2>
+              </div>
+
+              {session.cashier ? (
+                <div className="w-full p-4 flex items-center gap-4">
+                  <div className="w-10 h-10 rounded-full bg-zinc-100 text-zinc-600 flex items-center justify-center">
+                    <User size={20} />
+                  </div>
+                  <div className="flex-1 text-left">
+                    <p className="font-bold">操作员</p>
+                    <p className="text-xs text-zinc-500">{session.cashier.name} · {CASHIER_ROLE_LABELS[session.cashier.role]}</p>
+                  </div>
+                  <button 
+                    onClick={session.signOut}
+                    className="px-3 py-1.5 rounded-lg border border-zinc-200 text-sm font-bold text-zinc-600 flex items-center gap-1"
+                  >
+                    <LogOut size={14} />
+                    退出
+                  </button>
+                </div>
+              ) : (
+                <label className="w-full p-4 flex items-center gap-4">
+                  <div className="w-10 h-10 rounded-full bg-zinc-100 text-zinc-600 flex items-center justify-center">
+                    <User size={20} />
+                  </div>
+                  <div className="flex-1 text-left">
+                    <p className="font-bold">操作员</p>
+                    <input 
+                      type="text" 
+                      value={settings.operatorName}
+                      onChange={e => updateSettings({ operatorName: e.target.value })}
+                      className="w-full text-sm text-zinc-600 bg-transparent focus:outline-none"
+                      placeholder="记录在销售和库存变动中的姓名"
+                    />
+                  </div>
+                </label>
+              )}
+
+              <label className="w-full p-4 flex items-center gap-4">
+                <div className="w-10 h-10 rounded-full bg-zinc-100 text-zinc-600 flex items-center justify-center">
+                  <AlertTriangle size={20} />
+                </div>
+                <div className="flex-1 text-left">
+                  <p className="font-bold">库存不足时</p>
+                  <p className="text-xs text-zinc-500">扫码售出超过现有库存的商品</p>
+                </div>
+                <select 
+                  value={settings.oversellPolicy}
+                  onChange={e => updateSettings({ oversellPolicy: e.target.value as OversellPolicy })}
+                  className="text-sm text-zinc-600 bg-transparent focus:outline-none"
+                >
+                  {(Object.keys(OVERSELL_POLICY_LABELS) as OversellPolicy[]).map(policy => (
+                    <option key={policy} value={policy}>{OVERSELL_POLICY_LABELS[policy]}</option>
+                  ))}
+                </select>
+              </label>
+
+              <button 
+                onClick={() => setIsScannerSettingsOpen(true)}
+                className="w-full p-4 flex items-center gap-4 hover:bg-zinc-50 transition-colors"
+              >
+                <div className="w-10 h-10 rounded-full bg-zinc-100 text-zinc-600 flex items-center justify-center">
+                  <ScanLine size={20} />
+                </div>
+                <div className="text-left">
+                  <p className="font-bold">扫码设置</p>
+                  <p className="text-xs text-zinc-500">
+                    {settings.scanner.continuous ? '连续扫码' : '扫一次关闭'} · {settings.scanner.formats.map(f => SCAN_FORMAT_LABELS[f]).join('、')}
+                    {settings.scanner.wedge.enabled && ' · 扫码枪'}
+                  </p>
+                </div>
+              </button>
+
+              <button 
+                onClick={() => setIsReceiptSettingsOpen(true)}
+                className="w-full p-4 flex items-center gap-4 hover:bg-zinc-50 transition-colors"
+              >
+                <div className="w-10 h-10 rounded-full bg-zinc-100 text-zinc-600 flex items-center justify-center">
+                  <Printer size={20} />
+                </div>
+                <div className="text-left">
+                  <p className="font-bold">小票设置</p>
+                  <p className="text-xs text-zinc-500">
+                    {settings.receipt.shopName || '未设置店名'} · {settings.receipt.paperWidth}mm · {PRINT_MODE_LABELS[settings.receipt.printMode]}
+                  </p>
+                </div>
+              </button>
+
+              <button 
+                onClick={() => setLabelProductIds([])}
+                className="w-full p-4 flex items-center gap-4 hover:bg-zinc-50 transition-colors"
+              >
+                <div className="w-10 h-10 rounded-full bg-zinc-100 text-zinc-600 flex items-center justify-center">
+                  <Tag size={20} />
+                </div>
+                <div className="text-left">
+                  <p className="font-bold">商品标签</p>
+                  <p className="text-xs text-zinc-500">
+                    {findLabelSize(settings.labels.sizeId).label} · 店内码 {LABEL_CODE_TYPE_LABELS[settings.labels.codeType]}
+                  </p>
+                </div>
+              </button>
+
+              <button 
+                onClick={() => setIsScaleFormatOpen(true)}
+                className="w-full p-4 flex items-center gap-4 hover:bg-zinc-50 transition-colors"
+              >
+                <div className="w-10 h-10 rounded-full bg-zinc-100 text-zinc-600 flex items-center justify-center">
+                  <Scale size={20} />
+                </div>
+                <div className="text-left">
+                  <p className="font-bold">电子秤条码</p>
+                  <p className="text-xs text-zinc-500">{settings.scaleFormats.length} 种秤签格式</p>
+                </div>
+              </button>
+
+              <button 
+                onClick={handleReconcileStock}
+                className="w-full p-4 flex items-center gap-4 hover:bg-zinc-50 transition-colors"
+              >
+                <div className="w-10 h-10 rounded-full bg-zinc-100 text-zinc-600 flex items-center justify-center">
+                  <ClipboardCheck size={20} />
+                </div>
+                <div className="text-left">
+                  <p className="font-bold">核对库存台账</p>
+                  <p className="text-xs text-zinc-500">按库存变动记录校正商品库存</p>
+                </div>
+              </button>
+            </div>
+
             <div className="p-4 text-center text-zinc-400 text-xs">
               <p>版本 1.0.0</p>
-              <p className="mt-1">数据存储于本地浏览器缓存</p>
+              <p className="mt-1">数据保存在本机并与店内服务器同步</p>
             </div>
           </div>
         )}
@@ -359,7 +1441,7 @@ export default function App() {
       {/* Navigation Bar */}
       <nav className="fixed bottom-0 left-0 right-0 bg-white border-t border-zinc-200 px-6 py-3 flex justify-around items-center shadow-[0_-4px_10px_rgba(0,0,0,0.05)]">
         <button 
-          onClick={() => setActiveTab('checkout')}
+          onClick={() => switchTab('checkout')}
           className={cn(
             "flex flex-col items-center gap-1 transition-colors",
             activeTab === 'checkout' ? "text-emerald-600" : "text-zinc-400"
@@ -369,7 +1451,7 @@ export default function App() {
           <span className="text-[10px] font-bold">收银台</span>
         </button>
         <button 
-          onClick={() => setActiveTab('inventory')}
+          onClick={() => switchTab('inventory')}
           className={cn(
             "flex flex-col items-center gap-1 transition-colors",
             activeTab === 'inventory' ? "text-emerald-600" : "text-zinc-400"
@@ -379,7 +1461,17 @@ export default function App() {
           <span className="text-[10px] font-bold">库存</span>
         </button>
         <button 
-          onClick={() => setActiveTab('settings')}
+          onClick={() => switchTab('sales')}
+          className={cn(
+            "flex flex-col items-center gap-1 transition-colors",
+            activeTab === 'sales' ? "text-emerald-600" : "text-zinc-400"
+          )}
+        >
+          <Receipt size={24} />
+          <span className="text-[10px] font-bold">销售</span>
+        </button>
+        <button 
+          onClick={() => switchTab('settings')}
           className={cn(
             "flex flex-col items-center gap-1 transition-colors",
             activeTab === 'settings' ? "text-emerald-600" : "text-zinc-400"
@@ -390,6 +1482,201 @@ export default function App() {
         </button>
       </nav>
 
+      {/* Stock History Modal */}
+      {historyProduct && (
+        <StockHistory 
+          product={historyProduct}
+          loadHistory={getStockHistory}
+          onAdjust={() => withPermission('product.edit', () => setAdjustingProductId(historyProduct.id))}
+          onClose={() => setHistoryProductId(null)}
+        />
+      )}
+
+      {/* Stock Adjust Modal */}
+      {adjustingProduct && (
+        <StockAdjustModal 
+          product={adjustingProduct}
+          onSubmit={handleAdjustStock}
+          onClose={() => setAdjustingProductId(null)}
+        />
+      )}
+
+      {/* Import Preview */}
+      {importFile && (
+        <ImportModal 
+          file={importFile}
+          products={products}
+          isOnline={isOnline}
+          onApplyImport={handleApplyImport}
+          onRestore={handleRestore}
+          onClose={() => setImportFile(null)}
+        />
+      )}
+
+      {isSnapshotsOpen && (
+        <SnapshotRestore
+          snapshots={snapshotStore.snapshots}
+          storage={snapshotStore.storage}
+          isOnline={isOnline}
+          onTakeSnapshot={() => snapshotStore.takeSnapshot('manual')}
+          onRequestPersist={snapshotStore.requestPersist}
+          onRestore={handleRestoreSnapshot}
+          onDelete={snapshot => snapshotStore.removeSnapshot(snapshot.id)}
+          onClose={() => setIsSnapshotsOpen(false)}
+        />
+      )}
+
+      {isValuationOpen && (
+        <ValuationReport loadValuation={getValuation} onClose={() => setIsValuationOpen(false)} />
+      )}
+
+      {isCashierManagerOpen && (
+        <CashierManager
+          cashiers={cashiers}
+          currentId={session.cashier?.id}
+          onSave={handleSaveCashier}
+          onClose={() => setIsCashierManagerOpen(false)}
+        />
+      )}
+
+      {isShiftOpen && (
+        <ShiftModal
+          shift={currentShift}
+          sales={sales}
+          refunds={refunds}
+          receiptSettings={settings.receipt}
+          onOpen={handleOpenShift}
+          onCloseShift={handleCloseShift}
+          onClose={() => setIsShiftOpen(false)}
+        />
+      )}
+
+      {isAuditLogOpen && (
+        <AuditLog entries={auditLog} onClose={() => setIsAuditLogOpen(false)} />
+      )}
+
+      {isSupplierManagerOpen && (
+        <SupplierManager
+          suppliers={suppliers}
+          products={products}
+          receivings={receivings}
+          onSave={handleSaveSupplier}
+          onDelete={handleDeleteSupplier}
+          onClose={() => setIsSupplierManagerOpen(false)}
+        />
+      )}
+
+      {viewingOrders && (
+        <PurchaseOrders
+          orders={purchaseOrders}
+          suppliers={suppliers}
+          receivings={receivings}
+          shopName={settings.receipt.shopName}
+          initialOrderId={viewingOrders === 'list' ? undefined : viewingOrders.id}
+          onReceive={handleReceiveOrder}
+          onCloseOrder={handleCloseOrder}
+          onClose={() => setViewingOrders(null)}
+        />
+      )}
+
+      {pendingApproval && (
+        <PinModal
+          title="需要店主授权"
+          hint={`${PERMISSION_LABELS[pendingApproval.permission]}需要店主输入 PIN${pendingApproval.online ? '，并连接门店服务器' : ''}`}
+          cashiers={activeCashiers(cashiers).filter(c => c.role === 'owner')}
+          onSuccess={handleApprove}
+          onClose={() => setPendingApproval(null)}
+        />
+      )}
+
+      {isLocked && (
+        <PinModal
+          title="登录"
+          hint="选择你的账号并输入 PIN"
+          cashiers={activeCashiers(cashiers)}
+          onSuccess={session.signIn}
+        />
+      )}
+
+      {isScannerSettingsOpen && (
+        <ScannerSettingsModal
+          settings={settings.scanner}
+          onSave={scanner => {
+            updateSettings({ scanner });
+            setIsScannerSettingsOpen(false);
+            toast.success('扫码设置已保存');
+          }}
+          onClose={() => setIsScannerSettingsOpen(false)}
+        />
+      )}
+
+      {isReceiptSettingsOpen && (
+        <ReceiptSettingsModal
+          settings={settings.receipt}
+          onSave={receipt => {
+            updateSettings({ receipt });
+            setIsReceiptSettingsOpen(false);
+            toast.success('小票设置已保存');
+          }}
+          onClose={() => setIsReceiptSettingsOpen(false)}
+        />
+      )}
+
+      {receiptSale && (
+        <ReceiptModal
+          sale={receiptSale}
+          settings={settings.receipt}
+          onClose={() => setReceiptSale(null)}
+        />
+      )}
+
+      {isAssistantOpen && (
+        <AssistantModal data={{ products, sales, refunds }} onClose={() => setIsAssistantOpen(false)} />
+      )}
+
+      {refundingSale && (
+        <RefundModal
+          sale={refundingSale === 'lookup' ? undefined : refundingSale}
+          sales={sales}
+          refunds={refunds}
+          scannerSettings={settings.scanner}
+          onConfirm={handleRefund}
+          onClose={() => setRefundingSale(null)}
+        />
+      )}
+
+      {isScaleFormatOpen && (
+        <ScaleFormatModal
+          formats={settings.scaleFormats}
+          products={products}
+          onSave={scaleFormats => {
+            updateSettings({ scaleFormats });
+            setIsScaleFormatOpen(false);
+            toast.success('秤签格式已保存');
+          }}
+          onClose={() => setIsScaleFormatOpen(false)}
+        />
+      )}
+
+      {/* Category Manager */}
+      {isCategoryManagerOpen && (
+        <CategoryManager 
+          products={products}
+          onRename={handleRenameCategory}
+          onClose={() => setIsCategoryManagerOpen(false)}
+        />
+      )}
+
+      {/* Checkout Modal */}
+      {isCheckoutOpen && (
+        <CheckoutModal 
+          totalAmount={cart.totals.payable}
+          itemCount={cartCount}
+          onConfirm={handleCheckout}
+          onClose={() => setIsCheckoutOpen(false)}
+        />
+      )}
+
       {/* Add/Edit Modal */}
       {isModalOpen && (
         <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
@@ -422,23 +1709,76 @@ export default function App() {
                     <Barcode size={20} />
                   </button>
                 </div>
+                {barcodeProblems.map(problem => (
+                  <p key={problem} className="mt-1 text-xs text-red-600">{problem}</p>
+                ))}
+                <div className="mt-1 flex gap-4 text-xs font-bold">
+                  {!editingProduct?.barcode?.trim() && (
+                    <button type="button" onClick={handleGenerateBarcode} className="text-emerald-600">
+                      没有条码？生成店内码
+                    </button>
+                  )}
+                  {editingProduct?.id && (
+                    <button type="button" onClick={() => setLabelProductIds([editingProduct.id!])} className="text-zinc-500 flex items-center gap-1">
+                      <Tag size={12} />
+                      打印标签
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {!editingProduct?.id && (
+                <ProductRecognizeButton
+                  barcode={editingProduct?.barcode}
+                  categories={listCategories(products).map(c => c.name)}
+                  onSuggest={suggestion => setEditingProduct(prev => ({ ...prev, ...suggestion }))}
+                />
+              )}
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">商品名称</label>
+                  <input 
+                    required
+                    type="text" 
+                    value={editingProduct?.name || ''} 
+                    onChange={e => setEditingProduct(prev => ({ ...prev, name: e.target.value }))}
+                    className="w-full p-3 rounded-xl border border-zinc-200"
+                    placeholder="例如：可口可乐"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">规格</label>
+                  <input 
+                    type="text" 
+                    value={editingProduct?.spec ?? ''} 
+                    onChange={e => setEditingProduct(prev => ({ ...prev, spec: e.target.value }))}
+                    className="w-full p-3 rounded-xl border border-zinc-200"
+                    placeholder="500ml"
+                  />
+                </div>
               </div>
 
               <div>
-                <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">商品名称</label>
+                <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">分类</label>
                 <input 
-                  required
                   type="text" 
-                  value={editingProduct?.name || ''} 
-                  onChange={e => setEditingProduct(prev => ({ ...prev, name: e.target.value }))}
+                  list="product-categories"
+                  value={editingProduct?.category || ''} 
+                  onChange={e => setEditingProduct(prev => ({ ...prev, category: e.target.value }))}
                   className="w-full p-3 rounded-xl border border-zinc-200"
-                  placeholder="例如：可口可乐 500ml"
+                  placeholder="选择或输入新分类 (可选)"
                 />
+                <datalist id="product-categories">
+                  {listCategories(products).map(c => <option key={c.name} value={c.name} />)}
+                </datalist>
               </div>
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">价格 (¥)</label>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">
+                    {editingProduct?.soldByWeight ? `价格 (¥/${WEIGHT_UNIT})` : '价格 (¥)'}
+                  </label>
                   <input 
                     required
                     type="number" 
@@ -449,22 +1789,131 @@ export default function App() {
                     placeholder="0.00"
                   />
                 </div>
+                {editingProduct?.id ? (
+                  <div>
+                    <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">当前库存</label>
+                    <button 
+                      type="button"
+                      onClick={() => setAdjustingProductId(editingProduct.id!)}
+                      className="w-full p-3 rounded-xl border border-zinc-200 bg-zinc-50 flex justify-between items-center"
+                    >
+                      <span>{withUnit(products.find(p => p.id === editingProduct.id)?.stock ?? editingProduct.stock ?? 0, editingProduct)}</span>
+                      <span className="text-xs font-bold text-emerald-600">调整</span>
+                    </button>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">初始库存</label>
+                    <input 
+                      required
+                      type="number" 
+                      step={quantityStep(editingProduct ?? {})}
+                      value={editingProduct?.stock || ''} 
+                      onChange={e => setEditingProduct(prev => ({ ...prev, stock: parseQuantity(e.target.value, prev ?? {}) }))}
+                      className="w-full p-3 rounded-xl border border-zinc-200"
+                      placeholder="0"
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">初始库存</label>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">
+                    {editingProduct?.soldByWeight ? `进价 (¥/${WEIGHT_UNIT})` : '进价 (¥)'}
+                  </label>
+                  <input 
+                    type="number" 
+                    min="0"
+                    step="0.0001"
+                    value={editingProduct?.costPrice ?? ''} 
+                    onChange={e => setEditingProduct(prev => ({ ...prev, costPrice: e.target.value === '' ? undefined : parseFloat(e.target.value) }))}
+                    className="w-full p-3 rounded-xl border border-zinc-200"
+                    placeholder="入库时按移动平均更新"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">毛利</label>
+                  {productMargin ? (
+                    <p className={cn("p-3 rounded-xl bg-zinc-50 font-bold", productMargin.profit < 0 ? "text-red-500" : "text-emerald-600")}>
+                      ¥{productMargin.profit.toFixed(2)} · {formatMarginRate(productMargin)}
+                    </p>
+                  ) : (
+                    <p className="p-3 rounded-xl bg-zinc-50 text-zinc-400">填写进价后显示</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-4">
+                <label className="flex items-center gap-2 text-sm font-medium shrink-0">
+                  <input
+                    type="checkbox"
+                    checked={!!editingProduct?.soldByWeight}
+                    onChange={e => setEditingProduct(prev => ({ ...prev, soldByWeight: e.target.checked || undefined }))}
+                    className="w-4 h-4 accent-emerald-600"
+                  />
+                  按重量销售
+                </label>
+                {editingProduct?.soldByWeight ? (
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={editingProduct.plu ?? ''}
+                    onChange={e => setEditingProduct(prev => ({ ...prev, plu: e.target.value }))}
+                    className="flex-1 min-w-0 p-3 rounded-xl border border-zinc-200"
+                    placeholder="电子秤 PLU 编号"
+                  />
+                ) : (
+                  <input
+                    type="text"
+                    value={editingProduct?.unit ?? ''}
+                    onChange={e => setEditingProduct(prev => ({ ...prev, unit: e.target.value }))}
+                    className="flex-1 min-w-0 p-3 rounded-xl border border-zinc-200"
+                    placeholder="计量单位，如 瓶、包 (默认 件)"
+                  />
+                )}
+              </div>
+
+              {!editingProduct?.soldByWeight && (
+                <div>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">更多条码 / 包装</label>
+                  <PackBarcodeEditor
+                    product={editingProduct ?? {}}
+                    onChange={barcodes => setEditingProduct(prev => ({ ...prev, barcodes }))}
+                  />
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">最低库存</label>
                   <input 
-                    required
                     type="number" 
-                    value={editingProduct?.stock || ''} 
-                    onChange={e => setEditingProduct(prev => ({ ...prev, stock: parseInt(e.target.value) }))}
+                    min="0"
+                    step={quantityStep(editingProduct ?? {})}
+                    value={editingProduct?.minStock ?? ''} 
+                    onChange={e => setEditingProduct(prev => ({ ...prev, minStock: e.target.value === '' ? undefined : parseQuantity(e.target.value, prev ?? {}) }))}
                     className="w-full p-3 rounded-xl border border-zinc-200"
-                    placeholder="0"
+                    placeholder={`默认 ${DEFAULT_MIN_STOCK}`}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">每次订货量</label>
+                  <input 
+                    type="number" 
+                    min="1"
+                    value={editingProduct?.reorderQty ?? ''} 
+                    onChange={e => setEditingProduct(prev => ({ ...prev, reorderQty: e.target.value === '' ? undefined : parseInt(e.target.value) }))}
+                    className="w-full p-3 rounded-xl border border-zinc-200"
+                    placeholder="例如：一箱 24"
                   />
                 </div>
               </div>
 
               <button 
                 type="submit"
-                className="w-full py-4 bg-emerald-600 text-white rounded-2xl font-bold text-lg shadow-lg mt-4 flex items-center justify-center gap-2"
+                disabled={barcodeProblems.length > 0}
+                className="w-full py-4 bg-emerald-600 text-white rounded-2xl font-bold text-lg shadow-lg mt-4 flex items-center justify-center gap-2 disabled:opacity-50"
               >
                 <Check size={20} />
                 保存商品
@@ -473,6 +1922,16 @@ export default function App() {
           </div>
         </div>
       )}
+
+      {labelProductIds && (
+        <LabelPrinter
+          products={products}
+          settings={settings.labels}
+          initialProductIds={labelProductIds}
+          onChangeSettings={labels => updateSettings({ labels })}
+          onClose={() => setLabelProductIds(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Send, Sparkles, RefreshCw, ChevronDown, ChevronUp } from 'lucide-react';
+import {
+  AssistantError,
+  askAssistant,
+  createStubAssistantModel,
+  defaultAssistantModel,
+  describeToolResult,
+  toolLabel,
+  type AssistantData,
+  type AssistantMessage,
+  type AssistantModel,
+  type ToolResult,
+} from '../lib/assistant';
+import { cn } from '../lib/utils';
+
+interface AssistantModalProps {
+  data: AssistantData;
+  onClose: () => void;
+  model?: AssistantModel;
+}
+
+interface Exchange {
+  question: string;
+  answer?: string;
+  error?: string;
+  results: ToolResult[];
+}
+
+const SUGGESTIONS = ['今天营业额多少', '上周哪些商品卖得最好', '哪些货快卖完了', '本月各分类卖了多少'];
+
+// Without a key the keyword model still answers the common questions
+const configured = defaultAssistantModel();
+
+export const AssistantModal: React.FC<AssistantModalProps> = ({ data, onClose, model = configured }) => {
+  const [activeModel] = useState(() => model ?? createStubAssistantModel());
+  const [exchanges, setExchanges] = useState<Exchange[]>([]);
+  const [history, setHistory] = useState<AssistantMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [openSources, setOpenSources] = useState<number | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight, behavior: 'smooth' });
+  }, [exchanges]);
+
+  const ask = async (text: string) => {
+    const q = text.trim();
+    if (!q || isAsking) return;
+    setQuestion('');
+    setIsAsking(true);
+    setExchanges(prev => [...prev, { question: q, results: [] }]);
+    const settle = (exchange: Partial<Exchange>) =>
+      setExchanges(prev => prev.map((e, i) => i === prev.length - 1 ? { ...e, ...exchange } : e));
+    try {
+      const answer = await askAssistant(activeModel, q, data, history);
+      setHistory(answer.messages);
+      settle({ answer: answer.text, results: answer.results });
+    } catch (err) {
+      settle({ error: err instanceof AssistantError ? err.message : '助手出错了，请重试' });
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md h-[85vh] flex flex-col rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold flex items-center gap-2">
+              <Sparkles size={20} className="text-violet-600" />
+              助手
+            </h2>
+            {!model && <p className="text-xs text-zinc-400">未配置 GEMINI_API_KEY，只能回答常见问题</p>}
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        <div ref={listRef} className="flex-1 overflow-y-auto space-y-4">
+          {exchanges.length === 0 && (
+            <div className="space-y-2">
+              <p className="text-sm text-zinc-500">可以问我销售和库存的问题，例如：</p>
+              <div className="flex flex-wrap gap-2">
+                {SUGGESTIONS.map(suggestion => (
+                  <button
+                    key={suggestion}
+                    onClick={() => ask(suggestion)}
+                    className="px-3 py-1.5 rounded-full text-sm bg-violet-50 text-violet-700 border border-violet-200"
+                  >
+                    {suggestion}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          {exchanges.map((exchange, index) => (
+            <div key={index} className="space-y-2">
+              <div className="flex justify-end">
+                <p className="max-w-[85%] px-3 py-2 rounded-2xl rounded-br-sm bg-emerald-600 text-white text-sm">{exchange.question}</p>
+              </div>
+              <div className={cn("max-w-[90%] px-3 py-2 rounded-2xl rounded-bl-sm bg-zinc-100 text-sm whitespace-pre-wrap", exchange.error && "text-red-600")}>
+                {exchange.answer ?? exchange.error ?? (
+                  <span className="flex items-center gap-2 text-zinc-500">
+                    <RefreshCw size={14} className="animate-spin" />
+                    查询中…
+                  </span>
+                )}
+              </div>
+              {exchange.results.length > 0 && (
+                <div className="max-w-[90%]">
+                  <button
+                    onClick={() => setOpenSources(openSources === index ? null : index)}
+                    className="text-xs text-zinc-500 flex items-center gap-1"
+                  >
+                    依据 {exchange.results.map(r => toolLabel(r.name)).join('、')}
+                    {openSources === index ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                  </button>
+                  {openSources === index && (
+                    <div className="mt-1 space-y-2">
+                      {exchange.results.map((result, i) => (
+                        <div key={i} className="p-2 rounded-xl border border-zinc-200 text-xs">
+                          <p className="font-bold text-zinc-600">{toolLabel(result.name)}</p>
+                          <p className="whitespace-pre-wrap text-zinc-500">{describeToolResult(result)}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <form
+          onSubmit={e => {
+            e.preventDefault();
+            ask(question);
+          }}
+          className="flex gap-2 mt-4"
+        >
+          <input
+            type="text"
+            value={question}
+            onChange={e => setQuestion(e.target.value)}
+            className="flex-1 p-3 rounded-xl border border-zinc-200"
+            placeholder="问点什么…"
+          />
+          <button
+            type="submit"
+            disabled={!question.trim() || isAsking}
+            className={cn("p-3 rounded-xl bg-emerald-600 text-white", (!question.trim() || isAsking) && "opacity-50")}
+          >
+            <Send size={20} />
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
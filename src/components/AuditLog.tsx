@@ -0,0 +1,65 @@
+import React, { useMemo, useState } from 'react';
+import { X, ShieldCheck } from 'lucide-react';
+import { AUDIT_ACTION_LABELS, type AuditAction, type AuditEntry } from '../types';
+import { filterAuditLog } from '../lib/audit';
+import { formatDateTime } from '../lib/date';
+
+interface AuditLogProps {
+  entries: AuditEntry[];
+  onClose: () => void;
+}
+
+export const AuditLog: React.FC<AuditLogProps> = ({ entries, onClose }) => {
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const rows = useMemo(() => filterAuditLog(entries, action || undefined), [entries, action]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md max-h-[85vh] flex flex-col rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold">操作日志</h2>
+            <p className="text-xs text-zinc-500">改价、删除、打折、退款、导入和授权记录</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        <select
+          value={action}
+          onChange={e => setAction(e.target.value as AuditAction | '')}
+          className="mb-4 w-full p-3 rounded-xl border border-zinc-200 bg-white"
+        >
+          <option value="">全部操作</option>
+          {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(key => (
+            <option key={key} value={key}>{AUDIT_ACTION_LABELS[key]}</option>
+          ))}
+        </select>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-zinc-100 -mx-2">
+          {rows.length === 0 ? (
+            <div className="p-8 text-center text-zinc-400">
+              <ShieldCheck size={40} className="mx-auto mb-3 opacity-20" />
+              <p className="text-sm">暂无记录</p>
+            </div>
+          ) : (
+            rows.map(entry => (
+              <div key={entry.id} className="px-2 py-3">
+                <p className="text-sm">
+                  <span className="mr-2 text-xs font-bold px-1.5 py-0.5 rounded bg-zinc-100 text-zinc-600">
+                    {AUDIT_ACTION_LABELS[entry.action]}
+                  </span>
+                  {entry.detail}
+                </p>
+                <p className="mt-1 text-xs text-zinc-500">
+                  {formatDateTime(entry.createdAt)}
+                  {entry.operator ? ` · ${entry.operator}` : ''}
+                  {entry.approvedBy ? ` · ${entry.approvedBy} 授权` : ''}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
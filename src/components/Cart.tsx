@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { ShoppingCart, Trash2, Minus, Plus, Tag, Check, BadgePercent } from 'lucide-react';
+import type { CartItem, Discount, Product, RoundingMode } from '../types';
+import { cartLineKey, describeDiscount, linePrice, roundMoney, ROUNDING_LABELS, type CartTotals, type OrderAdjustments } from '../lib/sales';
+import { packLabel, productUnit } from '../lib/barcodes';
+import { formatQuantity, formatUnitPrice, isWeighed, parseQuantity, quantityStep, WEIGHT_UNIT } from '../lib/units';
+import { DiscountModal } from './DiscountModal';
+import { cn } from '../lib/utils';
+
+interface CartProps {
+  items: CartItem[];
+  adjustments: OrderAdjustments;
+  totals: CartTotals;
+  onQuantityChange: (item: CartItem, quantity: number) => void;
+  onRemove: (key: string) => void;
+  onLineDiscount: (key: string, discount?: Discount) => void;
+  onOrderDiscount: (discount?: Discount) => void;
+  onRounding: (rounding?: RoundingMode) => void;
+  onCheckout: () => void;
+}
+
+interface QuantityInputProps {
+  product: Product;
+  value: number;
+  onCommit: (quantity: number) => void;
+}
+
+// Commits on blur or Enter so a half-typed number doesn't remove the line
+const QuantityInput: React.FC<QuantityInputProps> = ({ product, value, onCommit }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const quantity = parseQuantity(draft, product);
+    setDraft(null);
+    if (!isNaN(quantity) && quantity !== value) onCommit(quantity);
+  };
+
+  return (
+    <input
+      type="number"
+      inputMode={isWeighed(product) ? 'decimal' : 'numeric'}
+      min="0"
+      step={quantityStep(product)}
+      value={draft ?? formatQuantity(value, product)}
+      onFocus={e => e.target.select()}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+      }}
+      className={cn("py-1 text-center font-bold rounded-lg border border-zinc-200", isWeighed(product) ? "w-20" : "w-12")}
+    />
+  );
+};
+
+export const Cart: React.FC<CartProps> = ({
+  items,
+  adjustments,
+  totals,
+  onQuantityChange,
+  onRemove,
+  onLineDiscount,
+  onOrderDiscount,
+  onRounding,
+  onCheckout,
+}) => {
+  // Which discount is being edited: a line key, or 'order' for the whole order
+  const [editingDiscount, setEditingDiscount] = useState<string | null>(null);
+  const editingLine = totals.lines.find(line => cartLineKey(line.item) === editingDiscount);
+  const afterLines = roundMoney(totals.gross - totals.promotionDiscount - totals.lineDiscount);
+
+  return (
+    <div className="bg-white rounded-2xl border border-zinc-200 overflow-hidden shadow-sm">
+      <div className="p-4 border-b border-zinc-100 bg-zinc-50/50 flex justify-between items-center">
+        <h2 className="font-bold">当前订单</h2>
+        <span className="text-xs text-zinc-500">共 {items.length} 项商品</span>
+      </div>
+
+      {items.length === 0 ? (
+        <div className="p-12 text-center text-zinc-400">
+          <ShoppingCart size={48} className="mx-auto mb-4 opacity-20" />
+          <p>购物车是空的，请扫码添加商品</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-zinc-100">
+          {totals.lines.map(({ item, gross, net, promotions }) => (
+            <div key={cartLineKey(item)} className="p-4 space-y-2">
+              <div className="flex justify-between items-start gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{item.product.name}</p>
+                  <p className="text-xs text-zinc-500">
+                    {item.pack
+                      ? `¥${linePrice(item)} / ${packLabel(item.product, item.pack)}`
+                      : `${formatUnitPrice(item.product)}${isWeighed(item.product) ? '' : ` / ${productUnit(item.product)}`}`}
+                    {item.discount && <span className="ml-2 text-orange-600 font-bold">{describeDiscount(item.discount)}</span>}
+                  </p>
+                  {promotions.map(promotion => (
+                    <p key={promotion.promotionId} className="text-xs text-rose-600 flex items-center gap-1">
+                      <BadgePercent size={12} />
+                      {promotion.name} -¥{promotion.amount.toFixed(2)}
+                    </p>
+                  ))}
+                </div>
+                <div className="text-right shrink-0">
+                  <p className="font-bold text-emerald-700">¥{net.toFixed(2)}</p>
+                  {net !== gross && <p className="text-xs text-zinc-400 line-through">¥{gross.toFixed(2)}</p>}
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                {isWeighed(item.product) && !item.pack ? (
+                  // Weights come off the scale; there is no sensible +1
+                  <div className="flex items-center gap-1 text-sm text-zinc-500">
+                    <QuantityInput product={item.product} value={item.quantity} onCommit={quantity => onQuantityChange(item, quantity)} />
+                    {WEIGHT_UNIT}
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => onQuantityChange(item, item.quantity - 1)}
+                      className="p-1.5 rounded-lg bg-zinc-100 text-zinc-600"
+                      title="减少"
+                    >
+                      <Minus size={16} />
+                    </button>
+                    <QuantityInput product={item.product} value={item.quantity} onCommit={quantity => onQuantityChange(item, quantity)} />
+                    <button
+                      onClick={() => onQuantityChange(item, item.quantity + 1)}
+                      className="p-1.5 rounded-lg bg-zinc-100 text-zinc-600"
+                      title="增加"
+                    >
+                      <Plus size={16} />
+                    </button>
+                  </div>
+                )}
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => setEditingDiscount(cartLineKey(item))}
+                    className={cn(
+                      "p-2 rounded-lg transition-colors",
+                      item.discount ? "text-orange-600 bg-orange-50" : "text-zinc-400 hover:text-orange-600"
+                    )}
+                    title="单品优惠"
+                  >
+                    <Tag size={18} />
+                  </button>
+                  <button
+                    onClick={() => onRemove(cartLineKey(item))}
+                    className="p-2 text-zinc-400 hover:text-red-500 transition-colors"
+                    title="移除"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <div className="p-4 border-t border-zinc-100 space-y-3 text-sm">
+          <div className="flex gap-2">
+            <button
+              onClick={() => setEditingDiscount('order')}
+              className={cn(
+                "flex-1 py-2 rounded-xl border font-bold flex items-center justify-center gap-1",
+                adjustments.discount ? "border-orange-300 bg-orange-50 text-orange-700" : "border-zinc-200 text-zinc-600"
+              )}
+            >
+              <Tag size={16} />
+              {adjustments.discount ? `整单 ${describeDiscount(adjustments.discount)}` : '整单优惠'}
+            </button>
+            {(Object.keys(ROUNDING_LABELS) as RoundingMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => onRounding(adjustments.rounding === mode ? undefined : mode)}
+                className={cn(
+                  "px-3 py-2 rounded-xl border font-bold",
+                  adjustments.rounding === mode ? "border-orange-300 bg-orange-50 text-orange-700" : "border-zinc-200 text-zinc-600"
+                )}
+              >
+                {ROUNDING_LABELS[mode]}
+              </button>
+            ))}
+          </div>
+
+          {totals.discount > 0 && (
+            <div className="space-y-1 text-zinc-600">
+              <div className="flex justify-between"><span>商品小计</span><span>¥{totals.gross.toFixed(2)}</span></div>
+              {totals.promotionDiscount > 0 && (
+                <div className="flex justify-between"><span>促销优惠</span><span className="text-orange-600">-¥{totals.promotionDiscount.toFixed(2)}</span></div>
+              )}
+              {totals.lineDiscount > 0 && (
+                <div className="flex justify-between"><span>单品优惠</span><span className="text-orange-600">-¥{totals.lineDiscount.toFixed(2)}</span></div>
+              )}
+              {totals.orderDiscount > 0 && (
+                <div className="flex justify-between"><span>整单优惠</span><span className="text-orange-600">-¥{totals.orderDiscount.toFixed(2)}</span></div>
+              )}
+              {totals.roundingOff > 0 && (
+                <div className="flex justify-between"><span>抹零</span><span className="text-orange-600">-¥{totals.roundingOff.toFixed(2)}</span></div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="p-6 bg-emerald-50 border-t border-emerald-100 flex justify-between items-center">
+        <span className="text-emerald-800 font-medium">{totals.discount > 0 ? '应付金额' : '总金额'}</span>
+        <div className="text-right">
+          <span className="text-3xl font-black text-emerald-700">¥{totals.payable.toFixed(2)}</span>
+          {totals.discount > 0 && <p className="text-xs text-orange-600 font-bold">已优惠 ¥{totals.discount.toFixed(2)}</p>}
+        </div>
+      </div>
+
+      {items.length > 0 && (
+        <div className="p-4 border-t border-emerald-100 bg-emerald-50">
+          <button
+            onClick={onCheckout}
+            className="w-full py-4 bg-emerald-600 text-white rounded-2xl font-bold text-lg shadow-lg flex items-center justify-center gap-2"
+          >
+            <Check size={20} />
+            收款结账
+          </button>
+        </div>
+      )}
+
+      {editingLine && (
+        <DiscountModal
+          title={`单品优惠：${editingLine.item.product.name}`}
+          base={roundMoney(editingLine.gross - editingLine.promotionDiscount)}
+          discount={editingLine.item.discount}
+          onApply={discount => {
+            onLineDiscount(cartLineKey(editingLine.item), discount);
+            setEditingDiscount(null);
+          }}
+          onClose={() => setEditingDiscount(null)}
+        />
+      )}
+
+      {editingDiscount === 'order' && (
+        <DiscountModal
+          title="整单优惠"
+          base={afterLines}
+          discount={adjustments.discount}
+          onApply={discount => {
+            onOrderDiscount(discount);
+            setEditingDiscount(null);
+          }}
+          onClose={() => setEditingDiscount(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { X, Check, Edit3, Plus, Users } from 'lucide-react';
+import { CASHIER_ROLE_LABELS, type Cashier, type CashierRole } from '../types';
+import type { CashierDraft } from '../lib/cashiers';
+import { cn } from '../lib/utils';
+
+interface CashierManagerProps {
+  cashiers: Cashier[];
+  currentId?: string;
+  // Resolves false when the account couldn't be saved, leaving the form open
+  onSave: (draft: CashierDraft) => Promise<boolean>;
+  onClose: () => void;
+}
+
+export const CashierManager: React.FC<CashierManagerProps> = ({ cashiers, currentId, onSave, onClose }) => {
+  const [draft, setDraft] = useState<CashierDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const isNew = !draft?.id;
+
+  const startNew = () => {
+    setDraft({ name: '', role: cashiers.length === 0 ? 'owner' : 'cashier', pin: '' });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || isSaving) return;
+    setIsSaving(true);
+    const saved = await onSave(draft);
+    setIsSaving(false);
+    if (saved) setDraft(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md max-h-[85vh] flex flex-col rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold">收银员账号</h2>
+            <p className="text-xs text-zinc-500">设置账号后，打开应用需要输入 PIN 登录</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        {draft ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">姓名</label>
+              <input
+                autoFocus
+                required
+                type="text"
+                value={draft.name}
+                onChange={e => setDraft({ ...draft, name: e.target.value })}
+                className="w-full p-3 rounded-xl border border-zinc-200"
+                placeholder="例如：小王"
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">角色</label>
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(CASHIER_ROLE_LABELS) as CashierRole[]).map(role => (
+                  <button
+                    key={role}
+                    type="button"
+                    onClick={() => setDraft({ ...draft, role })}
+                    className={cn(
+                      "py-2 rounded-xl border font-bold text-sm transition-colors",
+                      draft.role === role ? "bg-emerald-600 border-emerald-600 text-white" : "bg-white border-zinc-200 text-zinc-600"
+                    )}
+                  >
+                    {CASHIER_ROLE_LABELS[role]}
+                  </button>
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-zinc-500">
+                {draft.role === 'owner'
+                  ? '可以改商品和价格、删除商品、打折、导入数据和管理账号'
+                  : '只能收银、退货、入库和盘点；改价、删除、打折和导入需要店主输入 PIN 授权'}
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">PIN</label>
+              <input
+                required={isNew}
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                maxLength={6}
+                value={draft.pin}
+                onChange={e => setDraft({ ...draft, pin: e.target.value.replace(/\D/g, '') })}
+                className="w-full p-3 rounded-xl border border-zinc-200 font-mono tracking-widest"
+                placeholder={isNew ? '4 到 6 位数字' : '留空则不修改'}
+              />
+            </div>
+
+            {!isNew && draft.id !== currentId && (
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  checked={!!draft.disabled}
+                  onChange={e => setDraft({ ...draft, disabled: e.target.checked || undefined })}
+                  className="w-4 h-4 accent-emerald-600"
+                />
+                停用此账号
+              </label>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="py-4 rounded-2xl bg-zinc-100 text-zinc-600 font-bold"
+              >
+                取消
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving || !draft.name.trim()}
+                className="py-4 bg-emerald-600 text-white rounded-2xl font-bold shadow-lg flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                <Check size={20} />
+                保存
+              </button>
+            </div>
+          </form>
+        ) : (
+          <>
+            <div className="flex-1 overflow-y-auto divide-y divide-zinc-100 -mx-2">
+              {cashiers.length === 0 ? (
+                <div className="p-8 text-center text-zinc-400">
+                  <Users size={40} className="mx-auto mb-3 opacity-20" />
+                  <p className="text-sm">还没有账号，任何人都可以使用全部功能</p>
+                  <p className="text-xs mt-1">第一个账号需要是店主</p>
+                </div>
+              ) : (
+                cashiers.map(cashier => (
+                  <div key={cashier.id} className={cn("px-2 py-3 flex justify-between items-center", cashier.disabled && "opacity-50")}>
+                    <div>
+                      <p className="font-medium">
+                        {cashier.name}
+                        {cashier.id === currentId && <span className="ml-2 text-xs text-emerald-600">当前登录</span>}
+                      </p>
+                      <p className="text-xs text-zinc-500">
+                        {CASHIER_ROLE_LABELS[cashier.role]}{cashier.disabled ? ' · 已停用' : ''}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => setDraft({ id: cashier.id, name: cashier.name, role: cashier.role, pin: '', disabled: cashier.disabled })}
+                      className="p-2 text-zinc-400 hover:text-emerald-600"
+                    >
+                      <Edit3 size={18} />
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+            <button
+              onClick={startNew}
+              className="w-full py-4 bg-emerald-600 text-white rounded-2xl font-bold text-lg shadow-lg mt-4 flex items-center justify-center gap-2"
+            >
+              <Plus size={20} />
+              添加账号
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
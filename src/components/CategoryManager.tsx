@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { X, Check, Edit3, Trash2, Tags } from 'lucide-react';
+import type { Product } from '../types';
+import { listCategories } from '../lib/productSearch';
+import { UNCATEGORIZED } from '../lib/report';
+
+interface CategoryManagerProps {
+  products: Product[];
+  // An empty name removes the category from its products
+  onRename: (from: string, to: string) => Promise<void>;
+  onClose: () => void;
+}
+
+export const CategoryManager: React.FC<CategoryManagerProps> = ({ products, onRename, onClose }) => {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const categories = listCategories(products);
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    const to = name.trim();
+    if (!to || to === UNCATEGORIZED) return;
+    if (to !== editing) {
+      if (categories.some(c => c.name === to) && !confirm(`分类「${to}」已存在，确定合并吗？`)) return;
+      await onRename(editing, to);
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = async (category: string, count: number) => {
+    if (!confirm(`确定删除分类「${category}」吗？其中 ${count} 个商品将变为${UNCATEGORIZED}。`)) return;
+    await onRename(category, '');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md max-h-[85vh] flex flex-col rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold">管理分类</h2>
+            <p className="text-xs text-zinc-500">新分类在编辑商品时直接输入名称即可创建</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-zinc-100 -mx-2">
+          {categories.length === 0 ? (
+            <div className="p-8 text-center text-zinc-400">
+              <Tags size={40} className="mx-auto mb-3 opacity-20" />
+              <p className="text-sm">还没有分类</p>
+            </div>
+          ) : (
+            categories.map(c => editing === c.name ? (
+              <form key={c.name} onSubmit={handleRename} className="px-2 py-2 flex gap-2">
+                <input
+                  autoFocus
+                  type="text"
+                  value={name}
+                  onChange={e => setName(e.target.value)}
+                  className="flex-1 p-2 rounded-xl border border-zinc-200"
+                />
+                <button type="submit" disabled={!name.trim()} className="p-2 text-emerald-600 disabled:opacity-50">
+                  <Check size={18} />
+                </button>
+                <button type="button" onClick={() => setEditing(null)} className="p-2 text-zinc-400">
+                  <X size={18} />
+                </button>
+              </form>
+            ) : (
+              <div key={c.name} className="px-2 py-3 flex justify-between items-center">
+                <div>
+                  <p className="font-medium">{c.name}</p>
+                  <p className="text-xs text-zinc-500">{c.count} 个商品</p>
+                </div>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => {
+                      setEditing(c.name);
+                      setName(c.name);
+                    }}
+                    className="p-2 text-zinc-400 hover:text-emerald-600"
+                  >
+                    <Edit3 size={18} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(c.name, c.count)}
+                    className="p-2 text-zinc-400 hover:text-red-500"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { X, Check } from 'lucide-react';
+import { PAYMENT_METHOD_LABELS, type Payment, type PaymentMethod } from '../types';
+import { roundMoney } from '../lib/sales';
+import { cn } from '../lib/utils';
+
+interface CheckoutModalProps {
+  totalAmount: number;
+  itemCount: number;
+  onConfirm: (payment: Payment) => void;
+  onClose: () => void;
+}
+
+function quickCashAmounts(total: number) {
+  const amounts = [total, Math.ceil(total / 10) * 10, Math.ceil(total / 50) * 50, Math.ceil(total / 100) * 100];
+  return Array.from(new Set(amounts.map(roundMoney))).filter(a => a > 0);
+}
+
+export const CheckoutModal: React.FC<CheckoutModalProps> = ({ totalAmount, itemCount, onConfirm, onClose }) => {
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [tendered, setTendered] = useState('');
+
+  const cashTendered = tendered === '' ? totalAmount : parseFloat(tendered);
+  const change = roundMoney(cashTendered - totalAmount);
+  const insufficient = method === 'cash' && (isNaN(cashTendered) || change < 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (insufficient) return;
+    onConfirm(method === 'cash' ? { method, cashTendered } : { method });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold">收款结账</h2>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="p-4 rounded-2xl bg-emerald-50 flex justify-between items-center">
+            <span className="text-emerald-800 font-medium">应收 · {itemCount} 件</span>
+            <span className="text-3xl font-black text-emerald-700">¥{totalAmount.toFixed(2)}</span>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">支付方式</label>
+            <div className="grid grid-cols-4 gap-2">
+              {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(m => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => setMethod(m)}
+                  className={cn(
+                    "py-3 rounded-xl border font-bold text-sm transition-colors",
+                    method === m ? "bg-emerald-600 border-emerald-600 text-white" : "bg-white border-zinc-200 text-zinc-600"
+                  )}
+                >
+                  {PAYMENT_METHOD_LABELS[m]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {method === 'cash' && (
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">实收现金 (¥)</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                autoFocus
+                value={tendered}
+                onChange={e => setTendered(e.target.value)}
+                className="w-full p-3 rounded-xl border border-zinc-200 text-lg font-bold"
+                placeholder={totalAmount.toFixed(2)}
+              />
+              <div className="mt-2 flex flex-wrap gap-2">
+                {quickCashAmounts(totalAmount).map(amount => (
+                  <button
+                    key={amount}
+                    type="button"
+                    onClick={() => setTendered(String(amount))}
+                    className="px-3 py-1.5 rounded-lg bg-zinc-100 text-zinc-700 text-sm font-medium"
+                  >
+                    ¥{amount}
+                  </button>
+                ))}
+              </div>
+              <div className="mt-4 flex justify-between items-center">
+                <span className="text-zinc-500">找零</span>
+                <span className={cn("text-2xl font-black", insufficient ? "text-red-500" : "text-zinc-900")}>
+                  {insufficient ? '金额不足' : `¥${change.toFixed(2)}`}
+                </span>
+              </div>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={insufficient}
+            className="w-full py-4 bg-emerald-600 text-white rounded-2xl font-bold text-lg shadow-lg mt-4 flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <Check size={20} />
+            确认收款
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
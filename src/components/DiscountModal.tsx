@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { X, Check } from 'lucide-react';
+import type { Discount, DiscountType } from '../types';
+import { discountAmount, roundMoney } from '../lib/sales';
+import { cn } from '../lib/utils';
+
+interface DiscountModalProps {
+  title: string;
+  // The amount the discount applies to
+  base: number;
+  discount?: Discount;
+  onApply: (discount: Discount | undefined) => void;
+  onClose: () => void;
+}
+
+// Shop talk is in 折: 9折 means paying 90%, i.e. 10% off
+const QUICK_RATES = [9.5, 9, 8.8, 8.5, 8, 7, 5];
+
+export const DiscountModal: React.FC<DiscountModalProps> = ({ title, base, discount, onApply, onClose }) => {
+  const [type, setType] = useState<DiscountType>(discount?.type ?? 'percent');
+  const [value, setValue] = useState(discount ? String(discount.value) : '');
+
+  const parsed = parseFloat(value);
+  const candidate: Discount | undefined = isNaN(parsed) || parsed <= 0 ? undefined : { type, value: parsed };
+  const off = discountAmount(base, candidate);
+  const invalid = !candidate || (type === 'percent' && parsed > 100);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invalid) onApply(candidate);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h2 className="text-xl font-bold">{title}</h2>
+            <p className="text-xs text-zinc-500">原价 ¥{base.toFixed(2)}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {(['percent', 'amount'] as DiscountType[]).map(t => (
+              <button
+                key={t}
+                type="button"
+                onClick={() => setType(t)}
+                className={cn(
+                  "py-2 rounded-xl border font-bold text-sm transition-colors",
+                  type === t ? "bg-emerald-600 border-emerald-600 text-white" : "bg-white border-zinc-200 text-zinc-600"
+                )}
+              >
+                {t === 'percent' ? '打折 (%)' : '减价 (¥)'}
+              </button>
+            ))}
+          </div>
+
+          {type === 'percent' && (
+            <div className="flex flex-wrap gap-2">
+              {QUICK_RATES.map(rate => (
+                <button
+                  key={rate}
+                  type="button"
+                  onClick={() => setValue(String(roundMoney(100 - rate * 10)))}
+                  className="px-3 py-1.5 rounded-lg bg-zinc-100 text-sm font-bold text-zinc-600"
+                >
+                  {rate}折
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">
+              {type === 'percent' ? '优惠比例 (%)' : '优惠金额 (¥)'}
+            </label>
+            <input
+              autoFocus
+              type="number"
+              step="0.01"
+              min="0"
+              value={value}
+              onChange={e => setValue(e.target.value)}
+              className="w-full p-3 rounded-xl border border-zinc-200 text-lg font-bold"
+              placeholder={type === 'percent' ? '例如 10 表示减 10%' : '0.00'}
+            />
+            {candidate && !invalid && (
+              <p className="mt-1 text-sm font-bold text-emerald-600">
+                优惠 ¥{off.toFixed(2)} → 实付 ¥{roundMoney(base - off).toFixed(2)}
+              </p>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            {discount && (
+              <button
+                type="button"
+                onClick={() => onApply(undefined)}
+                className="px-4 py-4 rounded-2xl bg-white border border-zinc-200 text-zinc-600 font-bold"
+              >
+                取消优惠
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={invalid}
+              className="flex-1 py-4 bg-emerald-600 text-white rounded-2xl font-bold text-lg shadow-lg flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <Check size={20} />
+              确定
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
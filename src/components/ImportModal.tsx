@@ -0,0 +1,264 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Check, FileSpreadsheet, AlertTriangle, DatabaseBackup } from 'lucide-react';
+import type { Product } from '../types';
+import {
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  guessMapping,
+  planImport,
+  readImportRows,
+  type ColumnMapping,
+  type ImportField,
+  type ImportMode,
+  type ImportPlan,
+} from '../lib/productImport';
+import { parseBackup, type Backup } from '../lib/backup';
+import { readSpreadsheet, isSpreadsheetFile } from '../lib/spreadsheet';
+import { formatDateTime } from '../lib/date';
+import { cn } from '../lib/utils';
+
+interface ImportModalProps {
+  file: File;
+  products: Product[];
+  isOnline: boolean;
+  onApplyImport: (plan: ImportPlan) => Promise<void>;
+  onRestore: (backup: Backup) => Promise<void>;
+  onClose: () => void;
+}
+
+type Loaded =
+  | { kind: 'loading' }
+  | { kind: 'error'; message: string }
+  | { kind: 'sheet'; rows: string[][] }
+  | { kind: 'backup'; backup: Backup };
+
+// Long lists are cut off in the preview; the import itself covers every row
+const PREVIEW_LIMIT = 50;
+
+const MODE_LABELS: Record<ImportMode, string> = {
+  merge: '合并 (按条码更新或新增)',
+  replace: '替换 (删除表格中没有的商品)',
+};
+
+function describeChanges(changes: Partial<Product>, existing: Product, stockDelta: number) {
+  const parts = (Object.keys(changes) as (keyof Product)[]).map(key => {
+    const label = IMPORT_FIELD_LABELS[key as ImportField] ?? key;
+    return `${label} ${existing[key] ?? '—'} → ${changes[key]}`;
+  });
+  if (stockDelta !== 0) parts.push(`库存 ${stockDelta > 0 ? '+' : ''}${stockDelta}`);
+  return parts.join('，');
+}
+
+export const ImportModal: React.FC<ImportModalProps> = ({ file, products, isOnline, onApplyImport, onRestore, onClose }) => {
+  const [loaded, setLoaded] = useState<Loaded>({ kind: 'loading' });
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [isApplying, setIsApplying] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async (): Promise<Loaded> => {
+      try {
+        if (isSpreadsheetFile(file)) {
+          const rows = await readSpreadsheet(file);
+          if (rows.length < 2) return { kind: 'error', message: '表格中没有数据' };
+          setMapping(guessMapping(rows[0]));
+          return { kind: 'sheet', rows };
+        }
+        return { kind: 'backup', backup: parseBackup(await file.text()) };
+      } catch (err) {
+        return { kind: 'error', message: err instanceof Error ? err.message : '无法读取文件' };
+      }
+    };
+    load().then(result => {
+      if (!cancelled) setLoaded(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const plan = useMemo(() => {
+    if (loaded.kind !== 'sheet' || mapping.barcode === undefined) return null;
+    const { rows, errors } = readImportRows(loaded.rows, mapping);
+    return planImport(rows, errors, products, mode);
+  }, [loaded, mapping, mode, products]);
+
+  const added = plan?.rows.filter(r => r.action === 'add') ?? [];
+  const updated = plan?.rows.filter(r => r.action === 'update') ?? [];
+  const unchangedCount = (plan?.rows.length ?? 0) - added.length - updated.length;
+  const actionCount = added.length + updated.length + (plan?.removed.length ?? 0);
+  // A row that failed to read would otherwise count as missing and be deleted
+  const blockedByErrors = mode === 'replace' && (plan?.errors.length ?? 0) > 0;
+
+  const run = async (action: () => Promise<void>) => {
+    setIsApplying(true);
+    try {
+      await action();
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const header = loaded.kind === 'sheet' ? loaded.rows[0] : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md max-h-[90vh] flex flex-col rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-4">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold">{loaded.kind === 'backup' ? '恢复备份' : '导入商品'}</h2>
+            <p className="text-xs text-zinc-500 truncate">{file.name}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4 -mx-1 px-1">
+          {loaded.kind === 'loading' && <p className="p-8 text-center text-zinc-400 text-sm">读取中...</p>}
+
+          {loaded.kind === 'error' && (
+            <p className="p-4 rounded-xl bg-red-50 text-red-600 text-sm">{loaded.message}</p>
+          )}
+
+          {loaded.kind === 'backup' && (
+            <>
+              <div className="p-4 rounded-2xl bg-zinc-50 text-sm space-y-1">
+                <p className="font-bold flex items-center gap-2"><DatabaseBackup size={16} /> 备份内容</p>
+                {loaded.backup.exportedAt && <p>备份时间：{formatDateTime(loaded.backup.exportedAt)}</p>}
+                <p>商品 {loaded.backup.products.length} 个 · 销售 {loaded.backup.sales.length} 笔 · 退货 {loaded.backup.refunds.length} 笔</p>
+                <p>入库 {loaded.backup.receivings.length} 单 · 盘点 {loaded.backup.stocktakes.length} 次 · 促销 {loaded.backup.promotions.length} 项</p>
+                {loaded.backup.settings && <p>包含本机设置</p>}
+              </div>
+              <p className="p-3 rounded-xl bg-amber-50 text-amber-700 text-xs">
+                恢复后商品、库存和促销将与备份一致，备份中没有的商品会被删除；已有的销售等记录会保留。
+              </p>
+              {!isOnline && (
+                <p className="p-3 rounded-xl bg-red-50 text-red-600 text-xs">恢复备份需要连接服务器</p>
+              )}
+            </>
+          )}
+
+          {loaded.kind === 'sheet' && (
+            <>
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase mb-2">列对应关系</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {IMPORT_FIELDS.map(field => (
+                    <label key={field} className="text-sm">
+                      <span className={cn("block text-xs mb-1", field === 'barcode' ? "font-bold text-zinc-700" : "text-zinc-500")}>
+                        {IMPORT_FIELD_LABELS[field]}{field === 'barcode' ? ' (必填)' : ''}
+                      </span>
+                      <select
+                        value={mapping[field] ?? ''}
+                        onChange={e => setMapping(prev => ({
+                          ...prev,
+                          [field]: e.target.value === '' ? undefined : Number(e.target.value),
+                        }))}
+                        className="w-full p-2 rounded-xl border border-zinc-200 bg-white"
+                      >
+                        <option value="">不导入</option>
+                        {header.map((title, index) => (
+                          <option key={index} value={index}>{title || `第 ${index + 1} 列`}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase mb-2">导入方式</label>
+                <div className="space-y-2">
+                  {(Object.keys(MODE_LABELS) as ImportMode[]).map(m => (
+                    <button
+                      key={m}
+                      onClick={() => setMode(m)}
+                      className={cn(
+                        "w-full p-3 rounded-xl border text-sm text-left transition-colors",
+                        mode === m ? "border-emerald-600 bg-emerald-50 text-emerald-700 font-bold" : "border-zinc-200 text-zinc-600"
+                      )}
+                    >
+                      {MODE_LABELS[m]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {!plan ? (
+                <p className="p-3 rounded-xl bg-amber-50 text-amber-700 text-sm">请选择条码所在的列</p>
+              ) : (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-4 gap-2 text-center text-sm">
+                    <div className="p-2 rounded-xl bg-emerald-50 text-emerald-700"><p className="font-black text-lg">{added.length}</p>新增</div>
+                    <div className="p-2 rounded-xl bg-blue-50 text-blue-700"><p className="font-black text-lg">{updated.length}</p>更新</div>
+                    <div className="p-2 rounded-xl bg-zinc-50 text-zinc-500"><p className="font-black text-lg">{unchangedCount}</p>无变化</div>
+                    <div className="p-2 rounded-xl bg-red-50 text-red-600"><p className="font-black text-lg">{plan.errors.length}</p>错误</div>
+                  </div>
+
+                  {plan.errors.length > 0 && (
+                    <div className="rounded-xl border border-red-100 divide-y divide-red-50 text-xs">
+                      {plan.errors.slice(0, PREVIEW_LIMIT).map(error => (
+                        <p key={`${error.line}-${error.message}`} className="p-2 text-red-600">第 {error.line} 行：{error.message}</p>
+                      ))}
+                    </div>
+                  )}
+
+                  {plan.removed.length > 0 && (
+                    <div className="rounded-xl border border-amber-200 bg-amber-50 p-3 text-xs text-amber-700">
+                      <p className="font-bold flex items-center gap-1 mb-1"><AlertTriangle size={14} /> 将删除 {plan.removed.length} 个商品</p>
+                      <p>{plan.removed.slice(0, PREVIEW_LIMIT).map(p => p.name).join('、')}</p>
+                    </div>
+                  )}
+
+                  {(added.length > 0 || updated.length > 0) && (
+                    <div className="rounded-xl border border-zinc-100 divide-y divide-zinc-100 text-xs">
+                      {[...added, ...updated].slice(0, PREVIEW_LIMIT).map(row => (
+                        <div key={row.line} className="p-2">
+                          <p className="font-medium text-sm">
+                            <span className={cn("mr-1", row.action === 'add' ? "text-emerald-600" : "text-blue-600")}>
+                              {row.action === 'add' ? '新增' : '更新'}
+                            </span>
+                            {row.product.name}
+                          </p>
+                          <p className="text-zinc-500">
+                            {row.action === 'add'
+                              ? `${row.product.barcode} · ¥${row.product.price} · 库存 ${row.product.stock}`
+                              : describeChanges(row.changes, row.existing!, row.stockDelta)}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {loaded.kind === 'backup' && (
+          <button
+            onClick={() => run(() => onRestore(loaded.backup))}
+            disabled={!isOnline || isApplying}
+            className="w-full py-4 bg-amber-500 text-white rounded-2xl font-bold text-lg shadow-lg mt-4 flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <DatabaseBackup size={20} />
+            {isApplying ? '恢复中...' : '恢复备份'}
+          </button>
+        )}
+
+        {plan && (
+          <button
+            onClick={() => run(() => onApplyImport(plan))}
+            disabled={actionCount === 0 || blockedByErrors || isApplying}
+            className="w-full py-4 bg-emerald-600 text-white rounded-2xl font-bold text-lg shadow-lg mt-4 flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {plan.errors.length > 0 ? <FileSpreadsheet size={20} /> : <Check size={20} />}
+            {blockedByErrors
+              ? '替换前请先修正错误行'
+              : plan.errors.length > 0 ? `跳过错误行，导入 ${actionCount} 项` : `导入 ${actionCount} 项`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,267 @@
+import React, { useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { Search, LayoutGrid, History, Edit3, Trash2, Tags, ArrowUpDown, AlertTriangle, ChevronRight, Coins } from 'lucide-react';
+import type { Product, Sale } from '../types';
+import {
+  PRODUCT_SORT_LABELS,
+  filterProducts,
+  isLowStock,
+  isOutOfStock,
+  listCategories,
+  recentSalesByProduct,
+  sortProducts,
+  type ProductSort,
+  type StockFilter,
+} from '../lib/productSearch';
+import { UNCATEGORIZED } from '../lib/report';
+import { formatMarginRate, marginOf } from '../lib/costing';
+import { roundMoney } from '../lib/sales';
+import { needsReorder } from '../lib/reorder';
+import { formatUnitPrice, withUnit } from '../lib/units';
+import { cn } from '../lib/utils';
+
+interface InventoryListProps {
+  products: Product[];
+  sales: Sale[];
+  // Toolbar buttons shown next to the search box
+  actions: React.ReactNode;
+  onAdd: () => void;
+  onHistory: (productId: string) => void;
+  onEdit: (product: Product) => void;
+  onDelete: (productId: string) => void;
+  onManageCategories: () => void;
+  onShowReorder: () => void;
+  onShowValuation: () => void;
+}
+
+const STOCK_FILTER_LABELS: Record<StockFilter, string> = {
+  all: '全部',
+  low: '低库存',
+  out: '缺货',
+};
+
+// Rendering thousands of rows at once makes scrolling and typing lag on phones
+const PAGE_SIZE = 100;
+
+export const InventoryList: React.FC<InventoryListProps> = ({
+  products,
+  sales,
+  actions,
+  onAdd,
+  onHistory,
+  onEdit,
+  onDelete,
+  onManageCategories,
+  onShowReorder,
+  onShowValuation,
+}) => {
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<string | undefined>(undefined);
+  const [stockFilter, setStockFilter] = useState<StockFilter>('all');
+  const [sort, setSort] = useState<ProductSort>('name');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  // Keeps the input responsive while the list catches up
+  const deferredQuery = useDeferredValue(query);
+
+  const categories = useMemo(() => listCategories(products), [products]);
+  const hasUncategorized = useMemo(() => products.some(p => !p.category?.trim()), [products]);
+  const recentSales = useMemo(() => recentSalesByProduct(sales), [sales]);
+  const reorderCount = useMemo(() => products.filter(needsReorder).length, [products]);
+  // Only shown once some cost prices have been entered
+  const stockValue = useMemo(() => {
+    const costed = products.filter(p => p.costPrice !== undefined && p.stock > 0);
+    return costed.length > 0 ? roundMoney(costed.reduce((sum, p) => sum + p.stock * p.costPrice!, 0)) : undefined;
+  }, [products]);
+
+  const visibleProducts = useMemo(
+    () => sortProducts(
+      filterProducts(products, { query: deferredQuery, category, stock: stockFilter }),
+      sort,
+      recentSales
+    ),
+    [products, deferredQuery, category, stockFilter, sort, recentSales]
+  );
+
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE);
+  }, [deferredQuery, category, stockFilter, sort]);
+
+  // A category that was renamed away or emptied would otherwise hide everything
+  useEffect(() => {
+    if (category && category !== UNCATEGORIZED && !categories.some(c => c.name === category)) {
+      setCategory(undefined);
+    }
+  }, [category, categories]);
+
+  const chip = (active: boolean) => cn(
+    "shrink-0 px-3 py-1.5 rounded-full text-sm font-medium border transition-colors",
+    active ? "bg-emerald-600 border-emerald-600 text-white" : "bg-white border-zinc-200 text-zinc-600"
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-400" size={18} />
+          <input
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="名称、条码或拼音首字母..."
+            className="w-full pl-10 pr-4 py-3 rounded-xl border border-zinc-200 focus:outline-none focus:ring-2 focus:ring-emerald-500 bg-white"
+          />
+        </div>
+        {actions}
+      </div>
+
+      {reorderCount > 0 && (
+        <button
+          onClick={onShowReorder}
+          className="w-full p-3 rounded-xl bg-amber-50 border border-amber-200 text-amber-700 flex items-center gap-2 text-sm font-medium"
+        >
+          <AlertTriangle size={18} />
+          <span className="flex-1 text-left">{reorderCount} 个商品需要补货</span>
+          <ChevronRight size={16} />
+        </button>
+      )}
+
+      {stockValue !== undefined && (
+        <button
+          onClick={onShowValuation}
+          className="w-full p-3 rounded-xl bg-white border border-zinc-200 text-zinc-600 flex items-center gap-2 text-sm font-medium"
+        >
+          <Coins size={18} />
+          <span className="flex-1 text-left">库存金额 ¥{stockValue.toFixed(2)}（按进价）</span>
+          <ChevronRight size={16} />
+        </button>
+      )}
+
+      <div className="flex gap-2 overflow-x-auto pb-1 -mx-4 px-4">
+        <button onClick={() => setCategory(undefined)} className={chip(category === undefined)}>
+          全部分类
+        </button>
+        {categories.map(c => (
+          <button key={c.name} onClick={() => setCategory(c.name)} className={chip(category === c.name)}>
+            {c.name} <span className="opacity-60">{c.count}</span>
+          </button>
+        ))}
+        {hasUncategorized && (
+          <button onClick={() => setCategory(UNCATEGORIZED)} className={chip(category === UNCATEGORIZED)}>
+            {UNCATEGORIZED}
+          </button>
+        )}
+        <button
+          onClick={onManageCategories}
+          className="shrink-0 p-1.5 rounded-full border border-zinc-200 bg-white text-zinc-500"
+          title="管理分类"
+        >
+          <Tags size={16} />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-2">
+          {(Object.keys(STOCK_FILTER_LABELS) as StockFilter[]).map(f => (
+            <button key={f} onClick={() => setStockFilter(f)} className={chip(stockFilter === f)}>
+              {STOCK_FILTER_LABELS[f]}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1 text-sm text-zinc-500">
+          <ArrowUpDown size={14} />
+          <select
+            value={sort}
+            onChange={e => setSort(e.target.value as ProductSort)}
+            className="bg-transparent font-medium text-zinc-700 focus:outline-none"
+          >
+            {(Object.keys(PRODUCT_SORT_LABELS) as ProductSort[]).map(s => (
+              <option key={s} value={s}>{PRODUCT_SORT_LABELS[s]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid gap-3">
+        {products.length === 0 ? (
+          <div className="p-12 text-center text-zinc-400 bg-white rounded-2xl border border-dashed border-zinc-300">
+            <LayoutGrid size={48} className="mx-auto mb-4 opacity-20" />
+            <p>库存中没有商品</p>
+            <button
+              onClick={onAdd}
+              className="mt-4 text-emerald-600 font-bold"
+            >
+              立即添加
+            </button>
+          </div>
+        ) : visibleProducts.length === 0 ? (
+          <div className="p-12 text-center text-zinc-400">
+            <Search size={48} className="mx-auto mb-4 opacity-20" />
+            <p>没有找到匹配的商品</p>
+          </div>
+        ) : (
+          visibleProducts.slice(0, visibleCount).map(product => {
+            const margin = marginOf(product.price, product.costPrice);
+            return (
+              <div key={product.id} className="bg-white p-4 rounded-xl border border-zinc-200 flex justify-between items-center shadow-sm">
+                <div className="min-w-0">
+                  <h3 className="font-bold truncate">
+                    {product.name}
+                    {product.spec && <span className="ml-1 font-normal text-zinc-500">{product.spec}</span>}
+                  </h3>
+                  <p className="text-xs text-zinc-500 font-mono">
+                    {product.barcode}
+                    {product.barcodes && product.barcodes.length > 0 && (
+                      <span className="ml-1 font-sans text-zinc-400">+{product.barcodes.length} 条码</span>
+                    )}
+                    {product.category && <span className="ml-2 font-sans px-1.5 py-0.5 rounded bg-zinc-100">{product.category}</span>}
+                  </p>
+                  <div className="mt-1 flex gap-3 text-sm">
+                    <span className="text-emerald-600 font-bold">{formatUnitPrice(product)}</span>
+                    {margin && (
+                      <span className={margin.profit < 0 ? "text-red-500" : "text-zinc-400"}>毛利 {formatMarginRate(margin)}</span>
+                    )}
+                    <span className={cn(
+                      isOutOfStock(product) ? "text-red-500 font-bold" : isLowStock(product) ? "text-amber-600 font-bold" : "text-zinc-400"
+                    )}>
+                      库存: {withUnit(product.stock, product)}{isOutOfStock(product) ? ' (缺货)' : ''}
+                    </span>
+                    {sort === 'sales' && (
+                      <span className="text-zinc-400">近期售出 {recentSales.get(product.id) ?? 0}</span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => onHistory(product.id)}
+                    className="p-2 text-zinc-400 hover:text-emerald-600"
+                  >
+                    <History size={18} />
+                  </button>
+                  <button
+                    onClick={() => onEdit(product)}
+                    className="p-2 text-zinc-400 hover:text-emerald-600"
+                  >
+                    <Edit3 size={18} />
+                  </button>
+                  <button
+                    onClick={() => onDelete(product.id)}
+                    className="p-2 text-zinc-400 hover:text-red-500"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+              </div>
+            );
+          })
+        )}
+        {visibleProducts.length > visibleCount && (
+          <button
+            onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+            className="py-3 text-sm font-bold text-emerald-600"
+          >
+            显示更多 (还有 {visibleProducts.length - visibleCount} 个)
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,219 @@
+import React, { useMemo, useState } from 'react';
+import { X, Minus, Plus, Printer, Search, Tag } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import type { Product } from '../types';
+import {
+  LABEL_CODE_TYPE_LABELS,
+  LABEL_SIZES,
+  findLabelSize,
+  labelBarcodeSvg,
+  labelsToHtml,
+  type LabelCodeType,
+  type LabelSettings,
+} from '../lib/labels';
+import { matchesQuery } from '../lib/productSearch';
+import { formatUnitPrice } from '../lib/units';
+import { printHtml } from '../lib/share';
+import { cn } from '../lib/utils';
+
+const MAX_RESULTS = 8;
+
+interface LabelPrinterProps {
+  products: Product[];
+  settings: LabelSettings;
+  // Opened from a product form, with that product already on the sheet
+  initialProductIds?: string[];
+  onChangeSettings: (settings: LabelSettings) => void;
+  onClose: () => void;
+}
+
+export const LabelPrinter: React.FC<LabelPrinterProps> = ({ products, settings, initialProductIds = [], onChangeSettings, onClose }) => {
+  // Copies per product id, in the order they were added
+  const [copies, setCopies] = useState<[string, number][]>(() => initialProductIds.map(id => [id, 1]));
+  const [query, setQuery] = useState('');
+
+  const size = findLabelSize(settings.sizeId);
+  const productById = useMemo(() => new Map(products.map(p => [p.id, p])), [products]);
+  const items = copies
+    .map(([id, count]) => ({ product: productById.get(id), copies: count }))
+    .filter((item): item is { product: Product; copies: number } => !!item.product);
+  const total = items.reduce((sum, item) => sum + item.copies, 0);
+  const preview = items[0]?.product;
+
+  const results = useMemo(() => {
+    const q = query.trim();
+    if (!q) return [];
+    return products.filter(p => !copies.some(([id]) => id === p.id) && matchesQuery(p, q)).slice(0, MAX_RESULTS);
+  }, [products, copies, query]);
+
+  const setCount = (productId: string, count: number) => {
+    setCopies(prev => count < 1
+      ? prev.filter(([id]) => id !== productId)
+      : prev.map(entry => entry[0] === productId ? [productId, count] : entry));
+  };
+
+  const handlePrint = () => {
+    try {
+      printHtml(labelsToHtml(items, size, { showPrice: settings.showPrice }));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '打印失败');
+    }
+  };
+
+  // Codes Code128 can't carry fail here too, and again when printing
+  const previewBarcode = (() => {
+    if (!preview) return '';
+    try {
+      return labelBarcodeSvg(preview.barcode, 40);
+    } catch {
+      return '';
+    }
+  })();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md max-h-[85vh] flex flex-col rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold">商品标签</h2>
+            <p className="text-xs text-zinc-500">商品名、价格和条码，用标签打印机或 A4 不干胶纸打印</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto -mx-2 px-2 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">标签尺寸</label>
+              <select
+                value={size.id}
+                onChange={e => onChangeSettings({ ...settings, sizeId: e.target.value })}
+                className="w-full p-3 rounded-xl border border-zinc-200 bg-white text-sm"
+              >
+                {LABEL_SIZES.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">店内码格式</label>
+              <select
+                value={settings.codeType}
+                onChange={e => onChangeSettings({ ...settings, codeType: e.target.value as LabelCodeType })}
+                className="w-full p-3 rounded-xl border border-zinc-200 bg-white text-sm"
+              >
+                {(Object.keys(LABEL_CODE_TYPE_LABELS) as LabelCodeType[]).map(type => (
+                  <option key={type} value={type}>{LABEL_CODE_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <label className="flex items-center justify-between gap-4 text-sm font-medium">
+            印上价格
+            <input
+              type="checkbox"
+              checked={settings.showPrice}
+              onChange={e => onChangeSettings({ ...settings, showPrice: e.target.checked })}
+              className="w-5 h-5 accent-emerald-600"
+            />
+          </label>
+
+          {/* 4px per mm, so the preview shows how crowded the label will be */}
+          {preview && (
+            <div className="flex justify-center p-4 bg-zinc-100 rounded-2xl">
+              <div
+                className="bg-white shadow-sm p-2 flex flex-col overflow-hidden"
+                style={{ width: `${size.width * 4}px`, height: `${size.height * 4}px` }}
+              >
+                <p className="text-xs font-bold leading-tight line-clamp-2">{preview.name}{preview.spec && ` ${preview.spec}`}</p>
+                {settings.showPrice && <p className="text-sm font-bold">{formatUnitPrice(preview)}</p>}
+                <div
+                  className="flex-1 min-h-0 mt-0.5 [&>svg]:h-full! [&>svg]:block"
+                  dangerouslySetInnerHTML={{ __html: previewBarcode }}
+                />
+                <p className="text-[10px] text-center font-mono">{preview.barcode}</p>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">要打印的商品</label>
+            {items.length > 0 && (
+              <div className="mb-2 rounded-xl border border-zinc-100 divide-y divide-zinc-100">
+                {items.map(({ product, copies: count }) => (
+                  <div key={product.id} className="p-2 flex items-center justify-between gap-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="truncate">{product.name}</p>
+                      <p className="text-xs text-zinc-500 font-mono truncate">{product.barcode}</p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <button onClick={() => setCount(product.id, count - 1)} className="p-1.5 rounded-lg bg-zinc-100 text-zinc-600">
+                        <Minus size={14} />
+                      </button>
+                      <input
+                        type="number"
+                        min="1"
+                        value={count}
+                        onChange={e => setCount(product.id, Math.floor(Number(e.target.value)) || 1)}
+                        className="w-12 p-1 text-center rounded-lg border border-zinc-200"
+                      />
+                      <button onClick={() => setCount(product.id, count + 1)} className="p-1.5 rounded-lg bg-zinc-100 text-zinc-600">
+                        <Plus size={14} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="relative">
+              <Search className="absolute left-3 top-3.5 text-zinc-400" size={16} />
+              <input
+                type="text"
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                placeholder="搜索商品添加"
+                className="w-full pl-9 pr-3 py-3 rounded-xl border border-zinc-200"
+              />
+            </div>
+            {results.length > 0 && (
+              <div className="mt-1 rounded-xl border border-zinc-200 divide-y divide-zinc-100">
+                {results.map(product => (
+                  <button
+                    key={product.id}
+                    onClick={() => {
+                      setCopies(prev => [...prev, [product.id, 1]]);
+                      setQuery('');
+                    }}
+                    className="w-full p-2 flex justify-between text-sm text-left hover:bg-zinc-50"
+                  >
+                    <span className="truncate">{product.name}</span>
+                    <span className="text-zinc-500 shrink-0 ml-2 font-mono">{product.barcode}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            {items.length === 0 && results.length === 0 && (
+              <div className="p-6 text-center text-zinc-400">
+                <Tag size={32} className="mx-auto mb-2 opacity-20" />
+                <p className="text-sm">搜索并添加要打印标签的商品</p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <button
+          onClick={handlePrint}
+          disabled={total === 0}
+          className={cn(
+            "w-full py-4 rounded-2xl font-bold text-lg shadow-lg mt-4 flex items-center justify-center gap-2",
+            total === 0 ? "bg-zinc-200 text-zinc-400" : "bg-emerald-600 text-white"
+          )}
+        >
+          <Printer size={20} />
+          {total > 0 ? `打印 ${total} 张标签` : '打印标签'}
+        </button>
+      </div>
+    </div>
+  );
+};
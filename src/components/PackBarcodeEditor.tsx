@@ -0,0 +1,82 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import type { Product, ProductBarcode } from '../types';
+import { productUnit } from '../lib/barcodes';
+import { packPrice } from '../lib/sales';
+
+interface PackBarcodeEditorProps {
+  product: Partial<Product>;
+  onChange: (barcodes: ProductBarcode[]) => void;
+}
+
+// Extra barcodes on the product form: the case, the 6-pack, or a second code
+// the supplier prints on the same item
+export const PackBarcodeEditor: React.FC<PackBarcodeEditorProps> = ({ product, onChange }) => {
+  const barcodes = product.barcodes ?? [];
+  const unit = productUnit(product);
+
+  const update = (index: number, changes: Partial<ProductBarcode>) => {
+    onChange(barcodes.map((b, i) => i === index ? { ...b, ...changes } : b));
+  };
+
+  return (
+    <div className="space-y-2">
+      {barcodes.map((pack, index) => (
+        <div key={index} className="p-3 rounded-xl border border-zinc-200 space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={pack.barcode}
+              onChange={e => update(index, { barcode: e.target.value })}
+              className="flex-1 min-w-0 p-2 rounded-lg border border-zinc-200 bg-zinc-50 font-mono text-sm"
+              placeholder="包装上的条码"
+            />
+            <button
+              type="button"
+              onClick={() => onChange(barcodes.filter((_, i) => i !== index))}
+              className="p-2 text-zinc-400 hover:text-red-500"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-zinc-500">
+            <span>1</span>
+            <input
+              type="text"
+              value={pack.unit ?? ''}
+              onChange={e => update(index, { unit: e.target.value || undefined })}
+              className="w-14 p-2 rounded-lg border border-zinc-200 text-zinc-900"
+              placeholder="箱"
+            />
+            <span>=</span>
+            <input
+              type="number"
+              min="1"
+              value={pack.factor || ''}
+              onChange={e => update(index, { factor: parseInt(e.target.value) || 0 })}
+              className="w-16 p-2 rounded-lg border border-zinc-200 text-zinc-900"
+            />
+            <span className="shrink-0">{unit}</span>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={pack.price ?? ''}
+              onChange={e => update(index, { price: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+              className="flex-1 min-w-0 p-2 rounded-lg border border-zinc-200 text-zinc-900"
+              placeholder={pack.factor > 0 ? `¥${packPrice({ price: product.price ?? 0 }, pack)}` : '整包售价'}
+            />
+          </div>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...barcodes, { barcode: '', factor: 1 }])}
+        className="w-full py-2 rounded-xl border border-dashed border-zinc-300 text-sm font-bold text-zinc-600 flex items-center justify-center gap-1"
+      >
+        <Plus size={16} />
+        添加条码 / 包装规格
+      </button>
+    </div>
+  );
+};
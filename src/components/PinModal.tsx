@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { X, Lock } from 'lucide-react';
+import { CASHIER_ROLE_LABELS, type Cashier } from '../types';
+import { checkPin } from '../lib/cashiers';
+import { cn } from '../lib/utils';
+
+interface PinModalProps {
+  title: string;
+  hint?: string;
+  // Who may enter a PIN here: everyone to sign in, owners to approve
+  cashiers: Cashier[];
+  // approval comes from the server, when it could be reached
+  onSuccess: (cashier: Cashier, approval?: string) => void;
+  // Without it the prompt can't be dismissed, as on the sign-in screen
+  onClose?: () => void;
+}
+
+export const PinModal: React.FC<PinModalProps> = ({ title, hint, cashiers, onSuccess, onClose }) => {
+  const [selectedId, setSelectedId] = useState(cashiers.length === 1 ? cashiers[0].id : '');
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const selected = cashiers.find(c => c.id === selectedId);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !pin || isChecking) return;
+    setIsChecking(true);
+    const { valid, approval, error: reason } = await checkPin(selected, pin);
+    setIsChecking(false);
+    if (valid) {
+      onSuccess(selected, approval);
+    } else {
+      setPin('');
+      setError(reason ?? 'PIN 不正确');
+    }
+  };
+
+  return (
+    <div className={cn(
+      "fixed inset-0 z-[70] flex items-end sm:items-center justify-center p-0 sm:p-4 animate-in fade-in duration-200",
+      onClose ? "bg-black/50" : "bg-zinc-900"
+    )}>
+      <div className="bg-white w-full max-w-md rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h2 className="text-xl font-bold flex items-center gap-2">
+              <Lock size={20} className="text-emerald-600" />
+              {title}
+            </h2>
+            {hint && <p className="text-xs text-zinc-500">{hint}</p>}
+          </div>
+          {onClose && <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {cashiers.map(cashier => (
+              <button
+                key={cashier.id}
+                type="button"
+                onClick={() => {
+                  setSelectedId(cashier.id);
+                  setError('');
+                }}
+                className={cn(
+                  "px-3 py-2 rounded-xl text-sm font-bold border transition-colors",
+                  cashier.id === selectedId ? "bg-emerald-600 border-emerald-600 text-white" : "bg-white border-zinc-200 text-zinc-600"
+                )}
+              >
+                {cashier.name}
+                <span className="ml-1 text-xs font-normal opacity-75">{CASHIER_ROLE_LABELS[cashier.role]}</span>
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <input
+              autoFocus
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={6}
+              value={pin}
+              onChange={e => {
+                setPin(e.target.value.replace(/\D/g, ''));
+                setError('');
+              }}
+              className="w-full p-4 rounded-xl border border-zinc-200 text-center text-2xl tracking-[0.5em] font-mono"
+              placeholder="PIN"
+            />
+          )}
+          {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={!selected || !pin || isChecking}
+            className="w-full py-4 bg-emerald-600 text-white rounded-2xl font-bold text-lg shadow-lg flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            确定
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useMemo, useState } from 'react';
+import { Keyboard, CornerDownLeft } from 'lucide-react';
+import type { Product } from '../types';
+import { matchesQuery } from '../lib/productSearch';
+
+interface ProductLookupProps {
+  products: Product[];
+  // Called with the typed text when Enter is pressed, as if it had been scanned
+  onBarcode: (barcode: string) => void;
+  onSelect: (product: Product) => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Fallback for when the camera can't read a code: type the barcode, or part
+// of the name or its pinyin initials and pick from the list.
+export const ProductLookup: React.FC<ProductLookupProps> = ({ products, onBarcode, onSelect }) => {
+  const [query, setQuery] = useState('');
+
+  const suggestions = useMemo(() => {
+    const q = query.trim();
+    if (!q) return [];
+    const matches: Product[] = [];
+    for (const product of products) {
+      if (matchesQuery(product, q)) matches.push(product);
+      if (matches.length >= MAX_SUGGESTIONS) break;
+    }
+    return matches;
+  }, [products, query]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const q = query.trim();
+    if (!q) return;
+    // Digits are a barcode; text with a single match is taken as that product
+    if (/^\d+$/.test(q) || suggestions.length !== 1) {
+      onBarcode(q);
+    } else {
+      onSelect(suggestions[0]);
+    }
+    setQuery('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="relative">
+      <Keyboard className="absolute left-3 top-3.5 text-zinc-400" size={18} />
+      <input
+        type="text"
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        placeholder="输入条码、商品名或拼音首字母"
+        className="w-full pl-10 pr-12 py-3 rounded-xl border border-zinc-200 focus:outline-none focus:ring-2 focus:ring-emerald-500 bg-white"
+      />
+      <button type="submit" className="absolute right-2 top-2 p-1.5 rounded-lg bg-zinc-100 text-zinc-500" title="添加">
+        <CornerDownLeft size={18} />
+      </button>
+      {suggestions.length > 0 && !/^\d+$/.test(query.trim()) && (
+        <div className="absolute z-20 left-0 right-0 mt-1 bg-white rounded-xl border border-zinc-200 shadow-lg divide-y divide-zinc-100 overflow-hidden">
+          {suggestions.map(product => (
+            <button
+              key={product.id}
+              type="button"
+              onClick={() => {
+                onSelect(product);
+                setQuery('');
+              }}
+              className="w-full px-4 py-3 flex justify-between items-center text-left hover:bg-zinc-50"
+            >
+              <span className="font-medium truncate">{product.name}</span>
+              <span className="text-sm text-emerald-600 font-bold shrink-0 ml-2">¥{product.price}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </form>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { useRef, useState } from 'react';
+import { Sparkles, RefreshCw } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import {
+  defaultRecognizer,
+  photoToRequestImage,
+  RecognitionError,
+  type ProductRecognizer,
+  type ProductSuggestion,
+} from '../lib/recognition';
+import { cn } from '../lib/utils';
+
+interface ProductRecognizeButtonProps {
+  barcode?: string;
+  categories: string[];
+  onSuggest: (suggestion: ProductSuggestion) => void;
+  recognizer?: ProductRecognizer;
+}
+
+const configured = defaultRecognizer();
+
+export const ProductRecognizeButton: React.FC<ProductRecognizeButtonProps> = ({
+  barcode,
+  categories,
+  onSuggest,
+  recognizer = configured,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isRecognizing, setIsRecognizing] = useState(false);
+
+  const handlePhoto = async (file: File | undefined) => {
+    if (!file || !recognizer) return;
+    setIsRecognizing(true);
+    try {
+      const photo = await photoToRequestImage(file);
+      const suggestion = await recognizer.recognize({ ...photo, barcode: barcode?.trim() || undefined, categories });
+      onSuggest(suggestion);
+      toast.success('已填入识别结果，请核对');
+    } catch (err) {
+      toast.error(err instanceof RecognitionError ? err.message : '照片读取失败，请重试');
+    } finally {
+      setIsRecognizing(false);
+      // The same photo can be picked again
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        disabled={!recognizer || isRecognizing}
+        onClick={() => inputRef.current?.click()}
+        className={cn(
+          "w-full py-3 rounded-xl font-bold flex items-center justify-center gap-2 transition-colors",
+          recognizer ? "bg-violet-50 text-violet-700 border border-violet-200" : "bg-zinc-100 text-zinc-400"
+        )}
+      >
+        {isRecognizing ? <RefreshCw size={18} className="animate-spin" /> : <Sparkles size={18} />}
+        {isRecognizing ? '识别中…' : 'AI 识别（拍包装）'}
+      </button>
+      {!recognizer && <p className="mt-1 text-xs text-zinc-400">未配置 GEMINI_API_KEY，请手动填写</p>}
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        className="hidden"
+        onChange={e => handlePhoto(e.target.files?.[0])}
+      />
+    </div>
+  );
+};
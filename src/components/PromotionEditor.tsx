@@ -0,0 +1,343 @@
+import React, { useMemo, useState } from 'react';
+import { X, Check, Search, Minus, Plus } from 'lucide-react';
+import type { Product, Promotion, PromotionType } from '../types';
+import { PROMOTION_TYPE_LABELS, promotionProductIds } from '../lib/promotions';
+import { listCategories, matchesQuery } from '../lib/productSearch';
+import { endOfDay, fromDateKey, startOfDay, toDateKey } from '../lib/date';
+import { cn } from '../lib/utils';
+
+interface PromotionEditorProps {
+  promotion?: Promotion;
+  products: Product[];
+  onSave: (promotion: Promotion) => Promise<void>;
+  onClose: () => void;
+}
+
+interface PickedProduct {
+  productId: string;
+  quantity: number;
+}
+
+const MAX_RESULTS = 6;
+
+// Suggested names, so the cart line reads the way the shop advertises it
+function defaultName(type: PromotionType, values: { nth: string; percentOff: string; buy: string; free: string; category: string }) {
+  switch (type) {
+    case 'nth_item':
+      return values.nth === '2' && values.percentOff === '50' ? '第二件半价' : `第${values.nth}件优惠`;
+    case 'buy_get':
+      return `买${values.buy}送${values.free}`;
+    case 'bundle':
+      return '组合优惠';
+    case 'category':
+      return values.category ? `${values.category}折扣` : '分类折扣';
+    case 'sale_price':
+      return '限时特价';
+  }
+}
+
+export const PromotionEditor: React.FC<PromotionEditorProps> = ({ promotion, products, onSave, onClose }) => {
+  const [type, setType] = useState<PromotionType>(promotion?.type ?? 'nth_item');
+  const [name, setName] = useState(promotion?.name ?? '');
+  const [picked, setPicked] = useState<PickedProduct[]>(() => {
+    if (!promotion) return [];
+    if (promotion.type === 'bundle') return promotion.items;
+    return promotionProductIds(promotion).map(productId => ({ productId, quantity: 1 }));
+  });
+  const [nth, setNth] = useState(promotion?.type === 'nth_item' ? String(promotion.nth) : '2');
+  const [percentOff, setPercentOff] = useState(
+    promotion?.type === 'nth_item' || promotion?.type === 'category' ? String(promotion.percentOff) : '50'
+  );
+  const [buy, setBuy] = useState(promotion?.type === 'buy_get' ? String(promotion.buy) : '3');
+  const [free, setFree] = useState(promotion?.type === 'buy_get' ? String(promotion.free) : '1');
+  const [price, setPrice] = useState(promotion?.type === 'bundle' || promotion?.type === 'sale_price' ? String(promotion.price) : '');
+  const [category, setCategory] = useState(promotion?.type === 'category' ? promotion.category : '');
+  const [startDate, setStartDate] = useState(promotion?.startsAt ? toDateKey(new Date(promotion.startsAt)) : '');
+  const [endDate, setEndDate] = useState(promotion?.endsAt ? toDateKey(new Date(promotion.endsAt)) : '');
+  const [query, setQuery] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const categories = useMemo(() => listCategories(products), [products]);
+  const productById = useMemo(() => new Map(products.map(p => [p.id, p])), [products]);
+  const results = useMemo(() => {
+    const q = query.trim();
+    if (!q) return [];
+    return products.filter(p => !picked.some(item => item.productId === p.id) && matchesQuery(p, q)).slice(0, MAX_RESULTS);
+  }, [products, picked, query]);
+
+  const usesProducts = type !== 'category';
+  const setTotal = picked.reduce((sum, item) => sum + (productById.get(item.productId)?.price ?? 0) * item.quantity, 0);
+
+  const build = (): Promotion | string => {
+    const base = {
+      id: promotion?.id ?? crypto.randomUUID(),
+      name: name.trim() || defaultName(type, { nth, percentOff, buy, free, category }),
+      enabled: promotion?.enabled ?? true,
+      startsAt: startDate ? startOfDay(fromDateKey(startDate)).toISOString() : undefined,
+      endsAt: endDate ? endOfDay(fromDateKey(endDate)).toISOString() : undefined,
+    };
+    if (startDate && endDate && endDate < startDate) return '结束日期不能早于开始日期';
+    if (usesProducts && picked.length === 0) return '请选择参与的商品';
+    const productIds = picked.map(item => item.productId);
+    const percent = parseFloat(percentOff);
+    const amount = parseFloat(price);
+
+    switch (type) {
+      case 'nth_item': {
+        const n = parseInt(nth, 10);
+        if (!(n >= 2)) return '第几件需大于等于 2';
+        if (!(percent > 0 && percent <= 100)) return '优惠比例需在 1-100 之间';
+        return { ...base, type, productIds, nth: n, percentOff: percent };
+      }
+      case 'buy_get': {
+        const b = parseInt(buy, 10);
+        const f = parseInt(free, 10);
+        if (!(b >= 1) || !(f >= 1)) return '买赠数量需大于 0';
+        return { ...base, type, productIds, buy: b, free: f };
+      }
+      case 'bundle':
+        if (!(amount >= 0)) return '请填写组合价';
+        if (picked.length < 2 && picked[0]?.quantity < 2) return '组合至少包含两件商品';
+        return { ...base, type, items: picked, price: amount };
+      case 'category':
+        if (!category) return '请选择分类';
+        if (!(percent > 0 && percent <= 100)) return '优惠比例需在 1-100 之间';
+        return { ...base, type, category, percentOff: percent };
+      case 'sale_price':
+        if (!(amount >= 0)) return '请填写特价';
+        return { ...base, type, productIds, price: amount };
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = build();
+    if (typeof result === 'string') {
+      setError(result);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onSave(result);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const numberInput = (value: string, onChange: (value: string) => void, step = '1') => (
+    <input
+      type="number"
+      min="0"
+      step={step}
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      className="w-full p-3 rounded-xl border border-zinc-200"
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md max-h-[90vh] flex flex-col rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">{promotion ? '编辑促销' : '新建促销'}</h2>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto space-y-4 -mx-1 px-1">
+          <div>
+            <label className="block text-xs font-bold text-zinc-500 uppercase mb-2">促销类型</label>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(PROMOTION_TYPE_LABELS) as PromotionType[]).map(t => (
+                <button
+                  key={t}
+                  type="button"
+                  onClick={() => setType(t)}
+                  className={cn(
+                    "px-3 py-1.5 rounded-full border text-sm font-medium transition-colors",
+                    type === t ? "bg-rose-600 border-rose-600 text-white" : "bg-white border-zinc-200 text-zinc-600"
+                  )}
+                >
+                  {PROMOTION_TYPE_LABELS[t]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">名称</label>
+            <input
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              className="w-full p-3 rounded-xl border border-zinc-200"
+              placeholder={defaultName(type, { nth, percentOff, buy, free, category })}
+            />
+          </div>
+
+          {type === 'nth_item' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">每第几件</label>
+                {numberInput(nth, setNth)}
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">该件优惠 (%)</label>
+                {numberInput(percentOff, setPercentOff)}
+              </div>
+            </div>
+          )}
+
+          {type === 'buy_get' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">买</label>
+                {numberInput(buy, setBuy)}
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">送</label>
+                {numberInput(free, setFree)}
+              </div>
+            </div>
+          )}
+
+          {type === 'category' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">分类</label>
+                <select
+                  value={category}
+                  onChange={e => setCategory(e.target.value)}
+                  className="w-full p-3 rounded-xl border border-zinc-200 bg-white"
+                >
+                  <option value="">请选择</option>
+                  {categories.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">优惠 (%)</label>
+                {numberInput(percentOff, setPercentOff)}
+              </div>
+            </div>
+          )}
+
+          {(type === 'bundle' || type === 'sale_price') && (
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">
+                {type === 'bundle' ? '组合价 (¥)' : '特价 (¥)'}
+              </label>
+              {numberInput(price, setPrice, '0.01')}
+              {type === 'bundle' && picked.length > 0 && (
+                <p className="mt-1 text-xs text-zinc-500">原价合计 ¥{setTotal.toFixed(2)}</p>
+              )}
+            </div>
+          )}
+
+          {usesProducts && (
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">参与商品</label>
+              {picked.length > 0 && (
+                <div className="mb-2 rounded-xl border border-zinc-100 divide-y divide-zinc-100">
+                  {picked.map(item => (
+                    <div key={item.productId} className="p-2 flex items-center justify-between gap-2 text-sm">
+                      <span className="truncate">{productById.get(item.productId)?.name ?? '已删除的商品'}</span>
+                      <div className="flex items-center gap-1 shrink-0">
+                        {type === 'bundle' && (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => setPicked(prev => prev.map(p => p.productId === item.productId ? { ...p, quantity: Math.max(1, p.quantity - 1) } : p))}
+                              className="p-1 rounded-lg bg-zinc-100 text-zinc-600"
+                            >
+                              <Minus size={14} />
+                            </button>
+                            <span className="w-6 text-center font-bold">{item.quantity}</span>
+                            <button
+                              type="button"
+                              onClick={() => setPicked(prev => prev.map(p => p.productId === item.productId ? { ...p, quantity: p.quantity + 1 } : p))}
+                              className="p-1 rounded-lg bg-zinc-100 text-zinc-600"
+                            >
+                              <Plus size={14} />
+                            </button>
+                          </>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => setPicked(prev => prev.filter(p => p.productId !== item.productId))}
+                          className="p-1 text-zinc-400 hover:text-red-500"
+                        >
+                          <X size={16} />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="relative">
+                <Search className="absolute left-3 top-3.5 text-zinc-400" size={16} />
+                <input
+                  type="text"
+                  value={query}
+                  onChange={e => setQuery(e.target.value)}
+                  placeholder="搜索商品添加"
+                  className="w-full pl-9 pr-3 py-3 rounded-xl border border-zinc-200"
+                />
+              </div>
+              {results.length > 0 && (
+                <div className="mt-1 rounded-xl border border-zinc-200 divide-y divide-zinc-100">
+                  {results.map(product => (
+                    <button
+                      key={product.id}
+                      type="button"
+                      onClick={() => {
+                        setPicked(prev => [...prev, { productId: product.id, quantity: 1 }]);
+                        setQuery('');
+                      }}
+                      className="w-full p-2 flex justify-between text-sm text-left hover:bg-zinc-50"
+                    >
+                      <span className="truncate">{product.name}</span>
+                      <span className="text-zinc-500 shrink-0 ml-2">¥{product.price}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">开始日期</label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={e => setStartDate(e.target.value)}
+                className="w-full p-3 rounded-xl border border-zinc-200"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">结束日期</label>
+              <input
+                type="date"
+                value={endDate}
+                onChange={e => setEndDate(e.target.value)}
+                className="w-full p-3 rounded-xl border border-zinc-200"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-zinc-400 -mt-2">不填日期则长期有效</p>
+
+          {error && <p className="p-3 rounded-xl bg-red-50 text-red-600 text-sm">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="w-full py-4 bg-rose-600 text-white rounded-2xl font-bold text-lg shadow-lg flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <Check size={20} />
+            保存促销
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
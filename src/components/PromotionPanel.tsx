@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { BadgePercent, Plus, Edit3, Trash2 } from 'lucide-react';
+import type { Product, Promotion } from '../types';
+import {
+  PROMOTION_STATUS_LABELS,
+  PROMOTION_TYPE_LABELS,
+  describePromotion,
+  promotionProductIds,
+  promotionStatus,
+  type PromotionStatus,
+} from '../lib/promotions';
+import { toDateKey } from '../lib/date';
+import { PromotionEditor } from './PromotionEditor';
+import { cn } from '../lib/utils';
+
+interface PromotionPanelProps {
+  promotions: Promotion[];
+  products: Product[];
+  onSave: (promotion: Promotion) => Promise<void>;
+  onDelete: (promotion: Promotion) => Promise<void>;
+  onExit: () => void;
+}
+
+const STATUS_STYLES: Record<PromotionStatus, string> = {
+  active: 'bg-rose-50 text-rose-600',
+  scheduled: 'bg-blue-50 text-blue-600',
+  ended: 'bg-zinc-100 text-zinc-500',
+  disabled: 'bg-zinc-100 text-zinc-400',
+};
+
+const STATUS_ORDER: PromotionStatus[] = ['active', 'scheduled', 'disabled', 'ended'];
+
+function describeDates(promotion: Promotion) {
+  if (!promotion.startsAt && !promotion.endsAt) return '长期有效';
+  const from = promotion.startsAt ? toDateKey(new Date(promotion.startsAt)) : '即日';
+  const to = promotion.endsAt ? toDateKey(new Date(promotion.endsAt)) : '长期';
+  return `${from} 至 ${to}`;
+}
+
+export const PromotionPanel: React.FC<PromotionPanelProps> = ({ promotions, products, onSave, onDelete, onExit }) => {
+  // undefined: editor closed; null: creating a new promotion
+  const [editing, setEditing] = useState<Promotion | null | undefined>(undefined);
+  const productById = useMemo(() => new Map(products.map(p => [p.id, p])), [products]);
+
+  const sorted = useMemo(() => {
+    const now = new Date();
+    return promotions
+      .map(promotion => ({ promotion, status: promotionStatus(promotion, now) }))
+      .sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status));
+  }, [promotions]);
+
+  const productNames = (promotion: Promotion) => {
+    if (promotion.type === 'bundle') {
+      return promotion.items
+        .map(item => `${productById.get(item.productId)?.name ?? '已删除的商品'}${item.quantity > 1 ? ` x${item.quantity}` : ''}`)
+        .join(' + ');
+    }
+    return promotionProductIds(promotion).map(id => productById.get(id)?.name ?? '已删除的商品').join('、');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-bold text-lg flex items-center gap-2">
+          <BadgePercent className="text-rose-600" size={20} />
+          促销活动
+        </h2>
+        <button onClick={onExit} className="text-sm text-zinc-500 font-medium">返回</button>
+      </div>
+
+      <p className="text-xs text-zinc-500">
+        收银时自动计算，每件商品只享受一项最优惠的活动；组合价优先，特价商品按特价参与其他活动
+      </p>
+
+      <button
+        onClick={() => setEditing(null)}
+        className="w-full py-3 rounded-2xl border-2 border-dashed border-rose-200 text-rose-600 font-bold flex items-center justify-center gap-2"
+      >
+        <Plus size={18} />
+        新建促销
+      </button>
+
+      <div className="bg-white rounded-2xl border border-zinc-200 divide-y divide-zinc-100 shadow-sm overflow-hidden">
+        {sorted.length === 0 ? (
+          <div className="p-12 text-center text-zinc-400">
+            <BadgePercent size={48} className="mx-auto mb-4 opacity-20" />
+            <p>还没有促销活动</p>
+          </div>
+        ) : (
+          sorted.map(({ promotion, status }) => (
+            <div key={promotion.id} className="p-4 space-y-2">
+              <div className="flex justify-between items-start gap-2">
+                <div className="min-w-0">
+                  <p className="font-bold truncate">{promotion.name}</p>
+                  <p className="text-xs text-zinc-500">
+                    {PROMOTION_TYPE_LABELS[promotion.type]} · {describePromotion(promotion)} · {describeDates(promotion)}
+                  </p>
+                  {promotion.type !== 'category' && (
+                    <p className="text-xs text-zinc-400 truncate">{productNames(promotion)}</p>
+                  )}
+                </div>
+                <span className={cn("shrink-0 px-2 py-0.5 rounded-full text-xs font-bold", STATUS_STYLES[status])}>
+                  {PROMOTION_STATUS_LABELS[status]}
+                </span>
+              </div>
+              <div className="flex items-center justify-end gap-1">
+                <button
+                  onClick={() => onSave({ ...promotion, enabled: !promotion.enabled })}
+                  className="px-3 py-1.5 rounded-lg bg-zinc-100 text-xs font-bold text-zinc-600"
+                >
+                  {promotion.enabled ? '停用' : '启用'}
+                </button>
+                <button
+                  onClick={() => setEditing(promotion)}
+                  className="p-2 text-zinc-400 hover:text-emerald-600 transition-colors"
+                >
+                  <Edit3 size={18} />
+                </button>
+                <button
+                  onClick={() => onDelete(promotion)}
+                  className="p-2 text-zinc-400 hover:text-red-500 transition-colors"
+                >
+                  <Trash2 size={18} />
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {editing !== undefined && (
+        <PromotionEditor
+          promotion={editing ?? undefined}
+          products={products}
+          onSave={async promotion => {
+            await onSave(promotion);
+            setEditing(undefined);
+          }}
+          onClose={() => setEditing(undefined)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useMemo, useState } from 'react';
+import { X, ArrowLeft, ClipboardList, Download, Share2, Truck, Ban } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import type { PurchaseOrder, Receiving, Supplier } from '../types';
+import {
+  isAwaitingDelivery,
+  purchaseOrderProgress,
+  purchaseOrderToCsv,
+  purchaseOrderToText,
+  purchaseOrderTotal,
+  PURCHASE_ORDER_STATUS_LABELS,
+  type PurchaseOrderStatus,
+} from '../lib/purchasing';
+import { formatDateTime } from '../lib/date';
+import { downloadFile, shareText } from '../lib/share';
+import { cn } from '../lib/utils';
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  open: 'bg-blue-50 text-blue-700',
+  partial: 'bg-amber-50 text-amber-700',
+  received: 'bg-emerald-50 text-emerald-700',
+  closed: 'bg-zinc-100 text-zinc-500',
+};
+
+interface PurchaseOrdersProps {
+  orders: PurchaseOrder[];
+  suppliers: Supplier[];
+  receivings: Receiving[];
+  shopName?: string;
+  // Opens straight on this order, e.g. one just created
+  initialOrderId?: string;
+  onReceive: (order: PurchaseOrder) => void;
+  onCloseOrder: (order: PurchaseOrder) => Promise<void>;
+  onClose: () => void;
+}
+
+export const PurchaseOrders: React.FC<PurchaseOrdersProps> = ({
+  orders,
+  suppliers,
+  receivings,
+  shopName,
+  initialOrderId,
+  onReceive,
+  onCloseOrder,
+  onClose,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(initialOrderId ?? null);
+
+  const rows = useMemo(
+    () => [...orders].reverse().map(order => ({ order, progress: purchaseOrderProgress(order, receivings) })),
+    [orders, receivings]
+  );
+  const selected = rows.find(row => row.order.id === selectedId);
+  const orderDocument = selected && {
+    order: selected.order,
+    supplier: suppliers.find(s => s.id === selected.order.supplierId),
+    shopName: shopName || undefined,
+  };
+  const total = selected && purchaseOrderTotal(selected.order.items);
+
+  const handleShare = async () => {
+    if (!orderDocument) return;
+    const result = await shareText(`采购订单 ${orderDocument.order.orderNo}`, purchaseOrderToText(orderDocument));
+    if (result === 'copied') toast.success('采购单已复制到剪贴板');
+  };
+
+  const handleExport = () => {
+    if (!orderDocument) return;
+    downloadFile(purchaseOrderToCsv(orderDocument, receivings), `purchase_order_${orderDocument.order.orderNo}.csv`, 'text/csv;charset=utf-8');
+    toast.success('采购单已导出');
+  };
+
+  const handleCloseOrder = async () => {
+    if (!selected) return;
+    if (!confirm(`关闭采购单 ${selected.order.orderNo}？未到的商品将不再等待到货。`)) return;
+    await onCloseOrder(selected.order);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md max-h-[85vh] flex flex-col rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-2">
+            {selected && (
+              <button onClick={() => setSelectedId(null)} className="p-2 -ml-2 text-zinc-400">
+                <ArrowLeft size={20} />
+              </button>
+            )}
+            <div>
+              <h2 className="text-xl font-bold">{selected ? selected.order.orderNo : '采购订单'}</h2>
+              <p className="text-xs text-zinc-500">
+                {selected
+                  ? `${selected.order.supplierName} · ${formatDateTime(selected.order.createdAt)}`
+                  : '在「需要补货」中按供应商生成'}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        {selected ? (
+          <>
+            <div className="flex-1 overflow-y-auto -mx-2 px-2 space-y-4">
+              <div className="flex items-center justify-between">
+                <span className={cn("text-xs font-bold px-2 py-1 rounded-full", STATUS_STYLES[selected.progress.status])}>
+                  {PURCHASE_ORDER_STATUS_LABELS[selected.progress.status]}
+                </span>
+                {total !== undefined && <span className="font-bold">¥{total.toFixed(2)}</span>}
+              </div>
+
+              <div className="divide-y divide-zinc-100">
+                {selected.progress.lines.map(({ item, received, outstanding }) => (
+                  <div key={item.productId} className="py-3 flex justify-between items-center gap-3 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{item.name}</p>
+                      <p className="text-xs text-zinc-500">
+                        订 {item.quantity}{item.costPrice !== undefined && ` × ¥${item.costPrice}`}
+                      </p>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <p className={cn("font-bold", outstanding === 0 ? "text-emerald-600" : "text-zinc-900")}>
+                        已到 {received}
+                      </p>
+                      {outstanding > 0 && <p className="text-xs text-amber-600">未到 {outstanding}</p>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {selected.order.note && <p className="text-sm text-zinc-500">备注：{selected.order.note}</p>}
+            </div>
+
+            <div className="flex gap-2 mt-4">
+              <button onClick={handleExport} className="p-4 bg-white border border-zinc-200 text-zinc-600 rounded-2xl" title="导出 CSV">
+                <Download size={20} />
+              </button>
+              <button onClick={handleShare} className="p-4 bg-white border border-zinc-200 text-zinc-600 rounded-2xl" title="分享">
+                <Share2 size={20} />
+              </button>
+              {isAwaitingDelivery(selected.progress) && (
+                <>
+                  <button onClick={handleCloseOrder} className="p-4 bg-white border border-zinc-200 text-zinc-600 rounded-2xl" title="关闭订单">
+                    <Ban size={20} />
+                  </button>
+                  <button
+                    onClick={() => onReceive(selected.order)}
+                    className="flex-1 py-4 bg-blue-600 text-white rounded-2xl font-bold text-lg shadow-lg flex items-center justify-center gap-2"
+                  >
+                    <Truck size={20} />
+                    到货入库
+                  </button>
+                </>
+              )}
+            </div>
+          </>
+        ) : (
+          <div className="flex-1 overflow-y-auto divide-y divide-zinc-100 -mx-2">
+            {rows.length === 0 ? (
+              <div className="p-8 text-center text-zinc-400">
+                <ClipboardList size={40} className="mx-auto mb-3 opacity-20" />
+                <p className="text-sm">还没有采购单</p>
+              </div>
+            ) : (
+              rows.map(({ order, progress }) => {
+                const ordered = progress.lines.reduce((sum, line) => sum + line.item.quantity, 0);
+                const received = progress.lines.reduce((sum, line) => sum + Math.min(line.received, line.item.quantity), 0);
+                return (
+                  <button
+                    key={order.id}
+                    onClick={() => setSelectedId(order.id)}
+                    className="w-full px-2 py-3 flex justify-between items-center gap-3 text-left hover:bg-zinc-50"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{order.supplierName}</p>
+                      <p className="text-xs text-zinc-500">
+                        {order.orderNo} · {formatDateTime(order.createdAt)} · 已到 {received}/{ordered} 件
+                      </p>
+                    </div>
+                    <span className={cn("shrink-0 text-xs font-bold px-2 py-1 rounded-full", STATUS_STYLES[progress.status])}>
+                      {PURCHASE_ORDER_STATUS_LABELS[progress.status]}
+                    </span>
+                  </button>
+                );
+              })
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
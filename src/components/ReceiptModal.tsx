@@ -0,0 +1,103 @@
+import React, { useMemo } from 'react';
+import { X, Printer, Share2, Check } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import type { Sale } from '../types';
+import { buildReceipt, receiptToHtml, receiptToImage, type ReceiptSettings } from '../lib/receipt';
+import { receiptToEscPos } from '../lib/escpos';
+import { code128Svg } from '../lib/code128';
+import { printHtml, shareFile } from '../lib/share';
+import { cn } from '../lib/utils';
+
+interface ReceiptModalProps {
+  sale: Sale;
+  settings: ReceiptSettings;
+  onClose: () => void;
+}
+
+export const ReceiptModal: React.FC<ReceiptModalProps> = ({ sale, settings, onClose }) => {
+  const lines = useMemo(() => buildReceipt(sale, settings), [sale, settings]);
+
+  const handlePrint = async () => {
+    if (settings.printMode === 'browser') {
+      printHtml(receiptToHtml(lines, settings.paperWidth));
+      return;
+    }
+    // Printer apps such as RawBT take the raw bytes from the share sheet
+    const bytes = receiptToEscPos(lines, settings.paperWidth);
+    const result = await shareFile(new Blob([bytes], { type: 'application/octet-stream' }), `receipt_${sale.orderNo}.bin`);
+    if (result === 'downloaded') toast.success('打印数据已下载');
+  };
+
+  const handleShareImage = async () => {
+    try {
+      const image = await receiptToImage(lines, settings.paperWidth);
+      const result = await shareFile(image, `receipt_${sale.orderNo}.png`, 'image/png');
+      if (result === 'downloaded') toast.success('小票图片已下载');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '生成图片失败');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md max-h-[90vh] flex flex-col rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold">收银小票</h2>
+            {sale.change ? <p className="text-sm text-emerald-600 font-bold">找零 ¥{sale.change.toFixed(2)}</p> : null}
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto bg-zinc-100 rounded-2xl p-4">
+          <div className={cn("mx-auto bg-white shadow-sm p-4 text-xs leading-relaxed", settings.paperWidth === 58 ? "max-w-[240px]" : "max-w-[340px]")}>
+            {lines.map((line, index) => line.kind === 'rule' ? (
+              <hr key={index} className="my-1 border-dashed border-zinc-400" />
+            ) : line.kind === 'barcode' ? (
+              <div key={index} className="my-2 text-center">
+                <div dangerouslySetInnerHTML={{ __html: code128Svg(line.value) }} />
+                <div className="font-mono tracking-widest">{line.value}</div>
+              </div>
+            ) : (
+              <div
+                key={index}
+                className={cn(
+                  "flex gap-2 whitespace-pre-wrap",
+                  line.center ? "justify-center text-center" : "justify-between",
+                  line.emphasis && "text-sm font-bold"
+                )}
+              >
+                <span>{line.left}</span>
+                {line.right && <span className="text-right shrink-0">{line.right}</span>}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 mt-4">
+          <button
+            onClick={handlePrint}
+            className="py-3 rounded-2xl bg-zinc-100 text-zinc-700 font-bold flex items-center justify-center gap-2"
+          >
+            <Printer size={18} />
+            打印
+          </button>
+          <button
+            onClick={handleShareImage}
+            className="py-3 rounded-2xl bg-zinc-100 text-zinc-700 font-bold flex items-center justify-center gap-2"
+          >
+            <Share2 size={18} />
+            分享图片
+          </button>
+        </div>
+        <button
+          onClick={onClose}
+          className="w-full py-4 bg-emerald-600 text-white rounded-2xl font-bold text-lg shadow-lg mt-2 flex items-center justify-center gap-2"
+        >
+          <Check size={20} />
+          完成
+        </button>
+      </div>
+    </div>
+  );
+};
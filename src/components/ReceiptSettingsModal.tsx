@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { X, Check } from 'lucide-react';
+import {
+  PRINT_MODE_LABELS,
+  type PaperWidth,
+  type PrintMode,
+  type ReceiptSettings,
+} from '../lib/receipt';
+import { cn } from '../lib/utils';
+
+interface ReceiptSettingsModalProps {
+  settings: ReceiptSettings;
+  onSave: (settings: ReceiptSettings) => void;
+  onClose: () => void;
+}
+
+const PAPER_WIDTHS: PaperWidth[] = [58, 80];
+
+export const ReceiptSettingsModal: React.FC<ReceiptSettingsModalProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState(settings);
+
+  const update = (changes: Partial<ReceiptSettings>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold">小票设置</h2>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">店铺名称</label>
+            <input
+              type="text"
+              value={draft.shopName}
+              onChange={e => update({ shopName: e.target.value })}
+              className="w-full p-3 rounded-xl border border-zinc-200"
+              placeholder="印在小票顶部"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">抬头</label>
+            <textarea
+              rows={2}
+              value={draft.header}
+              onChange={e => update({ header: e.target.value })}
+              className="w-full p-3 rounded-xl border border-zinc-200"
+              placeholder="地址、电话等，可多行"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">页脚</label>
+            <textarea
+              rows={2}
+              value={draft.footer}
+              onChange={e => update({ footer: e.target.value })}
+              className="w-full p-3 rounded-xl border border-zinc-200"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">纸宽</label>
+              <div className="grid grid-cols-2 p-1 bg-zinc-100 rounded-xl">
+                {PAPER_WIDTHS.map(width => (
+                  <button
+                    key={width}
+                    type="button"
+                    onClick={() => update({ paperWidth: width })}
+                    className={cn(
+                      "py-2 rounded-lg text-sm font-bold transition-colors",
+                      draft.paperWidth === width ? "bg-white text-emerald-700 shadow-sm" : "text-zinc-500"
+                    )}
+                  >
+                    {width}mm
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">打印方式</label>
+              <select
+                value={draft.printMode}
+                onChange={e => update({ printMode: e.target.value as PrintMode })}
+                className="w-full p-3 rounded-xl border border-zinc-200 bg-white text-sm"
+              >
+                {(Object.keys(PRINT_MODE_LABELS) as PrintMode[]).map(mode => (
+                  <option key={mode} value={mode}>{PRINT_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <p className="text-xs text-zinc-500">
+            热敏打印机方式会生成 ESC/POS 打印数据，通过分享交给 RawBT 等打印应用
+          </p>
+        </div>
+
+        <button
+          onClick={() => onSave(draft)}
+          className="w-full py-4 bg-emerald-600 text-white rounded-2xl font-bold text-lg shadow-lg mt-6 flex items-center justify-center gap-2"
+        >
+          <Check size={20} />
+          保存
+        </button>
+      </div>
+    </div>
+  );
+};
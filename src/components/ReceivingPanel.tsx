@@ -0,0 +1,230 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Barcode, X, Check, Minus, Plus, Trash2, PackagePlus, Truck, ClipboardList } from 'lucide-react';
+import type { PurchaseOrder, Receiving, ReceivingItem, Supplier } from '../types';
+import { Scanner } from './Scanner';
+import type { ScannerSettings } from '../lib/scanning';
+import { receivingCost } from '../lib/receiving';
+import { formatDateTime } from '../lib/date';
+import { cn } from '../lib/utils';
+
+interface ReceivingPanelProps {
+  items: ReceivingItem[];
+  onItemsChange: (items: ReceivingItem[]) => void;
+  receivings: Receiving[];
+  suppliers: Supplier[];
+  // The order this delivery is checked off against, if any
+  purchaseOrder?: PurchaseOrder;
+  onDetachOrder: () => void;
+  isScanning: boolean;
+  onToggleScan: () => void;
+  onScan: (barcode: string) => void;
+  scannerSettings: ScannerSettings;
+  onCameraChange: (cameraId: string) => void;
+  onConfirm: (supplier: string) => Promise<boolean>;
+  onExit: () => void;
+}
+
+export const ReceivingPanel: React.FC<ReceivingPanelProps> = ({
+  items,
+  onItemsChange,
+  receivings,
+  suppliers: directory,
+  purchaseOrder,
+  onDetachOrder,
+  isScanning,
+  onToggleScan,
+  onScan,
+  scannerSettings,
+  onCameraChange,
+  onConfirm,
+  onExit,
+}) => {
+  const [supplier, setSupplier] = useState(purchaseOrder?.supplierName ?? '');
+
+  useEffect(() => {
+    if (purchaseOrder) setSupplier(purchaseOrder.supplierName);
+  }, [purchaseOrder]);
+
+  const suppliers = useMemo(
+    () => Array.from(new Set([
+      ...directory.map(s => s.name),
+      ...receivings.map(r => r.supplier).filter((s): s is string => !!s),
+    ])),
+    [directory, receivings]
+  );
+  const recent = useMemo(() => [...receivings].reverse().slice(0, 5), [receivings]);
+  const totalUnits = items.reduce((sum, item) => sum + item.quantity, 0);
+  const totalCost = receivingCost(items);
+
+  const updateItem = (productId: string, changes: Partial<ReceivingItem>) => {
+    onItemsChange(items.map(item => item.productId === productId ? { ...item, ...changes } : item));
+  };
+
+  const handleConfirm = async () => {
+    if (await onConfirm(supplier)) setSupplier('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-bold text-lg flex items-center gap-2">
+          <Truck className="text-blue-600" size={20} />
+          扫码入库
+        </h2>
+        <button onClick={onExit} className="text-sm text-zinc-500 font-medium">退出入库</button>
+      </div>
+
+      {purchaseOrder && (
+        <div className="p-3 rounded-2xl bg-blue-50 text-blue-700 text-sm flex items-center gap-2">
+          <ClipboardList size={18} className="shrink-0" />
+          <span className="flex-1 min-w-0 truncate">
+            按采购单 {purchaseOrder.orderNo} 收货，已列出未到的商品
+          </span>
+          <button onClick={onDetachOrder} className="p-1 -m-1 text-blue-400" title="不按采购单收货">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      <button
+        onClick={onToggleScan}
+        className={cn(
+          "w-full py-4 rounded-2xl flex items-center justify-center gap-3 font-bold text-lg transition-all shadow-md text-white",
+          isScanning ? "bg-red-500" : "bg-blue-600"
+        )}
+      >
+        {isScanning ? <X size={24} /> : <Barcode size={24} />}
+        {isScanning ? "停止扫描" : "扫描到货商品"}
+      </button>
+
+      {isScanning && (
+        <div className="animate-in fade-in zoom-in duration-300">
+          <Scanner onScan={onScan} active={isScanning} settings={scannerSettings} onCameraChange={onCameraChange} />
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl border border-zinc-200 overflow-hidden shadow-sm">
+        <div className="p-4 border-b border-zinc-100 bg-zinc-50/50 flex justify-between items-center">
+          <h2 className="font-bold">入库清单</h2>
+          <span className="text-xs text-zinc-500">共 {items.length} 种 · {totalUnits} 件</span>
+        </div>
+
+        {items.length === 0 ? (
+          <div className="p-12 text-center text-zinc-400">
+            <PackagePlus size={48} className="mx-auto mb-4 opacity-20" />
+            <p>扫描到货商品的条码，数量会自动累加</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-zinc-100">
+            {items.map(item => (
+              <div key={item.productId} className="p-4 space-y-2">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <p className="font-medium">{item.name}</p>
+                    <p className="text-xs text-zinc-500 font-mono">{item.barcode}</p>
+                  </div>
+                  <button
+                    onClick={() => onItemsChange(items.filter(i => i.productId !== item.productId))}
+                    className="p-2 -m-2 text-zinc-400 hover:text-red-500 transition-colors"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="flex items-center rounded-xl border border-zinc-200">
+                    <button
+                      onClick={() => updateItem(item.productId, { quantity: Math.max(1, item.quantity - 1) })}
+                      className="p-2 text-zinc-500"
+                    >
+                      <Minus size={16} />
+                    </button>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={item.quantity}
+                      onChange={e => updateItem(item.productId, { quantity: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      className="w-14 text-center font-bold focus:outline-none"
+                    />
+                    <button
+                      onClick={() => updateItem(item.productId, { quantity: item.quantity + 1 })}
+                      className="p-2 text-zinc-500"
+                    >
+                      <Plus size={16} />
+                    </button>
+                  </div>
+                  <div className="relative flex-1">
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-400 text-sm">进价 ¥</span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={item.costPrice ?? ''}
+                      onChange={e => updateItem(item.productId, {
+                        costPrice: e.target.value === '' ? undefined : parseFloat(e.target.value),
+                      })}
+                      className="w-full pl-14 pr-3 py-2 rounded-xl border border-zinc-200 text-sm"
+                      placeholder="可选"
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {items.length > 0 && (
+          <div className="p-4 border-t border-zinc-100 space-y-3">
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">供应商</label>
+              <input
+                type="text"
+                list="receiving-suppliers"
+                value={supplier}
+                onChange={e => setSupplier(e.target.value)}
+                className="w-full p-3 rounded-xl border border-zinc-200"
+                placeholder="例如：XX 批发部"
+              />
+              <datalist id="receiving-suppliers">
+                {suppliers.map(s => <option key={s} value={s} />)}
+              </datalist>
+            </div>
+            {totalCost !== undefined && (
+              <div className="flex justify-between items-center text-sm">
+                <span className="text-zinc-500">进货金额</span>
+                <span className="font-bold">¥{totalCost.toFixed(2)}</span>
+              </div>
+            )}
+            <button
+              onClick={handleConfirm}
+              disabled={totalUnits <= 0}
+              className="w-full py-4 bg-blue-600 text-white rounded-2xl font-bold text-lg shadow-lg flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <Check size={20} />
+              确认入库
+            </button>
+          </div>
+        )}
+      </div>
+
+      {recent.length > 0 && (
+        <div className="bg-white rounded-2xl border border-zinc-200 divide-y divide-zinc-100 shadow-sm overflow-hidden">
+          <div className="p-4 bg-zinc-50/50">
+            <h2 className="font-bold text-zinc-500 text-xs uppercase tracking-wider">最近入库</h2>
+          </div>
+          {recent.map(r => (
+            <div key={r.id} className="p-4 flex justify-between items-center">
+              <div>
+                <p className="font-medium">{r.supplier || '未填写供应商'}</p>
+                <p className="text-xs text-zinc-500">
+                  {formatDateTime(r.createdAt)} · {r.items.length} 种 {r.itemCount} 件{r.operator ? ` · ${r.operator}` : ''}
+                </p>
+              </div>
+              {r.totalCost !== undefined && <span className="font-bold">¥{r.totalCost.toFixed(2)}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+import React, { useMemo, useState } from 'react';
+import { X, Check, Minus, Plus, Barcode, Search } from 'lucide-react';
+import { PAYMENT_METHOD_LABELS, type Refund, type Sale, type SaleItem } from '../types';
+import { findSaleByOrderNo, refundAmount, refundableLines, type RefundSelection } from '../lib/refunds';
+import { describeSaleItem, roundMoney } from '../lib/sales';
+import { formatDateTime } from '../lib/date';
+import { Scanner } from './Scanner';
+import type { ScannerSettings } from '../lib/scanning';
+import { cn } from '../lib/utils';
+
+interface RefundModalProps {
+  // Without one, the cashier looks the order up first
+  sale?: Sale;
+  sales: Sale[];
+  refunds: Refund[];
+  scannerSettings?: ScannerSettings;
+  onConfirm: (sale: Sale, selections: RefundSelection[], reason: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+interface LineChoice {
+  quantity: number;
+  restock: boolean;
+}
+
+// Pack lines go back a whole pack at a time; a weighed line all at once
+function lineStep(item: SaleItem) {
+  return item.pack?.factor ?? 1;
+}
+
+function describeQuantity(item: SaleItem, quantity: number) {
+  if (item.pack) return `${quantity / item.pack.factor}${item.pack.unit}`;
+  return item.unit ? `${Number(quantity.toFixed(3))}${item.unit}` : String(quantity);
+}
+
+export const RefundModal: React.FC<RefundModalProps> = ({ sale: initialSale, sales, refunds, scannerSettings, onConfirm, onClose }) => {
+  const [sale, setSale] = useState(initialSale);
+  const [orderNo, setOrderNo] = useState('');
+  const [lookupError, setLookupError] = useState('');
+  const [isScanning, setIsScanning] = useState(false);
+  const [choices, setChoices] = useState<Record<number, LineChoice>>({});
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const lines = useMemo(() => sale ? refundableLines(sale, refunds) : [], [sale, refunds]);
+  const choiceFor = (lineIndex: number): LineChoice => choices[lineIndex] ?? { quantity: 0, restock: true };
+  const total = roundMoney(lines.reduce((sum, line) => {
+    const { quantity } = choiceFor(line.lineIndex);
+    return quantity > 0 ? sum + refundAmount(line, quantity) : sum;
+  }, 0));
+  const allRefunded = lines.length > 0 && lines.every(line => line.quantity <= 0);
+
+  const lookup = (code: string) => {
+    const found = findSaleByOrderNo(sales, code);
+    if (!found) {
+      setLookupError(`未找到订单 ${code.trim()}`);
+      return;
+    }
+    setSale(found);
+    setChoices({});
+    setLookupError('');
+    setIsScanning(false);
+  };
+
+  const update = (lineIndex: number, changes: Partial<LineChoice>) => {
+    setChoices(prev => ({ ...prev, [lineIndex]: { ...choiceFor(lineIndex), ...changes } }));
+  };
+
+  const selectAll = () => {
+    setChoices(Object.fromEntries(lines.map(line => [line.lineIndex, { ...choiceFor(line.lineIndex), quantity: line.quantity }])));
+  };
+
+  const handleConfirm = async () => {
+    if (!sale) return;
+    const selections = lines
+      .map(line => ({ lineIndex: line.lineIndex, ...choiceFor(line.lineIndex) }))
+      .filter(selection => selection.quantity > 0);
+    setIsSubmitting(true);
+    try {
+      if (await onConfirm(sale, selections, reason)) onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md max-h-[90vh] flex flex-col rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">退货退款</h2>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        {!sale ? (
+          <div className="space-y-3">
+            <form
+              onSubmit={e => {
+                e.preventDefault();
+                lookup(orderNo);
+              }}
+              className="flex gap-2"
+            >
+              <input
+                type="text"
+                inputMode="numeric"
+                autoFocus
+                value={orderNo}
+                onChange={e => setOrderNo(e.target.value)}
+                className="flex-1 p-3 rounded-xl border border-zinc-200 font-mono"
+                placeholder="输入或扫描小票上的订单号"
+              />
+              <button type="submit" className="p-3 bg-emerald-600 text-white rounded-xl" title="查找">
+                <Search size={20} />
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsScanning(!isScanning)}
+                className={cn("p-3 rounded-xl", isScanning ? "bg-red-500 text-white" : "bg-zinc-100 text-zinc-600")}
+                title="扫描小票条码"
+              >
+                {isScanning ? <X size={20} /> : <Barcode size={20} />}
+              </button>
+            </form>
+            {lookupError && <p className="text-sm text-red-600">{lookupError}</p>}
+            {isScanning && (
+              <div className="rounded-2xl overflow-hidden border-4 border-emerald-500">
+                <Scanner onScan={lookup} active={isScanning} settings={scannerSettings} />
+              </div>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="mb-3 text-sm">
+              <p className="font-mono font-bold">{sale.orderNo}</p>
+              <p className="text-xs text-zinc-500">
+                {formatDateTime(sale.createdAt)} · {PAYMENT_METHOD_LABELS[sale.paymentMethod]} · ¥{sale.totalAmount.toFixed(2)}
+              </p>
+            </div>
+
+            <div className="flex-1 overflow-y-auto space-y-2">
+              {allRefunded ? (
+                <p className="p-6 text-center text-zinc-400">该订单已全部退货</p>
+              ) : (
+                <>
+                  <button onClick={selectAll} className="text-sm font-bold text-emerald-700">全部退货</button>
+                  {lines.map(line => {
+                    const choice = choiceFor(line.lineIndex);
+                    const step = lineStep(line.item);
+                    const whole = !!line.item.unit;
+                    const done = line.quantity <= 0;
+                    return (
+                      <div key={line.lineIndex} className={cn("p-3 rounded-2xl border border-zinc-200", done && "opacity-40")}>
+                        <div className="flex justify-between gap-2 text-sm">
+                          <div className="min-w-0">
+                            <p className="font-bold truncate">{line.item.name}</p>
+                            <p className="text-xs text-zinc-500">
+                              {describeSaleItem(line.item)} · 可退 {describeQuantity(line.item, line.quantity)} / ¥{line.amount.toFixed(2)}
+                            </p>
+                          </div>
+                          {!done && (
+                            whole ? (
+                              <button
+                                onClick={() => update(line.lineIndex, { quantity: choice.quantity > 0 ? 0 : line.quantity })}
+                                className={cn(
+                                  "px-3 py-1 h-fit rounded-lg text-sm font-bold border",
+                                  choice.quantity > 0 ? "bg-rose-600 border-rose-600 text-white" : "border-zinc-200 text-zinc-600"
+                                )}
+                              >
+                                {choice.quantity > 0 ? '已选' : '退货'}
+                              </button>
+                            ) : (
+                              <div className="flex items-center gap-2 shrink-0">
+                                <button
+                                  onClick={() => update(line.lineIndex, { quantity: Math.max(0, choice.quantity - step) })}
+                                  className="p-1 rounded-lg bg-zinc-100 text-zinc-600"
+                                >
+                                  <Minus size={16} />
+                                </button>
+                                <span className="w-10 text-center font-bold">{describeQuantity(line.item, choice.quantity)}</span>
+                                <button
+                                  onClick={() => update(line.lineIndex, { quantity: Math.min(line.quantity, choice.quantity + step) })}
+                                  className="p-1 rounded-lg bg-zinc-100 text-zinc-600"
+                                >
+                                  <Plus size={16} />
+                                </button>
+                              </div>
+                            )
+                          )}
+                        </div>
+                        {choice.quantity > 0 && (
+                          <div className="mt-2 flex items-center justify-between">
+                            <div className="grid grid-cols-2 p-1 bg-zinc-100 rounded-xl text-xs">
+                              {[true, false].map(restock => (
+                                <button
+                                  key={String(restock)}
+                                  onClick={() => update(line.lineIndex, { restock })}
+                                  className={cn(
+                                    "px-3 py-1 rounded-lg font-bold transition-colors",
+                                    choice.restock === restock ? "bg-white text-emerald-700 shadow-sm" : "text-zinc-500"
+                                  )}
+                                >
+                                  {restock ? '放回库存' : '报损'}
+                                </button>
+                              ))}
+                            </div>
+                            <span className="text-sm font-bold text-rose-600">-¥{refundAmount(line, choice.quantity).toFixed(2)}</span>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </>
+              )}
+            </div>
+
+            <input
+              type="text"
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              className="w-full p-3 mt-3 rounded-xl border border-zinc-200"
+              placeholder="退货原因（可选）"
+            />
+            <button
+              onClick={handleConfirm}
+              disabled={!lines.some(line => choiceFor(line.lineIndex).quantity > 0) || isSubmitting}
+              className="w-full py-4 bg-emerald-600 text-white rounded-2xl font-bold text-lg shadow-lg mt-3 flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <Check size={20} />
+              退款 ¥{total.toFixed(2)}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
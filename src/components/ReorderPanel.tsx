@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Download, Share2, Truck, PackageCheck, ClipboardList } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import type { Product, PurchaseOrderItem, Receiving, Sale, Supplier } from '../types';
+import { buildReorderSuggestions, reorderToCsv, reorderToText, REORDER_COVER_DAYS, type ReorderSuggestion } from '../lib/reorder';
+import { lastPurchasePrices, purchaseOrderItem, type PurchasePrice } from '../lib/purchasing';
+import { RECENT_SALES_DAYS } from '../lib/productSearch';
+import { downloadFile, shareText } from '../lib/share';
+import { toDateKey } from '../lib/date';
+import { cn } from '../lib/utils';
+
+interface ReorderPanelProps {
+  products: Product[];
+  sales: Sale[];
+  suppliers: Supplier[];
+  receivings: Receiving[];
+  // Books the purchase list as an incoming delivery
+  onReceive: (suggestions: ReorderSuggestion[]) => void;
+  // Resolves false when the order couldn't be saved
+  onCreateOrder: (supplier: Supplier, items: PurchaseOrderItem[]) => Promise<boolean>;
+  onExit: () => void;
+}
+
+export const ReorderPanel: React.FC<ReorderPanelProps> = ({ products, sales, suppliers, receivings, onReceive, onCreateOrder, onExit }) => {
+  // Quantities the user changed by hand, keyed by product id
+  const [overrides, setOverrides] = useState<Record<string, number>>({});
+  const [supplierId, setSupplierId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const supplier = suppliers.find(s => s.id === supplierId);
+  const prices = useMemo(
+    () => supplier ? lastPurchasePrices(receivings, supplier) : new Map<string, PurchasePrice>(),
+    [receivings, supplier]
+  );
+  const allSuggestions = useMemo(() => buildReorderSuggestions(products, sales), [products, sales]);
+  // A supplier with a product list only sees what it delivers
+  const suggestions = supplier && supplier.productIds.length > 0
+    ? allSuggestions.filter(s => supplier.productIds.includes(s.product.id))
+    : allSuggestions;
+  const purchaseList = suggestions
+    .map(s => ({ ...s, suggestedQty: overrides[s.product.id] ?? s.suggestedQty }))
+    .filter(s => s.suggestedQty > 0);
+
+  const handleExport = () => {
+    downloadFile(reorderToCsv(purchaseList), `purchase_list_${toDateKey()}.csv`, 'text/csv;charset=utf-8');
+    toast.success('采购清单已导出');
+  };
+
+  const handleShare = async () => {
+    const result = await shareText('采购清单', reorderToText(purchaseList));
+    if (result === 'copied') toast.success('采购清单已复制到剪贴板');
+  };
+
+  const handleCreateOrder = async () => {
+    if (!supplier || isSaving) return;
+    setIsSaving(true);
+    const items = purchaseList.map(s => purchaseOrderItem(s.product, s.suggestedQty, prices.get(s.product.id)?.costPrice));
+    if (await onCreateOrder(supplier, items)) setOverrides({});
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-bold text-lg flex items-center gap-2">
+          <AlertTriangle className="text-amber-500" size={20} />
+          需要补货
+        </h2>
+        <button onClick={onExit} className="text-sm text-zinc-500 font-medium">返回</button>
+      </div>
+
+      <p className="text-xs text-zinc-500">
+        按近 {RECENT_SALES_DAYS} 天日均销量建议采购 {REORDER_COVER_DAYS} 天的用量，并补足到最低库存以上
+      </p>
+
+      {suppliers.length > 0 && (
+        <select
+          value={supplierId}
+          onChange={e => setSupplierId(e.target.value)}
+          className="w-full p-3 rounded-xl border border-zinc-200 bg-white"
+        >
+          <option value="">全部商品（选择供应商以生成采购单）</option>
+          {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+      )}
+
+      <div className="bg-white rounded-2xl border border-zinc-200 divide-y divide-zinc-100 shadow-sm overflow-hidden">
+        {suggestions.length === 0 ? (
+          <div className="p-12 text-center text-zinc-400">
+            <PackageCheck size={48} className="mx-auto mb-4 opacity-20" />
+            <p>{supplier ? '该供应商的商品库存充足' : '所有商品库存充足'}</p>
+          </div>
+        ) : (
+          suggestions.map(s => (
+            <div key={s.product.id} className="p-4 flex justify-between items-center gap-3">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{s.product.name}</p>
+                <p className="text-xs text-zinc-500">
+                  <span className={cn("font-bold", s.product.stock <= 0 ? "text-red-500" : "text-amber-600")}>
+                    库存 {s.product.stock}
+                  </span>
+                  {' '}/ 最低 {s.minStock} · 日均 {s.dailySales.toFixed(1)}
+                  {s.daysLeft !== undefined && ` · 约 ${Math.floor(s.daysLeft)} 天售罄`}
+                </p>
+                {prices.has(s.product.id) && (
+                  <p className="text-xs text-zinc-400">上次进价 ¥{prices.get(s.product.id)!.costPrice}</p>
+                )}
+              </div>
+              <input
+                type="number"
+                min="0"
+                value={overrides[s.product.id] ?? s.suggestedQty}
+                onChange={e => setOverrides(prev => ({ ...prev, [s.product.id]: Math.max(0, parseInt(e.target.value) || 0) }))}
+                className="w-20 p-2 rounded-xl border border-zinc-200 text-center font-bold"
+              />
+            </div>
+          ))
+        )}
+      </div>
+
+      {purchaseList.length > 0 && (
+        <div className="flex gap-2">
+          <button onClick={handleExport} className="p-4 bg-white border border-zinc-200 text-zinc-600 rounded-2xl" title="导出 CSV">
+            <Download size={20} />
+          </button>
+          <button onClick={handleShare} className="p-4 bg-white border border-zinc-200 text-zinc-600 rounded-2xl" title="分享">
+            <Share2 size={20} />
+          </button>
+          <button
+            onClick={() => onReceive(purchaseList)}
+            className="flex-1 py-4 bg-blue-600 text-white rounded-2xl font-bold text-lg shadow-lg flex items-center justify-center gap-2"
+          >
+            <Truck size={20} />
+            到货入库
+          </button>
+        </div>
+      )}
+
+      {purchaseList.length > 0 && supplier && (
+        <button
+          onClick={handleCreateOrder}
+          disabled={isSaving}
+          className="w-full py-4 bg-emerald-600 text-white rounded-2xl font-bold text-lg shadow-lg flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <ClipboardList size={20} />
+          生成采购单
+        </button>
+      )}
+    </div>
+  );
+};
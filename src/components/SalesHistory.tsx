@@ -0,0 +1,354 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, Download, Share2, Receipt, Printer, Undo2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { PAYMENT_METHOD_LABELS, type Product, type Refund, type Sale } from '../types';
+import { addDays, endOfDay, formatDateTime, fromDateKey, startOfDay, toDateKey } from '../lib/date';
+import { buildSalesReport, filterSalesByRange, reportToCsv, reportToText, salesToCsv, type DateRange } from '../lib/report';
+import { describeSaleItem, roundMoney } from '../lib/sales';
+import { formatMarginRate } from '../lib/costing';
+import { refundsForSale } from '../lib/refunds';
+import { downloadFile, shareText } from '../lib/share';
+import { cn } from '../lib/utils';
+
+interface SalesHistoryProps {
+  sales: Sale[];
+  products: Product[];
+  refunds: Refund[];
+  onReceipt: (sale: Sale) => void;
+  // Without a sale, asks for the order number first
+  onRefund: (sale?: Sale) => void;
+}
+
+type Preset = 'today' | 'yesterday' | 'week' | 'month';
+
+const PRESET_LABELS: Record<Preset, string> = {
+  today: '今天',
+  yesterday: '昨天',
+  week: '近7天',
+  month: '本月',
+};
+
+function presetRange(preset: Preset, now = new Date()): DateRange {
+  switch (preset) {
+    case 'yesterday':
+      return { from: startOfDay(addDays(now, -1)), to: endOfDay(addDays(now, -1)) };
+    case 'week':
+      return { from: startOfDay(addDays(now, -6)), to: endOfDay(now) };
+    case 'month':
+      return { from: new Date(now.getFullYear(), now.getMonth(), 1), to: endOfDay(now) };
+    default:
+      return { from: startOfDay(now), to: endOfDay(now) };
+  }
+}
+
+type HistoryEntry = { kind: 'sale'; sale: Sale } | { kind: 'refund'; refund: Refund };
+
+export const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, products, refunds, onReceipt, onRefund }) => {
+  const [view, setView] = useState<'orders' | 'report'>('orders');
+  const [fromKey, setFromKey] = useState(() => toDateKey());
+  const [toKey, setToKey] = useState(() => toDateKey());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const range = useMemo<DateRange>(
+    () => ({ from: startOfDay(fromDateKey(fromKey)), to: endOfDay(fromDateKey(toKey)) }),
+    [fromKey, toKey]
+  );
+  const orders = useMemo(
+    () => filterSalesByRange(sales, range).sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    [sales, range]
+  );
+  const refundsInRange = useMemo(() => filterSalesByRange(refunds, range), [refunds, range]);
+  // Refunds sit among the orders on the day they were given
+  const entries = useMemo(
+    () => [
+      ...orders.map((sale): HistoryEntry => ({ kind: 'sale', sale })),
+      ...refundsInRange.map((refund): HistoryEntry => ({ kind: 'refund', refund })),
+    ].sort((a, b) => entryTime(b).localeCompare(entryTime(a))),
+    [orders, refundsInRange]
+  );
+  const report = useMemo(() => buildSalesReport(sales, products, range, refunds), [sales, products, range, refunds]);
+  const hasCost = report.profit.cost !== 0 || report.profit.uncostedLines === 0;
+
+  const applyPreset = (preset: Preset) => {
+    const next = presetRange(preset);
+    setFromKey(toDateKey(next.from));
+    setToKey(toDateKey(next.to));
+  };
+
+  const handleExportCsv = () => {
+    const suffix = fromKey === toKey ? fromKey : `${fromKey}_${toKey}`;
+    if (view === 'orders') {
+      downloadFile(salesToCsv(orders, refundsInRange), `sales_${suffix}.csv`, 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(reportToCsv(report), `report_${suffix}.csv`, 'text/csv;charset=utf-8');
+    }
+    toast.success('CSV 已导出');
+  };
+
+  const handleShareReport = async () => {
+    const result = await shareText('销售报表', reportToText(report));
+    if (result === 'copied') toast.success('报表已复制到剪贴板');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-2xl border border-zinc-200 p-4 shadow-sm space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(PRESET_LABELS) as Preset[]).map(preset => {
+            const r = presetRange(preset);
+            const active = toDateKey(r.from) === fromKey && toDateKey(r.to) === toKey;
+            return (
+              <button
+                key={preset}
+                onClick={() => applyPreset(preset)}
+                className={cn(
+                  "px-3 py-1.5 rounded-full text-sm font-medium border transition-colors",
+                  active ? "bg-emerald-600 border-emerald-600 text-white" : "bg-white border-zinc-200 text-zinc-600"
+                )}
+              >
+                {PRESET_LABELS[preset]}
+              </button>
+            );
+          })}
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <input
+            type="date"
+            value={fromKey}
+            max={toKey}
+            onChange={e => e.target.value && setFromKey(e.target.value)}
+            className="flex-1 p-2 rounded-xl border border-zinc-200"
+          />
+          <span className="text-zinc-400">至</span>
+          <input
+            type="date"
+            value={toKey}
+            min={fromKey}
+            onChange={e => e.target.value && setToKey(e.target.value)}
+            className="flex-1 p-2 rounded-xl border border-zinc-200"
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <div className="flex-1 grid grid-cols-2 p-1 bg-zinc-100 rounded-xl">
+          {(['orders', 'report'] as const).map(v => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={cn(
+                "py-2 rounded-lg text-sm font-bold transition-colors",
+                view === v ? "bg-white text-emerald-700 shadow-sm" : "text-zinc-500"
+              )}
+            >
+              {v === 'orders' ? `订单 (${orders.length})` : '报表'}
+            </button>
+          ))}
+        </div>
+        <button onClick={() => onRefund()} className="p-3 bg-white border border-zinc-200 text-zinc-600 rounded-xl" title="退货">
+          <Undo2 size={20} />
+        </button>
+        <button onClick={handleExportCsv} className="p-3 bg-white border border-zinc-200 text-zinc-600 rounded-xl" title="导出 CSV">
+          <Download size={20} />
+        </button>
+        {view === 'report' && (
+          <button onClick={handleShareReport} className="p-3 bg-white border border-zinc-200 text-zinc-600 rounded-xl" title="分享报表">
+            <Share2 size={20} />
+          </button>
+        )}
+      </div>
+
+      {view === 'orders' ? (
+        entries.length === 0 ? (
+          <div className="p-12 text-center text-zinc-400 bg-white rounded-2xl border border-dashed border-zinc-300">
+            <Receipt size={48} className="mx-auto mb-4 opacity-20" />
+            <p>该时间段没有订单</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-2xl border border-zinc-200 divide-y divide-zinc-100 shadow-sm overflow-hidden">
+            {entries.map(entry => {
+              if (entry.kind === 'refund') {
+                const { refund } = entry;
+                const expanded = expandedId === refund.id;
+                return (
+                  <div key={refund.id}>
+                    <button
+                      onClick={() => setExpandedId(expanded ? null : refund.id)}
+                      className="w-full p-4 flex justify-between items-center text-left hover:bg-zinc-50 transition-colors"
+                    >
+                      <div>
+                        <p className="font-mono text-sm font-bold text-rose-600">{refund.refundNo}</p>
+                        <p className="text-xs text-zinc-500">
+                          {formatDateTime(refund.createdAt)} · 退货 · 原单 {refund.orderNo}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-bold text-rose-600">-¥{refund.totalAmount.toFixed(2)}</span>
+                        {expanded ? <ChevronUp size={18} className="text-zinc-400" /> : <ChevronDown size={18} className="text-zinc-400" />}
+                      </div>
+                    </button>
+                    {expanded && (
+                      <div className="px-4 pb-4 text-sm space-y-1 bg-zinc-50/50">
+                        {refund.items.map((item, idx) => (
+                          <div key={idx} className="pt-2 flex justify-between">
+                            <span>
+                              {item.name} <span className="text-zinc-400">x {item.quantity}</span>
+                              <span className={cn("ml-2 text-xs font-bold", item.restock ? "text-emerald-600" : "text-orange-600")}>
+                                {item.restock ? '入库' : '报损'}
+                              </span>
+                            </span>
+                            <span className="font-medium text-rose-600">-¥{item.amount.toFixed(2)}</span>
+                          </div>
+                        ))}
+                        {(refund.reason || refund.operator) && (
+                          <p className="pt-2 border-t border-zinc-100 text-zinc-500">
+                            {[refund.reason, refund.operator && `经办：${refund.operator}`].filter(Boolean).join(' · ')}
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              }
+              const { sale } = entry;
+              const expanded = expandedId === sale.id;
+              const refunded = roundMoney(refundsForSale(refunds, sale.id).reduce((sum, refund) => sum + refund.totalAmount, 0));
+              return (
+                <div key={sale.id}>
+                  <button
+                    onClick={() => setExpandedId(expanded ? null : sale.id)}
+                    className="w-full p-4 flex justify-between items-center text-left hover:bg-zinc-50 transition-colors"
+                  >
+                    <div>
+                      <p className="font-mono text-sm font-bold">{sale.orderNo}</p>
+                      <p className="text-xs text-zinc-500">
+                        {formatDateTime(sale.createdAt)} · {PAYMENT_METHOD_LABELS[sale.paymentMethod]} · {sale.itemCount} 件
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {refunded > 0 && <span className="text-xs text-rose-600">已退 ¥{refunded.toFixed(2)}</span>}
+                      <span className="font-bold text-emerald-700">¥{sale.totalAmount.toFixed(2)}</span>
+                      {expanded ? <ChevronUp size={18} className="text-zinc-400" /> : <ChevronDown size={18} className="text-zinc-400" />}
+                    </div>
+                  </button>
+                  {expanded && (
+                    <div className="px-4 pb-4 text-sm space-y-1 bg-zinc-50/50">
+                      {sale.items.map((item, idx) => (
+                        <div key={idx} className="pt-2">
+                          <div className="flex justify-between">
+                            <span>{item.name} <span className="text-zinc-400">{describeSaleItem(item)}</span></span>
+                            <span className="font-medium">¥{item.subtotal.toFixed(2)}</span>
+                          </div>
+                          {item.promotions?.map(promotion => (
+                            <p key={promotion.promotionId} className="text-xs text-rose-600">
+                              {promotion.name} -¥{promotion.amount.toFixed(2)}
+                            </p>
+                          ))}
+                        </div>
+                      ))}
+                      {!!sale.discountAmount && (
+                        <div className="flex justify-between pt-2 border-t border-zinc-100 text-orange-600">
+                          <span>原价 ¥{(sale.grossAmount ?? sale.totalAmount).toFixed(2)}{sale.roundingOff ? ` · 抹零 ¥${sale.roundingOff.toFixed(2)}` : ''}</span>
+                          <span>优惠 -¥{sale.discountAmount.toFixed(2)}</span>
+                        </div>
+                      )}
+                      {sale.cashTendered !== undefined && (
+                        <div className="flex justify-between pt-2 border-t border-zinc-100 text-zinc-500">
+                          <span>实收 ¥{sale.cashTendered.toFixed(2)}</span>
+                          <span>找零 ¥{(sale.change ?? 0).toFixed(2)}</span>
+                        </div>
+                      )}
+                      <div className="mt-2 grid grid-cols-2 gap-2">
+                        <button
+                          onClick={() => onReceipt(sale)}
+                          className="py-2 rounded-xl bg-white border border-zinc-200 text-zinc-600 font-bold flex items-center justify-center gap-2"
+                        >
+                          <Printer size={16} />
+                          查看小票
+                        </button>
+                        <button
+                          onClick={() => onRefund(sale)}
+                          disabled={refunded >= sale.totalAmount && sale.totalAmount > 0}
+                          className="py-2 rounded-xl bg-white border border-zinc-200 text-rose-600 font-bold flex items-center justify-center gap-2 disabled:opacity-40"
+                        >
+                          <Undo2 size={16} />
+                          退货
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            {[
+              ['营业额', `¥${report.revenue.toFixed(2)}`],
+              ['订单数', report.orderCount],
+              ['退款', `-¥${report.refundAmount.toFixed(2)}`],
+              ['退款笔数', report.refundCount],
+              ['客单价', `¥${report.averageTicket.toFixed(2)}`],
+              ['销售件数', report.units],
+              ['毛利', hasCost ? `¥${report.profit.profit.toFixed(2)}` : '—'],
+              ['毛利率', report.profit.rate !== undefined ? formatMarginRate({ profit: report.profit.profit, rate: report.profit.rate }) : '—'],
+            ].map(([label, value]) => (
+              <div key={label} className="bg-white rounded-2xl border border-zinc-200 p-4 shadow-sm">
+                <p className="text-xs text-zinc-500">{label}</p>
+                <p className="text-2xl font-black text-emerald-700">{value}</p>
+              </div>
+            ))}
+          </div>
+          {report.profit.uncostedLines > 0 && (
+            <p className="p-3 rounded-xl bg-amber-50 text-amber-700 text-xs">
+              {report.profit.uncostedLines} 行商品售出时未设置进价，未计入毛利
+            </p>
+          )}
+
+          <ReportTable
+            title="分类销售"
+            rows={report.byCategory.filter(c => c.units > 0).map(c => [c.category, c.units, c.revenue])}
+          />
+          <ReportTable
+            title="畅销商品"
+            rows={report.bestSellers.map(p => [p.name, p.units, p.revenue])}
+          />
+          <ReportTable
+            title="滞销商品"
+            rows={report.worstSellers.map(p => [p.name, p.units, p.revenue])}
+          />
+          <ReportTable
+            title="商品明细"
+            rows={report.byProduct.filter(p => p.units > 0).map(p => [p.name, p.units, p.revenue])}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+function entryTime(entry: HistoryEntry) {
+  return entry.kind === 'sale' ? entry.sale.createdAt : entry.refund.createdAt;
+}
+
+const ReportTable: React.FC<{ title: string; rows: [string, number, number][] }> = ({ title, rows }) => (
+  <div className="bg-white rounded-2xl border border-zinc-200 shadow-sm overflow-hidden">
+    <div className="p-4 border-b border-zinc-100 bg-zinc-50/50">
+      <h2 className="font-bold text-zinc-500 text-xs uppercase tracking-wider">{title}</h2>
+    </div>
+    {rows.length === 0 ? (
+      <p className="p-4 text-sm text-zinc-400 text-center">暂无数据</p>
+    ) : (
+      <div className="divide-y divide-zinc-100">
+        {rows.map(([name, units, revenue], idx) => (
+          <div key={idx} className="px-4 py-3 flex justify-between text-sm">
+            <span className="font-medium">{name}</span>
+            <span className="text-zinc-500">{units} 件 · <span className="font-bold text-zinc-900">¥{revenue.toFixed(2)}</span></span>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
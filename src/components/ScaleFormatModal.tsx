@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { X, Check, Plus, Trash2, RotateCcw } from 'lucide-react';
+import type { Product } from '../types';
+import {
+  DEFAULT_SCALE_FORMATS,
+  SCALE_VALUE_LABELS,
+  describeScaleFormat,
+  findByPlu,
+  parseScaleBarcode,
+  scaleFormatError,
+  scaleQuantity,
+  type ScaleBarcodeFormat,
+  type ScaleValueType,
+} from '../lib/scaleBarcode';
+import { withUnit } from '../lib/units';
+
+interface ScaleFormatModalProps {
+  formats: ScaleBarcodeFormat[];
+  products: Product[];
+  onSave: (formats: ScaleBarcodeFormat[]) => void;
+  onClose: () => void;
+}
+
+export const ScaleFormatModal: React.FC<ScaleFormatModalProps> = ({ formats, products, onSave, onClose }) => {
+  const [draft, setDraft] = useState(formats);
+  const [testCode, setTestCode] = useState('');
+
+  const update = (id: string, changes: Partial<ScaleBarcodeFormat>) => {
+    setDraft(prev => prev.map(f => f.id === id ? { ...f, ...changes } : f));
+  };
+
+  const hasErrors = draft.some(f => scaleFormatError(f));
+
+  const testResult = () => {
+    const code = testCode.trim();
+    if (!code) return null;
+    const reading = parseScaleBarcode(code, draft);
+    if (!reading) return <p className="text-red-600">不是有效的电子秤条码（校验位错误或没有匹配的格式）</p>;
+    const product = findByPlu(products, reading.plu);
+    const quantity = product && scaleQuantity(reading, product);
+    return (
+      <p className="text-zinc-700">
+        PLU {reading.plu} · {reading.weight !== undefined ? `${reading.weight} kg` : `¥${reading.price!.toFixed(2)}`}
+        {product
+          ? ` → ${product.name} ${quantity ? withUnit(quantity, product) : ''}`
+          : ' → 未找到对应的称重商品'}
+      </p>
+    );
+  };
+
+  const numberField = (label: string, value: number, onChange: (value: number) => void) => (
+    <label className="text-xs text-zinc-500">
+      {label}
+      <input
+        type="number"
+        min="0"
+        value={value}
+        onChange={e => onChange(parseInt(e.target.value) || 0)}
+        className="mt-1 w-full p-2 rounded-lg border border-zinc-200 text-sm text-zinc-900"
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md max-h-[90vh] flex flex-col rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold">电子秤条码</h2>
+            <p className="text-xs text-zinc-500">按顺序匹配以 2 开头的 13 位条码</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-3 -mx-1 px-1">
+          {draft.map(format => {
+            const error = scaleFormatError(format);
+            return (
+              <div key={format.id} className="p-3 rounded-2xl border border-zinc-200 space-y-2">
+                <div className="flex justify-between items-center">
+                  <p className="text-sm font-bold">{describeScaleFormat(format)}</p>
+                  <button
+                    onClick={() => setDraft(prev => prev.filter(f => f.id !== format.id))}
+                    className="p-1 text-zinc-400 hover:text-red-500"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+                <div className="grid grid-cols-5 gap-2">
+                  <label className="text-xs text-zinc-500">
+                    前缀
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={format.prefix}
+                      onChange={e => update(format.id, { prefix: e.target.value.replace(/\D/g, '') })}
+                      className="mt-1 w-full p-2 rounded-lg border border-zinc-200 text-sm text-zinc-900"
+                    />
+                  </label>
+                  {numberField('PLU位', format.pluLength, pluLength => update(format.id, { pluLength }))}
+                  <label className="text-xs text-zinc-500">
+                    类型
+                    <select
+                      value={format.value}
+                      onChange={e => {
+                        const value = e.target.value as ScaleValueType;
+                        update(format.id, { value, decimals: value === 'weight' ? 3 : 2 });
+                      }}
+                      className="mt-1 w-full p-2 rounded-lg border border-zinc-200 text-sm text-zinc-900 bg-white"
+                    >
+                      {(Object.keys(SCALE_VALUE_LABELS) as ScaleValueType[]).map(v => (
+                        <option key={v} value={v}>{SCALE_VALUE_LABELS[v]}</option>
+                      ))}
+                    </select>
+                  </label>
+                  {numberField('数值位', format.valueLength, valueLength => update(format.id, { valueLength }))}
+                  {numberField('小数位', format.decimals, decimals => update(format.id, { decimals }))}
+                </div>
+                {error && <p className="text-xs text-red-600">{error}</p>}
+              </div>
+            );
+          })}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => setDraft(prev => [...prev, { ...DEFAULT_SCALE_FORMATS[0], id: crypto.randomUUID() }])}
+              className="flex-1 py-2 rounded-xl border border-dashed border-zinc-300 text-sm font-bold text-zinc-600 flex items-center justify-center gap-1"
+            >
+              <Plus size={16} />
+              添加格式
+            </button>
+            <button
+              onClick={() => setDraft(DEFAULT_SCALE_FORMATS)}
+              className="px-3 py-2 rounded-xl border border-zinc-200 text-sm font-bold text-zinc-600 flex items-center gap-1"
+            >
+              <RotateCcw size={16} />
+              恢复默认
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">测试条码</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={testCode}
+              onChange={e => setTestCode(e.target.value)}
+              className="w-full p-3 rounded-xl border border-zinc-200 font-mono"
+              placeholder="输入或粘贴一张秤签上的条码"
+            />
+            <div className="mt-1 text-sm">{testResult()}</div>
+          </div>
+        </div>
+
+        <button
+          onClick={() => onSave(draft)}
+          disabled={hasErrors}
+          className="w-full py-4 bg-emerald-600 text-white rounded-2xl font-bold text-lg shadow-lg mt-4 flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <Check size={20} />
+          保存
+        </button>
+      </div>
+    </div>
+  );
+};
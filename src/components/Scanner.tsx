@@ -1,49 +1,154 @@
-import React, { useEffect, useRef } from 'react';
-import { Html5QrcodeScanner } from 'html5-qrcode';
+import React, { useEffect, useRef, useState } from 'react';
+import { Html5Qrcode, Html5QrcodeSupportedFormats, type CameraDevice } from 'html5-qrcode';
+import { Flashlight, FlashlightOff } from 'lucide-react';
+import {
+  checkDigitValid,
+  createScanFilter,
+  DEFAULT_SCANNER_SETTINGS,
+  type ScanFormat,
+  type ScannerSettings,
+} from '../lib/scanning';
+import { cn } from '../lib/utils';
 
 interface ScannerProps {
   onScan: (decodedText: string) => void;
   active: boolean;
+  settings?: ScannerSettings;
+  onCameraChange?: (cameraId: string) => void;
 }
 
-export const Scanner: React.FC<ScannerProps> = ({ onScan, active }) => {
-  const scannerRef = useRef<Html5QrcodeScanner | null>(null);
+const FORMATS: Record<ScanFormat, Html5QrcodeSupportedFormats[]> = {
+  ean13: [Html5QrcodeSupportedFormats.EAN_13],
+  ean8: [Html5QrcodeSupportedFormats.EAN_8],
+  upc: [Html5QrcodeSupportedFormats.UPC_A, Html5QrcodeSupportedFormats.UPC_E],
+  code128: [Html5QrcodeSupportedFormats.CODE_128],
+  qr: [Html5QrcodeSupportedFormats.QR_CODE],
+};
+
+// What the decoder reported, in the terms checkDigitValid understands
+function decodedFormat(format: Html5QrcodeSupportedFormats | undefined) {
+  switch (format) {
+    case Html5QrcodeSupportedFormats.EAN_13: return 'ean13';
+    case Html5QrcodeSupportedFormats.EAN_8: return 'ean8';
+    case Html5QrcodeSupportedFormats.UPC_A: return 'upc';
+    case Html5QrcodeSupportedFormats.UPC_E: return 'upce';
+    default: return undefined;
+  }
+}
+
+const SCAN_FPS = 10;
+
+// Settles once the previous camera session has fully stopped; a new one,
+// even from a freshly mounted scanner, can't open the camera before that
+let idle: Promise<unknown> = Promise.resolve();
+
+export const Scanner: React.FC<ScannerProps> = ({ onScan, active, settings = DEFAULT_SCANNER_SETTINGS, onCameraChange }) => {
+  const scannerRef = useRef<Html5Qrcode | null>(null);
+  // The latest handler, so a new cart doesn't restart the camera
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  const [torchSupported, setTorchSupported] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const [error, setError] = useState('');
+
+  const { formats, cooldownMs, validateCheckDigit, cameraId } = settings;
+  const formatKey = formats.join(',');
 
   useEffect(() => {
-    if (active && !scannerRef.current) {
-      scannerRef.current = new Html5QrcodeScanner(
-        "reader",
-        { 
-          fps: 10, 
-          qrbox: { width: 250, height: 150 },
-          aspectRatio: 1.0
-        },
-        /* verbose= */ false
-      );
-
-      scannerRef.current.render(
-        (decodedText) => {
-          onScan(decodedText);
-        },
-        (error) => {
-          // console.warn(error);
+    if (!active) return;
+    let cancelled = false;
+    const accept = createScanFilter(cooldownMs);
+    setError('');
+    setTorchOn(false);
+
+    const running = idle.then(async () => {
+      if (cancelled) return undefined;
+      const scanner = new Html5Qrcode('reader', {
+        verbose: false,
+        formatsToSupport: formats.flatMap(format => FORMATS[format]),
+        useBarCodeDetectorIfSupported: true,
+      });
+      scannerRef.current = scanner;
+      try {
+        await scanner.start(
+          cameraId ?? { facingMode: 'environment' },
+          {
+            fps: SCAN_FPS,
+            // A wide, short box suits 1D barcodes held across the camera
+            qrbox: (width, height) => ({ width: Math.floor(width * 0.8), height: Math.floor(Math.min(height, width) * 0.5) }),
+          },
+          (decodedText, result) => {
+            if (validateCheckDigit && !checkDigitValid(decodedText, decodedFormat(result.result.format?.format))) return;
+            if (accept(decodedText)) onScanRef.current(decodedText);
+          },
+          () => {
+            // Frames without a code; nothing to report
+          }
+        );
+      } catch {
+        if (!cancelled) setError('无法打开摄像头，请检查权限设置');
+        return undefined;
+      }
+      if (!cancelled) {
+        try {
+          setTorchSupported(scanner.getRunningTrackCameraCapabilities().torchFeature().isSupported());
+        } catch {
+          setTorchSupported(false);
         }
-      );
-    }
+        // Labels only become available once camera permission is granted
+        Html5Qrcode.getCameras().then(list => !cancelled && setCameras(list)).catch(() => undefined);
+      }
+      return scanner;
+    });
 
     return () => {
-      if (scannerRef.current) {
-        scannerRef.current.clear().catch(error => {
-          console.error("Failed to clear scanner", error);
-        });
-        scannerRef.current = null;
-      }
+      cancelled = true;
+      scannerRef.current = null;
+      idle = running
+        .then(scanner => scanner?.isScanning ? scanner.stop().then(() => scanner.clear()) : undefined)
+        .catch(err => console.error('Failed to stop scanner', err));
     };
-  }, [active, onScan]);
+  }, [active, formatKey, cooldownMs, validateCheckDigit, cameraId]);
+
+  const toggleTorch = async () => {
+    try {
+      await scannerRef.current?.getRunningTrackCameraCapabilities().torchFeature().apply(!torchOn);
+      setTorchOn(!torchOn);
+    } catch {
+      setTorchSupported(false);
+    }
+  };
 
   return (
     <div className="w-full max-w-md mx-auto overflow-hidden rounded-xl border border-zinc-200 bg-white shadow-sm">
       <div id="reader" className="w-full"></div>
+      {active && (cameras.length > 1 || torchSupported) && (
+        <div className="flex gap-2 p-2 border-t border-zinc-100">
+          {cameras.length > 1 && (
+            <select
+              value={cameraId ?? ''}
+              onChange={e => onCameraChange?.(e.target.value)}
+              className="flex-1 min-w-0 p-2 rounded-lg border border-zinc-200 bg-white text-sm"
+            >
+              {!cameraId && <option value="">后置摄像头</option>}
+              {cameras.map(camera => (
+                <option key={camera.id} value={camera.id}>{camera.label || camera.id}</option>
+              ))}
+            </select>
+          )}
+          {torchSupported && (
+            <button
+              onClick={toggleTorch}
+              className={cn("p-2 rounded-lg", torchOn ? "bg-amber-400 text-white" : "bg-zinc-100 text-zinc-600")}
+              title="闪光灯"
+            >
+              {torchOn ? <FlashlightOff size={18} /> : <Flashlight size={18} />}
+            </button>
+          )}
+        </div>
+      )}
+      {error && <p className="p-4 text-center text-sm text-red-600">{error}</p>}
       {!active && (
         <div className="p-8 text-center text-zinc-500">
           扫描器已关闭
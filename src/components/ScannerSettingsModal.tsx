@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { X, Check, Volume2 } from 'lucide-react';
+import { SCAN_FORMAT_LABELS, type ScanFormat, type ScannerSettings } from '../lib/scanning';
+import { scanFeedback } from '../lib/feedback';
+import { cn } from '../lib/utils';
+
+type Toggle = 'continuous' | 'validateCheckDigit' | 'sound' | 'vibrate';
+
+interface ScannerSettingsModalProps {
+  settings: ScannerSettings;
+  onSave: (settings: ScannerSettings) => void;
+  onClose: () => void;
+}
+
+export const ScannerSettingsModal: React.FC<ScannerSettingsModalProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState(settings);
+
+  const update = (changes: Partial<ScannerSettings>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const updateWedge = (changes: Partial<ScannerSettings['wedge']>) => {
+    setDraft(prev => ({ ...prev, wedge: { ...prev.wedge, ...changes } }));
+  };
+
+  const toggleFormat = (format: ScanFormat) => {
+    update({
+      formats: draft.formats.includes(format)
+        ? draft.formats.filter(f => f !== format)
+        : (Object.keys(SCAN_FORMAT_LABELS) as ScanFormat[]).filter(f => f === format || draft.formats.includes(f)),
+    });
+  };
+
+  const toggles: [Toggle, string, string][] = [
+    ['continuous', '连续扫码', '扫到商品后摄像头保持打开'],
+    ['validateCheckDigit', '校验位检查', '丢弃校验位不对的 EAN/UPC 误读'],
+    ['sound', '提示音', '找到商品一声短音，未找到两声低音'],
+    ['vibrate', '振动', '支持振动的手机上同时振动'],
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md max-h-[90vh] overflow-y-auto rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold">扫码设置</h2>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="divide-y divide-zinc-100 border border-zinc-200 rounded-2xl">
+            {toggles.map(([key, label, hint]) => (
+              <label key={key} className="flex items-center justify-between gap-4 p-3">
+                <div>
+                  <p className="font-medium text-sm">{label}</p>
+                  <p className="text-xs text-zinc-500">{hint}</p>
+                </div>
+                <input
+                  type="checkbox"
+                  checked={draft[key]}
+                  onChange={e => update({ [key]: e.target.checked })}
+                  className="w-4 h-4 accent-emerald-600"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">重复扫码间隔 (毫秒)</label>
+            <input
+              type="number"
+              min="0"
+              step="100"
+              value={draft.cooldownMs}
+              onChange={e => update({ cooldownMs: Math.max(0, parseInt(e.target.value) || 0) })}
+              className="w-full p-3 rounded-xl border border-zinc-200"
+            />
+            <p className="mt-1 text-xs text-zinc-500">同一条码在这段时间内再次被读到只算一次；同一商品买两件请移开后再扫</p>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">识别的条码类型</label>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(SCAN_FORMAT_LABELS) as ScanFormat[]).map(format => (
+                <button
+                  key={format}
+                  type="button"
+                  onClick={() => toggleFormat(format)}
+                  className={cn(
+                    "px-3 py-1.5 rounded-full text-sm font-medium border transition-colors",
+                    draft.formats.includes(format) ? "bg-emerald-600 border-emerald-600 text-white" : "bg-white border-zinc-200 text-zinc-600"
+                  )}
+                >
+                  {SCAN_FORMAT_LABELS[format]}
+                </button>
+              ))}
+            </div>
+            {draft.formats.length === 0 && <p className="mt-1 text-xs text-red-600">至少选择一种条码类型</p>}
+            {!draft.formats.includes('code128') && (
+              <p className="mt-1 text-xs text-zinc-500">关闭 Code 128 后将无法扫描小票上的订单号</p>
+            )}
+          </div>
+
+          <div className="border border-zinc-200 rounded-2xl">
+            <label className="flex items-center justify-between gap-4 p-3">
+              <div>
+                <p className="font-medium text-sm">扫码枪</p>
+                <p className="text-xs text-zinc-500">USB/蓝牙扫码枪像键盘一样输入，扫到的条码按当前页面处理</p>
+              </div>
+              <input
+                type="checkbox"
+                checked={draft.wedge.enabled}
+                onChange={e => updateWedge({ enabled: e.target.checked })}
+                className="w-4 h-4 accent-emerald-600"
+              />
+            </label>
+            {draft.wedge.enabled && (
+              <div className="grid grid-cols-2 gap-4 p-3 border-t border-zinc-100">
+                <div>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">按键间隔 (毫秒)</label>
+                  <input
+                    type="number"
+                    min="5"
+                    value={draft.wedge.maxKeyInterval}
+                    onChange={e => updateWedge({ maxKeyInterval: Math.max(5, parseInt(e.target.value) || 0) })}
+                    className="w-full p-3 rounded-xl border border-zinc-200"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">最短位数</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={draft.wedge.minLength}
+                    onChange={e => updateWedge({ minLength: Math.max(1, parseInt(e.target.value) || 0) })}
+                    className="w-full p-3 rounded-xl border border-zinc-200"
+                  />
+                </div>
+                <p className="col-span-2 text-xs text-zinc-500">
+                  比这更慢或更短的输入当作手动打字。光标在输入框里时，扫码枪的输入会直接填进输入框。
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              type="button"
+              onClick={() => scanFeedback('found', draft)}
+              className="py-2 rounded-xl bg-zinc-100 text-zinc-600 text-sm font-bold flex items-center justify-center gap-2"
+            >
+              <Volume2 size={16} />
+              试听：找到
+            </button>
+            <button
+              type="button"
+              onClick={() => scanFeedback('unknown', draft)}
+              className="py-2 rounded-xl bg-zinc-100 text-zinc-600 text-sm font-bold flex items-center justify-center gap-2"
+            >
+              <Volume2 size={16} />
+              试听：未找到
+            </button>
+          </div>
+        </div>
+
+        <button
+          onClick={() => onSave(draft)}
+          disabled={draft.formats.length === 0}
+          className="w-full py-4 bg-emerald-600 text-white rounded-2xl font-bold text-lg shadow-lg mt-6 flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <Check size={20} />
+          保存
+        </button>
+      </div>
+    </div>
+  );
+};
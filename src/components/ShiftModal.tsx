@@ -0,0 +1,202 @@
+import React, { useMemo, useState } from 'react';
+import { X, Check, Printer, Wallet } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { PAYMENT_METHOD_LABELS, type Refund, type Sale, type Shift } from '../types';
+import { buildShiftReceipt, cashDifference, summarizeShift } from '../lib/shifts';
+import { receiptToHtml, type ReceiptSettings } from '../lib/receipt';
+import { receiptToEscPos } from '../lib/escpos';
+import { formatDateTime } from '../lib/date';
+import { roundMoney } from '../lib/sales';
+import { printHtml, shareFile } from '../lib/share';
+import { cn } from '../lib/utils';
+
+interface ShiftModalProps {
+  // This till's open shift; none means the drawer is still to be opened
+  shift?: Shift;
+  sales: Sale[];
+  refunds: Refund[];
+  receiptSettings: ReceiptSettings;
+  onOpen: (openingFloat: number) => Promise<boolean>;
+  // Resolves to the closed shift, or null when it couldn't be saved
+  onCloseShift: (countedCash: number, note: string) => Promise<Shift | null>;
+  onClose: () => void;
+}
+
+export const ShiftModal: React.FC<ShiftModalProps> = ({ shift, sales, refunds, receiptSettings, onOpen, onCloseShift, onClose }) => {
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [counted, setCounted] = useState('');
+  const [note, setNote] = useState('');
+  const [closed, setClosed] = useState<Shift | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const shown = closed ?? shift;
+  const summary = useMemo(() => shown && summarizeShift(shown, sales, refunds), [shown, sales, refunds]);
+  const countedCash = parseFloat(counted);
+  const difference = summary && !isNaN(countedCash) ? roundMoney(countedCash - summary.expectedCash) : undefined;
+
+  const handleOpen = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    if (await onOpen(parseFloat(openingFloat) || 0)) onClose();
+    setIsSaving(false);
+  };
+
+  const handleCloseShift = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isNaN(countedCash) || isSaving) return;
+    if (difference && !confirm(`实点现金与应有现金相差 ¥${Math.abs(difference).toFixed(2)}，确定交班吗？`)) return;
+    setIsSaving(true);
+    setClosed(await onCloseShift(countedCash, note));
+    setIsSaving(false);
+  };
+
+  const handlePrint = async () => {
+    if (!shown || !summary) return;
+    const lines = buildShiftReceipt(shown, summary, receiptSettings);
+    if (receiptSettings.printMode === 'browser') {
+      printHtml(receiptToHtml(lines, receiptSettings.paperWidth));
+      return;
+    }
+    const bytes = receiptToEscPos(lines, receiptSettings.paperWidth);
+    const result = await shareFile(new Blob([bytes], { type: 'application/octet-stream' }), `shift_${shown.shiftNo}.bin`);
+    if (result === 'downloaded') toast.success('打印数据已下载');
+  };
+
+  const row = (label: string, value: string, className?: string) => (
+    <div className={cn("flex justify-between text-sm", className)}>
+      <span>{label}</span>
+      <span className="font-mono">{value}</span>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md max-h-[90vh] overflow-y-auto rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h2 className="text-xl font-bold">{closed ? '交班单' : shift ? '交班' : '开班'}</h2>
+            {shown && (
+              <p className="text-xs text-zinc-500">
+                {shown.shiftNo}{shown.cashierName ? ` · ${shown.cashierName}` : ''} · {formatDateTime(shown.openedAt)} 开班
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        {!shown ? (
+          <form onSubmit={handleOpen} className="space-y-4">
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">备用金 (¥)</label>
+              <input
+                autoFocus
+                type="number"
+                min="0"
+                step="0.01"
+                value={openingFloat}
+                onChange={e => setOpeningFloat(e.target.value)}
+                className="w-full p-3 rounded-xl border border-zinc-200"
+                placeholder="钱箱里现有的零钱，如 200"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="w-full py-4 bg-emerald-600 text-white rounded-2xl font-bold text-lg shadow-lg flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <Wallet size={20} />
+              开班
+            </button>
+          </form>
+        ) : summary && (
+          <div className="space-y-4">
+            <div className="p-4 rounded-2xl bg-zinc-50 space-y-1">
+              {row(`销售 ${summary.saleCount} 笔`, `¥${summary.salesAmount.toFixed(2)}`, 'font-bold')}
+              {summary.byMethod.map(m => row(`${PAYMENT_METHOD_LABELS[m.method]} ${m.count} 笔`, `¥${m.amount.toFixed(2)}`, 'text-zinc-500'))}
+              {summary.discountAmount > 0 && row('其中优惠', `-¥${summary.discountAmount.toFixed(2)}`, 'text-zinc-500')}
+              {summary.refundCount > 0 && row(`退款 ${summary.refundCount} 笔`, `-¥${summary.refundAmount.toFixed(2)}`, 'text-rose-600')}
+            </div>
+
+            <div className="p-4 rounded-2xl bg-zinc-50 space-y-1">
+              {row('备用金', `¥${shown.openingFloat.toFixed(2)}`)}
+              {row('现金收入', `¥${summary.cashSales.toFixed(2)}`)}
+              {summary.cashRefunds > 0 && row('现金退款', `-¥${summary.cashRefunds.toFixed(2)}`)}
+              {row('应有现金', `¥${(shown.expectedCash ?? summary.expectedCash).toFixed(2)}`, 'font-bold')}
+              {closed && closed.countedCash !== undefined && (
+                <>
+                  {row('实点现金', `¥${closed.countedCash.toFixed(2)}`, 'font-bold')}
+                  {row('差额', `¥${(cashDifference(closed) ?? 0).toFixed(2)}`, cashDifference(closed) ? 'text-rose-600 font-bold' : 'text-emerald-600')}
+                </>
+              )}
+            </div>
+
+            {closed ? (
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={handlePrint}
+                  className="py-4 rounded-2xl bg-zinc-100 text-zinc-700 font-bold flex items-center justify-center gap-2"
+                >
+                  <Printer size={18} />
+                  打印
+                </button>
+                <button
+                  onClick={onClose}
+                  className="py-4 bg-emerald-600 text-white rounded-2xl font-bold shadow-lg flex items-center justify-center gap-2"
+                >
+                  <Check size={20} />
+                  完成
+                </button>
+              </div>
+            ) : (
+              <form onSubmit={handleCloseShift} className="space-y-4">
+                <div>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">实点现金 (¥)</label>
+                  <input
+                    required
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={counted}
+                    onChange={e => setCounted(e.target.value)}
+                    className="w-full p-3 rounded-xl border border-zinc-200"
+                    placeholder="数一数钱箱里的现金"
+                  />
+                  {difference !== undefined && (
+                    <p className={cn("mt-1 text-sm font-bold", difference === 0 ? "text-emerald-600" : "text-rose-600")}>
+                      {difference === 0 ? '账实相符' : `${difference > 0 ? '长款' : '短款'} ¥${Math.abs(difference).toFixed(2)}`}
+                    </p>
+                  )}
+                </div>
+                <input
+                  type="text"
+                  value={note}
+                  onChange={e => setNote(e.target.value)}
+                  className="w-full p-3 rounded-xl border border-zinc-200"
+                  placeholder="备注 (可选)，如差额原因"
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    type="button"
+                    onClick={handlePrint}
+                    className="py-4 rounded-2xl bg-zinc-100 text-zinc-700 font-bold flex items-center justify-center gap-2"
+                  >
+                    <Printer size={18} />
+                    打印预览
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isNaN(countedCash) || isSaving}
+                    className="py-4 bg-emerald-600 text-white rounded-2xl font-bold shadow-lg flex items-center justify-center gap-2 disabled:opacity-50"
+                  >
+                    <Check size={20} />
+                    交班
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
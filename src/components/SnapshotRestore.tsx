@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { X, Archive, Download, HardDrive, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { SNAPSHOT_REASON_LABELS, type Snapshot } from '../lib/snapshots';
+import { formatBytes, type StorageStatus } from '../lib/pwa';
+import { formatDateTime, toDateKey } from '../lib/date';
+import { downloadFile } from '../lib/share';
+import { cn } from '../lib/utils';
+
+interface SnapshotRestoreProps {
+  snapshots: Snapshot[];
+  storage: StorageStatus;
+  isOnline: boolean;
+  onTakeSnapshot: () => Promise<boolean>;
+  onRequestPersist: () => Promise<boolean>;
+  // Opens the usual restore preview; nothing changes until confirmed there
+  onRestore: (snapshot: Snapshot) => void;
+  onDelete: (snapshot: Snapshot) => Promise<void>;
+  onClose: () => void;
+}
+
+export const SnapshotRestore: React.FC<SnapshotRestoreProps> = ({
+  snapshots,
+  storage,
+  isOnline,
+  onTakeSnapshot,
+  onRequestPersist,
+  onRestore,
+  onDelete,
+  onClose,
+}) => {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleTake = async () => {
+    setIsSaving(true);
+    try {
+      await onTakeSnapshot();
+      toast.success('已保存快照');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '保存快照失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePersist = async () => {
+    if (await onRequestPersist()) toast.success('浏览器已同意长期保留数据');
+    else toast.error('浏览器未同意，可先把应用添加到主屏幕后再试');
+  };
+
+  const handleDownload = (snapshot: Snapshot) => {
+    downloadFile(JSON.stringify(snapshot.backup, null, 2), `shop_snapshot_${toDateKey(new Date(snapshot.createdAt))}.json`);
+  };
+
+  const handleDelete = async (snapshot: Snapshot) => {
+    if (!confirm(`删除 ${formatDateTime(snapshot.createdAt)} 的快照？`)) return;
+    await onDelete(snapshot);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md max-h-[85vh] flex flex-col rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold">本机快照</h2>
+            <p className="text-xs text-zinc-500">每 4 小时自动保存一份，恢复前也会先保存</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        <div className="flex items-center gap-3 p-3 mb-4 rounded-2xl bg-zinc-50">
+          <HardDrive size={20} className={storage.persisted ? 'text-emerald-600' : 'text-amber-600'} />
+          <div className="flex-1 min-w-0 text-sm">
+            <p className="font-bold">
+              {storage.persisted === undefined ? '浏览器不支持存储保护' : storage.persisted ? '数据已长期保留' : '空间不足时可能被浏览器清除'}
+            </p>
+            {storage.usage !== undefined && (
+              <p className="text-xs text-zinc-500">
+                已用 {formatBytes(storage.usage)}{storage.quota !== undefined && ` / 可用 ${formatBytes(storage.quota)}`}
+              </p>
+            )}
+          </div>
+          {storage.persisted === false && (
+            <button onClick={handlePersist} className="px-3 py-1.5 rounded-lg border border-zinc-200 text-sm font-bold text-zinc-600">
+              申请
+            </button>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-zinc-100 -mx-2">
+          {snapshots.length === 0 ? (
+            <div className="p-8 text-center text-zinc-400">
+              <Archive size={40} className="mx-auto mb-3 opacity-20" />
+              <p className="text-sm">还没有快照</p>
+            </div>
+          ) : (
+            snapshots.map(snapshot => (
+              <div key={snapshot.id} className="px-2 py-3 flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium flex items-center gap-2">
+                    {formatDateTime(snapshot.createdAt)}
+                    <span className={cn(
+                      "text-[10px] font-bold px-1.5 py-0.5 rounded-full",
+                      snapshot.reason === 'auto' ? 'bg-zinc-100 text-zinc-500' : 'bg-blue-50 text-blue-700'
+                    )}>
+                      {SNAPSHOT_REASON_LABELS[snapshot.reason]}
+                    </span>
+                  </p>
+                  <p className="text-xs text-zinc-500">
+                    {snapshot.counts.products} 个商品 · {snapshot.counts.sales} 笔销售 · {snapshot.counts.receivings} 次入库
+                  </p>
+                </div>
+                <button onClick={() => handleDownload(snapshot)} className="p-2 text-zinc-400 hover:text-blue-600" title="下载">
+                  <Download size={18} />
+                </button>
+                <button onClick={() => handleDelete(snapshot)} className="p-2 text-zinc-400 hover:text-red-500" title="删除">
+                  <Trash2 size={18} />
+                </button>
+                <button
+                  onClick={() => onRestore(snapshot)}
+                  className="px-3 py-1.5 rounded-lg border border-zinc-200 text-sm font-bold text-zinc-600 flex items-center gap-1"
+                >
+                  <RotateCcw size={14} />
+                  恢复
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {!isOnline && snapshots.length > 0 && (
+          <p className="mt-3 text-xs text-amber-600">恢复需要连接门店服务器；离线时可先下载快照保存。</p>
+        )}
+
+        <button
+          onClick={handleTake}
+          disabled={isSaving}
+          className="w-full py-4 bg-emerald-600 text-white rounded-2xl font-bold text-lg shadow-lg mt-4 flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <Save size={20} />
+          立即保存快照
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { X, Check } from 'lucide-react';
+import { MOVEMENT_TYPE_LABELS, type ManualMovementType, type Product } from '../types';
+import type { StockAdjustment } from '../hooks/useInventory';
+import { cn } from '../lib/utils';
+
+interface StockAdjustModalProps {
+  product: Product;
+  onSubmit: (adjustment: Omit<StockAdjustment, 'operator'>) => void;
+  onClose: () => void;
+}
+
+const ADJUST_TYPES: ManualMovementType[] = ['purchase', 'return', 'damage', 'stocktake', 'adjustment'];
+
+// Types that need a written reason, since nothing else explains them later
+const REASON_REQUIRED: ManualMovementType[] = ['damage', 'adjustment'];
+
+export const StockAdjustModal: React.FC<StockAdjustModalProps> = ({ product, onSubmit, onClose }) => {
+  const [type, setType] = useState<ManualMovementType>('purchase');
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+
+  const value = parseFloat(amount);
+  // Stocktake asks for the counted quantity; the others for the change itself
+  let delta = NaN;
+  if (!isNaN(value)) {
+    if (type === 'stocktake') delta = value - product.stock;
+    else if (type === 'damage') delta = -Math.abs(value);
+    else if (type === 'adjustment') delta = value;
+    else delta = Math.abs(value);
+  }
+  const reasonMissing = REASON_REQUIRED.includes(type) && !note.trim();
+  const invalid = isNaN(delta) || delta === 0 || reasonMissing;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (invalid) return;
+    onSubmit({ productId: product.id, quantity: delta, type, note: note.trim() || undefined });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h2 className="text-xl font-bold">调整库存</h2>
+            <p className="text-xs text-zinc-500">{product.name} · 当前库存 {product.stock}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">变动类型</label>
+            <div className="grid grid-cols-3 gap-2">
+              {ADJUST_TYPES.map(t => (
+                <button
+                  key={t}
+                  type="button"
+                  onClick={() => setType(t)}
+                  className={cn(
+                    "py-2 rounded-xl border font-bold text-sm transition-colors",
+                    type === t ? "bg-emerald-600 border-emerald-600 text-white" : "bg-white border-zinc-200 text-zinc-600"
+                  )}
+                >
+                  {MOVEMENT_TYPE_LABELS[t]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">
+              {type === 'stocktake' ? '实盘数量' : type === 'adjustment' ? '调整数量 (可为负数)' : '数量'}
+            </label>
+            <input
+              required
+              autoFocus
+              type="number"
+              step="any"
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+              className="w-full p-3 rounded-xl border border-zinc-200 text-lg font-bold"
+              placeholder={type === 'stocktake' ? String(product.stock) : '0'}
+            />
+            {!isNaN(delta) && (
+              <p className={cn("mt-1 text-sm font-bold", delta >= 0 ? "text-emerald-600" : "text-red-500")}>
+                {delta >= 0 ? '+' : ''}{delta} → 调整后库存 {product.stock + delta}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">
+              原因{REASON_REQUIRED.includes(type) ? '' : ' (可选)'}
+            </label>
+            <input
+              type="text"
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              className="w-full p-3 rounded-xl border border-zinc-200"
+              placeholder={type === 'damage' ? '例如：过期、破损' : '例如：供应商送货单号'}
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={invalid}
+            className="w-full py-4 bg-emerald-600 text-white rounded-2xl font-bold text-lg shadow-lg mt-4 flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <Check size={20} />
+            确认调整
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { X, History, PackagePlus } from 'lucide-react';
+import { MOVEMENT_TYPE_LABELS, type Product, type StockMovement } from '../types';
+import type { StockHistory as StockHistoryData } from '../hooks/useInventory';
+import { formatDateTime } from '../lib/date';
+import { cn } from '../lib/utils';
+
+interface StockHistoryProps {
+  product: Product;
+  loadHistory: (productId: string) => Promise<StockHistoryData>;
+  onAdjust: () => void;
+  onClose: () => void;
+}
+
+export const StockHistory: React.FC<StockHistoryProps> = ({ product, loadHistory, onAdjust, onClose }) => {
+  const [history, setHistory] = useState<StockHistoryData | null>(null);
+
+  // Reload when the product's stock changes, e.g. after an adjustment
+  useEffect(() => {
+    let cancelled = false;
+    loadHistory(product.id).then(result => {
+      if (!cancelled) setHistory(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [product.id, product.stock, loadHistory]);
+
+  const rows: (StockMovement & { pending?: boolean })[] = history
+    ? [
+        ...history.pending.map(m => ({ ...m, pending: true })).reverse(),
+        ...[...history.movements].reverse(),
+      ]
+    : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md max-h-[85vh] flex flex-col rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold">库存记录</h2>
+            <p className="text-xs text-zinc-500">{product.name} · 当前库存 {product.stock}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        <button
+          onClick={onAdjust}
+          className="mb-4 w-full py-3 bg-emerald-50 text-emerald-700 rounded-xl font-bold flex items-center justify-center gap-2"
+        >
+          <PackagePlus size={18} />
+          调整库存
+        </button>
+
+        {history?.offline && (
+          <p className="mb-3 p-3 rounded-xl bg-amber-50 text-amber-700 text-xs">无法连接服务器，仅显示本机未同步的记录</p>
+        )}
+
+        <div className="flex-1 overflow-y-auto divide-y divide-zinc-100 -mx-2">
+          {!history ? (
+            <p className="p-8 text-center text-zinc-400 text-sm">加载中...</p>
+          ) : rows.length === 0 ? (
+            <div className="p-8 text-center text-zinc-400">
+              <History size={40} className="mx-auto mb-3 opacity-20" />
+              <p className="text-sm">暂无库存变动</p>
+            </div>
+          ) : (
+            rows.map(m => (
+              <div key={m.id} className="px-2 py-3 flex justify-between items-start gap-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-sm">
+                    {MOVEMENT_TYPE_LABELS[m.type]}
+                    {m.pending && <span className="ml-2 text-[10px] px-1.5 py-0.5 rounded bg-amber-50 text-amber-700">未同步</span>}
+                  </p>
+                  <p className="text-xs text-zinc-500">
+                    {formatDateTime(m.createdAt)}{m.operator ? ` · ${m.operator}` : ''}
+                  </p>
+                  {m.note && <p className="text-xs text-zinc-400 truncate">{m.note}</p>}
+                </div>
+                <div className="text-right shrink-0">
+                  <p className={cn("font-bold", m.quantity >= 0 ? "text-emerald-600" : "text-red-500")}>
+                    {m.quantity >= 0 ? '+' : ''}{m.quantity}
+                  </p>
+                  {!isNaN(m.stockAfter) && <p className="text-xs text-zinc-400">结存 {m.stockAfter}</p>}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
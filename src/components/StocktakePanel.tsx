@@ -0,0 +1,255 @@
+import React, { useMemo, useState } from 'react';
+import { Barcode, X, Check, ClipboardList, Search, ChevronRight } from 'lucide-react';
+import type { Product, Stocktake } from '../types';
+import { Scanner } from './Scanner';
+import type { ScannerSettings } from '../lib/scanning';
+import { StocktakeReport } from './StocktakeReport';
+import { buildStocktakeLines, summarizeStocktake, type StocktakeDraft } from '../lib/stocktake';
+import { formatDateTime } from '../lib/date';
+import { cn } from '../lib/utils';
+
+interface StocktakePanelProps {
+  draft: StocktakeDraft | null;
+  products: Product[];
+  stocktakes: Stocktake[];
+  isScanning: boolean;
+  onToggleScan: () => void;
+  onScan: (barcode: string) => void;
+  scannerSettings: ScannerSettings;
+  onCameraChange: (cameraId: string) => void;
+  onStart: () => void;
+  // `stock` is the book stock the line shows, kept as the count's baseline
+  onSetCount: (productId: string, stock: number, quantity: number | undefined) => void;
+  onComplete: () => Promise<Stocktake | null>;
+  onDiscard: () => void;
+  onExit: () => void;
+}
+
+type LineFilter = 'all' | 'uncounted' | 'variance';
+
+const FILTER_LABELS: Record<LineFilter, string> = {
+  all: '全部',
+  uncounted: '未盘',
+  variance: '有差异',
+};
+
+// Rendering every row of a large catalogue makes typing sluggish on phones
+const MAX_VISIBLE_LINES = 100;
+
+export const StocktakePanel: React.FC<StocktakePanelProps> = ({
+  draft,
+  products,
+  stocktakes,
+  isScanning,
+  onToggleScan,
+  onScan,
+  scannerSettings,
+  onCameraChange,
+  onStart,
+  onSetCount,
+  onComplete,
+  onDiscard,
+  onExit,
+}) => {
+  const [query, setQuery] = useState('');
+  const [filter, setFilter] = useState<LineFilter>('all');
+  const [viewing, setViewing] = useState<Stocktake | null>(null);
+
+  const lines = useMemo(() => buildStocktakeLines(products, draft?.counts ?? {}, draft?.expected), [products, draft]);
+  const summary = useMemo(() => summarizeStocktake(lines), [lines]);
+  const visibleLines = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return lines
+      .filter(line => filter !== 'uncounted' || line.counted === undefined)
+      .filter(line => filter !== 'variance' || (line.counted !== undefined && line.variance !== 0))
+      .filter(line => !q || line.name.toLowerCase().includes(q) || line.barcode.includes(q));
+  }, [lines, query, filter]);
+
+  const handleComplete = async () => {
+    const message = summary.uncountedCount > 0
+      ? `还有 ${summary.uncountedCount} 个商品未盘点，它们的库存不会修改。确定完成盘点吗？`
+      : '确定完成盘点并按实盘数量修正库存吗？';
+    if (!confirm(message)) return;
+    const stocktake = await onComplete();
+    if (stocktake) setViewing(stocktake);
+  };
+
+  if (viewing) {
+    return <StocktakeReport stocktake={viewing} onBack={() => setViewing(null)} />;
+  }
+
+  const header = (
+    <div className="flex items-center justify-between">
+      <h2 className="font-bold text-lg flex items-center gap-2">
+        <ClipboardList className="text-violet-600" size={20} />
+        库存盘点
+      </h2>
+      <button onClick={onExit} className="text-sm text-zinc-500 font-medium">退出盘点</button>
+    </div>
+  );
+
+  if (!draft) {
+    return (
+      <div className="space-y-4">
+        {header}
+        <button
+          onClick={onStart}
+          className="w-full py-4 rounded-2xl flex items-center justify-center gap-3 font-bold text-lg shadow-md text-white bg-violet-600"
+        >
+          <ClipboardList size={24} />
+          开始新盘点
+        </button>
+
+        <div className="bg-white rounded-2xl border border-zinc-200 divide-y divide-zinc-100 shadow-sm overflow-hidden">
+          <div className="p-4 bg-zinc-50/50">
+            <h2 className="font-bold text-zinc-500 text-xs uppercase tracking-wider">盘点记录</h2>
+          </div>
+          {stocktakes.length === 0 ? (
+            <p className="p-4 text-sm text-zinc-400 text-center">暂无盘点记录</p>
+          ) : (
+            [...stocktakes].reverse().map(st => (
+              <button
+                key={st.id}
+                onClick={() => setViewing(st)}
+                className="w-full p-4 flex justify-between items-center text-left hover:bg-zinc-50 transition-colors"
+              >
+                <div>
+                  <p className="font-mono text-sm font-bold">{st.stocktakeNo}</p>
+                  <p className="text-xs text-zinc-500">
+                    {formatDateTime(st.completedAt)} · 已盘 {st.countedCount} · 未盘 {st.uncountedCount}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-emerald-600">+¥{st.gainValue.toFixed(2)}</span>
+                  <span className="text-red-500">-¥{st.lossValue.toFixed(2)}</span>
+                  <ChevronRight size={16} className="text-zinc-400" />
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {header}
+
+      <button
+        onClick={onToggleScan}
+        className={cn(
+          "w-full py-4 rounded-2xl flex items-center justify-center gap-3 font-bold text-lg transition-all shadow-md text-white",
+          isScanning ? "bg-red-500" : "bg-violet-600"
+        )}
+      >
+        {isScanning ? <X size={24} /> : <Barcode size={24} />}
+        {isScanning ? "停止扫描" : "扫码计数"}
+      </button>
+
+      {isScanning && (
+        <div className="animate-in fade-in zoom-in duration-300">
+          <Scanner onScan={onScan} active={isScanning} settings={scannerSettings} onCameraChange={onCameraChange} />
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2 text-center bg-white rounded-2xl border border-zinc-200 p-4 shadow-sm">
+        <div>
+          <p className="text-xs text-zinc-500">已盘 / 总数</p>
+          <p className="text-lg font-black">{summary.countedCount} / {lines.length}</p>
+        </div>
+        <div>
+          <p className="text-xs text-zinc-500">盘盈</p>
+          <p className="text-lg font-black text-emerald-600">¥{summary.gainValue.toFixed(2)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-zinc-500">盘亏</p>
+          <p className="text-lg font-black text-red-500">¥{summary.lossValue.toFixed(2)}</p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-400" size={18} />
+          <input
+            type="text"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="输入商品名称或条码..."
+            className="w-full pl-10 pr-4 py-3 rounded-xl border border-zinc-200 focus:outline-none focus:ring-2 focus:ring-violet-500 bg-white"
+          />
+        </div>
+        <div className="flex gap-2">
+          {(Object.keys(FILTER_LABELS) as LineFilter[]).map(f => (
+            <button
+              key={f}
+              onClick={() => setFilter(f)}
+              className={cn(
+                "px-3 py-1.5 rounded-full text-sm font-medium border transition-colors",
+                filter === f ? "bg-violet-600 border-violet-600 text-white" : "bg-white border-zinc-200 text-zinc-600"
+              )}
+            >
+              {FILTER_LABELS[f]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-zinc-200 divide-y divide-zinc-100 shadow-sm overflow-hidden">
+        {visibleLines.slice(0, MAX_VISIBLE_LINES).map(line => (
+          <div key={line.productId} className="p-4 flex justify-between items-center gap-3">
+            <div className="min-w-0">
+              <p className="font-medium truncate">{line.name}</p>
+              <p className="text-xs text-zinc-500">
+                账面 {line.expected}
+                {line.counted === undefined ? (
+                  <span className="ml-2 px-1.5 py-0.5 rounded bg-amber-50 text-amber-700">未盘</span>
+                ) : line.variance !== 0 && (
+                  <span className={cn("ml-2 font-bold", line.variance > 0 ? "text-emerald-600" : "text-red-500")}>
+                    {line.variance > 0 ? '+' : ''}{line.variance} (¥{line.varianceValue.toFixed(2)})
+                  </span>
+                )}
+              </p>
+            </div>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={line.counted ?? ''}
+              onChange={e => onSetCount(line.productId, line.expected, e.target.value === '' ? undefined : parseFloat(e.target.value))}
+              className="w-20 p-2 rounded-xl border border-zinc-200 text-center font-bold"
+              placeholder="实盘"
+            />
+          </div>
+        ))}
+        {visibleLines.length === 0 && (
+          <p className="p-4 text-sm text-zinc-400 text-center">没有符合条件的商品</p>
+        )}
+        {visibleLines.length > MAX_VISIBLE_LINES && (
+          <p className="p-4 text-xs text-zinc-400 text-center">
+            仅显示前 {MAX_VISIBLE_LINES} 个，共 {visibleLines.length} 个，请输入关键字缩小范围
+          </p>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => {
+            if (confirm('确定放弃本次盘点吗？已录入的数量将被清除。')) onDiscard();
+          }}
+          className="px-4 py-4 rounded-2xl bg-white border border-zinc-200 text-zinc-600 font-bold"
+        >
+          放弃
+        </button>
+        <button
+          onClick={handleComplete}
+          disabled={summary.countedCount === 0}
+          className="flex-1 py-4 bg-violet-600 text-white rounded-2xl font-bold text-lg shadow-lg flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <Check size={20} />
+          完成盘点
+        </button>
+      </div>
+    </div>
+  );
+};
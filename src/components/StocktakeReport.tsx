@@ -0,0 +1,103 @@
+import React from 'react';
+import { ArrowLeft, Download, AlertTriangle } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import type { Stocktake } from '../types';
+import { formatDateTime } from '../lib/date';
+import { stocktakeToCsv } from '../lib/stocktake';
+import { downloadFile } from '../lib/share';
+import { cn } from '../lib/utils';
+
+interface StocktakeReportProps {
+  stocktake: Stocktake;
+  onBack: () => void;
+}
+
+export const StocktakeReport: React.FC<StocktakeReportProps> = ({ stocktake, onBack }) => {
+  const differences = stocktake.lines
+    .filter(line => line.counted !== undefined && line.variance !== 0)
+    .sort((a, b) => Math.abs(b.varianceValue) - Math.abs(a.varianceValue));
+  const uncounted = stocktake.lines.filter(line => line.counted === undefined);
+
+  const handleExport = () => {
+    downloadFile(stocktakeToCsv(stocktake), `stocktake_${stocktake.stocktakeNo}.csv`, 'text/csv;charset=utf-8');
+    toast.success('CSV 已导出');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <button onClick={onBack} className="flex items-center gap-1 text-sm text-zinc-500 font-medium">
+          <ArrowLeft size={16} />
+          返回
+        </button>
+        <button onClick={handleExport} className="p-2 bg-white border border-zinc-200 text-zinc-600 rounded-xl" title="导出 CSV">
+          <Download size={18} />
+        </button>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-zinc-200 p-4 shadow-sm">
+        <p className="font-mono text-sm font-bold">{stocktake.stocktakeNo}</p>
+        <p className="text-xs text-zinc-500">
+          {formatDateTime(stocktake.completedAt)}{stocktake.operator ? ` · ${stocktake.operator}` : ''}
+        </p>
+        <div className="mt-4 grid grid-cols-3 gap-2 text-center">
+          <div>
+            <p className="text-xs text-zinc-500">盘盈</p>
+            <p className="text-lg font-black text-emerald-600">¥{stocktake.gainValue.toFixed(2)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-zinc-500">盘亏</p>
+            <p className="text-lg font-black text-red-500">¥{stocktake.lossValue.toFixed(2)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-zinc-500">已盘 / 未盘</p>
+            <p className="text-lg font-black">{stocktake.countedCount} / {stocktake.uncountedCount}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-zinc-200 shadow-sm overflow-hidden">
+        <div className="p-4 border-b border-zinc-100 bg-zinc-50/50">
+          <h2 className="font-bold text-zinc-500 text-xs uppercase tracking-wider">差异明细</h2>
+        </div>
+        {differences.length === 0 ? (
+          <p className="p-4 text-sm text-zinc-400 text-center">已盘商品账实相符</p>
+        ) : (
+          <div className="divide-y divide-zinc-100">
+            {differences.map(line => (
+              <div key={line.productId} className="px-4 py-3 flex justify-between items-center text-sm">
+                <div>
+                  <p className="font-medium">{line.name}</p>
+                  <p className="text-xs text-zinc-500">账面 {line.expected} · 实盘 {line.counted}</p>
+                </div>
+                <div className="text-right">
+                  <p className={cn("font-bold", line.variance > 0 ? "text-emerald-600" : "text-red-500")}>
+                    {line.variance > 0 ? '+' : ''}{line.variance}
+                  </p>
+                  <p className="text-xs text-zinc-400">¥{line.varianceValue.toFixed(2)}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {uncounted.length > 0 && (
+        <div className="bg-white rounded-2xl border border-amber-200 shadow-sm overflow-hidden">
+          <div className="p-4 border-b border-amber-100 bg-amber-50 flex items-center gap-2">
+            <AlertTriangle size={16} className="text-amber-600" />
+            <h2 className="font-bold text-amber-700 text-xs uppercase tracking-wider">未盘商品 (库存未修改)</h2>
+          </div>
+          <div className="divide-y divide-zinc-100">
+            {uncounted.map(line => (
+              <div key={line.productId} className="px-4 py-3 flex justify-between text-sm">
+                <span>{line.name}</span>
+                <span className="text-zinc-500">账面 {line.expected}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,241 @@
+import React, { useMemo, useState } from 'react';
+import { X, Check, Edit3, Plus, Search, Trash2, Truck } from 'lucide-react';
+import type { Product, Receiving, Supplier } from '../types';
+import { isFromSupplier, lastPurchasePrices, type PurchasePrice, type SupplierDraft } from '../lib/purchasing';
+import { matchesQuery } from '../lib/productSearch';
+import { formatDateTime } from '../lib/date';
+
+const MAX_RESULTS = 8;
+
+interface SupplierManagerProps {
+  suppliers: Supplier[];
+  products: Product[];
+  receivings: Receiving[];
+  // Resolves false when the supplier couldn't be saved, leaving the form open
+  onSave: (draft: SupplierDraft) => Promise<boolean>;
+  onDelete: (supplier: Supplier) => Promise<boolean>;
+  onClose: () => void;
+}
+
+export const SupplierManager: React.FC<SupplierManagerProps> = ({ suppliers, products, receivings, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<SupplierDraft | null>(null);
+  const [query, setQuery] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const productById = useMemo(() => new Map(products.map(p => [p.id, p])), [products]);
+  const editing = suppliers.find(s => s.id === draft?.id);
+  const prices = useMemo(() => editing ? lastPurchasePrices(receivings, editing) : new Map<string, PurchasePrice>(), [receivings, editing]);
+  const results = useMemo(() => {
+    const q = query.trim();
+    if (!q || !draft) return [];
+    return products.filter(p => !draft.productIds.includes(p.id) && matchesQuery(p, q)).slice(0, MAX_RESULTS);
+  }, [products, draft, query]);
+
+  // Latest delivery per supplier, for the list
+  const lastDelivery = (supplier: Supplier) => {
+    const matching = receivings.filter(r => isFromSupplier(r, supplier));
+    return matching[matching.length - 1]?.createdAt;
+  };
+
+  const field = (key: 'contact' | 'phone' | 'address' | 'note', label: string, placeholder: string, type = 'text') => (
+    <div>
+      <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">{label}</label>
+      <input
+        type={type}
+        value={draft?.[key] ?? ''}
+        onChange={e => draft && setDraft({ ...draft, [key]: e.target.value })}
+        className="w-full p-3 rounded-xl border border-zinc-200"
+        placeholder={placeholder}
+      />
+    </div>
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || isSaving) return;
+    setIsSaving(true);
+    const saved = await onSave(draft);
+    setIsSaving(false);
+    if (saved) {
+      setDraft(null);
+      setQuery('');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editing) return;
+    if (await onDelete(editing)) setDraft(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md max-h-[85vh] flex flex-col rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold">供应商</h2>
+            <p className="text-xs text-zinc-500">联系方式、供货商品和最近进价</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        {draft ? (
+          <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto -mx-2 px-2 space-y-4">
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">名称</label>
+              <input
+                autoFocus
+                required
+                type="text"
+                value={draft.name}
+                onChange={e => setDraft({ ...draft, name: e.target.value })}
+                className="w-full p-3 rounded-xl border border-zinc-200"
+                placeholder="例如：XX 批发部"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {field('contact', '联系人', '例如：王经理')}
+              {field('phone', '电话', '手机或座机', 'tel')}
+            </div>
+            {field('address', '地址', '可选')}
+            {field('note', '备注', '例如：每周二送货，满 500 免运费')}
+
+            <div>
+              <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">供货商品</label>
+              {draft.productIds.length > 0 && (
+                <div className="mb-2 rounded-xl border border-zinc-100 divide-y divide-zinc-100">
+                  {draft.productIds.map(id => {
+                    const price = prices.get(id);
+                    return (
+                      <div key={id} className="p-2 flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate">{productById.get(id)?.name ?? '已删除的商品'}</span>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <span className="text-xs text-zinc-500">
+                            {price ? `上次进价 ¥${price.costPrice}` : '暂无进价'}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => setDraft({ ...draft, productIds: draft.productIds.filter(p => p !== id) })}
+                            className="p-1 text-zinc-400 hover:text-red-500"
+                          >
+                            <X size={16} />
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+              <div className="relative">
+                <Search className="absolute left-3 top-3.5 text-zinc-400" size={16} />
+                <input
+                  type="text"
+                  value={query}
+                  onChange={e => setQuery(e.target.value)}
+                  placeholder="搜索商品添加"
+                  className="w-full pl-9 pr-3 py-3 rounded-xl border border-zinc-200"
+                />
+              </div>
+              {results.length > 0 && (
+                <div className="mt-1 rounded-xl border border-zinc-200 divide-y divide-zinc-100">
+                  {results.map(product => (
+                    <button
+                      key={product.id}
+                      type="button"
+                      onClick={() => {
+                        setDraft({ ...draft, productIds: [...draft.productIds, product.id] });
+                        setQuery('');
+                      }}
+                      className="w-full p-2 flex justify-between text-sm text-left hover:bg-zinc-50"
+                    >
+                      <span className="truncate">{product.name}</span>
+                      <span className="text-zinc-500 shrink-0 ml-2">库存 {product.stock}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {editing && (
+              <button
+                type="button"
+                onClick={handleDelete}
+                className="w-full py-3 rounded-2xl border border-red-200 text-red-600 font-bold flex items-center justify-center gap-2"
+              >
+                <Trash2 size={18} />
+                删除供应商
+              </button>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="py-4 rounded-2xl bg-zinc-100 text-zinc-600 font-bold"
+              >
+                取消
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving || !draft.name.trim()}
+                className="py-4 bg-emerald-600 text-white rounded-2xl font-bold shadow-lg flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                <Check size={20} />
+                保存
+              </button>
+            </div>
+          </form>
+        ) : (
+          <>
+            <div className="flex-1 overflow-y-auto divide-y divide-zinc-100 -mx-2">
+              {suppliers.length === 0 ? (
+                <div className="p-8 text-center text-zinc-400">
+                  <Truck size={40} className="mx-auto mb-3 opacity-20" />
+                  <p className="text-sm">还没有供应商</p>
+                  <p className="text-xs mt-1">添加后可以按供应商生成采购单</p>
+                </div>
+              ) : (
+                suppliers.map(supplier => {
+                  const delivered = lastDelivery(supplier);
+                  return (
+                    <div key={supplier.id} className="px-2 py-3 flex justify-between items-center gap-3">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{supplier.name}</p>
+                        <p className="text-xs text-zinc-500 truncate">
+                          {[supplier.contact, supplier.phone].filter(Boolean).join(' ') || '未填写联系方式'}
+                          {' · '}{supplier.productIds.length} 个商品
+                          {delivered && ` · ${formatDateTime(delivered)} 到货`}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => setDraft({
+                          id: supplier.id,
+                          name: supplier.name,
+                          contact: supplier.contact,
+                          phone: supplier.phone,
+                          address: supplier.address,
+                          note: supplier.note,
+                          productIds: supplier.productIds,
+                        })}
+                        className="p-2 text-zinc-400 hover:text-emerald-600"
+                      >
+                        <Edit3 size={18} />
+                      </button>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+            <button
+              onClick={() => setDraft({ name: '', productIds: [] })}
+              className="w-full py-4 bg-emerald-600 text-white rounded-2xl font-bold text-lg shadow-lg mt-4 flex items-center justify-center gap-2"
+            >
+              <Plus size={20} />
+              添加供应商
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { X, Download, Coins } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import type { ValuationResult } from '../hooks/useInventory';
+import { valuationToCsv } from '../lib/report';
+import { endOfDay, formatDateTime, fromDateKey, toDateKey } from '../lib/date';
+import { downloadFile } from '../lib/share';
+
+interface ValuationReportProps {
+  // Without a date, values the stock as it is now
+  loadValuation: (at?: Date) => Promise<ValuationResult>;
+  onClose: () => void;
+}
+
+export const ValuationReport: React.FC<ValuationReportProps> = ({ loadValuation, onClose }) => {
+  const [dateKey, setDateKey] = useState(() => toDateKey());
+  const [result, setResult] = useState<ValuationResult | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setResult(null);
+    setError('');
+    loadValuation(dateKey === toDateKey() ? undefined : endOfDay(fromDateKey(dateKey)))
+      .then(next => {
+        if (!cancelled) setResult(next);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : '加载失败');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [dateKey, loadValuation]);
+
+  const valuation = result?.valuation;
+
+  const handleExport = () => {
+    if (!valuation) return;
+    downloadFile(valuationToCsv(valuation), `valuation_${dateKey}.csv`, 'text/csv;charset=utf-8');
+    toast.success('CSV 已导出');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 p-0 sm:p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md max-h-[85vh] flex flex-col rounded-t-3xl sm:rounded-3xl p-6 shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold">库存估值</h2>
+            <p className="text-xs text-zinc-500">库存数量 × 平均进价，按分类汇总</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400"><X /></button>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          <input
+            type="date"
+            value={dateKey}
+            max={toDateKey()}
+            onChange={e => e.target.value && setDateKey(e.target.value)}
+            className="flex-1 p-2 rounded-xl border border-zinc-200 text-sm"
+          />
+          <button
+            onClick={handleExport}
+            disabled={!valuation}
+            className="p-2 bg-white border border-zinc-200 text-zinc-600 rounded-xl disabled:opacity-40"
+            title="导出 CSV"
+          >
+            <Download size={20} />
+          </button>
+        </div>
+
+        {result?.offline && (
+          <p className="mb-3 p-3 rounded-xl bg-amber-50 text-amber-700 text-xs">无法连接服务器，按本机当前库存估算；查看以往日期需要联网</p>
+        )}
+
+        <div className="flex-1 overflow-y-auto -mx-2 px-2 space-y-4">
+          {error ? (
+            <p className="p-8 text-center text-red-500 text-sm">{error}</p>
+          ) : !valuation ? (
+            <p className="p-8 text-center text-zinc-400 text-sm">加载中...</p>
+          ) : valuation.lines.length === 0 ? (
+            <div className="p-8 text-center text-zinc-400">
+              <Coins size={40} className="mx-auto mb-3 opacity-20" />
+              <p className="text-sm">该日期没有库存</p>
+            </div>
+          ) : (
+            <>
+              <div className="p-4 rounded-2xl bg-emerald-50">
+                <p className="text-xs text-emerald-700">{formatDateTime(valuation.at)} 库存金额</p>
+                <p className="text-3xl font-black text-emerald-700">¥{valuation.totalValue.toFixed(2)}</p>
+                {valuation.uncosted > 0 && (
+                  <p className="mt-1 text-xs text-amber-700">{valuation.uncosted} 个有库存的商品未设置进价，未计入</p>
+                )}
+              </div>
+
+              <div className="divide-y divide-zinc-100">
+                {valuation.byCategory.map(c => (
+                  <div key={c.category} className="py-3 flex justify-between text-sm">
+                    <span className="font-medium">
+                      {c.category}
+                      {c.uncosted > 0 && <span className="ml-2 text-xs text-amber-600">{c.uncosted} 个无进价</span>}
+                    </span>
+                    <span className="font-bold">¥{c.value.toFixed(2)}</span>
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                <h3 className="font-bold text-zinc-500 text-xs uppercase tracking-wider mb-1">金额最高的商品</h3>
+                <div className="divide-y divide-zinc-100">
+                  {valuation.lines.slice(0, 10).map(line => (
+                    <div key={line.productId} className="py-2 flex justify-between text-sm gap-3">
+                      <span className="min-w-0 truncate">{line.name}</span>
+                      <span className="shrink-0 text-zinc-500">
+                        {line.stock} × {line.unitCost === undefined ? '—' : `¥${line.unitCost}`} ·{' '}
+                        <span className="font-bold text-zinc-900">¥{line.value.toFixed(2)}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import type { CartItem, Discount, Product, ProductBarcode, Promotion, RoundingMode } from '../types';
+import { cartLineKey, cartTotals, lineUnits, type OrderAdjustments } from '../lib/sales';
+
+// The sale being rung up, one line per product and pack, priced with the
+// shop's current promotions
+export function useCart(promotions: Promotion[] = []) {
+  const [items, setItems] = useState<CartItem[]>([]);
+  const [adjustments, setAdjustments] = useState<OrderAdjustments>({});
+
+  const add = (product: Product, quantity = 1, pack?: ProductBarcode) => {
+    const key = cartLineKey({ product, pack });
+    setItems(prev => {
+      const existing = prev.find(item => cartLineKey(item) === key);
+      if (existing) {
+        return prev.map(item => item === existing ? { ...item, quantity: item.quantity + quantity } : item);
+      }
+      return [...prev, { product, quantity, ...(pack ? { pack } : {}) }];
+    });
+  };
+
+  const setQuantity = (key: string, quantity: number) => {
+    setItems(prev => prev.map(item => cartLineKey(item) === key ? { ...item, quantity } : item));
+  };
+
+  const setLineDiscount = (key: string, discount?: Discount) => {
+    setItems(prev => prev.map(item => cartLineKey(item) === key ? { ...item, discount } : item));
+  };
+
+  const remove = (key: string) => {
+    setItems(prev => prev.filter(item => cartLineKey(item) !== key));
+  };
+
+  const setOrderDiscount = (discount?: Discount) => {
+    setAdjustments(prev => ({ ...prev, discount }));
+  };
+
+  const setRounding = (rounding?: RoundingMode) => {
+    setAdjustments(prev => ({ ...prev, rounding }));
+  };
+
+  const clear = () => {
+    setItems([]);
+    setAdjustments({});
+  };
+
+  // Units of stock across all of the product's lines
+  const quantityOf = (productId: string) => {
+    return items
+      .filter(item => item.product.id === productId)
+      .reduce((sum, item) => sum + lineUnits(item), 0);
+  };
+
+  return {
+    items,
+    adjustments,
+    totals: cartTotals(items, adjustments, promotions),
+    add,
+    setQuantity,
+    setLineDiscount,
+    remove,
+    setOrderDiscount,
+    setRounding,
+    clear,
+    quantityOf,
+  };
+}
@@ -1,74 +1,487 @@
-import { useState, useEffect } from 'react';
-
-export interface Product {
-  id: string;
-  barcode: string;
-  name: string;
-  price: number;
-  stock: number;
-  category?: string;
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type {
+  AuditEntry,
+  Cashier,
+  CartItem,
+  ManualMovementType,
+  Payment,
+  Product,
+  Promotion,
+  PurchaseOrder,
+  ReceivingItem,
+  Sale,
+  Shift,
+  StockMovement,
+  Supplier,
+  SyncOp,
+} from '../types';
+import { buildSale, type OrderAdjustments } from '../lib/sales';
+import { matchBarcode } from '../lib/barcodes';
+import { buildRefund, type RefundSelection } from '../lib/refunds';
+import { buildReceiving, type ReceivingSource } from '../lib/receiving';
+import { buildStocktake, type StocktakeDraft } from '../lib/stocktake';
+import { getTillCode } from '../lib/shifts';
+import { api, ApiError } from '../lib/api';
+import { buildValuation, currentValuationLines, type InventoryValuation, type ValuationLine } from '../lib/report';
+import type { ImportPlan } from '../lib/productImport';
+import type { Backup } from '../lib/backup';
+import { createOp, enqueue, getPendingOps, loadLocalData, pullChanges, pushOutbox, type LocalData } from '../lib/sync';
+
+// Keys used before data moved to the server; uploaded once, then removed
+const LEGACY_PRODUCTS_KEY = 'inventory_data';
+const LEGACY_SALES_KEY = 'sales_data';
+
+const SYNC_INTERVAL_MS = 30_000;
+
+function readLegacy<T>(key: string): T[] {
+  const saved = localStorage.getItem(key);
+  if (!saved) return [];
+  try {
+    const data = JSON.parse(saved);
+    return Array.isArray(data) ? data : [];
+  } catch (e) {
+    console.error(`Failed to parse legacy ${key}`, e);
+    return [];
+  }
+}
+
+async function migrateLegacyStorage() {
+  const products = readLegacy<Product>(LEGACY_PRODUCTS_KEY);
+  const sales = readLegacy<Sale>(LEGACY_SALES_KEY);
+  if (products.length > 0 || sales.length > 0) {
+    await api.post('/import/legacy', { products, sales });
+  }
+  localStorage.removeItem(LEGACY_PRODUCTS_KEY);
+  localStorage.removeItem(LEGACY_SALES_KEY);
+}
+
+export interface StockHistory {
+  movements: StockMovement[];
+  // Changes made on this device that the server hasn't confirmed yet
+  pending: StockMovement[];
+  // Set when the server couldn't be reached and `movements` is empty for that reason
+  offline: boolean;
+}
+
+export interface ValuationResult {
+  valuation: InventoryValuation;
+  // Worked out from this device's catalogue because the server was out of reach
+  offline: boolean;
+}
+
+export interface RestoreResult {
+  products: number;
+  sales: number;
+  refunds: number;
+  receivings: number;
+  stocktakes: number;
+  promotions: number;
+  shifts: number;
+  auditLog: number;
+  suppliers: number;
+  purchaseOrders: number;
+}
+
+export interface StockAdjustment {
+  productId: string;
+  quantity: number;
+  type: ManualMovementType;
+  note?: string;
+  operator?: string;
+}
+
+// Only the fields that actually changed travel to the server, so concurrent
+// edits of different fields on two devices both survive.
+function diffProduct(before: Product, after: Product) {
+  const changes: Partial<Product> = {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof Product>) {
+    if (key === 'stock' || key === 'version') continue;
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      // A cleared field travels as null, since JSON drops undefined
+      (changes as Record<string, unknown>)[key] = after[key] ?? null;
+    }
+  }
+  return changes;
 }
 
 export function useInventory() {
-  const [products, setProducts] = useState<Product[]>([]);
+  const [data, setData] = useState<LocalData>({
+    products: [],
+    sales: [],
+    refunds: [],
+    receivings: [],
+    stocktakes: [],
+    promotions: [],
+    cashiers: [],
+    shifts: [],
+    auditLog: [],
+    suppliers: [],
+    purchaseOrders: [],
+  });
+  const [loading, setLoading] = useState(true);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<string[]>([]);
+  const syncingRef = useRef(false);
+  const resyncRef = useRef(false);
+
+  const {
+    products,
+    sales,
+    refunds,
+    receivings,
+    stocktakes,
+    promotions,
+    cashiers,
+    shifts,
+    auditLog,
+    suppliers,
+    purchaseOrders,
+  } = data;
+
+  const reload = useCallback(async () => {
+    const local = await loadLocalData();
+    setData(local.data);
+    setPendingCount(local.pending);
+  }, []);
+
+  // Push queued changes, then pull everything changed since the last pull.
+  // Calls made while a sync is running are folded into one follow-up run.
+  const syncNow = useCallback(async () => {
+    if (syncingRef.current) {
+      resyncRef.current = true;
+      return;
+    }
+    syncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      do {
+        resyncRef.current = false;
+        const issues = await pushOutbox();
+        if (issues.length > 0) {
+          setConflicts(prev => [...prev, ...issues.map(i => i.message || '有修改未能同步')]);
+        }
+        await pullChanges();
+        await reload();
+      } while (resyncRef.current);
+      setSyncError(null);
+    } catch (e) {
+      console.error('Sync failed', e);
+      setSyncError(e instanceof Error ? e.message : '同步失败');
+      await reload();
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, [reload]);
+
+  // Show what this device already has, then reconcile with the server
+  useEffect(() => {
+    reload()
+      .catch(e => console.error('Failed to load local data', e))
+      .finally(() => setLoading(false))
+      .then(() => migrateLegacyStorage())
+      .catch(e => console.error('Legacy migration failed', e))
+      .finally(syncNow);
+  }, [reload, syncNow]);
 
-  // Load data on mount
   useEffect(() => {
-    const saved = localStorage.getItem('inventory_data');
-    if (saved) {
-      try {
-        setProducts(JSON.parse(saved));
-      } catch (e) {
-        console.error('Failed to parse inventory data', e);
+    const onOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const onOffline = () => setIsOnline(false);
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') syncNow();
+    };
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
+    document.addEventListener('visibilitychange', onVisible);
+    const timer = setInterval(syncNow, SYNC_INTERVAL_MS);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
+      document.removeEventListener('visibilitychange', onVisible);
+      clearInterval(timer);
+    };
+  }, [syncNow]);
+
+  // Every change is queued for the server and shown at once by replaying the
+  // queue over the local copy, the same way a reload after sync does.
+  const commit = async (...ops: SyncOp[]) => {
+    for (const op of ops) {
+      await enqueue(op);
+    }
+    await reload();
+    syncNow();
+  };
+
+  const addProduct = async (product: Product) => {
+    await commit(createOp('product.save', { productId: product.id, baseVersion: 0, changes: product }));
+  };
+
+  // Stock is left alone here; it only changes through ledger movements
+  const updateProduct = async (updatedProduct: Product) => {
+    const existing = products.find(p => p.id === updatedProduct.id);
+    if (!existing) return;
+
+    const changes = diffProduct(existing, updatedProduct);
+    if (Object.keys(changes).length > 0) {
+      await commit(createOp('product.save', { productId: existing.id, baseVersion: existing.version ?? 0, changes }));
+    }
+  };
+
+  // One edit per product, so renaming survives concurrent edits of other fields
+  const renameCategory = async (from: string, to: string) => {
+    const ops = products
+      .filter(p => p.category?.trim() === from)
+      .map(p => createOp('product.save', { productId: p.id, baseVersion: p.version ?? 0, changes: { category: to } }));
+    if (ops.length > 0) await commit(...ops);
+  };
+
+  // Quantities are deltas against what this device last saw, so they add up
+  // with sales made on other devices in the meantime.
+  const adjustStock = async ({ productId, quantity, type, note, operator }: StockAdjustment) => {
+    if (quantity === 0) return;
+    await commit(createOp('stock.adjust', { productId, quantity, movementType: type, note, operator: operator || undefined }));
+  };
+
+  const getStockHistory = useCallback(async (productId: string): Promise<StockHistory> => {
+    const pending: StockMovement[] = [];
+    for (const op of await getPendingOps()) {
+      // stockAfter is only known once the server has applied the change
+      if (op.type === 'stock.adjust' && op.productId === productId) {
+        pending.push({
+          id: op.id,
+          productId,
+          type: op.movementType,
+          quantity: op.quantity,
+          stockAfter: NaN,
+          note: op.note,
+          operator: op.operator,
+          createdAt: op.createdAt,
+        });
+      } else if (op.type === 'sale.create') {
+        const quantity = op.sale.items
+          .filter(item => item.productId === productId)
+          .reduce((sum, item) => sum + item.quantity, 0);
+        if (quantity > 0) {
+          pending.push({
+            id: op.id,
+            productId,
+            type: 'sale',
+            quantity: -quantity,
+            stockAfter: NaN,
+            reference: op.sale.id,
+            operator: op.sale.operator,
+            createdAt: op.createdAt,
+          });
+        }
+      } else if (op.type === 'refund.create') {
+        for (const item of op.refund.items.filter(item => item.productId === productId)) {
+          const movement = { productId, stockAfter: NaN, reference: op.refund.id, operator: op.refund.operator, createdAt: op.createdAt };
+          pending.push({ ...movement, id: `${op.id}:${item.lineIndex}`, type: 'return', quantity: item.quantity });
+          if (!item.restock) {
+            pending.push({ ...movement, id: `${op.id}:${item.lineIndex}:damage`, type: 'damage', quantity: -item.quantity });
+          }
+        }
       }
     }
+    try {
+      const movements = await api.get<StockMovement[]>(`/products/${productId}/movements`);
+      return { movements, pending, offline: false };
+    } catch (e) {
+      console.error('Failed to load stock history', e);
+      return { movements: [], pending, offline: true };
+    }
   }, []);
 
-  // Save data whenever products change
-  useEffect(() => {
-    localStorage.setItem('inventory_data', JSON.stringify(products));
+  // Past dates need the server's ledger; for now the local catalogue will do
+  // when it can't be reached
+  const getValuation = useCallback(async (at?: Date): Promise<ValuationResult> => {
+    const when = (at ?? new Date()).toISOString();
+    try {
+      const lines = await api.get<ValuationLine[]>(`/stock/valuation?at=${encodeURIComponent(when)}`);
+      return { valuation: buildValuation(lines, when), offline: false };
+    } catch (e) {
+      if (at || !(e instanceof ApiError) || e.status !== 0) throw e;
+      return { valuation: buildValuation(currentValuationLines(products), when), offline: true };
+    }
   }, [products]);
 
-  const addProduct = (product: Product) => {
-    setProducts(prev => [...prev, product]);
+  const reconcileStock = async () => {
+    const fixed = await api.post<{ productId: string; name: string; stock: number; ledger: number }[]>('/stock/reconcile', {});
+    await syncNow();
+    return fixed;
   };
 
-  const updateProduct = (updatedProduct: Product) => {
-    setProducts(prev => prev.map(p => p.id === updatedProduct.id ? updatedProduct : p));
+  const deleteProduct = async (id: string) => {
+    await commit(createOp('product.delete', { productId: id }));
   };
 
-  const deleteProduct = (id: string) => {
-    setProducts(prev => prev.filter(p => p.id !== id));
+  // Also finds products by their pack barcodes
+  const findByBarcode = (barcode: string) => {
+    return matchBarcode(products, barcode);
   };
 
-  const findByBarcode = (barcode: string) => {
-    return products.find(p => p.barcode === barcode);
+  // Works offline: the sale and its stock deduction are queued together and
+  // the server applies them in one transaction when it sees them.
+  const checkout = async (items: CartItem[], payment: Payment, operator?: string, adjustments?: OrderAdjustments, shiftId?: string) => {
+    const sale = buildSale(items, payment, operator, adjustments, promotions, new Date(), getTillCode(sales));
+    if (shiftId) sale.shiftId = shiftId;
+    await commit(createOp('sale.create', { sale }));
+    return sale;
   };
 
-  const importData = (jsonString: string) => {
-    try {
-      const data = JSON.parse(jsonString);
-      if (Array.isArray(data)) {
-        setProducts(data);
-        return true;
+  // Like a sale, a refund and the stock it brings back are queued together
+  const refundSale = async (sale: Sale, selections: RefundSelection[], reason?: string, operator?: string, shiftId?: string) => {
+    const refund = buildRefund(sale, refunds, selections, reason, operator);
+    if (shiftId) refund.shiftId = shiftId;
+    await commit(createOp('refund.create', { refund }));
+    return refund;
+  };
+
+  // All lines go into stock together as one purchase receipt
+  const receiveGoods = async (items: ReceivingItem[], supplier: string, operator?: string, source?: ReceivingSource) => {
+    const receiving = buildReceiving(items, supplier, operator, source);
+    await commit(createOp('receiving.create', { receiving }));
+    return receiving;
+  };
+
+  // Corrections are computed against the stock each product had when counted
+  const completeStocktake = async (draft: StocktakeDraft, operator?: string) => {
+    const stocktake = buildStocktake(draft, products, operator);
+    await commit(createOp('stocktake.create', { stocktake }));
+    return stocktake;
+  };
+
+  const savePromotion = async (promotion: Promotion) => {
+    await commit(createOp('promotion.save', { promotion }));
+  };
+
+  const deletePromotion = async (id: string) => {
+    await commit(createOp('promotion.delete', { promotionId: id }));
+  };
+
+  const saveCashier = async (cashier: Cashier, approval?: string) => {
+    await commit(createOp('cashier.save', { cashier, approval }));
+  };
+
+  const saveShift = async (shift: Shift) => {
+    await commit(createOp('shift.save', { shift }));
+  };
+
+  const recordAudit = async (entry: AuditEntry) => {
+    await commit(createOp('audit.create', { entry }));
+  };
+
+  const saveSupplier = async (supplier: Supplier) => {
+    await commit(createOp('supplier.save', { supplier }));
+  };
+
+  const deleteSupplier = async (id: string) => {
+    await commit(createOp('supplier.delete', { supplierId: id }));
+  };
+
+  const savePurchaseOrder = async (purchaseOrder: PurchaseOrder) => {
+    await commit(createOp('purchaseOrder.save', { purchaseOrder }));
+  };
+
+  // A checked import plan goes through the queue like any other edit, so it
+  // works offline and stock differences land in the ledger
+  const applyImport = async (plan: ImportPlan, operator?: string) => {
+    const ops: SyncOp[] = [];
+    for (const row of plan.rows) {
+      if (row.action === 'add') {
+        ops.push(createOp('product.save', { productId: row.product.id, baseVersion: 0, changes: row.product }));
+      } else if (row.action === 'update' && row.existing) {
+        if (Object.keys(row.changes).length > 0) {
+          ops.push(createOp('product.save', { productId: row.existing.id, baseVersion: row.existing.version ?? 0, changes: row.changes }));
+        }
+        if (row.stockDelta !== 0) {
+          ops.push(createOp('stock.adjust', {
+            productId: row.existing.id,
+            quantity: row.stockDelta,
+            movementType: 'adjustment',
+            note: '表格导入',
+            operator: operator || undefined,
+          }));
+        }
       }
-    } catch (e) {
-      console.error('Import failed', e);
     }
-    return false;
+    for (const product of plan.removed) {
+      ops.push(createOp('product.delete', { productId: product.id }));
+    }
+    if (ops.length > 0) await commit(...ops);
   };
 
-  const exportData = () => {
-    return JSON.stringify(products, null, 2);
+  // Restoring replaces the catalogue wholesale, which only the server can do
+  // safely, so it needs a connection
+  const restoreBackup = async (backup: Backup) => {
+    const { products, sales, refunds, receivings, stocktakes, promotions, cashiers, shifts, auditLog, suppliers, purchaseOrders } = backup;
+    const result = await api.post<RestoreResult>('/restore', {
+      products,
+      sales,
+      refunds,
+      receivings,
+      stocktakes,
+      promotions,
+      cashiers,
+      shifts,
+      auditLog,
+      suppliers,
+      purchaseOrders,
+    });
+    await syncNow();
+    return result;
   };
 
+  const dismissConflicts = useCallback(() => setConflicts([]), []);
+
   return {
     products,
+    sales,
+    refunds,
+    receivings,
+    stocktakes,
+    promotions,
+    cashiers,
+    shifts,
+    auditLog,
+    suppliers,
+    purchaseOrders,
+    loading,
+    isOnline,
+    isSyncing,
+    pendingCount,
+    syncError,
+    conflicts,
+    dismissConflicts,
+    syncNow,
     addProduct,
     updateProduct,
+    renameCategory,
     deleteProduct,
+    adjustStock,
+    getStockHistory,
+    getValuation,
+    reconcileStock,
     findByBarcode,
-    importData,
-    exportData
+    checkout,
+    refundSale,
+    receiveGoods,
+    completeStocktake,
+    savePromotion,
+    deletePromotion,
+    saveCashier,
+    saveShift,
+    recordAudit,
+    saveSupplier,
+    deleteSupplier,
+    savePurchaseOrder,
+    applyImport,
+    restoreBackup
   };
 }
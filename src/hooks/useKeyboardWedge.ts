@@ -0,0 +1,36 @@
+import { useEffect, useRef } from 'react';
+import { createWedgeDetector, isEditableTarget, type WedgeOptions } from '../lib/keyboardWedge';
+
+// Listens on the whole page for keyboard-wedge scans. Keystrokes into form
+// fields are left alone, so a scan into the barcode field of a form fills
+// that field as before.
+export function useKeyboardWedge(onScan: (code: string) => void, options: WedgeOptions, enabled: boolean) {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+  const { maxKeyInterval, minLength } = options;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const detector = createWedgeDetector({ maxKeyInterval, minLength });
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target) || e.ctrlKey || e.metaKey || e.altKey) {
+        detector.reset();
+        return;
+      }
+      if (e.key === 'Enter') {
+        const code = detector.enter(e.timeStamp);
+        if (!code) return;
+        // Otherwise Enter would also press whatever button has focus
+        e.preventDefault();
+        e.stopPropagation();
+        onScanRef.current(code);
+      } else if (e.key.length === 1) {
+        detector.key(e.key, e.timeStamp);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [enabled, maxKeyInterval, minLength]);
+}
@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Cashier } from '../types';
+import { activeCashiers, hasPermission, type Permission } from '../lib/cashiers';
+
+const SESSION_KEY = 'current_cashier';
+
+// Who is signed in on this phone. Kept per device like the settings, so
+// two tills can be staffed by different people.
+export function useSession(cashiers: Cashier[]) {
+  const [cashierId, setCashierId] = useState(() => localStorage.getItem(SESSION_KEY) ?? '');
+
+  useEffect(() => {
+    if (cashierId) localStorage.setItem(SESSION_KEY, cashierId);
+    else localStorage.removeItem(SESSION_KEY);
+  }, [cashierId]);
+
+  // A disabled or deleted account drops out of the session on the next sync
+  const cashier = activeCashiers(cashiers).find(c => c.id === cashierId);
+  const accountsEnabled = activeCashiers(cashiers).length > 0;
+
+  const signIn = useCallback((next: Cashier) => setCashierId(next.id), []);
+  const signOut = useCallback(() => setCashierId(''), []);
+  const can = (permission: Permission) => hasPermission(cashiers, cashier, permission);
+
+  return { cashier, accountsEnabled, signIn, signOut, can };
+}
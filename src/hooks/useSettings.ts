@@ -0,0 +1,70 @@
+import { useState, useEffect } from 'react';
+import { DEFAULT_SCALE_FORMATS, type ScaleBarcodeFormat } from '../lib/scaleBarcode';
+import { DEFAULT_RECEIPT_SETTINGS, type ReceiptSettings } from '../lib/receipt';
+import { DEFAULT_SCANNER_SETTINGS, type ScannerSettings } from '../lib/scanning';
+import { DEFAULT_LABEL_SETTINGS, type LabelSettings } from '../lib/labels';
+
+// What checkout does when a scan would sell more than is in stock
+export type OversellPolicy = 'warn' | 'block';
+
+export const OVERSELL_POLICY_LABELS: Record<OversellPolicy, string> = {
+  warn: '提醒后继续',
+  block: '禁止售出',
+};
+
+// Per-device preferences; they stay on this phone and are not synced
+export interface Settings {
+  operatorName: string;
+  oversellPolicy: OversellPolicy;
+  // Tried in order on codes that aren't a product barcode
+  scaleFormats: ScaleBarcodeFormat[];
+  receipt: ReceiptSettings;
+  scanner: ScannerSettings;
+  labels: LabelSettings;
+}
+
+const DEFAULT_SETTINGS: Settings = {
+  operatorName: '',
+  oversellPolicy: 'warn',
+  scaleFormats: DEFAULT_SCALE_FORMATS,
+  receipt: DEFAULT_RECEIPT_SETTINGS,
+  scanner: DEFAULT_SCANNER_SETTINGS,
+  labels: DEFAULT_LABEL_SETTINGS,
+};
+
+const SETTINGS_KEY = 'app_settings';
+
+export function useSettings() {
+  const [settings, setSettings] = useState<Settings>(() => {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (saved) {
+      try {
+        const parsed = JSON.parse(saved);
+        return {
+          ...DEFAULT_SETTINGS,
+          ...parsed,
+          receipt: { ...DEFAULT_RECEIPT_SETTINGS, ...parsed.receipt },
+          scanner: {
+            ...DEFAULT_SCANNER_SETTINGS,
+            ...parsed.scanner,
+            wedge: { ...DEFAULT_SCANNER_SETTINGS.wedge, ...parsed.scanner?.wedge },
+          },
+          labels: { ...DEFAULT_LABEL_SETTINGS, ...parsed.labels },
+        };
+      } catch (e) {
+        console.error('Failed to parse settings', e);
+      }
+    }
+    return DEFAULT_SETTINGS;
+  });
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  const updateSettings = (changes: Partial<Settings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  return { settings, updateSettings };
+}
@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Backup } from '../lib/backup';
+import {
+  buildSnapshot,
+  deleteSnapshot,
+  isAutoSnapshotDue,
+  listSnapshots,
+  saveSnapshot,
+  type Snapshot,
+  type SnapshotReason,
+} from '../lib/snapshots';
+import { getStorageStatus, requestPersistentStorage, type StorageStatus } from '../lib/pwa';
+
+// How often to check whether an automatic snapshot is due
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// Rolling snapshots of this phone's data. `currentBackup` is read when a
+// snapshot is taken; `ready` holds the first one back until the data is loaded.
+export function useSnapshots(currentBackup: () => Backup, ready: boolean) {
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [storage, setStorage] = useState<StorageStatus>({});
+  const backupRef = useRef(currentBackup);
+  backupRef.current = currentBackup;
+
+  const refresh = useCallback(async () => {
+    const [list, status] = await Promise.all([listSnapshots(), getStorageStatus()]);
+    setSnapshots(list);
+    setStorage(status);
+    return list;
+  }, []);
+
+  // Resolves false when nothing had changed since the latest snapshot
+  const takeSnapshot = useCallback(async (reason: SnapshotReason) => {
+    const saved = await saveSnapshot(buildSnapshot(backupRef.current(), reason));
+    await refresh();
+    return saved;
+  }, [refresh]);
+
+  const removeSnapshot = useCallback(async (id: string) => {
+    await deleteSnapshot(id);
+    await refresh();
+  }, [refresh]);
+
+  const requestPersist = useCallback(async () => {
+    const persisted = await requestPersistentStorage();
+    await refresh();
+    return persisted;
+  }, [refresh]);
+
+  // Ask once at startup; browsers that grant it silently never bother the user
+  useEffect(() => {
+    requestPersistentStorage()
+      .then(refresh)
+      .catch(err => console.error('Failed to load snapshots', err));
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!ready) return;
+    const check = async () => {
+      try {
+        if (isAutoSnapshotDue(await listSnapshots())) await takeSnapshot('auto');
+      } catch (err) {
+        console.error('Automatic snapshot failed', err);
+      }
+    };
+    check();
+    const timer = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [ready, takeSnapshot]);
+
+  return { snapshots, storage, takeSnapshot, removeSnapshot, requestPersist };
+}
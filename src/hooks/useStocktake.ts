@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { StocktakeDraft } from '../lib/stocktake';
+
+// A count can take an afternoon, so the draft survives reloads on this device
+const DRAFT_KEY = 'stocktake_draft';
+
+export function useStocktake() {
+  const [draft, setDraft] = useState<StocktakeDraft | null>(() => {
+    const saved = localStorage.getItem(DRAFT_KEY);
+    if (saved) {
+      try {
+        return JSON.parse(saved);
+      } catch (e) {
+        console.error('Failed to parse stocktake draft', e);
+      }
+    }
+    return null;
+  });
+
+  useEffect(() => {
+    if (draft) {
+      localStorage.setItem(DRAFT_KEY, JSON.stringify(draft));
+    } else {
+      localStorage.removeItem(DRAFT_KEY);
+    }
+  }, [draft]);
+
+  const start = useCallback(() => {
+    setDraft({ id: crypto.randomUUID(), startedAt: new Date().toISOString(), counts: {}, expected: {} });
+  }, []);
+
+  // Scans add to what was already counted, e.g. the same item on two shelves.
+  // `stock` is the book stock right now, kept from the first count on.
+  const addCount = useCallback((productId: string, stock: number, quantity = 1) => {
+    setDraft(prev => prev && {
+      ...prev,
+      counts: { ...prev.counts, [productId]: (prev.counts[productId] ?? 0) + quantity },
+      expected: { [productId]: stock, ...prev.expected },
+    });
+  }, []);
+
+  const setCount = useCallback((productId: string, stock: number, quantity: number | undefined) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const counts = { ...prev.counts };
+      const expected = { [productId]: stock, ...prev.expected };
+      if (quantity === undefined) {
+        delete counts[productId];
+        delete expected[productId];
+      } else {
+        counts[productId] = quantity;
+      }
+      return { ...prev, counts, expected };
+    });
+  }, []);
+
+  const discard = useCallback(() => setDraft(null), []);
+
+  return { draft, start, addCount, setCount, discard };
+}
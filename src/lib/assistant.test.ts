@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { Product, Sale } from '../types';
+import { askAssistant, AssistantError, createStubAssistantModel, type AssistantData, type AssistantModel } from './assistant';
+
+const NOW = new Date(2026, 9, 19, 18, 0);
+
+const cola: Product = { id: 'cola', barcode: '6901234567892', name: '可口可乐', spec: '500ml', price: 3.5, stock: 2, category: '饮料' };
+const chips: Product = { id: 'chips', barcode: '6901234567893', name: '薯片', price: 6, stock: 40, category: '零食' };
+
+function sale(id: string, product: Product, quantity: number, date: Date): Sale {
+  const subtotal = product.price * quantity;
+  return {
+    id,
+    orderNo: id,
+    createdAt: date.toISOString(),
+    items: [{ productId: product.id, barcode: product.barcode, name: product.name, category: product.category, unitPrice: product.price, quantity, subtotal }],
+    itemCount: quantity,
+    totalAmount: subtotal,
+    paymentMethod: 'cash',
+  } as Sale;
+}
+
+const DATA: AssistantData = {
+  products: [cola, chips],
+  sales: [
+    sale('s1', cola, 4, new Date(2026, 9, 19, 9, 0)),
+    sale('s2', chips, 1, new Date(2026, 9, 19, 10, 0)),
+    sale('s3', chips, 3, new Date(2026, 9, 18, 10, 0)),
+  ],
+  refunds: [],
+};
+
+const model = createStubAssistantModel(() => NOW);
+
+describe('askAssistant with the stub model', () => {
+  it("answers today's takings from the sales summary query", async () => {
+    const answer = await askAssistant(model, '今天营业额多少？', DATA, [], NOW);
+    expect(answer.results.map(r => r.name)).toEqual(['sales_summary']);
+    expect(answer.results[0].result).toMatchObject({ from: '2026-10-19', to: '2026-10-19', revenue: 20, orderCount: 2 });
+    expect(answer.text).toContain('¥20.00');
+  });
+
+  it("reads yesterday's best sellers", async () => {
+    const answer = await askAssistant(model, '昨天卖得最好的是什么', DATA, [], NOW);
+    expect(answer.results[0]).toMatchObject({ name: 'top_products', args: { from: '2026-10-18', to: '2026-10-18', order: 'best' } });
+    expect(answer.text).toContain('1. 薯片 3 件');
+  });
+
+  it('looks up a product by name', async () => {
+    const answer = await askAssistant(model, '可口可乐还有多少', DATA, [], NOW);
+    expect(answer.results[0]).toMatchObject({ name: 'find_products', args: { query: '可口可乐' } });
+    expect(answer.text).toContain('库存 2');
+  });
+
+  it('keeps the conversation for the next question', async () => {
+    const first = await askAssistant(model, '今天营业额多少？', DATA, [], NOW);
+    const second = await askAssistant(model, '哪些快卖完了', DATA, first.messages, NOW);
+    expect(second.messages.slice(0, first.messages.length)).toEqual(first.messages);
+    expect(second.results.map(r => r.name)).toEqual(['stock_running_out']);
+  });
+
+  it('returns query errors to the model instead of throwing', async () => {
+    const scripted: AssistantModel = {
+      async reply(messages) {
+        const last = messages[messages.length - 1];
+        return last.role === 'tool' ? { text: 'ok' } : { calls: [{ name: 'drop_tables', args: {} }] };
+      },
+    };
+    const answer = await askAssistant(scripted, '删除所有商品', DATA, [], NOW);
+    expect(answer.results[0].result).toEqual({ error: '没有这个查询: drop_tables' });
+  });
+
+  it('gives up on a model that never stops querying', async () => {
+    const looping: AssistantModel = { reply: async () => ({ calls: [{ name: 'sales_summary', args: {} }] }) };
+    await expect(askAssistant(looping, '今天营业额多少？', DATA, [], NOW)).rejects.toThrow(AssistantError);
+  });
+});
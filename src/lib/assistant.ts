@@ -0,0 +1,426 @@
+import type { Product, Refund, Sale } from '../types';
+import { buildSalesReport, UNCATEGORIZED, type DateRange } from './report';
+import { addDays, endOfDay, fromDateKey, startOfDay, toDateKey } from './date';
+import { matchesQuery, minStockOf, productCategory, recentSalesByProduct } from './productSearch';
+import type { Content } from '@google/genai';
+
+// The 助手 answers questions about the shop. The model never sees the data
+// itself: it picks from a fixed set of read-only queries below, and the
+// panel shows each query it ran and what came back.
+
+export interface AssistantData {
+  products: Product[];
+  sales: Sale[];
+  refunds: Refund[];
+}
+
+// ---- Queries ----
+
+export function salesSummary(data: AssistantData, range: DateRange) {
+  const report = buildSalesReport(data.sales, data.products, range, data.refunds);
+  return {
+    from: toDateKey(range.from),
+    to: toDateKey(range.to),
+    revenue: report.revenue,
+    orderCount: report.orderCount,
+    averageTicket: report.averageTicket,
+    units: report.units,
+    refundCount: report.refundCount,
+    refundAmount: report.refundAmount,
+  };
+}
+
+export function topProducts(data: AssistantData, range: DateRange, order: 'best' | 'worst', limit: number, category?: string) {
+  const report = buildSalesReport(data.sales, data.products, range, data.refunds);
+  const entries = report.byProduct.filter(entry => !category || entry.category === category);
+  const sorted = order === 'best'
+    ? entries.filter(entry => entry.units > 0)
+    : [...entries].sort((a, b) => a.units - b.units || a.revenue - b.revenue);
+  return {
+    from: toDateKey(range.from),
+    to: toDateKey(range.to),
+    products: sorted.slice(0, limit).map(entry => ({
+      name: entry.name,
+      category: entry.category,
+      units: entry.units,
+      revenue: entry.revenue,
+    })),
+  };
+}
+
+export function categorySales(data: AssistantData, range: DateRange) {
+  const report = buildSalesReport(data.sales, data.products, range, data.refunds);
+  return {
+    from: toDateKey(range.from),
+    to: toDateKey(range.to),
+    categories: report.byCategory.filter(c => c.units !== 0),
+  };
+}
+
+// At or below the minimum, or selling fast enough to run out within `days`
+export function stockRunningOut(data: AssistantData, days: number, now = new Date()) {
+  const window = 14;
+  const recent = recentSalesByProduct(data.sales, window, now);
+  return {
+    days,
+    products: data.products
+      .map(product => {
+        const dailySales = (recent.get(product.id) ?? 0) / window;
+        const daysLeft = dailySales > 0 ? Math.max(0, product.stock) / dailySales : undefined;
+        return { product, dailySales, daysLeft };
+      })
+      .filter(({ product, daysLeft }) => product.stock <= minStockOf(product) || (daysLeft !== undefined && daysLeft <= days))
+      .sort((a, b) => (a.daysLeft ?? Infinity) - (b.daysLeft ?? Infinity) || a.product.stock - b.product.stock)
+      .slice(0, 20)
+      .map(({ product, dailySales, daysLeft }) => ({
+        name: product.name,
+        stock: product.stock,
+        minStock: minStockOf(product),
+        dailySales: Math.round(dailySales * 10) / 10,
+        daysLeft: daysLeft === undefined ? null : Math.floor(daysLeft),
+      })),
+  };
+}
+
+export function findProducts(data: AssistantData, query: string, now = new Date()) {
+  const recent = recentSalesByProduct(data.sales, 30, now);
+  return {
+    query,
+    products: data.products.filter(product => matchesQuery(product, query)).slice(0, 10).map(product => ({
+      name: product.name,
+      spec: product.spec ?? null,
+      barcode: product.barcode,
+      category: productCategory(product),
+      price: product.price,
+      stock: product.stock,
+      soldLast30Days: recent.get(product.id) ?? 0,
+    })),
+  };
+}
+
+// ---- Tools the model may call ----
+
+export interface ToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ToolResult extends ToolCall {
+  result: unknown;
+}
+
+interface ToolDefinition {
+  name: string;
+  // Shown to the owner next to the numbers the answer used
+  label: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  run: (args: Record<string, unknown>, data: AssistantData, now: Date) => unknown;
+}
+
+// Bad arguments go back to the model as an error it can correct
+class ToolArgumentError extends Error {}
+
+const DATE_PARAMS = {
+  from: { type: 'string', description: '开始日期 YYYY-MM-DD，含当天' },
+  to: { type: 'string', description: '结束日期 YYYY-MM-DD，含当天' },
+};
+
+function readDate(value: unknown, fallback: Date) {
+  if (value === undefined || value === null || value === '') return fallback;
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new ToolArgumentError(`日期格式应为 YYYY-MM-DD: ${String(value)}`);
+  }
+  return fromDateKey(value);
+}
+
+function readRange(args: Record<string, unknown>, now: Date): DateRange {
+  const from = startOfDay(readDate(args.from, now));
+  const to = endOfDay(readDate(args.to, args.from ? from : now));
+  if (from > to) throw new ToolArgumentError('开始日期晚于结束日期');
+  return { from, to };
+}
+
+function readInteger(value: unknown, fallback: number, max: number) {
+  if (value === undefined || value === null) return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1 || number > max) throw new ToolArgumentError(`应为 1 到 ${max} 的整数`);
+  return number;
+}
+
+export const ASSISTANT_TOOLS: ToolDefinition[] = [
+  {
+    name: 'sales_summary',
+    label: '营业概况',
+    description: '某段时间的营业额（已扣除退款）、订单数、客单价、销售件数和退款',
+    parameters: { type: 'object', properties: DATE_PARAMS },
+    run: (args, data, now) => salesSummary(data, readRange(args, now)),
+  },
+  {
+    name: 'top_products',
+    label: '商品排行',
+    description: '某段时间按销量排列的商品，best 为卖得最好，worst 为卖得最差（含没卖出的）',
+    parameters: {
+      type: 'object',
+      properties: {
+        ...DATE_PARAMS,
+        order: { type: 'string', enum: ['best', 'worst'] },
+        limit: { type: 'integer', description: '返回几个，默认 5，最多 20' },
+        category: { type: 'string', description: '只看这个分类' },
+      },
+    },
+    run: (args, data, now) => {
+      if (args.order !== undefined && args.order !== 'best' && args.order !== 'worst') {
+        throw new ToolArgumentError('order 只能是 best 或 worst');
+      }
+      const category = typeof args.category === 'string' && args.category ? args.category : undefined;
+      return topProducts(data, readRange(args, now), args.order === 'worst' ? 'worst' : 'best', readInteger(args.limit, 5, 20), category);
+    },
+  },
+  {
+    name: 'category_sales',
+    label: '分类销售',
+    description: `某段时间各分类的销量和销售额，没有分类的商品归为「${UNCATEGORIZED}」`,
+    parameters: { type: 'object', properties: DATE_PARAMS },
+    run: (args, data, now) => categorySales(data, readRange(args, now)),
+  },
+  {
+    name: 'stock_running_out',
+    label: '库存预警',
+    description: '库存不足最低库存，或按近两周销量计算几天内会卖完的商品；daysLeft 为预计还能卖几天',
+    parameters: {
+      type: 'object',
+      properties: { days: { type: 'integer', description: '几天内会卖完，默认 7' } },
+    },
+    run: (args, data, now) => stockRunningOut(data, readInteger(args.days, 7, 90), now),
+  },
+  {
+    name: 'find_products',
+    label: '商品查询',
+    description: '按名称、规格、条码或拼音首字母查找商品，返回售价、库存和近 30 天销量',
+    parameters: {
+      type: 'object',
+      properties: { query: { type: 'string' } },
+      required: ['query'],
+    },
+    run: (args, data, now) => {
+      if (typeof args.query !== 'string' || !args.query.trim()) throw new ToolArgumentError('缺少查询内容');
+      return findProducts(data, args.query.trim(), now);
+    },
+  },
+];
+
+export function toolLabel(name: string) {
+  return ASSISTANT_TOOLS.find(tool => tool.name === name)?.label ?? name;
+}
+
+export function runTool(call: ToolCall, data: AssistantData, now = new Date()): ToolResult {
+  const tool = ASSISTANT_TOOLS.find(t => t.name === call.name);
+  try {
+    if (!tool) throw new ToolArgumentError(`没有这个查询: ${call.name}`);
+    return { ...call, result: tool.run(call.args, data, now) };
+  } catch (err) {
+    if (!(err instanceof ToolArgumentError)) throw err;
+    return { ...call, result: { error: err.message } };
+  }
+}
+
+// ---- Conversation ----
+
+export type AssistantMessage =
+  | { role: 'user'; text: string }
+  | { role: 'model'; text: string }
+  // `raw` is the provider's own copy of the turn, sent back as is
+  | { role: 'model'; calls: ToolCall[]; raw?: unknown }
+  | { role: 'tool'; results: ToolResult[] };
+
+export type ModelReply = { text: string } | { calls: ToolCall[]; raw?: unknown };
+
+export interface AssistantModel {
+  reply(messages: AssistantMessage[], context: { today: string }): Promise<ModelReply>;
+}
+
+export class AssistantError extends Error {}
+
+export interface AssistantAnswer {
+  text: string;
+  // Every query run for this answer, in order
+  results: ToolResult[];
+  messages: AssistantMessage[];
+}
+
+const MAX_ROUNDS = 5;
+
+export async function askAssistant(
+  model: AssistantModel,
+  question: string,
+  data: AssistantData,
+  history: AssistantMessage[] = [],
+  now = new Date()
+): Promise<AssistantAnswer> {
+  const messages: AssistantMessage[] = [...history, { role: 'user', text: question }];
+  const results: ToolResult[] = [];
+  const context = { today: toDateKey(now) };
+  for (let round = 0; round < MAX_ROUNDS; round++) {
+    const reply = await model.reply(messages, context);
+    if ('text' in reply) {
+      messages.push({ role: 'model', text: reply.text });
+      return { text: reply.text, results, messages };
+    }
+    const roundResults = reply.calls.map(call => runTool(call, data, now));
+    results.push(...roundResults);
+    messages.push({ role: 'model', calls: reply.calls, raw: reply.raw }, { role: 'tool', results: roundResults });
+  }
+  throw new AssistantError('问题太复杂了，请换个问法');
+}
+
+// ---- Models ----
+
+const WEEKDAYS = '日一二三四五六';
+
+function systemInstruction(today: string) {
+  return [
+    `你是一家便利店收银系统里的助手。今天是 ${today}（星期${WEEKDAYS[fromDateKey(today).getDay()]}），一周从星期一开始。`,
+    '店主会问销售和库存的问题。所有数字都必须来自提供的查询函数，不要编造；查不到就直说。',
+    '你只能查询，不能修改任何商品、库存或订单。',
+    '用简体中文简短回答，金额用 ¥，列出具体商品和数字。',
+  ].join('\n');
+}
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+export function createGeminiAssistantModel(apiKey: string, model = GEMINI_MODEL): AssistantModel {
+  return {
+    async reply(messages, { today }) {
+      if (!navigator.onLine) throw new AssistantError('网络不可用，助手暂时无法回答');
+      try {
+        const { GoogleGenAI } = await import('@google/genai');
+        const ai = new GoogleGenAI({ apiKey });
+        const response = await ai.models.generateContent({
+          model,
+          contents: messages.map(message => {
+            if (message.role === 'user') return { role: 'user', parts: [{ text: message.text }] };
+            if (message.role === 'tool') {
+              return {
+                role: 'user',
+                parts: message.results.map(r => ({ functionResponse: { name: r.name, response: { result: r.result } } })),
+              };
+            }
+            if ('text' in message) return { role: 'model', parts: [{ text: message.text }] };
+            // Keeps the thought signatures Gemini expects back with its calls
+            return (message.raw as Content | undefined) ?? { role: 'model', parts: message.calls.map(call => ({ functionCall: call })) };
+          }),
+          config: {
+            systemInstruction: systemInstruction(today),
+            tools: [{
+              functionDeclarations: ASSISTANT_TOOLS.map(tool => ({
+                name: tool.name,
+                description: tool.description,
+                parametersJsonSchema: tool.parameters,
+              })),
+            }],
+          },
+        });
+        const calls = response.functionCalls;
+        if (calls && calls.length > 0) {
+          return {
+            calls: calls.map(call => ({ name: call.name ?? '', args: call.args ?? {} })),
+            raw: response.candidates?.[0]?.content,
+          };
+        }
+        return { text: response.text?.trim() || '没有找到答案，请换个问法' };
+      } catch {
+        throw new AssistantError('助手连接失败，请检查网络后重试');
+      }
+    },
+  };
+}
+
+// Monday-based weeks, as the owner counts them
+function weekStart(date: Date) {
+  return startOfDay(addDays(date, -((date.getDay() + 6) % 7)));
+}
+
+// The period a question is about, for the stub model
+export function rangeFromQuestion(question: string, now = new Date()): { from: string; to: string } {
+  const range = (from: Date, to: Date) => ({ from: toDateKey(from), to: toDateKey(to) });
+  if (question.includes('昨天')) return range(addDays(now, -1), addDays(now, -1));
+  if (question.includes('上周')) return range(addDays(weekStart(now), -7), addDays(weekStart(now), -1));
+  if (/本周|这周/.test(question)) return range(weekStart(now), now);
+  if (question.includes('上个月') || question.includes('上月')) {
+    return range(new Date(now.getFullYear(), now.getMonth() - 1, 1), new Date(now.getFullYear(), now.getMonth(), 0));
+  }
+  if (/本月|这个月/.test(question)) return range(new Date(now.getFullYear(), now.getMonth(), 1), now);
+  if (/最近|近\s*7|一周|7\s*天/.test(question)) return range(addDays(now, -6), now);
+  return range(now, now);
+}
+
+function period(value: { from: string; to: string }) {
+  return value.from === value.to ? value.from : `${value.from} 至 ${value.to}`;
+}
+
+// Plain text of what a query returned, for the owner to check the answer against
+export function describeToolResult(result: ToolResult): string {
+  if (typeof result.result === 'object' && result.result !== null && 'error' in result.result) {
+    return `查询出错：${String(result.result.error)}`;
+  }
+  switch (result.name) {
+    case 'sales_summary': {
+      const value = result.result as ReturnType<typeof salesSummary>;
+      return `${period(value)} 营业额 ¥${value.revenue.toFixed(2)}，${value.orderCount} 单，客单价 ¥${value.averageTicket.toFixed(2)}` +
+        (value.refundCount ? `，退款 ${value.refundCount} 笔 ¥${value.refundAmount.toFixed(2)}` : '');
+    }
+    case 'top_products': {
+      const value = result.result as ReturnType<typeof topProducts>;
+      if (value.products.length === 0) return `${period(value)} 没有销售记录`;
+      return `${period(value)}：\n` + value.products.map((p, i) => `${i + 1}. ${p.name} ${p.units} 件 ¥${p.revenue.toFixed(2)}`).join('\n');
+    }
+    case 'category_sales': {
+      const value = result.result as ReturnType<typeof categorySales>;
+      if (value.categories.length === 0) return `${period(value)} 没有销售记录`;
+      return `${period(value)}：\n` + value.categories.map(c => `${c.category} ${c.units} 件 ¥${c.revenue.toFixed(2)}`).join('\n');
+    }
+    case 'stock_running_out': {
+      const value = result.result as ReturnType<typeof stockRunningOut>;
+      if (value.products.length === 0) return '暂时没有快卖完的商品';
+      return value.products.map(p => `${p.name}：剩 ${p.stock}${p.daysLeft === null ? '' : `，约 ${p.daysLeft} 天卖完`}`).join('\n');
+    }
+    case 'find_products': {
+      const value = result.result as ReturnType<typeof findProducts>;
+      if (value.products.length === 0) return `没有找到「${value.query}」`;
+      return value.products.map(p => `${p.name}${p.spec ? ` ${p.spec}` : ''}：¥${p.price}，库存 ${p.stock}，近 30 天卖出 ${p.soldLast30Days}`).join('\n');
+    }
+    default:
+      return JSON.stringify(result.result);
+  }
+}
+
+// Answers from keywords with the same queries, no network needed. Used in
+// development (ASSISTANT_MODEL=mock) and wherever a scripted model is wanted.
+export function createStubAssistantModel(now = () => new Date()): AssistantModel {
+  return {
+    async reply(messages) {
+      const last = messages[messages.length - 1];
+      if (last.role === 'tool') return { text: last.results.map(describeToolResult).join('\n\n') };
+      if (last.role !== 'user') return { text: '没有找到答案，请换个问法' };
+      const question = last.text;
+      const range = rangeFromQuestion(question, now());
+      if (/卖完|缺货|库存不足|补货|快没/.test(question)) return { calls: [{ name: 'stock_running_out', args: {} }] };
+      if (/最差|滞销|卖不动|不好卖/.test(question)) return { calls: [{ name: 'top_products', args: { ...range, order: 'worst' } }] };
+      if (/最好|畅销|卖得|热卖|排行/.test(question)) return { calls: [{ name: 'top_products', args: { ...range, order: 'best' } }] };
+      if (/分类|类别/.test(question)) return { calls: [{ name: 'category_sales', args: range }] };
+      if (/营业额|销售额|卖了多少|收入|流水|多少单/.test(question)) return { calls: [{ name: 'sales_summary', args: range }] };
+      const product = question.match(/(.+?)(?:还有多少|还剩|库存|多少钱|价格)/)?.[1]?.trim();
+      if (product) return { calls: [{ name: 'find_products', args: { query: product } }] };
+      return { text: '可以问我营业额、畅销或滞销商品、分类销售、哪些货快卖完了，或者某个商品的库存和价格。' };
+    },
+  };
+}
+
+// Undefined when there is no key, so the panel can say so instead of failing
+export function defaultAssistantModel(): AssistantModel | undefined {
+  if (process.env.ASSISTANT_MODEL === 'mock') return createStubAssistantModel();
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey || apiKey === 'MY_GEMINI_API_KEY') return undefined;
+  return createGeminiAssistantModel(apiKey);
+}
@@ -0,0 +1,23 @@
+import type { AuditAction, AuditEntry } from '../types';
+
+export type AuditFields = Partial<Pick<AuditEntry, 'cashierId' | 'operator' | 'approvedBy' | 'reference'>>;
+
+export function buildAuditEntry(action: AuditAction, detail: string, fields: AuditFields = {}, date = new Date()): AuditEntry {
+  return {
+    id: crypto.randomUUID(),
+    createdAt: date.toISOString(),
+    action,
+    detail,
+    cashierId: fields.cashierId || undefined,
+    operator: fields.operator || undefined,
+    approvedBy: fields.approvedBy || undefined,
+    reference: fields.reference || undefined,
+  };
+}
+
+// Newest first, optionally one kind of action only
+export function filterAuditLog(entries: AuditEntry[], action?: AuditAction) {
+  return entries
+    .filter(entry => !action || entry.action === action)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
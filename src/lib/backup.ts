@@ -0,0 +1,147 @@
+import type {
+  AuditEntry,
+  Cashier,
+  Product,
+  Promotion,
+  PurchaseOrder,
+  Receiving,
+  Refund,
+  Sale,
+  Shift,
+  Stocktake,
+  Supplier,
+} from '../types';
+import type { Settings } from '../hooks/useSettings';
+import type { LocalData } from './sync';
+import { productBarcodes } from './barcodes';
+
+export const BACKUP_FORMAT = 'barcode-shop-backup';
+
+// Bump when the layout changes, and keep reading the older versions
+export const BACKUP_VERSION = 1;
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  products: Product[];
+  sales: Sale[];
+  refunds: Refund[];
+  receivings: Receiving[];
+  stocktakes: Stocktake[];
+  promotions: Promotion[];
+  // Missing from backups made before cashier accounts existed
+  cashiers: Cashier[];
+  shifts: Shift[];
+  auditLog: AuditEntry[];
+  // Missing from backups made before purchasing existed
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  settings?: Partial<Settings>;
+}
+
+export function buildBackup(data: LocalData, settings: Settings, date = new Date()): Backup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: date.toISOString(),
+    products: data.products,
+    sales: data.sales,
+    refunds: data.refunds,
+    receivings: data.receivings,
+    stocktakes: data.stocktakes,
+    promotions: data.promotions,
+    // A PIN this phone set lingers locally until the next sync; it stays out
+    cashiers: data.cashiers.map(({ pinHash: _pinHash, ...cashier }) => cashier),
+    shifts: data.shifts,
+    auditLog: data.auditLog,
+    suppliers: data.suppliers,
+    purchaseOrders: data.purchaseOrders,
+    settings,
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function productError(value: unknown) {
+  if (!isRecord(value)) return '格式错误';
+  if (typeof value.id !== 'string' || !value.id) return '缺少 ID';
+  if (typeof value.barcode !== 'string' || !value.barcode.trim()) return '缺少条码';
+  if (typeof value.name !== 'string' || !value.name.trim()) return '缺少名称';
+  if (typeof value.price !== 'number' || !Number.isFinite(value.price) || value.price < 0) return '价格无效';
+  if (typeof value.stock !== 'number' || !Number.isFinite(value.stock)) return '库存无效';
+  if (value.barcodes !== undefined && (
+    !Array.isArray(value.barcodes) ||
+    value.barcodes.some(b => !isRecord(b) || typeof b.barcode !== 'string' || typeof b.factor !== 'number' || !(b.factor > 0))
+  )) return '包装条码无效';
+  return undefined;
+}
+
+function documents<T>(value: unknown, label: string): T[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(item => !isRecord(item) || typeof item.id !== 'string')) {
+    throw new Error(`备份中的${label}数据格式错误`);
+  }
+  return value as T[];
+}
+
+// Also reads the plain product arrays that older versions exported
+export function parseBackup(text: string): Backup {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('文件不是有效的 JSON');
+  }
+
+  if (Array.isArray(parsed)) {
+    parsed = { format: BACKUP_FORMAT, version: 0, products: parsed };
+  }
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT) {
+    throw new Error('不是本应用的备份文件');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+    throw new Error('备份文件来自更新版本的应用，请先升级');
+  }
+  if (!Array.isArray(parsed.products)) {
+    throw new Error('备份中没有商品数据');
+  }
+
+  const problems = parsed.products
+    .map((product, index) => {
+      const error = productError(product);
+      return error && `第 ${index + 1} 个商品${error}`;
+    })
+    .filter((error): error is string => !!error);
+  if (problems.length > 0) {
+    const more = problems.length > 3 ? ` 等 ${problems.length} 处错误` : '';
+    throw new Error(problems.slice(0, 3).join('；') + more);
+  }
+
+  const barcodes = new Set<string>();
+  for (const product of parsed.products as Product[]) {
+    for (const code of productBarcodes(product)) {
+      if (barcodes.has(code)) throw new Error(`条码 ${code} 重复`);
+      barcodes.add(code);
+    }
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: parsed.version,
+    exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+    products: parsed.products as Product[],
+    sales: documents<Sale>(parsed.sales, '销售'),
+    refunds: documents<Refund>(parsed.refunds, '退货'),
+    receivings: documents<Receiving>(parsed.receivings, '入库'),
+    stocktakes: documents<Stocktake>(parsed.stocktakes, '盘点'),
+    promotions: documents<Promotion>(parsed.promotions, '促销'),
+    cashiers: documents<Cashier>(parsed.cashiers, '收银员'),
+    shifts: documents<Shift>(parsed.shifts, '班次'),
+    auditLog: documents<AuditEntry>(parsed.auditLog, '操作日志'),
+    suppliers: documents<Supplier>(parsed.suppliers, '供应商'),
+    purchaseOrders: documents<PurchaseOrder>(parsed.purchaseOrders, '采购单'),
+    settings: isRecord(parsed.settings) ? parsed.settings as Partial<Settings> : undefined,
+  };
+}
@@ -0,0 +1,59 @@
+import type { Product, ProductBarcode } from '../types';
+
+// What stock is counted in when the product doesn't say
+export const DEFAULT_UNIT = '件';
+
+export interface BarcodeMatch {
+  product: Product;
+  // Missing for the product's own barcode
+  pack?: ProductBarcode;
+}
+
+export function productUnit(product: Pick<Product, 'unit'>) {
+  return product.unit?.trim() || DEFAULT_UNIT;
+}
+
+export function productBarcodes(product: Product) {
+  return [product.barcode, ...(product.barcodes ?? []).map(b => b.barcode)];
+}
+
+// An extra code for the same single item (factor 1, no price of its own)
+// sells like the main barcode
+export function isPack(pack?: ProductBarcode): pack is ProductBarcode {
+  return !!pack && (pack.factor !== 1 || pack.price !== undefined);
+}
+
+// 箱(24瓶)
+export function packLabel(product: Pick<Product, 'unit'>, pack: ProductBarcode) {
+  const unit = pack.unit?.trim() || productUnit(product);
+  return pack.factor === 1 ? unit : `${unit}(${pack.factor}${productUnit(product)})`;
+}
+
+export function matchBarcode(products: Product[], code: string): BarcodeMatch | undefined {
+  for (const product of products) {
+    if (product.barcode === code) return { product };
+    const pack = product.barcodes?.find(b => b.barcode === code);
+    if (pack) return isPack(pack) ? { product, pack } : { product };
+  }
+  return undefined;
+}
+
+// Problems with a product's barcodes: repeats within the product, or codes
+// another product already uses
+export function barcodeConflicts(product: Partial<Product>, products: Product[]) {
+  const conflicts: string[] = [];
+  const codes = [product.barcode, ...(product.barcodes ?? []).map(b => b.barcode)]
+    .map(code => code?.trim())
+    .filter((code): code is string => !!code);
+  const seen = new Set<string>();
+  for (const code of codes) {
+    if (seen.has(code)) {
+      conflicts.push(`条码 ${code} 重复填写`);
+      continue;
+    }
+    seen.add(code);
+    const owner = products.find(p => p.id !== product.id && productBarcodes(p).includes(code));
+    if (owner) conflicts.push(`条码 ${code} 已被「${owner.name}」使用`);
+  }
+  return conflicts;
+}
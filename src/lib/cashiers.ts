@@ -0,0 +1,116 @@
+import type { Cashier, CashierRole } from '../types';
+import { api, ApiError } from './api';
+
+// What a plain cashier needs an owner's PIN for. With no accounts set up the
+// shop works as before, with everything open to whoever holds the phone.
+export type Permission = 'product.edit' | 'product.delete' | 'discount' | 'import' | 'staff';
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'product.edit': '编辑商品和价格',
+  'product.delete': '删除商品',
+  discount: '打折',
+  import: '导入和恢复数据',
+  staff: '管理账号和查看日志',
+};
+
+const ROLE_PERMISSIONS: Record<CashierRole, Permission[]> = {
+  owner: ['product.edit', 'product.delete', 'discount', 'import', 'staff'],
+  cashier: [],
+};
+
+export const PIN_PATTERN = /^\d{4,6}$/;
+
+const KNOWN_PINS_KEY = 'known_pins';
+
+export function activeCashiers(cashiers: Cashier[]) {
+  return cashiers.filter(c => !c.disabled);
+}
+
+export function hasPermission(cashiers: Cashier[], current: Cashier | undefined, permission: Permission) {
+  if (activeCashiers(cashiers).length === 0) return true;
+  return !!current && ROLE_PERMISSIONS[current.role].includes(permission);
+}
+
+// A four-digit PIN can't be kept from someone with the hash, so the hash
+// goes to the server and stays there; the id makes two people with the same
+// PIN look different
+export async function hashPin(cashierId: string, pin: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${cashierId}:${pin}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function knownPins(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(KNOWN_PINS_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+// PINs this phone has seen accepted, so the same people can still sign in
+// here while the server is out of reach
+export function rememberPin(cashierId: string, pinHash?: string) {
+  const { [cashierId]: _previous, ...pins } = knownPins();
+  localStorage.setItem(KNOWN_PINS_KEY, JSON.stringify(pinHash ? { ...pins, [cashierId]: pinHash } : pins));
+}
+
+export interface PinCheck {
+  valid: boolean;
+  // From the server, for changes it checks itself; missing when offline
+  approval?: string;
+  error?: string;
+}
+
+// The server holds the PINs and limits how many tries each account gets
+export async function checkPin(cashier: Cashier, pin: string): Promise<PinCheck> {
+  const pinHash = await hashPin(cashier.id, pin);
+  try {
+    const { approval } = await api.post<{ approval: string }>('/pin', { cashierId: cashier.id, pin });
+    rememberPin(cashier.id, pinHash);
+    return { valid: true, approval };
+  } catch (err) {
+    if (!(err instanceof ApiError) || err.status !== 0) {
+      if (err instanceof ApiError && err.status === 403) rememberPin(cashier.id);
+      return { valid: false, error: err instanceof Error ? err.message : 'PIN 不正确' };
+    }
+    const known = knownPins()[cashier.id];
+    if (!known) return { valid: false, error: '无法连接服务器，这个账号还没在本机登录过' };
+    return known === pinHash ? { valid: true } : { valid: false, error: 'PIN 不正确' };
+  }
+}
+
+export interface CashierDraft {
+  id?: string;
+  name: string;
+  role: CashierRole;
+  // Blank keeps the current PIN of an existing account
+  pin: string;
+  disabled?: boolean;
+}
+
+// The account as it will be saved. Refuses changes that would leave the
+// shop with accounts but no owner to unlock the settings.
+export async function buildCashier(draft: CashierDraft, cashiers: Cashier[]): Promise<Cashier> {
+  const name = draft.name.trim();
+  if (!name) throw new Error('请输入姓名');
+  const existing = draft.id ? cashiers.find(c => c.id === draft.id) : undefined;
+  if (activeCashiers(cashiers).some(c => c.id !== existing?.id && c.name === name)) {
+    throw new Error(`已有名为「${name}」的账号`);
+  }
+  if ((draft.pin || !existing) && !PIN_PATTERN.test(draft.pin)) throw new Error('PIN 需为 4 到 6 位数字');
+
+  const id = existing?.id ?? crypto.randomUUID();
+  // Left out to keep the current PIN, which only the server knows
+  const cashier: Cashier = {
+    id,
+    name,
+    role: draft.role,
+    ...(draft.pin ? { pinHash: await hashPin(id, draft.pin) } : {}),
+    ...(draft.disabled ? { disabled: true } : {}),
+  };
+  const after = [...cashiers.filter(c => c.id !== id), cashier];
+  if (activeCashiers(after).length > 0 && !activeCashiers(after).some(c => c.role === 'owner')) {
+    throw new Error(existing ? '至少要保留一个启用的店主账号' : '第一个账号需要是店主');
+  }
+  return cashier;
+}
@@ -0,0 +1,56 @@
+// Code 128 for the order number printed on receipts. Digit strings of even
+// length use code set C (two digits per symbol, so an 18-digit order number
+// still fits a 58mm roll); anything else uses code set B.
+
+// Bar and space widths in modules, by symbol value
+const PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const START_B = 104;
+const START_C = 105;
+const STOP = 106;
+
+export function isCode128C(value: string) {
+  return /^(\d\d)+$/.test(value);
+}
+
+// Symbol values including start, check and stop symbols
+export function code128Symbols(value: string) {
+  if (!/^[\x20-\x7e]+$/.test(value)) throw new Error('条码只能包含英文字母、数字和符号');
+  const data = isCode128C(value)
+    ? value.match(/\d\d/g)!.map(Number)
+    : Array.from(value, char => char.charCodeAt(0) - 32);
+  const start = isCode128C(value) ? START_C : START_B;
+  const check = data.reduce((sum, symbol, index) => sum + symbol * (index + 1), start) % 103;
+  return [start, ...data, check, STOP];
+}
+
+// Alternating bar/space widths, starting with a bar
+export function code128Modules(value: string) {
+  return code128Symbols(value).flatMap(symbol => PATTERNS[symbol].split('').map(Number));
+}
+
+// An SVG that stretches to the width of its container
+export function code128Svg(value: string, height = 40) {
+  const modules = code128Modules(value);
+  const quiet = 10;
+  const total = modules.reduce((sum, width) => sum + width, 0) + quiet * 2;
+  let x = quiet;
+  const bars: string[] = [];
+  modules.forEach((width, index) => {
+    if (index % 2 === 0) bars.push(`<rect x="${x}" y="0" width="${width}" height="${height}"/>`);
+    x += width;
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${total} ${height}" preserveAspectRatio="none" style="width:100%;height:${height}px">${bars.join('')}</svg>`;
+}
@@ -0,0 +1,76 @@
+import type { Refund, Sale } from '../types';
+import { roundMoney } from './sales';
+
+// Unit costs keep four decimals: a case of 24 at ¥50 is ¥2.0833 a bottle
+export function roundCost(value: number) {
+  return Math.round(value * 10000) / 10000;
+}
+
+// Moving average: the goods already on the shelf and the delivery are mixed
+// at their own costs. With nothing (or less than nothing) on the shelf, or
+// no cost known yet, the delivery's cost is taken as is.
+export function movingAverageCost(stock: number, cost: number | undefined, quantity: number, unitCost: number) {
+  if (cost === undefined || stock <= 0 || stock + quantity <= 0) return roundCost(unitCost);
+  return roundCost((stock * cost + quantity * unitCost) / (stock + quantity));
+}
+
+export interface Margin {
+  profit: number;
+  // Share of the selling price, 0.25 for 25%
+  rate: number;
+}
+
+export function marginOf(price: number, cost?: number): Margin | undefined {
+  if (cost === undefined || !(price > 0)) return undefined;
+  return { profit: roundMoney(price - cost), rate: (price - cost) / price };
+}
+
+export function formatMarginRate(margin: Margin) {
+  return `${Math.round(margin.rate * 1000) / 10}%`;
+}
+
+export interface ProfitSummary {
+  // Cost of the goods sold, less what came back onto the shelf
+  cost: number;
+  profit: number;
+  rate?: number;
+  // Lines sold without a known cost; their revenue is left out of the profit
+  uncostedLines: number;
+}
+
+// Profit over sales and refunds already narrowed to a date range. A
+// returned item put back on the shelf gives its cost back; a damaged one
+// stays a cost. Lines without a cost count neither revenue nor cost, so the
+// margin isn't inflated by goods whose cost was never entered.
+export function summarizeProfit(sales: Sale[], refunds: Refund[], allSales: Sale[] = sales): ProfitSummary {
+  let revenue = 0;
+  let cost = 0;
+  let uncostedLines = 0;
+  for (const sale of sales) {
+    for (const item of sale.items) {
+      if (item.unitCost === undefined) {
+        uncostedLines++;
+        continue;
+      }
+      revenue += item.subtotal;
+      cost += item.unitCost * item.quantity;
+    }
+  }
+  const saleById = new Map(allSales.map(sale => [sale.id, sale]));
+  for (const refund of refunds) {
+    const sale = saleById.get(refund.saleId);
+    for (const item of refund.items) {
+      const unitCost = sale?.items[item.lineIndex]?.unitCost;
+      if (unitCost === undefined) continue;
+      revenue -= item.amount;
+      if (item.restock) cost -= unitCost * item.quantity;
+    }
+  }
+  const profit = roundMoney(revenue - cost);
+  return {
+    cost: roundMoney(cost),
+    profit,
+    rate: revenue > 0 ? profit / revenue : undefined,
+    uncostedLines,
+  };
+}
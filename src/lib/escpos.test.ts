@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { encodeGbk, receiptToEscPos } from './escpos';
+import { PAPER_COLUMNS, receiptRows, textWidth, type ReceiptLine } from './receipt';
+
+// Sixteen bytes a row, so a change shows up as a readable diff
+function hex(bytes: Uint8Array) {
+  const rows: string[] = [];
+  for (let i = 0; i < bytes.length; i += 16) {
+    rows.push(Array.from(bytes.slice(i, i + 16), byte => byte.toString(16).padStart(2, '0')).join(' '));
+  }
+  return rows.join('\n');
+}
+
+const LINES: ReceiptLine[] = [
+  { kind: 'text', left: '便利店', center: true, emphasis: true },
+  { kind: 'rule' },
+  { kind: 'text', left: '可口可乐 500ml' },
+  { kind: 'text', left: '  2 × ¥3.50', right: '¥7.00' },
+  { kind: 'text', left: '应收', right: '¥7.00', emphasis: true },
+  { kind: 'barcode', value: '2026101912000012' },
+];
+
+describe('encodeGbk', () => {
+  it('encodes ASCII as is and Chinese as two GBK bytes', () => {
+    expect(encodeGbk('A1你好')).toEqual([0x41, 0x31, 0xc4, 0xe3, 0xba, 0xc3]);
+  });
+
+  it('prints characters outside GBK as ?', () => {
+    expect(encodeGbk('😀')).toEqual([0x3f]);
+  });
+});
+
+describe('receiptRows', () => {
+  it('counts symbols like × as the two columns they print in', () => {
+    expect(textWidth('2 × 3')).toBe(6);
+    for (const columns of Object.values(PAPER_COLUMNS)) {
+      for (const line of LINES) {
+        for (const row of receiptRows(line, columns)) {
+          expect(encodeGbk(row.replace(/¥/g, '￥')).length).toBeLessThanOrEqual(columns);
+        }
+      }
+    }
+  });
+});
+
+describe('receiptToEscPos', () => {
+  it('starts in Chinese mode and ends with a feed and cut', () => {
+    const bytes = Array.from(receiptToEscPos(LINES));
+    expect(bytes.slice(0, 4)).toEqual([0x1b, 0x40, 0x1c, 0x26]);
+    expect(bytes.slice(-7)).toEqual([0x1b, 0x64, 4, 0x1d, 0x56, 0x42, 0]);
+  });
+
+  it('sends an even-length order number as Code 128 set C', () => {
+    const bytes = Array.from(receiptToEscPos([{ kind: 'barcode', value: '20261019' }]));
+    const start = bytes.indexOf(0x7b);
+    expect(bytes.slice(start - 2, start + 6)).toEqual([73, 6, 0x7b, 0x43, 20, 26, 10, 19]);
+  });
+
+  it('matches the 58mm snapshot', () => {
+    expect(hex(receiptToEscPos(LINES, 58))).toMatchSnapshot();
+  });
+
+  it('matches the 80mm snapshot', () => {
+    expect(hex(receiptToEscPos(LINES, 80))).toMatchSnapshot();
+  });
+});
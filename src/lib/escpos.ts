@@ -0,0 +1,86 @@
+import { PAPER_COLUMNS, receiptRows, type PaperWidth, type ReceiptLine } from './receipt';
+import { isCode128C } from './code128';
+
+// Raw bytes for ESC/POS thermal printers. Chinese models print GBK text once
+// switched into Chinese mode.
+const ESC = 0x1b;
+const GS = 0x1d;
+const FS = 0x1c;
+const LF = 0x0a;
+
+const INIT = [ESC, 0x40];
+const CHINESE_MODE = [FS, 0x26];
+const align = (center: boolean) => [ESC, 0x61, center ? 1 : 0];
+const bold = (on: boolean) => [ESC, 0x45, on ? 1 : 0];
+// Double height only, so a row still holds the same number of characters
+const doubleHeight = (on: boolean) => [GS, 0x21, on ? 0x01 : 0x00];
+const FEED_AND_CUT = [ESC, 0x64, 4, GS, 0x56, 0x42, 0];
+
+// The printer draws Code 128 itself, digits underneath
+function barcode(value: string) {
+  const data = isCode128C(value)
+    ? [0x7b, 0x43, ...value.match(/\d\d/g)!.map(Number)]
+    : [0x7b, 0x42, ...encodeGbk(value)];
+  return [GS, 0x68, 80, GS, 0x77, 2, GS, 0x48, 2, GS, 0x6b, 73, data.length, ...data, LF];
+}
+
+let gbkTable: Map<string, [number, number]> | undefined;
+
+// Browsers only decode GBK, so the encoding table is read back out of the
+// decoder once, on first use
+function gbk() {
+  if (gbkTable) return gbkTable;
+  const table = new Map<string, [number, number]>();
+  const decoder = new TextDecoder('gbk');
+  for (let lead = 0x81; lead <= 0xfe; lead++) {
+    for (let trail = 0x40; trail <= 0xfe; trail++) {
+      if (trail === 0x7f) continue;
+      const char = decoder.decode(new Uint8Array([lead, trail]));
+      if (char.length === 1 && char !== '\ufffd' && !table.has(char)) table.set(char, [lead, trail]);
+    }
+  }
+  gbkTable = table;
+  return table;
+}
+
+// Characters the printer can't show come out as '?'
+export function encodeGbk(text: string) {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else {
+      bytes.push(...(gbk().get(char) ?? [0x3f]));
+    }
+  }
+  return bytes;
+}
+
+export function receiptToEscPos(lines: ReceiptLine[], paperWidth: PaperWidth = 58) {
+  const columns = PAPER_COLUMNS[paperWidth];
+  const bytes: number[] = [...INIT, ...CHINESE_MODE];
+  for (const line of lines) {
+    if (line.kind === 'rule') {
+      bytes.push(...encodeGbk('-'.repeat(columns)), LF);
+      continue;
+    }
+    if (line.kind === 'barcode') {
+      bytes.push(...align(true), ...barcode(line.value), ...align(false));
+      continue;
+    }
+    // GBK has no half-width yen sign; the full-width one takes two columns
+    const left = line.left.replace(/¥/g, '￥');
+    const right = line.right?.replace(/¥/g, '￥');
+    if (line.center) bytes.push(...align(true));
+    if (line.emphasis) bytes.push(...bold(true), ...doubleHeight(true));
+    // Centred rows are left unpadded; the printer centres them itself
+    for (const row of receiptRows({ kind: 'text', left, right }, columns)) {
+      bytes.push(...encodeGbk(row.trimEnd()), LF);
+    }
+    if (line.emphasis) bytes.push(...bold(false), ...doubleHeight(false));
+    if (line.center) bytes.push(...align(false));
+  }
+  bytes.push(...FEED_AND_CUT);
+  return new Uint8Array(bytes);
+}
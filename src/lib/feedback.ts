@@ -0,0 +1,45 @@
+import type { ScannerSettings } from './scanning';
+
+// Found: one short high beep. Unknown: two low ones, so the cashier can
+// tell without looking at the screen.
+export type ScanOutcome = 'found' | 'unknown';
+
+const TONES: Record<ScanOutcome, { frequency: number; duration: number; gap: number; count: number }> = {
+  found: { frequency: 1800, duration: 0.08, gap: 0, count: 1 },
+  unknown: { frequency: 400, duration: 0.15, gap: 0.08, count: 2 },
+};
+
+const VIBRATIONS: Record<ScanOutcome, number[]> = {
+  found: [40],
+  unknown: [120, 80, 120],
+};
+
+let audio: AudioContext | undefined;
+
+function beep(outcome: ScanOutcome) {
+  // Browsers only allow audio after a tap; starting the scanner is one
+  audio ??= new AudioContext();
+  if (audio.state === 'suspended') audio.resume().catch(() => undefined);
+  const { frequency, duration, gap, count } = TONES[outcome];
+  for (let i = 0; i < count; i++) {
+    const start = audio.currentTime + i * (duration + gap);
+    const oscillator = audio.createOscillator();
+    const gain = audio.createGain();
+    oscillator.type = 'square';
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.15, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+    oscillator.connect(gain).connect(audio.destination);
+    oscillator.start(start);
+    oscillator.stop(start + duration);
+  }
+}
+
+export function scanFeedback(outcome: ScanOutcome, settings: Pick<ScannerSettings, 'sound' | 'vibrate'>) {
+  try {
+    if (settings.sound) beep(outcome);
+  } catch {
+    // No audio on this device; the toast still shows
+  }
+  if (settings.vibrate && 'vibrate' in navigator) navigator.vibrate(VIBRATIONS[outcome]);
+}
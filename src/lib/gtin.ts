@@ -0,0 +1,16 @@
+// GS1 mod-10 check digit, shared by EAN-13, EAN-8, UPC-A and GTIN-14. The
+// weights run 3,1,3,... from the digit next to the check digit, so one
+// routine covers every length.
+export function gtinCheckDigit(body: string) {
+  const sum = Array.from(body, Number).reverse().reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return String((10 - (sum % 10)) % 10);
+}
+
+export function hasValidGtinCheckDigit(code: string) {
+  if (!/^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(code)) return false;
+  return gtinCheckDigit(code.slice(0, -1)) === code[code.length - 1];
+}
+
+export function isValidEan13(code: string) {
+  return code.length === 13 && hasValidGtinCheckDigit(code);
+}
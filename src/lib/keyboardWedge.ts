@@ -0,0 +1,44 @@
+// Handheld scanners that act as a keyboard ("keyboard wedge") type the whole
+// code within a few milliseconds and finish with Enter. People can't type
+// that fast, which is how a scan is told apart from typing.
+
+export interface WedgeOptions {
+  // Longest pause between two keystrokes of one scan
+  maxKeyInterval: number;
+  // Shorter bursts are taken as typing
+  minLength: number;
+}
+
+export function createWedgeDetector({ maxKeyInterval, minLength }: WedgeOptions) {
+  let buffer = '';
+  let lastTime = -Infinity;
+
+  const reset = () => {
+    buffer = '';
+    lastTime = -Infinity;
+  };
+
+  return {
+    // A printable character; a slow one starts the buffer over
+    key(char: string, time: number) {
+      if (time - lastTime > maxKeyInterval) buffer = '';
+      buffer += char;
+      lastTime = time;
+    },
+    // The scanned code, when Enter ends a fast enough burst
+    enter(time: number) {
+      const code = buffer;
+      const fast = time - lastTime <= maxKeyInterval;
+      reset();
+      return fast && code.length >= minLength ? code : undefined;
+    },
+    reset,
+  };
+}
+
+// Typing into these belongs to the field, scanner or not
+export function isEditableTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  return target instanceof HTMLInputElement && !['checkbox', 'radio', 'button', 'submit', 'reset', 'range', 'color', 'file'].includes(target.type);
+}
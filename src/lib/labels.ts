@@ -0,0 +1,142 @@
+import type { Product } from '../types';
+import { productBarcodes } from './barcodes';
+import { code128Svg } from './code128';
+import { ean13CheckDigit, ean13Svg } from './ean13';
+import { isValidEan13 } from './gtin';
+import { escapeHtml } from './receipt';
+import type { ScaleBarcodeFormat } from './scaleBarcode';
+import { formatUnitPrice } from './units';
+
+// Barcodes made up in the shop for loose and homemade goods. GS1 leaves
+// EAN-13 codes starting with 2 (and EAN-8 codes starting with 2) to in-store
+// use, so they never clash with a manufacturer's code.
+export type LabelCodeType = 'ean13' | 'code128';
+
+export const LABEL_CODE_TYPE_LABELS: Record<LabelCodeType, string> = {
+  ean13: 'EAN-13（13 位）',
+  code128: 'Code128（8 位，更窄）',
+};
+
+// Tried from the top; the scale's formats usually take 20 and 21
+const INTERNAL_EAN_PREFIXES = ['29', '28', '27', '26', '25', '24', '23', '22', '20', '21'];
+
+const MAX_ATTEMPTS = 100;
+
+export interface LabelSize {
+  id: string;
+  label: string;
+  // One label, in mm
+  width: number;
+  height: number;
+  // A4 sticker sheets; without it every label is its own page, as on a
+  // label printer's roll
+  columns?: number;
+}
+
+export const LABEL_SIZES: LabelSize[] = [
+  { id: '40x30', label: '40×30mm 标签纸', width: 40, height: 30 },
+  { id: '50x30', label: '50×30mm 标签纸', width: 50, height: 30 },
+  { id: '60x40', label: '60×40mm 标签纸', width: 60, height: 40 },
+  { id: '30x20', label: '30×20mm 标签纸', width: 30, height: 20 },
+  { id: 'a4-24', label: 'A4 不干胶 3×8（70×37mm）', width: 70, height: 37, columns: 3 },
+  { id: 'a4-40', label: 'A4 不干胶 4×10（52.5×29.7mm）', width: 52.5, height: 29.7, columns: 4 },
+];
+
+// Per-device, like the receipt printer
+export interface LabelSettings {
+  sizeId: string;
+  // What 生成店内码 in the product form makes
+  codeType: LabelCodeType;
+  showPrice: boolean;
+}
+
+export const DEFAULT_LABEL_SETTINGS: LabelSettings = {
+  sizeId: '40x30',
+  codeType: 'ean13',
+  showPrice: true,
+};
+
+export function findLabelSize(id: string) {
+  return LABEL_SIZES.find(size => size.id === id) ?? LABEL_SIZES[0];
+}
+
+// Codes the scale's label formats would read as a weight or price are left alone
+function internalEanPrefix(scaleFormats: ScaleBarcodeFormat[]) {
+  const prefix = INTERNAL_EAN_PREFIXES.find(candidate =>
+    !scaleFormats.some(format => format.prefix.startsWith(candidate) || candidate.startsWith(format.prefix))
+  );
+  if (!prefix) throw new Error('店内码前缀已全部被电子秤条码格式占用，请改用 Code128');
+  return prefix;
+}
+
+function randomDigits(length: number) {
+  return Array.from({ length }, () => Math.floor(Math.random() * 10)).join('');
+}
+
+// A code no product uses yet, counting pack barcodes too
+export function generateInternalBarcode(products: Product[], codeType: LabelCodeType, scaleFormats: ScaleBarcodeFormat[]) {
+  const taken = new Set(products.flatMap(productBarcodes));
+  const prefix = codeType === 'ean13' ? internalEanPrefix(scaleFormats) : '2';
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    let code = prefix + randomDigits(codeType === 'ean13' ? 12 - prefix.length : 7);
+    if (codeType === 'ean13') code += ean13CheckDigit(code);
+    if (!taken.has(code)) return code;
+  }
+  throw new Error('未能生成不重复的条码，请重试');
+}
+
+// Any 13-digit code with a good check digit prints as EAN-13; everything
+// else as Code128, which reads back exactly as stored
+export function labelBarcodeSvg(code: string, height = 40) {
+  return isValidEan13(code) ? ean13Svg(code, height) : code128Svg(code, height);
+}
+
+export interface LabelItem {
+  product: Product;
+  copies: number;
+}
+
+export interface LabelOptions {
+  showPrice: boolean;
+}
+
+// A standalone page for the browser's print dialog, sized to the label roll
+// or to an A4 sheet
+export function labelsToHtml(items: LabelItem[], size: LabelSize, { showPrice }: LabelOptions) {
+  // Text scales with the label so the same layout fits 30×20 and 70×37
+  const fontSize = Math.min(size.height / 9, size.width / 13);
+  const labels = items.flatMap(({ product, copies }) => Array.from({ length: copies }, () => `<div class="label">
+  <div class="name">${escapeHtml(product.name)}${product.spec ? ` ${escapeHtml(product.spec)}` : ''}</div>
+  ${showPrice ? `<div class="price">${escapeHtml(formatUnitPrice(product))}</div>` : ''}
+  <div class="bars">${labelBarcodeSvg(product.barcode)}</div>
+  <div class="code">${escapeHtml(product.barcode)}</div>
+</div>`)).join('\n');
+
+  const page = size.columns
+    ? `@page { size: A4; margin: 0; }
+  body { width: ${size.width * size.columns}mm; display: flex; flex-wrap: wrap; align-content: flex-start; }`
+    : `@page { size: ${size.width}mm ${size.height}mm; margin: 0; }
+  .label { break-after: page; }`;
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>商品标签</title>
+<style>
+  ${page}
+  * { box-sizing: border-box; }
+  body { margin: 0; font: ${fontSize.toFixed(2)}mm/1.2 sans-serif; color: #000; }
+  .label { width: ${size.width}mm; height: ${size.height}mm; padding: 1.5mm 2mm; overflow: hidden; break-inside: avoid; display: flex; flex-direction: column; }
+  .name { font-weight: bold; display: -webkit-box; -webkit-line-clamp: 2; -webkit-box-orient: vertical; overflow: hidden; }
+  .price { font-size: 1.4em; font-weight: bold; }
+  .bars { flex: 1; min-height: 0; margin-top: 0.5mm; }
+  .bars svg { display: block; height: 100% !important; }
+  .code { text-align: center; font-family: monospace; font-size: 0.85em; letter-spacing: 0.05em; }
+</style>
+</head>
+<body>
+${labels}
+</body>
+</html>`;
+}
@@ -0,0 +1,116 @@
+// Minimal promise wrapper around IndexedDB, the device-local store that keeps
+// the app usable while the shop Wi-Fi is down.
+
+const DB_NAME = 'barcode-shop';
+const DB_VERSION = 8;
+
+export type StoreName =
+  | 'products'
+  | 'sales'
+  | 'refunds'
+  | 'receivings'
+  | 'stocktakes'
+  | 'promotions'
+  | 'cashiers'
+  | 'shifts'
+  | 'auditLog'
+  | 'suppliers'
+  | 'purchaseOrders'
+  | 'snapshots'
+  | 'outbox'
+  | 'meta';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      // Steps run from the version the device has up to DB_VERSION
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore('products', { keyPath: 'id' });
+          db.createObjectStore('sales', { keyPath: 'id' });
+          db.createObjectStore('outbox', { keyPath: 'seq', autoIncrement: true });
+          db.createObjectStore('meta');
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore('receivings', { keyPath: 'id' });
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore('stocktakes', { keyPath: 'id' });
+        }
+        if (event.oldVersion < 4) {
+          db.createObjectStore('promotions', { keyPath: 'id' });
+        }
+        if (event.oldVersion < 5) {
+          db.createObjectStore('refunds', { keyPath: 'id' });
+        }
+        if (event.oldVersion < 6) {
+          db.createObjectStore('cashiers', { keyPath: 'id' });
+          db.createObjectStore('shifts', { keyPath: 'id' });
+          db.createObjectStore('auditLog', { keyPath: 'id' });
+        }
+        if (event.oldVersion < 7) {
+          db.createObjectStore('suppliers', { keyPath: 'id' });
+          db.createObjectStore('purchaseOrders', { keyPath: 'id' });
+        }
+        if (event.oldVersion < 8) {
+          db.createObjectStore('snapshots', { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+async function read<T>(store: StoreName, run: (s: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb();
+  return requestToPromise(run(db.transaction(store, 'readonly').objectStore(store)));
+}
+
+async function write(stores: StoreName | StoreName[], run: (tx: IDBTransaction) => void) {
+  const db = await openDb();
+  const tx = db.transaction(stores, 'readwrite');
+  run(tx);
+  await transactionDone(tx);
+}
+
+export const localDb = {
+  getAll: <T>(store: StoreName) => read<T[]>(store, s => s.getAll()),
+  get: <T>(store: StoreName, key: IDBValidKey) => read<T | undefined>(store, s => s.get(key)),
+  count: (store: StoreName) => read<number>(store, s => s.count()),
+
+  put: (store: StoreName, value: unknown, key?: IDBValidKey) =>
+    write(store, tx => { tx.objectStore(store).put(value, key); }),
+  putMany: (store: StoreName, values: unknown[]) =>
+    write(store, tx => { values.forEach(value => tx.objectStore(store).put(value)); }),
+  deleteMany: (store: StoreName, keys: IDBValidKey[]) =>
+    write(store, tx => { keys.forEach(key => tx.objectStore(store).delete(key)); }),
+  clear: (store: StoreName) =>
+    write(store, tx => { tx.objectStore(store).clear(); }),
+
+  // Several stores changed in one transaction, all or nothing
+  transaction: write,
+};
@@ -0,0 +1,208 @@
+import type { Product } from '../types';
+import type { CsvCell } from './csv';
+import { matchBarcode, productBarcodes } from './barcodes';
+
+export type ImportField = 'barcode' | 'name' | 'spec' | 'price' | 'costPrice' | 'stock' | 'category' | 'minStock' | 'reorderQty';
+
+export const IMPORT_FIELDS: ImportField[] = ['barcode', 'name', 'spec', 'price', 'costPrice', 'stock', 'category', 'minStock', 'reorderQty'];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  barcode: '条码',
+  name: '商品名称',
+  spec: '规格',
+  price: '售价',
+  costPrice: '进价',
+  stock: '库存',
+  category: '分类',
+  minStock: '最低库存',
+  reorderQty: '每次订货量',
+};
+
+// Column titles seen in supplier price lists and our own exports, most
+// specific first; compared without spaces and case
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  barcode: ['条码', '条形码', '商品条码', '国际条码', 'barcode', 'ean', 'upc'],
+  name: ['商品名称', '品名', '名称', '商品', 'name', 'product'],
+  spec: ['规格', '规格型号', '包装规格', 'spec', 'size'],
+  price: ['售价', '零售价', '建议零售价', '价格', '单价', 'price'],
+  costPrice: ['进价', '进货价', '成本价', '采购价', '成本', 'costprice', 'cost'],
+  stock: ['库存', '库存数量', '现有库存', '数量', 'stock', 'qty', 'quantity'],
+  category: ['分类', '类别', '商品分类', 'category'],
+  minStock: ['最低库存', '安全库存', 'minstock'],
+  reorderQty: ['每次订货量', '订货量', '箱规', 'reorderqty'],
+};
+
+// Index of the file column each field is read from
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportError {
+  // Line number in the file, counting the header
+  line: number;
+  message: string;
+}
+
+export interface ImportRow {
+  line: number;
+  barcode: string;
+  // Only the fields that were mapped and filled in
+  values: Partial<Product>;
+}
+
+export interface PlannedRow {
+  line: number;
+  action: 'add' | 'update' | 'unchanged';
+  product: Product;
+  existing?: Product;
+  // Field edits, excluding stock
+  changes: Partial<Product>;
+  // Difference between the file's stock and the current stock
+  stockDelta: number;
+}
+
+export interface ImportPlan {
+  mode: ImportMode;
+  rows: PlannedRow[];
+  errors: ImportError[];
+  // Products missing from the file; only removed in replace mode
+  removed: Product[];
+}
+
+const normalizeHeader = (text: string) => text.replace(/\s+/g, '').toLowerCase();
+
+export function guessMapping(header: string[]): ColumnMapping {
+  const titles = header.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  const claim = (field: ImportField, index: number) => {
+    if (index < 0 || used.has(index) || mapping[field] !== undefined) return;
+    mapping[field] = index;
+    used.add(index);
+  };
+  // Exact matches win over partial ones, e.g. "商品条码" shouldn't become the name
+  for (const field of IMPORT_FIELDS) {
+    for (const alias of HEADER_ALIASES[field]) claim(field, titles.indexOf(alias));
+  }
+  for (const field of IMPORT_FIELDS) {
+    for (const alias of HEADER_ALIASES[field]) {
+      claim(field, titles.findIndex((title, i) => !used.has(i) && title.includes(alias)));
+    }
+  }
+  return mapping;
+}
+
+function parseNumber(text: string) {
+  const value = Number(text.replace(/[¥￥,\s]/g, ''));
+  return Number.isFinite(value) ? value : NaN;
+}
+
+export function readImportRows(rows: string[][], mapping: ColumnMapping): { rows: ImportRow[]; errors: ImportError[] } {
+  const result: ImportRow[] = [];
+  const errors: ImportError[] = [];
+  const seen = new Map<string, number>();
+
+  // The first row is the header
+  rows.slice(1).forEach((row, index) => {
+    const line = index + 2;
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (row[column] ?? '').trim();
+    };
+    const fail = (message: string) => errors.push({ line, message });
+
+    // Excel likes to turn long barcodes into numbers like 6.9012E+12
+    const barcode = cell('barcode');
+    if (!barcode) return fail('缺少条码');
+    if (/e\+/i.test(barcode)) return fail(`条码被表格软件转成了科学计数法: ${barcode}`);
+    const previous = seen.get(barcode);
+    if (previous !== undefined) return fail(`条码 ${barcode} 与第 ${previous} 行重复`);
+    seen.set(barcode, line);
+
+    const values: Partial<Product> = {};
+    const name = cell('name');
+    if (name) values.name = name;
+    const spec = cell('spec');
+    if (spec) values.spec = spec;
+    const category = cell('category');
+    if (category) values.category = category;
+
+    const numbers: [ImportField, (value: number) => boolean, string][] = [
+      ['price', v => v >= 0, '售价无效'],
+      ['costPrice', v => v >= 0, '进价无效'],
+      ['stock', () => true, '库存无效'],
+      ['minStock', v => Number.isInteger(v) && v >= 0, '最低库存必须是非负整数'],
+      ['reorderQty', v => Number.isInteger(v) && v > 0, '每次订货量必须是正整数'],
+    ];
+    for (const [field, valid, message] of numbers) {
+      const text = cell(field);
+      if (!text) continue;
+      const value = parseNumber(text);
+      if (isNaN(value) || !valid(value)) return fail(`${message}: ${text}`);
+      (values as Record<string, number>)[field] = value;
+    }
+
+    result.push({ line, barcode, values });
+  });
+
+  return { rows: result, errors };
+}
+
+// Works out what importing would do without changing anything, so the user
+// can check it first. Products are matched by barcode.
+export function planImport(
+  importRows: ImportRow[],
+  readErrors: ImportError[],
+  products: Product[],
+  mode: ImportMode
+): ImportPlan {
+  const rows: PlannedRow[] = [];
+  const errors = [...readErrors];
+
+  for (const { line, barcode, values } of importRows) {
+    const existing = matchBarcode(products, barcode)?.product;
+    // Rows are keyed on the main barcode. A pack code is taken, so it can't
+    // be a new product, and its price is the case's, not the single item's.
+    if (existing && existing.barcode !== barcode) {
+      errors.push({ line, message: `${barcode} 是「${existing.name}」的包装条码，请改用主条码 ${existing.barcode}` });
+      continue;
+    }
+    if (!existing) {
+      if (!values.name || values.price === undefined) {
+        errors.push({ line, message: `新商品 ${barcode} 缺少名称或售价` });
+        continue;
+      }
+      const product = { ...values, id: crypto.randomUUID(), barcode, stock: values.stock ?? 0 } as Product;
+      rows.push({ line, action: 'add', product, changes: {}, stockDelta: 0 });
+      continue;
+    }
+
+    const { stock, ...fields } = values;
+    const changes: Partial<Product> = {};
+    for (const [key, value] of Object.entries(fields) as [keyof Product, unknown][]) {
+      if (existing[key] !== value) (changes as Record<string, unknown>)[key] = value;
+    }
+    const stockDelta = stock === undefined ? 0 : stock - existing.stock;
+    rows.push({
+      line,
+      action: Object.keys(changes).length > 0 || stockDelta !== 0 ? 'update' : 'unchanged',
+      product: { ...existing, ...changes, stock: stock ?? existing.stock },
+      existing,
+      changes,
+      stockDelta,
+    });
+  }
+
+  // A product named in the file by any of its codes stays
+  const inFile = new Set(importRows.map(row => row.barcode));
+  const removed = mode === 'replace' ? products.filter(p => !productBarcodes(p).some(code => inFile.has(code))) : [];
+  return { mode, rows, errors: errors.sort((a, b) => a.line - b.line), removed };
+}
+
+// Column titles match HEADER_ALIASES, so an exported file imports cleanly
+export function productsToRows(products: Product[]): CsvCell[][] {
+  return [
+    IMPORT_FIELDS.map(field => IMPORT_FIELD_LABELS[field]),
+    ...products.map(p => [p.barcode, p.name, p.spec, p.price, p.costPrice, p.stock, p.category, p.minStock, p.reorderQty]),
+  ];
+}
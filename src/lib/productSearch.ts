@@ -0,0 +1,114 @@
+import { pinyin } from 'pinyin-pro';
+import type { Product, Sale } from '../types';
+import { UNCATEGORIZED } from './report';
+import { addDays } from './date';
+import { productBarcodes } from './barcodes';
+
+export type StockFilter = 'all' | 'low' | 'out';
+export type ProductSort = 'name' | 'price' | 'stock' | 'sales';
+
+export const PRODUCT_SORT_LABELS: Record<ProductSort, string> = {
+  name: '名称',
+  price: '价格',
+  stock: '库存',
+  sales: '近期销量',
+};
+
+// Used for products that don't set their own minimum stock
+export const DEFAULT_MIN_STOCK = 5;
+
+// How far back "recent sales" looks when sorting
+export const RECENT_SALES_DAYS = 30;
+
+export interface ProductFilter {
+  query: string;
+  // A category name, UNCATEGORIZED, or undefined for all
+  category?: string;
+  stock: StockFilter;
+}
+
+const collator = new Intl.Collator('zh-CN', { numeric: true });
+
+// Converting names to pinyin is the slow part of a search, and names rarely
+// change, so results are kept for the lifetime of the page
+const initialsCache = new Map<string, string>();
+
+export function pinyinInitials(text: string) {
+  let initials = initialsCache.get(text);
+  if (initials === undefined) {
+    initials = pinyin(text, { pattern: 'first', toneType: 'none', type: 'array' })
+      .join('')
+      .replace(/\s+/g, '')
+      .toLowerCase();
+    initialsCache.set(text, initials);
+  }
+  return initials;
+}
+
+export function productCategory(product: Product) {
+  return product.category?.trim() || UNCATEGORIZED;
+}
+
+export function minStockOf(product: Product) {
+  return product.minStock ?? DEFAULT_MIN_STOCK;
+}
+
+export function isLowStock(product: Product) {
+  return product.stock > 0 && product.stock <= minStockOf(product);
+}
+
+export function isOutOfStock(product: Product) {
+  return product.stock <= 0;
+}
+
+export function listCategories(products: Product[]) {
+  const counts = new Map<string, number>();
+  for (const product of products) {
+    const category = product.category?.trim();
+    if (category) counts.set(category, (counts.get(category) ?? 0) + 1);
+  }
+  return Array.from(counts, ([name, count]) => ({ name, count }))
+    .sort((a, b) => collator.compare(a.name, b.name));
+}
+
+export function matchesQuery(product: Product, query: string) {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  if (product.name.toLowerCase().includes(q) || product.spec?.toLowerCase().includes(q) || productBarcodes(product).some(code => code.includes(q))) return true;
+  // Only plain letters can be pinyin initials
+  return /^[a-z\s]+$/.test(q) && pinyinInitials(product.name).includes(q.replace(/\s+/g, ''));
+}
+
+export function filterProducts(products: Product[], { query, category, stock }: ProductFilter) {
+  return products.filter(product =>
+    (category === undefined || productCategory(product) === category) &&
+    (stock !== 'low' || isLowStock(product) || isOutOfStock(product)) &&
+    (stock !== 'out' || isOutOfStock(product)) &&
+    matchesQuery(product, query)
+  );
+}
+
+export function recentSalesByProduct(sales: Sale[], days = RECENT_SALES_DAYS, now = new Date()) {
+  const since = addDays(now, -days).toISOString();
+  const units = new Map<string, number>();
+  for (const sale of sales) {
+    if (sale.createdAt < since) continue;
+    for (const item of sale.items) {
+      units.set(item.productId, (units.get(item.productId) ?? 0) + item.quantity);
+    }
+  }
+  return units;
+}
+
+// Price and sales put the biggest first; stock puts the emptiest first, which
+// is what matters when deciding what to reorder
+export function sortProducts(products: Product[], sort: ProductSort, recentSales: Map<string, number>) {
+  const byName = (a: Product, b: Product) => collator.compare(a.name, b.name);
+  const compare: Record<ProductSort, (a: Product, b: Product) => number> = {
+    name: byName,
+    price: (a, b) => b.price - a.price || byName(a, b),
+    stock: (a, b) => a.stock - b.stock || byName(a, b),
+    sales: (a, b) => (recentSales.get(b.id) ?? 0) - (recentSales.get(a.id) ?? 0) || byName(a, b),
+  };
+  return [...products].sort(compare[sort]);
+}
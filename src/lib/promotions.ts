@@ -0,0 +1,160 @@
+import type { AppliedPromotion, CartItem, Promotion, PromotionType } from '../types';
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  nth_item: '第N件折扣',
+  buy_get: '买赠',
+  bundle: '组合价',
+  category: '分类折扣',
+  sale_price: '限时特价',
+};
+
+// Amounts are worked out in whole 分 so shares add up exactly
+function toFen(amount: number) {
+  return Math.round(amount * 100);
+}
+
+function formatRate(percentOff: number) {
+  return `${Math.round((100 - percentOff) * 10) / 100}折`;
+}
+
+export function describePromotion(promotion: Promotion) {
+  switch (promotion.type) {
+    case 'nth_item':
+      return promotion.percentOff >= 100 ? `第${promotion.nth}件免费` : `第${promotion.nth}件${formatRate(promotion.percentOff)}`;
+    case 'buy_get':
+      return `买${promotion.buy}送${promotion.free}`;
+    case 'bundle':
+      return `组合价 ¥${promotion.price}`;
+    case 'category':
+      return `「${promotion.category}」${formatRate(promotion.percentOff)}`;
+    case 'sale_price':
+      return `特价 ¥${promotion.price}`;
+  }
+}
+
+export type PromotionStatus = 'active' | 'scheduled' | 'ended' | 'disabled';
+
+export const PROMOTION_STATUS_LABELS: Record<PromotionStatus, string> = {
+  active: '进行中',
+  scheduled: '未开始',
+  ended: '已结束',
+  disabled: '已停用',
+};
+
+export function promotionStatus(promotion: Promotion, now = new Date()): PromotionStatus {
+  const time = now.toISOString();
+  if (!promotion.enabled) return 'disabled';
+  if (promotion.startsAt && promotion.startsAt > time) return 'scheduled';
+  if (promotion.endsAt && promotion.endsAt < time) return 'ended';
+  return 'active';
+}
+
+export function isPromotionActive(promotion: Promotion, now = new Date()) {
+  return promotionStatus(promotion, now) === 'active';
+}
+
+// Which products a promotion is about, for listing
+export function promotionProductIds(promotion: Promotion) {
+  switch (promotion.type) {
+    case 'bundle':
+      return promotion.items.map(item => item.productId);
+    case 'category':
+      return [];
+    default:
+      return promotion.productIds;
+  }
+}
+
+// Works out what each cart line gets off, in the same order as `items`.
+// Sale prices come first and lower the unit price the other rules work from.
+// Bundles then claim whole sets of units, and every unit left over gets the
+// single best of the per-product rules, so offers never stack on one unit.
+export function evaluatePromotions(items: CartItem[], promotions: Promotion[], now = new Date()): AppliedPromotion[][] {
+  const active = promotions.filter(p => isPromotionActive(p, now));
+  const applied: AppliedPromotion[][] = items.map(() => []);
+  const record = (index: number, promotion: Promotion, fen: number) => {
+    if (fen > 0) applied[index].push({ promotionId: promotion.id, name: promotion.name, amount: fen / 100 });
+  };
+
+  // Lines sold by the pack already carry the pack's own price and stay out
+  // of promotions
+  const unitFen = items.map((item, index) => {
+    if (item.pack) return 0;
+    const listFen = toFen(item.product.price);
+    let best: Promotion | undefined;
+    let price = listFen;
+    for (const promotion of active) {
+      if (promotion.type !== 'sale_price' || !promotion.productIds.includes(item.product.id)) continue;
+      if (toFen(promotion.price) < price) {
+        price = toFen(promotion.price);
+        best = promotion;
+      }
+    }
+    if (best) record(index, best, Math.round((listFen - price) * item.quantity));
+    return price;
+  });
+
+  // Units not yet taken by a bundle
+  const remaining = items.map(item => item.pack ? 0 : item.quantity);
+
+  for (const promotion of active) {
+    if (promotion.type !== 'bundle' || promotion.items.length === 0) continue;
+    const parts = promotion.items.map(part => ({
+      index: items.findIndex(item => !item.pack && item.product.id === part.productId),
+      quantity: part.quantity,
+    }));
+    if (parts.some(part => part.index < 0 || !(part.quantity > 0))) continue;
+
+    const sets = Math.floor(Math.min(...parts.map(part => remaining[part.index] / part.quantity)));
+    const setFen = parts.reduce((sum, part) => sum + unitFen[part.index] * part.quantity, 0);
+    const saving = (setFen - toFen(promotion.price)) * sets;
+    if (sets <= 0 || saving <= 0) continue;
+
+    // Spread over the lines by value; the last line takes the rounding
+    let left = saving;
+    parts.forEach((part, i) => {
+      const share = i === parts.length - 1
+        ? left
+        : Math.round(saving * unitFen[part.index] * part.quantity / setFen);
+      left -= share;
+      record(part.index, promotion, share);
+      remaining[part.index] -= part.quantity * sets;
+    });
+  }
+
+  items.forEach((item, index) => {
+    const units = remaining[index];
+    const unit = unitFen[index];
+    if (units <= 0 || unit <= 0) return;
+
+    let best: Promotion | undefined;
+    let bestFen = 0;
+    for (const promotion of active) {
+      let fen = 0;
+      switch (promotion.type) {
+        case 'nth_item':
+          if (promotion.productIds.includes(item.product.id) && promotion.nth >= 1) {
+            fen = Math.floor(units / promotion.nth) * Math.round(unit * Math.min(promotion.percentOff, 100) / 100);
+          }
+          break;
+        case 'buy_get':
+          if (promotion.productIds.includes(item.product.id) && promotion.buy >= 1 && promotion.free >= 1) {
+            fen = Math.floor(units / (promotion.buy + promotion.free)) * promotion.free * unit;
+          }
+          break;
+        case 'category':
+          if (item.product.category?.trim() === promotion.category) {
+            fen = Math.round(unit * units * Math.min(promotion.percentOff, 100) / 100);
+          }
+          break;
+      }
+      if (fen > bestFen) {
+        best = promotion;
+        bestFen = fen;
+      }
+    }
+    if (best) record(index, best, bestFen);
+  });
+
+  return applied;
+}
@@ -0,0 +1,225 @@
+import type { Product, PurchaseOrder, PurchaseOrderItem, Receiving, ReceivingItem, Supplier } from '../types';
+import { generateOrderNo, roundMoney } from './sales';
+import { toCsv, type CsvCell } from './csv';
+import { formatDateTime } from './date';
+
+export type PurchaseOrderStatus = 'open' | 'partial' | 'received' | 'closed';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  open: '待到货',
+  partial: '部分到货',
+  received: '已到齐',
+  closed: '已关闭',
+};
+
+export interface SupplierDraft {
+  id?: string;
+  name: string;
+  contact?: string;
+  phone?: string;
+  address?: string;
+  note?: string;
+  productIds: string[];
+}
+
+// Blank fields are dropped rather than stored as empty strings
+export function buildSupplier(draft: SupplierDraft, suppliers: Supplier[]): Supplier {
+  const name = draft.name.trim();
+  if (!name) throw new Error('请输入供应商名称');
+  if (suppliers.some(s => s.id !== draft.id && s.name === name)) throw new Error(`已有名为「${name}」的供应商`);
+  const optional = (value?: string) => value?.trim() || undefined;
+  return {
+    id: draft.id ?? crypto.randomUUID(),
+    name,
+    contact: optional(draft.contact),
+    phone: optional(draft.phone),
+    address: optional(draft.address),
+    note: optional(draft.note),
+    productIds: Array.from(new Set(draft.productIds)),
+  };
+}
+
+// Deliveries from before the directory existed only carry the typed-in name
+export function isFromSupplier(receiving: Receiving, supplier: Supplier) {
+  return receiving.supplierId ? receiving.supplierId === supplier.id : receiving.supplier === supplier.name;
+}
+
+export interface PurchasePrice {
+  costPrice: number;
+  receivedAt: string;
+}
+
+// The latest 进价 paid to this supplier for each product, by delivery date
+export function lastPurchasePrices(receivings: Receiving[], supplier: Supplier) {
+  const prices = new Map<string, PurchasePrice>();
+  for (const receiving of receivings) {
+    if (!isFromSupplier(receiving, supplier)) continue;
+    for (const item of receiving.items) {
+      if (item.costPrice === undefined) continue;
+      const known = prices.get(item.productId);
+      if (!known || known.receivedAt <= receiving.createdAt) {
+        prices.set(item.productId, { costPrice: item.costPrice, receivedAt: receiving.createdAt });
+      }
+    }
+  }
+  return prices;
+}
+
+export function purchaseOrderItem(product: Product, quantity: number, costPrice?: number): PurchaseOrderItem {
+  return {
+    productId: product.id,
+    barcode: product.barcode,
+    name: product.name,
+    quantity,
+    ...(costPrice !== undefined ? { costPrice } : {}),
+  };
+}
+
+export function buildPurchaseOrder(
+  supplier: Supplier,
+  items: PurchaseOrderItem[],
+  note = '',
+  operator?: string,
+  date = new Date()
+): PurchaseOrder {
+  // One line per product, so each delivery is credited to it once
+  const byProduct = new Map<string, PurchaseOrderItem>();
+  for (const item of items) {
+    if (item.quantity <= 0) continue;
+    const line = byProduct.get(item.productId);
+    byProduct.set(item.productId, line ? { ...line, quantity: line.quantity + item.quantity } : item);
+  }
+  const lines = Array.from(byProduct.values());
+  if (lines.length === 0) throw new Error('采购单为空');
+  return {
+    id: crypto.randomUUID(),
+    orderNo: `CG${generateOrderNo(date)}`,
+    createdAt: date.toISOString(),
+    supplierId: supplier.id,
+    supplierName: supplier.name,
+    items: lines,
+    note: note.trim() || undefined,
+    operator: operator || undefined,
+  };
+}
+
+// Only meaningful when every line carries a price, like a delivery's total
+export function purchaseOrderTotal(items: PurchaseOrderItem[]) {
+  if (items.length === 0 || items.some(item => item.costPrice === undefined)) return undefined;
+  return roundMoney(items.reduce((sum, item) => sum + item.costPrice! * item.quantity, 0));
+}
+
+export interface PurchaseOrderLine {
+  item: PurchaseOrderItem;
+  received: number;
+  // Never negative: a line delivered in excess is simply complete
+  outstanding: number;
+}
+
+export interface PurchaseOrderProgress {
+  lines: PurchaseOrderLine[];
+  status: PurchaseOrderStatus;
+}
+
+// Everything delivered against the order counts, however many deliveries
+// it arrived in
+export function purchaseOrderProgress(order: PurchaseOrder, receivings: Receiving[]): PurchaseOrderProgress {
+  const received = new Map<string, number>();
+  for (const receiving of receivings) {
+    if (receiving.purchaseOrderId !== order.id) continue;
+    for (const item of receiving.items) {
+      received.set(item.productId, (received.get(item.productId) ?? 0) + item.quantity);
+    }
+  }
+  // Orders saved before lines were merged may list a product twice: its
+  // deliveries fill those lines in order, the last taking any excess
+  const lastIndex = new Map(order.items.map((item, index) => [item.productId, index]));
+  const lines = order.items.map((item, index) => {
+    const left = received.get(item.productId) ?? 0;
+    const quantity = lastIndex.get(item.productId) === index ? left : Math.min(left, item.quantity);
+    received.set(item.productId, left - quantity);
+    return { item, received: quantity, outstanding: Math.max(0, item.quantity - quantity) };
+  });
+  const status: PurchaseOrderStatus = lines.every(line => line.outstanding === 0)
+    ? 'received'
+    : order.closedAt
+      ? 'closed'
+      : lines.some(line => line.received > 0) ? 'partial' : 'open';
+  return { lines, status };
+}
+
+export function isAwaitingDelivery(progress: PurchaseOrderProgress) {
+  return progress.status === 'open' || progress.status === 'partial';
+}
+
+// What is still to come, ready to check off against the delivery
+export function outstandingReceivingItems(progress: PurchaseOrderProgress): ReceivingItem[] {
+  return progress.lines
+    .filter(line => line.outstanding > 0)
+    .map(({ item, outstanding }) => ({
+      productId: item.productId,
+      barcode: item.barcode,
+      name: item.name,
+      quantity: outstanding,
+      ...(item.costPrice !== undefined ? { costPrice: item.costPrice } : {}),
+    }));
+}
+
+export interface PurchaseOrderDocument {
+  order: PurchaseOrder;
+  supplier?: Supplier;
+  shopName?: string;
+}
+
+// The order as sent to the supplier, e.g. pasted into WeChat
+export function purchaseOrderToText({ order, supplier, shopName }: PurchaseOrderDocument) {
+  const total = purchaseOrderTotal(order.items);
+  const units = order.items.reduce((sum, item) => sum + item.quantity, 0);
+  return [
+    `采购订单 ${order.orderNo}`,
+    `供应商：${order.supplierName}`,
+    ...(supplier?.contact ? [`联系人：${supplier.contact}`] : []),
+    ...(supplier?.phone ? [`电话：${supplier.phone}`] : []),
+    ...(shopName ? [`订货门店：${shopName}`] : []),
+    `下单时间：${formatDateTime(order.createdAt)}`,
+    '',
+    ...order.items.map((item, index) => {
+      const price = item.costPrice !== undefined
+        ? `，单价 ¥${item.costPrice}，金额 ¥${roundMoney(item.costPrice * item.quantity).toFixed(2)}`
+        : '';
+      return `${index + 1}. ${item.name}（${item.barcode}）× ${item.quantity}${price}`;
+    }),
+    '',
+    `合计：${order.items.length} 种 ${units} 件${total !== undefined ? `，¥${total.toFixed(2)}` : ''}`,
+    ...(order.note ? [`备注：${order.note}`] : []),
+    ...(order.operator ? [`经办人：${order.operator}`] : []),
+  ].join('\n');
+}
+
+export function purchaseOrderToCsv({ order, supplier, shopName }: PurchaseOrderDocument, receivings: Receiving[] = []) {
+  const progress = purchaseOrderProgress(order, receivings);
+  const rows: CsvCell[][] = [
+    ['采购订单', order.orderNo],
+    ['供应商', order.supplierName],
+    ['联系人', supplier?.contact ?? ''],
+    ['电话', supplier?.phone ?? ''],
+    ['订货门店', shopName ?? ''],
+    ['下单时间', formatDateTime(order.createdAt)],
+    ['状态', PURCHASE_ORDER_STATUS_LABELS[progress.status]],
+    ['备注', order.note ?? ''],
+    [],
+    ['商品', '条码', '订购数量', '单价', '金额', '已到货', '未到货'],
+    ...progress.lines.map(({ item, received, outstanding }) => [
+      item.name,
+      item.barcode,
+      item.quantity,
+      item.costPrice ?? '',
+      item.costPrice !== undefined ? roundMoney(item.costPrice * item.quantity) : '',
+      received,
+      outstanding,
+    ]),
+    [],
+    ['合计', '', '', '', purchaseOrderTotal(order.items) ?? ''],
+  ];
+  return toCsv(rows);
+}
@@ -0,0 +1,46 @@
+// Installing to the home screen and keeping the phone's copy of the data.
+// Browsers may clear a site's storage when the phone runs low on space
+// unless the site has been granted persistent storage.
+
+export function registerServiceWorker() {
+  // The dev server rebuilds files on every change; caching them would only get in the way
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.error('Service worker registration failed', err));
+  });
+}
+
+export interface StorageStatus {
+  // Undefined where the browser has no say in it (no StorageManager)
+  persisted?: boolean;
+  usage?: number;
+  quota?: number;
+}
+
+export async function getStorageStatus(): Promise<StorageStatus> {
+  if (!navigator.storage) return {};
+  const [persisted, estimate] = await Promise.all([
+    navigator.storage.persisted?.(),
+    navigator.storage.estimate?.(),
+  ]);
+  return { persisted, usage: estimate?.usage, quota: estimate?.quota };
+}
+
+// Chrome grants this silently to installed or often-used sites; Firefox asks
+// the user. Returns whether storage is persistent afterwards.
+export async function requestPersistentStorage() {
+  if (!navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted()) return true;
+  try {
+    return await navigator.storage.persist();
+  } catch (err) {
+    console.error('Persistent storage request failed', err);
+    return false;
+  }
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+}
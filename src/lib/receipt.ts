@@ -0,0 +1,256 @@
+import { PAYMENT_METHOD_LABELS, type Sale } from '../types';
+import { formatDateTime } from './date';
+import { describeSaleItem, roundMoney } from './sales';
+import { code128Modules, code128Svg } from './code128';
+
+export type PaperWidth = 58 | 80;
+
+// How the print button reaches the printer: the browser's print dialog, or
+// raw ESC/POS bytes handed to a printer app
+export type PrintMode = 'browser' | 'escpos';
+
+export const PRINT_MODE_LABELS: Record<PrintMode, string> = {
+  browser: '系统打印',
+  escpos: '热敏打印机 (ESC/POS)',
+};
+
+export interface ReceiptSettings {
+  shopName: string;
+  // Free text under the shop name: address, phone
+  header: string;
+  footer: string;
+  paperWidth: PaperWidth;
+  printMode: PrintMode;
+}
+
+export const DEFAULT_RECEIPT_SETTINGS: ReceiptSettings = {
+  shopName: '',
+  header: '',
+  footer: '谢谢惠顾，欢迎再次光临',
+  paperWidth: 58,
+  printMode: 'browser',
+};
+
+// Characters per row in the printer's standard font; a Chinese character
+// takes two
+export const PAPER_COLUMNS: Record<PaperWidth, number> = {
+  58: 32,
+  80: 48,
+};
+
+// Print head width in dots at 203 dpi, also used as the image width
+const PAPER_DOTS: Record<PaperWidth, number> = {
+  58: 384,
+  80: 576,
+};
+
+export type ReceiptLine =
+  | { kind: 'text'; left: string; right?: string; center?: boolean; emphasis?: boolean }
+  | { kind: 'rule' }
+  // Scanned to find the order again, e.g. for a return
+  | { kind: 'barcode'; value: string };
+
+function money(value: number) {
+  return `¥${value.toFixed(2)}`;
+}
+
+function textLines(text: string, center = true): ReceiptLine[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => ({ kind: 'text', left: line, center }));
+}
+
+// Everything the customer gets, independent of how it is printed
+export function buildReceipt(sale: Sale, settings: ReceiptSettings): ReceiptLine[] {
+  const lines: ReceiptLine[] = [];
+  const text = (left: string, right?: string, emphasis?: boolean): ReceiptLine => ({ kind: 'text', left, right, emphasis });
+
+  lines.push({ kind: 'text', left: settings.shopName.trim() || '收银小票', center: true, emphasis: true });
+  lines.push(...textLines(settings.header));
+  lines.push({ kind: 'rule' });
+  lines.push(text(`单号: ${sale.orderNo}`));
+  lines.push(text(`时间: ${formatDateTime(sale.createdAt)}`));
+  if (sale.operator) lines.push(text(`收银员: ${sale.operator}`));
+  lines.push({ kind: 'rule' });
+
+  for (const item of sale.items) {
+    lines.push(text(item.name));
+    lines.push(text(`  ${describeSaleItem(item)}`, money(item.subtotal)));
+    for (const promotion of item.promotions ?? []) {
+      lines.push(text(`  ${promotion.name}`, `-${money(promotion.amount)}`));
+    }
+  }
+  lines.push({ kind: 'rule' });
+
+  const gross = sale.grossAmount ?? sale.totalAmount;
+  const roundingOff = sale.roundingOff ?? 0;
+  const discount = roundMoney((sale.discountAmount ?? 0) - roundingOff);
+  lines.push(text(`共 ${sale.itemCount} 件`, money(gross)));
+  if (discount > 0) lines.push(text('优惠', `-${money(discount)}`));
+  if (roundingOff > 0) lines.push(text('抹零', `-${money(roundingOff)}`));
+  lines.push(text('应收', money(sale.totalAmount), true));
+  lines.push(text(PAYMENT_METHOD_LABELS[sale.paymentMethod], money(sale.cashTendered ?? sale.totalAmount)));
+  if (sale.change) lines.push(text('找零', money(sale.change)));
+  lines.push({ kind: 'barcode', value: sale.orderNo });
+
+  if (settings.footer.trim()) {
+    lines.push({ kind: 'rule' });
+    lines.push(...textLines(settings.footer));
+  }
+  return lines;
+}
+
+// Columns a string takes on a thermal printer. Past ASCII everything is
+// printed as a double-byte GBK glyph, × and · included.
+export function textWidth(text: string) {
+  let width = 0;
+  for (const char of text) width += char.codePointAt(0)! >= 0x80 ? 2 : 1;
+  return width;
+}
+
+function wrap(text: string, columns: number) {
+  const rows: string[] = [];
+  let row = '';
+  for (const char of text) {
+    if (textWidth(row + char) > columns) {
+      rows.push(row);
+      row = '';
+    }
+    row += char;
+  }
+  rows.push(row);
+  return rows;
+}
+
+// A line broken into printer rows; the amount goes on its own row when it
+// doesn't fit next to the text
+export function receiptRows(line: ReceiptLine, columns: number): string[] {
+  if (line.kind === 'rule') return ['-'.repeat(columns)];
+  if (line.kind === 'barcode') return receiptRows({ kind: 'text', left: line.value, center: true }, columns);
+  if (line.center) {
+    return wrap(line.left, columns).map(row => ' '.repeat(Math.floor((columns - textWidth(row)) / 2)) + row);
+  }
+  const right = line.right ?? '';
+  const rows = wrap(line.left, columns);
+  const last = rows[rows.length - 1];
+  if (!right) return rows;
+  if (textWidth(last) + 1 + textWidth(right) <= columns) {
+    rows[rows.length - 1] = last + ' '.repeat(columns - textWidth(last) - textWidth(right)) + right;
+  } else {
+    rows.push(' '.repeat(Math.max(0, columns - textWidth(right))) + right);
+  }
+  return rows;
+}
+
+export function receiptToText(lines: ReceiptLine[], paperWidth: PaperWidth = 58) {
+  return lines.flatMap(line => receiptRows(line, PAPER_COLUMNS[paperWidth])).join('\n');
+}
+
+export function escapeHtml(text: string) {
+  return text.replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]!);
+}
+
+// A standalone page sized to the paper roll, for the browser's print dialog
+// (which can also save it as PDF)
+export function receiptToHtml(lines: ReceiptLine[], paperWidth: PaperWidth = 58) {
+  const body = lines.map(line => {
+    if (line.kind === 'rule') return '<hr>';
+    if (line.kind === 'barcode') return `<div class="barcode">${code128Svg(line.value)}<div>${escapeHtml(line.value)}</div></div>`;
+    const classes = [line.center ? 'center' : '', line.emphasis ? 'emphasis' : ''].filter(Boolean).join(' ');
+    const right = line.right ? `<span>${escapeHtml(line.right)}</span>` : '';
+    return `<div class="row ${classes}"><span>${escapeHtml(line.left)}</span>${right}</div>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>收银小票</title>
+<style>
+  @page { size: ${paperWidth}mm auto; margin: 0; }
+  body { width: ${paperWidth - 8}mm; margin: 0 auto; padding: 4mm 0; font: 12px/1.5 sans-serif; color: #000; }
+  .row { display: flex; justify-content: space-between; gap: 8px; white-space: pre-wrap; }
+  .row span:last-child { text-align: right; }
+  .center { justify-content: center; text-align: center; }
+  .emphasis { font-size: 16px; font-weight: bold; }
+  hr { border: 0; border-top: 1px dashed #000; margin: 4px 0; }
+  .barcode { margin: 8px 0; text-align: center; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+// A PNG the width of the print head, for sharing in chat apps
+export async function receiptToImage(lines: ReceiptLine[], paperWidth: PaperWidth = 58): Promise<Blob> {
+  const width = PAPER_DOTS[paperWidth];
+  const columns = PAPER_COLUMNS[paperWidth];
+  const padding = 16;
+  // One Chinese character, two columns, fills a font-size square
+  const fontSize = Math.floor((width - padding * 2) / columns * 2);
+  const lineHeight = Math.round(fontSize * 1.4);
+
+  type Row = { text: string; right?: string; center?: boolean; emphasis?: boolean; rule?: boolean; barcode?: string };
+  const rows: Row[] = lines.flatMap((line): Row[] => {
+    if (line.kind === 'rule') return [{ text: '', rule: true }];
+    // Bars take two rows, the digits a third
+    if (line.kind === 'barcode') return [{ text: '', barcode: line.value }, { text: '' }, { text: line.value, center: true }];
+    if (line.center) return wrap(line.left, columns).map(text => ({ text, center: true, emphasis: line.emphasis }));
+    const all: Row[] = wrap(line.left, columns).map(text => ({ text, emphasis: line.emphasis }));
+    if (line.right) {
+      const last = all[all.length - 1];
+      if (textWidth(last.text) + 1 + textWidth(line.right) <= columns) last.right = line.right;
+      else all.push({ text: '', right: line.right, emphasis: line.emphasis });
+    }
+    return all;
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = padding * 2 + rows.length * lineHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#000';
+  ctx.strokeStyle = '#000';
+  ctx.textBaseline = 'middle';
+
+  rows.forEach((row, index) => {
+    const y = padding + index * lineHeight + lineHeight / 2;
+    if (row.rule) {
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      ctx.moveTo(padding, y);
+      ctx.lineTo(width - padding, y);
+      ctx.stroke();
+      return;
+    }
+    if (row.barcode) {
+      const modules = code128Modules(row.barcode);
+      const total = modules.reduce((sum, w) => sum + w, 0);
+      // Whole dots per module keep the bars crisp for scanners
+      const dots = Math.max(1, Math.floor((width - padding * 2) / total));
+      let x = Math.floor((width - dots * total) / 2);
+      modules.forEach((w, i) => {
+        if (i % 2 === 0) ctx.fillRect(x, y - lineHeight / 2, w * dots, lineHeight * 2);
+        x += w * dots;
+      });
+      return;
+    }
+    ctx.font = `${row.emphasis ? 'bold ' : ''}${fontSize}px sans-serif`;
+    ctx.textAlign = row.center ? 'center' : 'left';
+    ctx.fillText(row.text, row.center ? width / 2 : padding, y);
+    if (row.right) {
+      ctx.textAlign = 'right';
+      ctx.fillText(row.right, width - padding, y);
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('生成图片失败')), 'image/png');
+  });
+}
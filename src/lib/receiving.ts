@@ -0,0 +1,48 @@
+import type { Product, Receiving, ReceivingItem } from '../types';
+import { generateOrderNo, roundMoney } from './sales';
+
+export function addToReceiving(items: ReceivingItem[], product: Product, quantity = 1): ReceivingItem[] {
+  const existing = items.find(item => item.productId === product.id);
+  if (existing) {
+    return items.map(item => item === existing ? { ...item, quantity: item.quantity + quantity } : item);
+  }
+  return [...items, { productId: product.id, barcode: product.barcode, name: product.name, quantity }];
+}
+
+export function receivingCost(items: ReceivingItem[]) {
+  // Only meaningful when every line carries a cost price
+  if (items.length === 0 || items.some(item => item.costPrice === undefined)) return undefined;
+  return roundMoney(items.reduce((sum, item) => sum + item.costPrice! * item.quantity, 0));
+}
+
+// Where a delivery came from, when it is known beyond the typed-in name
+export interface ReceivingSource {
+  supplierId?: string;
+  purchaseOrderId?: string;
+}
+
+export function buildReceiving(
+  items: ReceivingItem[],
+  supplier: string,
+  operator?: string,
+  source: ReceivingSource = {},
+  date = new Date()
+): Receiving {
+  const lines = items.filter(item => item.quantity > 0);
+  if (lines.length === 0) {
+    throw new Error('入库单为空');
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    receivingNo: `RK${generateOrderNo(date)}`,
+    createdAt: date.toISOString(),
+    supplier: supplier.trim() || undefined,
+    supplierId: source.supplierId,
+    purchaseOrderId: source.purchaseOrderId,
+    items: lines,
+    itemCount: lines.reduce((sum, item) => sum + item.quantity, 0),
+    totalCost: receivingCost(lines),
+    operator: operator || undefined,
+  };
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { createMockRecognizer, parseSuggestion, RecognitionError } from './recognition';
+
+const REQUEST = { image: '', mimeType: 'image/jpeg', barcode: '6901234567892', categories: ['饮料'] };
+
+describe('createMockRecognizer', () => {
+  it('answers with the configured product', async () => {
+    const recognizer = createMockRecognizer({ name: '农夫山泉', category: '饮料', spec: '550ml' }, 0);
+    expect(await recognizer.recognize(REQUEST)).toEqual({ name: '农夫山泉', category: '饮料', spec: '550ml' });
+  });
+
+  it('hands out a fresh copy each time', async () => {
+    const recognizer = createMockRecognizer(undefined, 0);
+    const first = await recognizer.recognize(REQUEST);
+    first.name = '改过';
+    expect((await recognizer.recognize(REQUEST)).name).toBe('测试商品');
+  });
+});
+
+describe('parseSuggestion', () => {
+  it('keeps only non-empty string fields, trimmed', () => {
+    expect(parseSuggestion('{"name":" 可口可乐 ","category":"","spec":500,"extra":"x"}')).toEqual({ name: '可口可乐' });
+  });
+
+  it('rejects output that is not JSON', () => {
+    expect(() => parseSuggestion('可口可乐')).toThrow(RecognitionError);
+    expect(() => parseSuggestion(undefined)).toThrow(RecognitionError);
+  });
+
+  it('rejects a reply with nothing recognised', () => {
+    expect(() => parseSuggestion('{"name":"","spec":null}')).toThrow('没能认出这个商品');
+  });
+});
@@ -0,0 +1,132 @@
+// Reading a product off a photo of its package. The app only talks to the
+// ProductRecognizer interface; Gemini is one implementation and a local mock
+// (PRODUCT_RECOGNIZER=mock) stands in for it during development.
+
+// What was read off the package; any field can be missing
+export interface ProductSuggestion {
+  name?: string;
+  category?: string;
+  spec?: string;
+}
+
+export interface RecognitionRequest {
+  // Base64 without the data: prefix
+  image: string;
+  mimeType: string;
+  barcode?: string;
+  // Existing categories, so suggestions land in one of them where they fit
+  categories: string[];
+}
+
+export interface ProductRecognizer {
+  recognize(request: RecognitionRequest): Promise<ProductSuggestion>;
+}
+
+// Carries a message for the cashier; anything else is a bug
+export class RecognitionError extends Error {}
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+function prompt(request: RecognitionRequest) {
+  return [
+    '这是一家便利店的商品包装照片。请识别商品，用简体中文回答：',
+    'name：商品名称，含品牌，不含规格，例如“可口可乐”；',
+    'spec：规格，例如“500ml”“330ml×6”“100g”；',
+    request.categories.length > 0
+      ? `category：商品分类，尽量从这些分类中选择：${request.categories.join('、')}；`
+      : 'category：商品分类，例如“饮料”“零食”“日用品”；',
+    request.barcode ? `包装上的条码是 ${request.barcode}。` : '',
+    '看不清的字段留空，不要猜测。',
+  ].join('\n');
+}
+
+// Model output is untrusted: keep only non-empty strings
+export function parseSuggestion(text: string | undefined): ProductSuggestion {
+  let value: unknown;
+  try {
+    value = JSON.parse(text ?? '');
+  } catch {
+    throw new RecognitionError('AI 返回的结果无法识别，请手动填写');
+  }
+  if (typeof value !== 'object' || value === null) throw new RecognitionError('AI 返回的结果无法识别，请手动填写');
+  const suggestion: ProductSuggestion = {};
+  for (const field of ['name', 'category', 'spec'] as const) {
+    const v = (value as Record<string, unknown>)[field];
+    if (typeof v === 'string' && v.trim()) suggestion[field] = v.trim();
+  }
+  if (!suggestion.name && !suggestion.category && !suggestion.spec) {
+    throw new RecognitionError('没能认出这个商品，请换个角度再拍或手动填写');
+  }
+  return suggestion;
+}
+
+export function createGeminiRecognizer(apiKey: string, model = GEMINI_MODEL): ProductRecognizer {
+  return {
+    async recognize(request) {
+      if (!navigator.onLine) throw new RecognitionError('网络不可用，请手动填写');
+      let text: string | undefined;
+      try {
+        // Loaded on first use; the SDK is only needed when a photo is taken
+        const { GoogleGenAI, Type } = await import('@google/genai');
+        const ai = new GoogleGenAI({ apiKey });
+        const response = await ai.models.generateContent({
+          model,
+          contents: [{
+            role: 'user',
+            parts: [
+              { inlineData: { mimeType: request.mimeType, data: request.image } },
+              { text: prompt(request) },
+            ],
+          }],
+          config: {
+            responseMimeType: 'application/json',
+            responseSchema: {
+              type: Type.OBJECT,
+              properties: {
+                name: { type: Type.STRING },
+                category: { type: Type.STRING },
+                spec: { type: Type.STRING },
+              },
+            },
+          },
+        });
+        text = response.text;
+      } catch {
+        throw new RecognitionError('AI 识别失败，请检查网络后重试');
+      }
+      return parseSuggestion(text);
+    },
+  };
+}
+
+// Answers every photo with the same product after a short pause
+export function createMockRecognizer(
+  suggestion: ProductSuggestion = { name: '测试商品', category: '饮料', spec: '500ml' },
+  delay = 600
+): ProductRecognizer {
+  return {
+    recognize: () => new Promise(resolve => setTimeout(() => resolve({ ...suggestion }), delay)),
+  };
+}
+
+// Undefined when there is no key, so the feature can say so instead of failing
+export function defaultRecognizer(): ProductRecognizer | undefined {
+  if (process.env.PRODUCT_RECOGNIZER === 'mock') return createMockRecognizer();
+  const apiKey = process.env.GEMINI_API_KEY;
+  // .env.example ships a placeholder, not a key
+  if (!apiKey || apiKey === 'MY_GEMINI_API_KEY') return undefined;
+  return createGeminiRecognizer(apiKey);
+}
+
+// Phone photos are several MB; the model reads a label just as well at 1024px
+export async function photoToRequestImage(file: Blob, maxSize = 1024) {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  const dataUrl = canvas.toDataURL('image/jpeg', 0.85);
+  return { image: dataUrl.slice(dataUrl.indexOf(',') + 1), mimeType: 'image/jpeg' };
+}
@@ -0,0 +1,101 @@
+import type { Refund, RefundItem, Sale, SaleItem } from '../types';
+import { generateOrderNo, roundMoney } from './sales';
+
+// What is still left to give back on one line of a sale
+export interface RefundableLine {
+  lineIndex: number;
+  item: SaleItem;
+  quantity: number;
+  amount: number;
+}
+
+// One line picked for a refund, quantity in units of stock
+export interface RefundSelection {
+  lineIndex: number;
+  quantity: number;
+  restock: boolean;
+}
+
+export function refundsForSale(refunds: Refund[], saleId: string) {
+  return refunds.filter(refund => refund.saleId === saleId);
+}
+
+export function refundableLines(sale: Sale, refunds: Refund[]): RefundableLine[] {
+  const earlier = refundsForSale(refunds, sale.id).flatMap(refund => refund.items);
+  return sale.items.map((item, lineIndex) => {
+    const done = earlier.filter(r => r.lineIndex === lineIndex);
+    return {
+      lineIndex,
+      item,
+      quantity: Math.max(0, roundQuantity(item.quantity - done.reduce((sum, r) => sum + r.quantity, 0))),
+      amount: Math.max(0, roundMoney(item.subtotal - done.reduce((sum, r) => sum + r.amount, 0))),
+    };
+  });
+}
+
+// Weights are kept to the gram
+function roundQuantity(quantity: number) {
+  return Math.round(quantity * 1000) / 1000;
+}
+
+// Pro rata of what the line actually cost, discounts included. Taking the
+// rest of a line refunds exactly what is left of it, so partial refunds never
+// add up to more than was paid.
+export function refundAmount(line: RefundableLine, quantity: number) {
+  if (quantity >= line.quantity) return line.amount;
+  return Math.min(line.amount, roundMoney(line.item.subtotal * quantity / line.item.quantity));
+}
+
+export function buildRefund(
+  sale: Sale,
+  refunds: Refund[],
+  selections: RefundSelection[],
+  reason?: string,
+  operator?: string,
+  date = new Date()
+): Refund {
+  const lines = refundableLines(sale, refunds);
+  const items: RefundItem[] = [];
+  for (const selection of selections) {
+    if (!(selection.quantity > 0)) continue;
+    const line = lines[selection.lineIndex];
+    if (!line) throw new Error('退货商品不在原订单中');
+    if (selection.quantity > line.quantity + 1e-9) {
+      throw new Error(`「${line.item.name}」最多可退 ${line.quantity}`);
+    }
+    items.push({
+      lineIndex: selection.lineIndex,
+      productId: line.item.productId,
+      barcode: line.item.barcode,
+      name: line.item.name,
+      category: line.item.category,
+      quantity: selection.quantity,
+      amount: refundAmount(line, selection.quantity),
+      restock: selection.restock,
+    });
+  }
+  if (items.length === 0) {
+    throw new Error('请选择要退的商品');
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    refundNo: `TH${generateOrderNo(date)}`,
+    saleId: sale.id,
+    orderNo: sale.orderNo,
+    createdAt: date.toISOString(),
+    items,
+    // A weighed line counts as one piece, as on the sale
+    itemCount: items.reduce((sum, item) => sum + (sale.items[item.lineIndex].unit ? 1 : item.quantity), 0),
+    totalAmount: roundMoney(items.reduce((sum, item) => sum + item.amount, 0)),
+    paymentMethod: sale.paymentMethod,
+    reason: reason?.trim() || undefined,
+    operator: operator || undefined,
+  };
+}
+
+// Order numbers are what the receipt prints, as text and as a barcode
+export function findSaleByOrderNo(sales: Sale[], orderNo: string) {
+  const code = orderNo.trim();
+  return code ? sales.find(sale => sale.orderNo === code) : undefined;
+}
@@ -0,0 +1,69 @@
+import type { Product, Sale } from '../types';
+import { minStockOf, recentSalesByProduct, RECENT_SALES_DAYS } from './productSearch';
+import { toCsv, type CsvCell } from './csv';
+import { formatDateTime } from './date';
+
+// A suggested order should last this long at the recent selling rate
+export const REORDER_COVER_DAYS = 14;
+
+export interface ReorderSuggestion {
+  product: Product;
+  minStock: number;
+  // Average units sold per day over the recent sales window
+  dailySales: number;
+  // Undefined when the product hasn't sold recently
+  daysLeft?: number;
+  suggestedQty: number;
+}
+
+export function needsReorder(product: Product) {
+  return product.stock <= minStockOf(product);
+}
+
+export function buildReorderSuggestions(products: Product[], sales: Sale[], now = new Date()): ReorderSuggestion[] {
+  const recentSales = recentSalesByProduct(sales, RECENT_SALES_DAYS, now);
+  return products
+    .filter(needsReorder)
+    .map(product => {
+      const minStock = minStockOf(product);
+      const dailySales = (recentSales.get(product.id) ?? 0) / RECENT_SALES_DAYS;
+      const available = Math.max(0, product.stock);
+      // Enough to cover the selling rate and get back above the minimum,
+      // rounded up to whole order units when the product has one
+      const needed = Math.max(1, Math.ceil(dailySales * REORDER_COVER_DAYS + minStock - available));
+      const unit = product.reorderQty && product.reorderQty > 0 ? product.reorderQty : 1;
+      return {
+        product,
+        minStock,
+        dailySales,
+        daysLeft: dailySales > 0 ? available / dailySales : undefined,
+        suggestedQty: Math.ceil(needed / unit) * unit,
+      };
+    })
+    .sort((a, b) => (a.daysLeft ?? Infinity) - (b.daysLeft ?? Infinity) || a.product.stock - b.product.stock);
+}
+
+export function reorderToCsv(suggestions: ReorderSuggestion[], date = new Date()) {
+  const rows: CsvCell[][] = [
+    ['采购清单', formatDateTime(date.toISOString())],
+    [],
+    ['商品', '条码', '分类', '当前库存', '最低库存', '日均销量', '建议采购'],
+    ...suggestions.map(s => [
+      s.product.name,
+      s.product.barcode,
+      s.product.category ?? '',
+      s.product.stock,
+      s.minStock,
+      s.dailySales.toFixed(1),
+      s.suggestedQty,
+    ]),
+  ];
+  return toCsv(rows);
+}
+
+export function reorderToText(suggestions: ReorderSuggestion[], date = new Date()) {
+  return [
+    `采购清单 ${formatDateTime(date.toISOString())}`,
+    ...suggestions.map(s => `${s.product.name} × ${s.suggestedQty}（现有 ${s.product.stock}）`),
+  ].join('\n');
+}
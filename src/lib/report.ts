@@ -0,0 +1,336 @@
+import { PAYMENT_METHOD_LABELS, type Product, type Refund, type Sale } from '../types';
+import { lineUnitCount, roundMoney } from './sales';
+import { formatMarginRate, summarizeProfit, type ProfitSummary } from './costing';
+import { toCsv, type CsvCell } from './csv';
+import { formatDateTime, toDateKey } from './date';
+
+export const UNCATEGORIZED = '未分类';
+
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+export interface ProductSales {
+  productId: string;
+  name: string;
+  barcode: string;
+  category: string;
+  units: number;
+  revenue: number;
+  // Missing when some of its lines were sold without a known cost
+  profit?: number;
+}
+
+export interface CategorySales {
+  category: string;
+  units: number;
+  revenue: number;
+}
+
+export interface SalesReport {
+  range: DateRange;
+  orderCount: number;
+  // Net of refunds
+  revenue: number;
+  refundCount: number;
+  refundAmount: number;
+  averageTicket: number;
+  units: number;
+  profit: ProfitSummary;
+  byProduct: ProductSales[];
+  byCategory: CategorySales[];
+  bestSellers: ProductSales[];
+  worstSellers: ProductSales[];
+}
+
+export function filterSalesByRange<T extends { createdAt: string }>(sales: T[], range: DateRange) {
+  const from = range.from.getTime();
+  const to = range.to.getTime();
+  return sales.filter(sale => {
+    const time = new Date(sale.createdAt).getTime();
+    return time >= from && time <= to;
+  });
+}
+
+// Products that exist in the inventory but sold nothing in the range are
+// included with zero units, so the slowest movers show up as worst sellers.
+// Refunds count on the day they were given, against whatever they returned.
+// 件数 counts a weighed line as one piece, the same as a sale's itemCount.
+export function buildSalesReport(
+  sales: Sale[],
+  products: Product[],
+  range: DateRange,
+  refunds: Refund[] = [],
+  topN = 5
+): SalesReport {
+  const inRange = filterSalesByRange(sales, range);
+  const refundsInRange = filterSalesByRange(refunds, range);
+  const byProductMap = new Map<string, ProductSales>();
+
+  for (const product of products) {
+    byProductMap.set(product.id, {
+      productId: product.id,
+      name: product.name,
+      barcode: product.barcode,
+      category: product.category || UNCATEGORIZED,
+      units: 0,
+      revenue: 0,
+    });
+  }
+
+  const entryFor = (item: { productId: string; name: string; barcode: string; category?: string }) => {
+    let entry = byProductMap.get(item.productId);
+    if (!entry) {
+      // Product was deleted since the sale; fall back to the sale snapshot
+      entry = {
+        productId: item.productId,
+        name: item.name,
+        barcode: item.barcode,
+        category: item.category || UNCATEGORIZED,
+        units: 0,
+        revenue: 0,
+      };
+      byProductMap.set(item.productId, entry);
+    }
+    return entry;
+  };
+
+  // Products with a line of unknown cost get no profit figure at all
+  const uncosted = new Set<string>();
+  const addProfit = (entry: ProductSales, amount: number) => {
+    entry.profit = roundMoney((entry.profit ?? 0) + amount);
+  };
+  for (const sale of inRange) {
+    for (const item of sale.items) {
+      const entry = entryFor(item);
+      entry.units += lineUnitCount(item);
+      entry.revenue = roundMoney(entry.revenue + item.subtotal);
+      if (item.unitCost === undefined) uncosted.add(item.productId);
+      else addProfit(entry, item.subtotal - item.unitCost * item.quantity);
+    }
+  }
+  const saleById = new Map(sales.map(sale => [sale.id, sale]));
+  for (const refund of refundsInRange) {
+    for (const item of refund.items) {
+      const entry = entryFor(item);
+      const line = saleById.get(refund.saleId)?.items[item.lineIndex];
+      entry.units -= lineUnitCount({ quantity: item.quantity, unit: line?.unit });
+      entry.revenue = roundMoney(entry.revenue - item.amount);
+      const unitCost = line?.unitCost;
+      if (unitCost === undefined) uncosted.add(item.productId);
+      else addProfit(entry, -item.amount + (item.restock ? unitCost * item.quantity : 0));
+    }
+  }
+  for (const productId of uncosted) {
+    byProductMap.get(productId)!.profit = undefined;
+  }
+
+  const byProduct = Array.from(byProductMap.values()).sort((a, b) => b.revenue - a.revenue || b.units - a.units);
+
+  const byCategoryMap = new Map<string, CategorySales>();
+  for (const entry of byProduct) {
+    const category = byCategoryMap.get(entry.category) ?? { category: entry.category, units: 0, revenue: 0 };
+    category.units += entry.units;
+    category.revenue = roundMoney(category.revenue + entry.revenue);
+    byCategoryMap.set(entry.category, category);
+  }
+  const byCategory = Array.from(byCategoryMap.values()).sort((a, b) => b.revenue - a.revenue);
+
+  const refundAmount = roundMoney(refundsInRange.reduce((sum, refund) => sum + refund.totalAmount, 0));
+  const revenue = roundMoney(inRange.reduce((sum, sale) => sum + sale.totalAmount, 0) - refundAmount);
+  const orderCount = inRange.length;
+
+  return {
+    range,
+    orderCount,
+    revenue,
+    refundCount: refundsInRange.length,
+    refundAmount,
+    averageTicket: orderCount ? roundMoney(revenue / orderCount) : 0,
+    units: byProduct.reduce((sum, entry) => sum + entry.units, 0),
+    profit: summarizeProfit(inRange, refundsInRange, sales),
+    byProduct,
+    byCategory,
+    bestSellers: byProduct.filter(entry => entry.units > 0).slice(0, topN),
+    worstSellers: [...byProduct].sort((a, b) => a.units - b.units || a.revenue - b.revenue).slice(0, topN),
+  };
+}
+
+export function formatRange(range: DateRange) {
+  const from = toDateKey(range.from);
+  const to = toDateKey(range.to);
+  return from === to ? from : `${from} 至 ${to}`;
+}
+
+export function reportToText(report: SalesReport) {
+  const lines = [
+    `【销售报表】${formatRange(report.range)}`,
+    `营业额：¥${report.revenue.toFixed(2)}`,
+    `订单数：${report.orderCount}`,
+    `客单价：¥${report.averageTicket.toFixed(2)}`,
+    `销售件数：${report.units}`,
+  ];
+  if (report.refundCount > 0) {
+    lines.splice(2, 0, `退款：-¥${report.refundAmount.toFixed(2)}（${report.refundCount} 笔）`);
+  }
+  lines.push(...profitLines(report.profit));
+
+  if (report.byCategory.some(c => c.units > 0)) {
+    lines.push('', '— 分类销售 —');
+    for (const c of report.byCategory.filter(c => c.units > 0)) {
+      lines.push(`${c.category}：${c.units} 件 / ¥${c.revenue.toFixed(2)}`);
+    }
+  }
+  if (report.bestSellers.length > 0) {
+    lines.push('', '— 畅销商品 —');
+    report.bestSellers.forEach((p, i) => lines.push(`${i + 1}. ${p.name}：${p.units} 件 / ¥${p.revenue.toFixed(2)}`));
+  }
+  if (report.worstSellers.length > 0) {
+    lines.push('', '— 滞销商品 —');
+    report.worstSellers.forEach((p, i) => lines.push(`${i + 1}. ${p.name}：${p.units} 件`));
+  }
+  return lines.join('\n');
+}
+
+function profitLines(profit: ProfitSummary) {
+  if (profit.cost === 0 && profit.uncostedLines > 0) return ['毛利：未设置进价'];
+  const lines = [`毛利：¥${profit.profit.toFixed(2)}${profit.rate !== undefined ? `（毛利率 ${formatMarginRate({ profit: profit.profit, rate: profit.rate })}）` : ''}`];
+  if (profit.uncostedLines > 0) lines.push(`（${profit.uncostedLines} 行商品未设置进价，未计入毛利）`);
+  return lines;
+}
+
+export function reportToCsv(report: SalesReport) {
+  const rows: CsvCell[][] = [
+    ['报表期间', formatRange(report.range)],
+    ['营业额', report.revenue.toFixed(2)],
+    ['订单数', report.orderCount],
+    ['退款笔数', report.refundCount],
+    ['退款金额', (-report.refundAmount).toFixed(2)],
+    ['客单价', report.averageTicket.toFixed(2)],
+    ['销售件数', report.units],
+    ['销售成本', report.profit.cost.toFixed(2)],
+    ['毛利', report.profit.profit.toFixed(2)],
+    ['未设进价的销售行', report.profit.uncostedLines],
+    [],
+    ['商品', '条码', '分类', '销量', '销售额', '毛利'],
+    ...report.byProduct.map(p => [p.name, p.barcode, p.category, p.units, p.revenue.toFixed(2), p.profit?.toFixed(2) ?? '']),
+    [],
+    ['分类', '销量', '销售额'],
+    ...report.byCategory.map(c => [c.category, c.units, c.revenue.toFixed(2)]),
+  ];
+  return toCsv(rows);
+}
+
+// Refunds follow the sales as negative rows against the original order
+export function salesToCsv(sales: Sale[], refunds: Refund[] = []) {
+  const rows: CsvCell[][] = [['订单号', '时间', '支付方式', '商品', '条码', '单价', '数量', '小计', '订单金额']];
+  for (const sale of sales) {
+    for (const item of sale.items) {
+      rows.push([
+        sale.orderNo,
+        formatDateTime(sale.createdAt),
+        PAYMENT_METHOD_LABELS[sale.paymentMethod],
+        item.name,
+        item.barcode,
+        item.unitPrice.toFixed(2),
+        item.quantity,
+        item.subtotal.toFixed(2),
+        sale.totalAmount.toFixed(2),
+      ]);
+    }
+  }
+  for (const refund of refunds) {
+    for (const item of refund.items) {
+      rows.push([
+        `${refund.refundNo}（退 ${refund.orderNo}）`,
+        formatDateTime(refund.createdAt),
+        PAYMENT_METHOD_LABELS[refund.paymentMethod],
+        item.name,
+        item.barcode,
+        '',
+        -item.quantity,
+        (-item.amount).toFixed(2),
+        (-refund.totalAmount).toFixed(2),
+      ]);
+    }
+  }
+  return toCsv(rows);
+}
+
+export interface ValuationLine {
+  productId: string;
+  name: string;
+  barcode: string;
+  category?: string;
+  stock: number;
+  unitCost?: number;
+}
+
+export interface InventoryValuation {
+  // ISO timestamp the stock was valued at
+  at: string;
+  lines: (ValuationLine & { value: number })[];
+  byCategory: { category: string; stock: number; value: number; uncosted: number }[];
+  totalValue: number;
+  // Products in stock with no cost; they add nothing to the total
+  uncosted: number;
+}
+
+export function buildValuation(lines: ValuationLine[], at: string): InventoryValuation {
+  const valued = lines
+    .filter(line => line.stock > 0)
+    .map(line => ({ ...line, value: line.unitCost === undefined ? 0 : roundMoney(line.stock * line.unitCost) }))
+    .sort((a, b) => b.value - a.value);
+  const categories = new Map<string, InventoryValuation['byCategory'][number]>();
+  for (const line of valued) {
+    const name = line.category || UNCATEGORIZED;
+    const entry = categories.get(name) ?? { category: name, stock: 0, value: 0, uncosted: 0 };
+    entry.stock += line.stock;
+    entry.value = roundMoney(entry.value + line.value);
+    if (line.unitCost === undefined) entry.uncosted++;
+    categories.set(name, entry);
+  }
+  return {
+    at,
+    lines: valued,
+    byCategory: Array.from(categories.values()).sort((a, b) => b.value - a.value),
+    totalValue: roundMoney(valued.reduce((sum, line) => sum + line.value, 0)),
+    uncosted: valued.filter(line => line.unitCost === undefined).length,
+  };
+}
+
+// Today's figures straight from the catalogue, for when the server (and
+// with it the ledger for past dates) can't be reached
+export function currentValuationLines(products: Product[]): ValuationLine[] {
+  return products.map(product => ({
+    productId: product.id,
+    name: product.name,
+    barcode: product.barcode,
+    category: product.category,
+    stock: product.stock,
+    unitCost: product.costPrice,
+  }));
+}
+
+export function valuationToCsv(valuation: InventoryValuation) {
+  const rows: CsvCell[][] = [
+    ['估值时间', formatDateTime(valuation.at)],
+    ['库存金额', valuation.totalValue.toFixed(2)],
+    ['未设进价的商品', valuation.uncosted],
+    [],
+    ['分类', '库存', '金额'],
+    ...valuation.byCategory.map(c => [c.category, c.stock, c.value.toFixed(2)]),
+    [],
+    ['商品', '条码', '分类', '库存', '成本单价', '金额'],
+    ...valuation.lines.map(line => [
+      line.name,
+      line.barcode,
+      line.category || UNCATEGORIZED,
+      line.stock,
+      line.unitCost?.toFixed(4) ?? '',
+      line.value.toFixed(2),
+    ]),
+  ];
+  return toCsv(rows);
+}
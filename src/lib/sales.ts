@@ -0,0 +1,245 @@
+import type { AppliedPromotion, CartItem, Discount, Payment, Product, ProductBarcode, Promotion, RoundingMode, Sale, SaleItem } from '../types';
+import { evaluatePromotions } from './promotions';
+import { packLabel } from './barcodes';
+import { isWeighed, WEIGHT_UNIT } from './units';
+
+export function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+// Whole-order reductions picked at the till
+export interface OrderAdjustments {
+  discount?: Discount;
+  rounding?: RoundingMode;
+}
+
+export const ROUNDING_LABELS: Record<RoundingMode, string> = {
+  jiao: '抹分',
+  yuan: '抹角',
+};
+
+// A cart line with everything that applies to it worked out
+export interface PricedLine {
+  item: CartItem;
+  // List price times quantity
+  gross: number;
+  promotions: AppliedPromotion[];
+  promotionDiscount: number;
+  // The cashier's own line discount, taken from what promotions left
+  lineDiscount: number;
+  net: number;
+}
+
+export interface CartTotals {
+  lines: PricedLine[];
+  // Before any discount
+  gross: number;
+  promotionDiscount: number;
+  lineDiscount: number;
+  orderDiscount: number;
+  roundingOff: number;
+  // All reductions together
+  discount: number;
+  payable: number;
+}
+
+// Never more than the amount it applies to
+export function discountAmount(base: number, discount?: Discount) {
+  if (!discount || !(discount.value > 0)) return 0;
+  const amount = discount.type === 'percent' ? base * Math.min(discount.value, 100) / 100 : discount.value;
+  return roundMoney(Math.min(amount, base));
+}
+
+export function describeDiscount(discount: Discount) {
+  return discount.type === 'percent'
+    ? `${Math.round((100 - discount.value) * 10) / 100}折`
+    : `减 ¥${discount.value}`;
+}
+
+export function packPrice(product: Pick<Product, 'price'>, pack: ProductBarcode) {
+  return pack.price ?? roundMoney(product.price * pack.factor);
+}
+
+// Price of one of whatever the line counts: a piece, a kg or a pack
+export function linePrice(item: CartItem) {
+  return item.pack ? packPrice(item.product, item.pack) : item.product.price;
+}
+
+// Singles and cases of one product are separate lines
+export function cartLineKey(item: Pick<CartItem, 'product' | 'pack'>) {
+  return item.pack ? `${item.product.id}:${item.pack.barcode}` : item.product.id;
+}
+
+// Stock the line takes
+export function lineUnits(item: CartItem) {
+  return item.quantity * (item.pack?.factor ?? 1);
+}
+
+export function lineGross(item: CartItem) {
+  return roundMoney(linePrice(item) * item.quantity);
+}
+
+export function priceLines(items: CartItem[], promotions: Promotion[] = [], now = new Date()): PricedLine[] {
+  const applied = evaluatePromotions(items, promotions, now);
+  return items.map((item, index) => {
+    const gross = lineGross(item);
+    const promotionDiscount = roundMoney(applied[index].reduce((sum, p) => sum + p.amount, 0));
+    const afterPromotions = roundMoney(gross - promotionDiscount);
+    const lineDiscount = discountAmount(afterPromotions, item.discount);
+    return {
+      item,
+      gross,
+      promotions: applied[index],
+      promotionDiscount,
+      lineDiscount,
+      net: roundMoney(afterPromotions - lineDiscount),
+    };
+  });
+}
+
+// The part of the amount below the rounding unit, counted in whole 分 to
+// avoid floating point leftovers
+export function roundingOff(amount: number, mode?: RoundingMode) {
+  if (!mode) return 0;
+  const unit = mode === 'jiao' ? 10 : 100;
+  return (Math.round(amount * 100) % unit) / 100;
+}
+
+export function cartTotals(
+  items: CartItem[],
+  adjustments: OrderAdjustments = {},
+  promotions: Promotion[] = [],
+  now = new Date()
+): CartTotals {
+  const lines = priceLines(items, promotions, now);
+  const gross = roundMoney(lines.reduce((sum, line) => sum + line.gross, 0));
+  const promotionDiscount = roundMoney(lines.reduce((sum, line) => sum + line.promotionDiscount, 0));
+  const afterLines = roundMoney(lines.reduce((sum, line) => sum + line.net, 0));
+  const orderDiscount = discountAmount(afterLines, adjustments.discount);
+  const afterOrder = roundMoney(afterLines - orderDiscount);
+  const rounding = roundingOff(afterOrder, adjustments.rounding);
+  const payable = roundMoney(afterOrder - rounding);
+  return {
+    lines,
+    gross,
+    promotionDiscount,
+    lineDiscount: roundMoney(gross - promotionDiscount - afterLines),
+    orderDiscount,
+    roundingOff: rounding,
+    discount: roundMoney(gross - payable),
+    payable,
+  };
+}
+
+// Price and quantity as rung up: ¥60 x 1箱(24瓶), ¥12.8 x 0.42kg
+export function describeSaleItem(item: SaleItem) {
+  if (item.pack) return `¥${item.pack.price} x ${item.quantity / item.pack.factor}${item.pack.unit}`;
+  const quantity = item.unit ? `${Number(item.quantity.toFixed(3))}${item.unit}` : item.quantity;
+  return `¥${item.unitPrice} x ${quantity}`;
+}
+
+function pad(value: number, length = 2) {
+  return String(value).padStart(length, '0');
+}
+
+// Pieces a line adds to 件数: a weighed line counts as one piece, not as
+// its kilograms
+export function lineUnitCount(item: Pick<SaleItem, 'quantity' | 'unit'>) {
+  return item.unit === WEIGHT_UNIT ? 1 : item.quantity;
+}
+
+// Numeric so it can later be printed and scanned as a receipt barcode. A
+// till code keeps two phones selling in the same second apart; without one
+// two random digits stand in.
+export function generateOrderNo(date = new Date(), till?: string) {
+  return [
+    date.getFullYear(),
+    pad(date.getMonth() + 1),
+    pad(date.getDate()),
+    pad(date.getHours()),
+    pad(date.getMinutes()),
+    pad(date.getSeconds()),
+    till ?? pad(Math.floor(Math.random() * 100)),
+  ].join('');
+}
+
+export function buildSale(
+  items: CartItem[],
+  payment: Payment,
+  operator?: string,
+  adjustments: OrderAdjustments = {},
+  promotions: Promotion[] = [],
+  date = new Date(),
+  till?: string
+): Sale {
+  if (items.length === 0) {
+    throw new Error('购物车为空');
+  }
+  if (items.some(item => !(item.quantity > 0))) {
+    throw new Error('商品数量无效');
+  }
+
+  const totals = cartTotals(items, adjustments, promotions, date);
+  const totalAmount = totals.payable;
+  const afterLines = roundMoney(totals.gross - totals.promotionDiscount - totals.lineDiscount);
+
+  // Order discount and 抹零 are spread over the lines by amount, so revenue
+  // per product in reports still adds up to what was actually paid
+  const orderReduction = roundMoney(totals.orderDiscount + totals.roundingOff);
+  let remaining = orderReduction;
+  const saleItems = totals.lines.map(({ item, gross, net, promotions: applied }, index) => {
+    const share = index === items.length - 1
+      ? remaining
+      : afterLines > 0 ? roundMoney(orderReduction * net / afterLines) : 0;
+    remaining = roundMoney(remaining - share);
+    const subtotal = roundMoney(net - share);
+    const discount = roundMoney(gross - subtotal);
+    return {
+      productId: item.product.id,
+      barcode: item.product.barcode,
+      name: item.product.name,
+      category: item.product.category,
+      unitPrice: item.product.price,
+      ...(item.product.costPrice !== undefined ? { unitCost: item.product.costPrice } : {}),
+      quantity: lineUnits(item),
+      ...(isWeighed(item.product) ? { unit: WEIGHT_UNIT } : {}),
+      ...(item.pack ? {
+        pack: {
+          barcode: item.pack.barcode,
+          unit: packLabel(item.product, item.pack),
+          factor: item.pack.factor,
+          price: packPrice(item.product, item.pack),
+        },
+      } : {}),
+      ...(discount > 0 ? { discount } : {}),
+      ...(applied.length > 0 ? { promotions: applied } : {}),
+      subtotal,
+    };
+  });
+
+  const sale: Sale = {
+    id: crypto.randomUUID(),
+    orderNo: generateOrderNo(date, till),
+    createdAt: date.toISOString(),
+    items: saleItems,
+    itemCount: saleItems.reduce((sum, item) => sum + lineUnitCount(item), 0),
+    grossAmount: totals.gross,
+    discountAmount: totals.discount,
+    ...(adjustments.discount && totals.orderDiscount > 0 ? { orderDiscount: adjustments.discount } : {}),
+    ...(totals.roundingOff > 0 ? { roundingOff: totals.roundingOff } : {}),
+    totalAmount,
+    paymentMethod: payment.method,
+    operator: operator || undefined,
+  };
+
+  if (payment.method === 'cash') {
+    const tendered = payment.cashTendered ?? totalAmount;
+    if (tendered < totalAmount) {
+      throw new Error('实收金额不足');
+    }
+    sale.cashTendered = roundMoney(tendered);
+    sale.change = roundMoney(tendered - totalAmount);
+  }
+
+  return sale;
+}
@@ -0,0 +1,83 @@
+import type { Product } from '../types';
+import { isValidEan13 } from './gtin';
+
+// In-store labels printed by the shop scale: an EAN-13 whose leading digits
+// mark it as a scale label, followed by the item's PLU, then the weight or
+// the price, then the check digit. Scale brands lay these out differently,
+// so the layout is configurable.
+export type ScaleValueType = 'weight' | 'price';
+
+export interface ScaleBarcodeFormat {
+  id: string;
+  prefix: string;
+  pluLength: number;
+  value: ScaleValueType;
+  valueLength: number;
+  // Weight in grams is 3 decimals of kg; price in 分 is 2 decimals of 元
+  decimals: number;
+}
+
+export const SCALE_VALUE_LABELS: Record<ScaleValueType, string> = {
+  weight: '重量',
+  price: '金额',
+};
+
+const EAN13_LENGTH = 13;
+
+// The two common layouts on Chinese label scales
+export const DEFAULT_SCALE_FORMATS: ScaleBarcodeFormat[] = [
+  { id: 'price', prefix: '20', pluLength: 5, value: 'price', valueLength: 5, decimals: 2 },
+  { id: 'weight', prefix: '21', pluLength: 5, value: 'weight', valueLength: 5, decimals: 3 },
+];
+
+export interface ScaleReading {
+  plu: string;
+  // kg, for weight labels
+  weight?: number;
+  // 元, for price labels
+  price?: number;
+}
+
+export function scaleFormatError(format: ScaleBarcodeFormat) {
+  if (!/^2\d*$/.test(format.prefix)) return '前缀需以 2 开头';
+  if (format.pluLength < 1 || format.valueLength < 1) return 'PLU 和数值至少 1 位';
+  if (format.prefix.length + format.pluLength + format.valueLength + 1 !== EAN13_LENGTH) {
+    return '前缀、PLU、数值和校验位加起来需为 13 位';
+  }
+  if (format.decimals < 0 || format.decimals >= format.valueLength) return '小数位数无效';
+  return undefined;
+}
+
+export function describeScaleFormat(format: ScaleBarcodeFormat) {
+  return `${format.prefix} + ${format.pluLength}位PLU + ${format.valueLength}位${SCALE_VALUE_LABELS[format.value]} + 校验位`;
+}
+
+export function parseScaleBarcode(code: string, formats: ScaleBarcodeFormat[]): ScaleReading | null {
+  if (!isValidEan13(code)) return null;
+  for (const format of formats) {
+    if (scaleFormatError(format) || !code.startsWith(format.prefix)) continue;
+    const pluStart = format.prefix.length;
+    const valueStart = pluStart + format.pluLength;
+    const plu = code.slice(pluStart, valueStart);
+    const value = Number(code.slice(valueStart, valueStart + format.valueLength)) / 10 ** format.decimals;
+    return format.value === 'weight' ? { plu, weight: value } : { plu, price: value };
+  }
+  return null;
+}
+
+// Scales pad PLUs with zeros, products may be entered without them
+function samePlu(a: string, b: string) {
+  return a.replace(/^0+/, '') === b.replace(/^0+/, '');
+}
+
+export function findByPlu(products: Product[], plu: string) {
+  return products.find(p => p.soldByWeight && p.plu && samePlu(p.plu, plu));
+}
+
+// Price labels are turned back into a weight so the line still comes to
+// exactly the printed price
+export function scaleQuantity(reading: ScaleReading, product: Product) {
+  if (reading.weight !== undefined) return reading.weight;
+  if (!(product.price > 0)) return undefined;
+  return Math.round(reading.price! / product.price * 1e6) / 1e6;
+}
@@ -0,0 +1,85 @@
+import { hasValidGtinCheckDigit } from './gtin';
+import type { WedgeOptions } from './keyboardWedge';
+
+// Scanning preferences and the checks run on every decoded code
+
+export type ScanFormat = 'ean13' | 'ean8' | 'upc' | 'code128' | 'qr';
+
+export const SCAN_FORMAT_LABELS: Record<ScanFormat, string> = {
+  ean13: 'EAN-13',
+  ean8: 'EAN-8',
+  upc: 'UPC-A / UPC-E',
+  code128: 'Code 128',
+  qr: '二维码',
+};
+
+export interface ScannerSettings {
+  // Keep the camera open after a hit instead of closing it
+  continuous: boolean;
+  // The same code read again within this many ms counts as one scan
+  cooldownMs: number;
+  // Fewer formats decode faster and misread less
+  formats: ScanFormat[];
+  // Drop EAN/UPC reads whose check digit doesn't add up
+  validateCheckDigit: boolean;
+  sound: boolean;
+  vibrate: boolean;
+  // Last camera picked on this device; the back camera when unset
+  cameraId?: string;
+  // A handheld scanner that types like a keyboard
+  wedge: WedgeOptions & { enabled: boolean };
+}
+
+// Code 128 stays on: receipts carry the order number in it
+export const DEFAULT_SCANNER_SETTINGS: ScannerSettings = {
+  continuous: true,
+  cooldownMs: 1500,
+  formats: ['ean13', 'ean8', 'upc', 'code128'],
+  validateCheckDigit: true,
+  sound: true,
+  vibrate: true,
+  // Scanners send a key every few ms; typing takes 100ms or more
+  wedge: { enabled: true, maxKeyInterval: 40, minLength: 6 },
+};
+
+// UPC-E is a compressed UPC-A; its check digit is the expanded code's
+export function expandUpcE(code: string) {
+  if (!/^[01]\d{7}$/.test(code)) return undefined;
+  const [system, d1, d2, d3, d4, d5, d6, check] = code;
+  let body: string;
+  if (d6 <= '2') body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+  else if (d6 === '3') body = `${d1}${d2}${d3}00000${d4}${d5}`;
+  else if (d6 === '4') body = `${d1}${d2}${d3}${d4}00000${d5}`;
+  else body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  return `${system}${body}${check}`;
+}
+
+// Only EAN/UPC carry a check digit we can recompute; anything else passes
+export function checkDigitValid(code: string, format?: ScanFormat | 'upce') {
+  switch (format) {
+    case 'ean13':
+    case 'ean8':
+    case 'upc':
+      return hasValidGtinCheckDigit(code);
+    case 'upce': {
+      const expanded = expandUpcE(code);
+      return !!expanded && hasValidGtinCheckDigit(expanded);
+    }
+    default:
+      return true;
+  }
+}
+
+// Cameras decode the same label many times a second; only the first read
+// of a code within the cooldown gets through
+export function createScanFilter(cooldownMs: number) {
+  let lastCode = '';
+  let lastTime = -Infinity;
+  return (code: string, now = Date.now()) => {
+    const duplicate = code === lastCode && now - lastTime < cooldownMs;
+    // Holding the label in view keeps it suppressed
+    lastCode = code;
+    lastTime = now;
+    return !duplicate;
+  };
+}
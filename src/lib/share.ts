@@ -0,0 +1,60 @@
+export function downloadFile(content: string | Blob, filename: string, type = 'application/json') {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export type ShareResult = 'shared' | 'copied' | 'cancelled';
+
+// Uses the system share sheet where available and falls back to the clipboard.
+export async function shareText(title: string, text: string): Promise<ShareResult> {
+  if (navigator.share) {
+    try {
+      await navigator.share({ title, text });
+      return 'shared';
+    } catch (err) {
+      console.error('Share failed', err);
+      return 'cancelled';
+    }
+  }
+  await navigator.clipboard.writeText(text);
+  return 'copied';
+}
+
+// Sends a file through the share sheet where the browser supports it,
+// otherwise saves it like a normal download.
+export async function shareFile(content: string | Blob, filename: string, type = 'application/json'): Promise<ShareResult | 'downloaded'> {
+  const file = new File([content], filename, { type: content instanceof Blob ? content.type || type : type });
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title: filename });
+      return 'shared';
+    } catch (err) {
+      console.error('Share failed', err);
+      return 'cancelled';
+    }
+  }
+  downloadFile(file, filename);
+  return 'downloaded';
+}
+
+// Prints a standalone HTML page through a hidden frame, leaving the app as it is
+export function printHtml(html: string) {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+  const doc = frame.contentDocument!;
+  doc.open();
+  doc.write(html);
+  doc.close();
+  frame.contentWindow!.focus();
+  frame.contentWindow!.print();
+  setTimeout(() => frame.remove(), 1000);
+}
@@ -0,0 +1,158 @@
+import { PAYMENT_METHOD_LABELS, type PaymentMethod, type Refund, type Sale, type Shift } from '../types';
+import { formatDateTime } from './date';
+import { generateOrderNo, roundMoney } from './sales';
+import type { ReceiptLine, ReceiptSettings } from './receipt';
+
+const DEVICE_ID_KEY = 'device_id';
+const TILL_CODE_KEY = 'till_code';
+const TILL_CODE_LENGTH = 4;
+
+// Tells this phone's cash drawer apart from the other tills'
+export function getDeviceId() {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+}
+
+// Ends every order number made on this phone, so two tills never hand out
+// the same one. Picked once, avoiding codes other tills' synced sales use.
+export function getTillCode(sales: Sale[]) {
+  let code = localStorage.getItem(TILL_CODE_KEY);
+  if (!code) {
+    const taken = new Set(sales.map(sale => sale.orderNo.slice(-TILL_CODE_LENGTH)));
+    do {
+      code = String(Math.floor(Math.random() * 10 ** TILL_CODE_LENGTH)).padStart(TILL_CODE_LENGTH, '0');
+    } while (taken.has(code) && taken.size < 10 ** TILL_CODE_LENGTH);
+    localStorage.setItem(TILL_CODE_KEY, code);
+  }
+  return code;
+}
+
+export function findOpenShift(shifts: Shift[], deviceId: string) {
+  return shifts.find(shift => shift.deviceId === deviceId && !shift.closedAt);
+}
+
+export function buildShift(
+  openingFloat: number,
+  deviceId: string,
+  cashier: { id?: string; name?: string } = {},
+  date = new Date()
+): Shift {
+  if (!(openingFloat >= 0)) throw new Error('备用金无效');
+  return {
+    id: crypto.randomUUID(),
+    shiftNo: `BC${generateOrderNo(date)}`,
+    deviceId,
+    cashierId: cashier.id,
+    cashierName: cashier.name || undefined,
+    openedAt: date.toISOString(),
+    openingFloat: roundMoney(openingFloat),
+  };
+}
+
+export interface ShiftSummary {
+  saleCount: number;
+  // What customers paid, all methods
+  salesAmount: number;
+  discountAmount: number;
+  byMethod: { method: PaymentMethod; count: number; amount: number }[];
+  refundCount: number;
+  refundAmount: number;
+  cashSales: number;
+  cashRefunds: number;
+  // Float plus cash taken minus cash handed back
+  expectedCash: number;
+}
+
+// Only sales and refunds rung up in this shift count: other tills have
+// their own drawers
+export function summarizeShift(shift: Shift, sales: Sale[], refunds: Refund[]): ShiftSummary {
+  const shiftSales = sales.filter(sale => sale.shiftId === shift.id);
+  const shiftRefunds = refunds.filter(refund => refund.shiftId === shift.id);
+  const methods = Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[];
+  const byMethod = methods
+    .map(method => {
+      const paid = shiftSales.filter(sale => sale.paymentMethod === method);
+      return { method, count: paid.length, amount: roundMoney(paid.reduce((sum, sale) => sum + sale.totalAmount, 0)) };
+    })
+    .filter(row => row.count > 0);
+  const cashSales = byMethod.find(row => row.method === 'cash')?.amount ?? 0;
+  const cashRefunds = roundMoney(shiftRefunds
+    .filter(refund => refund.paymentMethod === 'cash')
+    .reduce((sum, refund) => sum + refund.totalAmount, 0));
+
+  return {
+    saleCount: shiftSales.length,
+    salesAmount: roundMoney(shiftSales.reduce((sum, sale) => sum + sale.totalAmount, 0)),
+    discountAmount: roundMoney(shiftSales.reduce((sum, sale) => sum + (sale.discountAmount ?? 0), 0)),
+    byMethod,
+    refundCount: shiftRefunds.length,
+    refundAmount: roundMoney(shiftRefunds.reduce((sum, refund) => sum + refund.totalAmount, 0)),
+    cashSales,
+    cashRefunds,
+    expectedCash: roundMoney(shift.openingFloat + cashSales - cashRefunds),
+  };
+}
+
+// The expected figure is fixed at close, so a refund synced in later can't
+// change what the cashier handed over
+export function closeShift(shift: Shift, summary: ShiftSummary, countedCash: number, note?: string, date = new Date()): Shift {
+  if (!(countedCash >= 0)) throw new Error('请输入实点现金');
+  return {
+    ...shift,
+    closedAt: date.toISOString(),
+    expectedCash: summary.expectedCash,
+    countedCash: roundMoney(countedCash),
+    note: note?.trim() || undefined,
+  };
+}
+
+export function cashDifference(shift: Shift) {
+  return shift.countedCash === undefined || shift.expectedCash === undefined
+    ? undefined
+    : roundMoney(shift.countedCash - shift.expectedCash);
+}
+
+function money(value: number) {
+  return `¥${value.toFixed(2)}`;
+}
+
+// 交班单, printed the same way as a receipt
+export function buildShiftReceipt(shift: Shift, summary: ShiftSummary, settings: ReceiptSettings): ReceiptLine[] {
+  const text = (left: string, right?: string, emphasis?: boolean): ReceiptLine => ({ kind: 'text', left, right, emphasis });
+  const lines: ReceiptLine[] = [];
+  if (settings.shopName.trim()) lines.push({ kind: 'text', left: settings.shopName.trim(), center: true, emphasis: true });
+  lines.push({ kind: 'text', left: '交班单', center: true, emphasis: !settings.shopName.trim() });
+  lines.push({ kind: 'rule' });
+  lines.push(text(`班次: ${shift.shiftNo}`));
+  if (shift.cashierName) lines.push(text(`收银员: ${shift.cashierName}`));
+  lines.push(text(`开班: ${formatDateTime(shift.openedAt)}`));
+  if (shift.closedAt) lines.push(text(`交班: ${formatDateTime(shift.closedAt)}`));
+  lines.push({ kind: 'rule' });
+
+  lines.push(text(`销售 ${summary.saleCount} 笔`, money(summary.salesAmount), true));
+  for (const row of summary.byMethod) {
+    lines.push(text(`  ${PAYMENT_METHOD_LABELS[row.method]} ${row.count} 笔`, money(row.amount)));
+  }
+  if (summary.discountAmount > 0) lines.push(text('  其中优惠', `-${money(summary.discountAmount)}`));
+  if (summary.refundCount > 0) lines.push(text(`退款 ${summary.refundCount} 笔`, `-${money(summary.refundAmount)}`));
+  lines.push({ kind: 'rule' });
+
+  const expected = shift.expectedCash ?? summary.expectedCash;
+  lines.push(text('备用金', money(shift.openingFloat)));
+  lines.push(text('现金收入', money(summary.cashSales)));
+  if (summary.cashRefunds > 0) lines.push(text('现金退款', `-${money(summary.cashRefunds)}`));
+  lines.push(text('应有现金', money(expected), true));
+  const difference = cashDifference(shift);
+  if (shift.countedCash !== undefined && difference !== undefined) {
+    lines.push(text('实点现金', money(shift.countedCash), true));
+    lines.push(text(difference === 0 ? '差额' : difference > 0 ? '长款' : '短款', money(Math.abs(difference))));
+  }
+  if (shift.note) lines.push(text(`备注: ${shift.note}`));
+  lines.push({ kind: 'rule' });
+  lines.push(text('签字:'));
+  return lines;
+}
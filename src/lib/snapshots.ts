@@ -0,0 +1,91 @@
+import type { Backup } from './backup';
+import { localDb } from './localDb';
+
+// Copies of the whole backup kept on the phone itself, so a bad import or a
+// mistaken restore can be undone even with the store server gone
+export type SnapshotReason = 'auto' | 'manual' | 'before-restore';
+
+export const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  auto: '自动',
+  manual: '手动',
+  'before-restore': '恢复前',
+};
+
+// How many of each kind are kept; the oldest go first
+const KEEP: Record<SnapshotReason, number> = {
+  auto: 10,
+  manual: 5,
+  'before-restore': 3,
+};
+
+export const AUTO_SNAPSHOT_INTERVAL_MS = 4 * 60 * 60 * 1000;
+
+export interface SnapshotCounts {
+  products: number;
+  sales: number;
+  receivings: number;
+}
+
+export interface Snapshot {
+  id: string;
+  createdAt: string;
+  reason: SnapshotReason;
+  // Identifies the content, so unchanged data isn't saved twice
+  signature: string;
+  counts: SnapshotCounts;
+  backup: Backup;
+}
+
+// FNV-1a over the backup minus its timestamp; only compared on this phone
+export function backupSignature(backup: Backup) {
+  const text = JSON.stringify({ ...backup, exportedAt: '' });
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${text.length.toString(36)}-${(hash >>> 0).toString(36)}`;
+}
+
+export function buildSnapshot(backup: Backup, reason: SnapshotReason, date = new Date()): Snapshot {
+  return {
+    id: crypto.randomUUID(),
+    createdAt: date.toISOString(),
+    reason,
+    signature: backupSignature(backup),
+    counts: { products: backup.products.length, sales: backup.sales.length, receivings: backup.receivings.length },
+    backup,
+  };
+}
+
+// Newest first
+export async function listSnapshots() {
+  const snapshots = await localDb.getAll<Snapshot>('snapshots');
+  return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function isAutoSnapshotDue(snapshots: Snapshot[], now = new Date()) {
+  const latest = snapshots.find(s => s.reason === 'auto');
+  return !latest || now.getTime() - new Date(latest.createdAt).getTime() >= AUTO_SNAPSHOT_INTERVAL_MS;
+}
+
+// Saves the snapshot and drops the oldest beyond what is kept. An automatic
+// one is skipped when nothing has changed since the latest snapshot.
+export async function saveSnapshot(snapshot: Snapshot) {
+  const snapshots = await listSnapshots();
+  if (snapshot.reason === 'auto' && snapshots[0]?.signature === snapshot.signature) return false;
+  const expired = [snapshot, ...snapshots]
+    .filter(s => s.reason === snapshot.reason)
+    .slice(KEEP[snapshot.reason])
+    .map(s => s.id);
+  await localDb.transaction('snapshots', tx => {
+    const store = tx.objectStore('snapshots');
+    store.put(snapshot);
+    expired.forEach(id => store.delete(id));
+  });
+  return true;
+}
+
+export function deleteSnapshot(id: string) {
+  return localDb.deleteMany('snapshots', [id]);
+}
@@ -0,0 +1,31 @@
+import { parseCsv, toCsv, type CsvCell } from './csv';
+import { downloadFile } from './share';
+
+export type SheetFormat = 'csv' | 'xlsx';
+
+export function isSpreadsheetFile(file: File) {
+  return /\.(csv|xlsx)$/i.test(file.name);
+}
+
+// Every cell comes back as trimmed text so CSV and Excel files look the same
+// to the importer. The Excel reader is only loaded when it's needed.
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    const { readSheet } = await import('read-excel-file/browser');
+    const rows = await readSheet(file);
+    return rows
+      .map(row => row.map(cell => cell === null ? '' : String(cell).trim()))
+      .filter(row => row.some(cell => cell !== ''));
+  }
+  return parseCsv(await file.text()).map(row => row.map(cell => cell.trim()));
+}
+
+export async function downloadSpreadsheet(rows: CsvCell[][], filename: string, format: SheetFormat) {
+  if (format === 'csv') {
+    downloadFile(toCsv(rows), `${filename}.csv`, 'text/csv;charset=utf-8');
+    return;
+  }
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  const blob = await writeXlsxFile(rows.map(row => row.map(cell => cell ?? null))).toBlob();
+  downloadFile(blob, `${filename}.xlsx`);
+}
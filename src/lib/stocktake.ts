@@ -0,0 +1,87 @@
+import type { Product, Stocktake, StocktakeLine } from '../types';
+import { generateOrderNo, roundMoney } from './sales';
+import { toCsv, type CsvCell } from './csv';
+import { formatDateTime } from './date';
+
+// Counting in progress, kept on the device until the stocktake is completed
+export interface StocktakeDraft {
+  id: string;
+  startedAt: string;
+  counts: Record<string, number>;
+  // Book stock when each product was first counted. A count can take all
+  // afternoon, and what sells after a shelf is counted mustn't come back as a
+  // gain. Missing from drafts started before it was kept.
+  expected?: Record<string, number>;
+}
+
+export function buildStocktakeLines(
+  products: Product[],
+  counts: Record<string, number>,
+  expectedStock: Record<string, number> = {}
+): StocktakeLine[] {
+  return products.map(product => {
+    const counted = counts[product.id];
+    const expected = counted === undefined ? product.stock : expectedStock[product.id] ?? product.stock;
+    const variance = counted === undefined ? 0 : counted - expected;
+    return {
+      productId: product.id,
+      barcode: product.barcode,
+      name: product.name,
+      expected,
+      counted,
+      variance,
+      unitPrice: product.price,
+      varianceValue: roundMoney(variance * product.price),
+    };
+  });
+}
+
+export function summarizeStocktake(lines: StocktakeLine[]) {
+  const counted = lines.filter(line => line.counted !== undefined);
+  return {
+    countedCount: counted.length,
+    uncountedCount: lines.length - counted.length,
+    gainValue: roundMoney(counted.filter(l => l.variance > 0).reduce((sum, l) => sum + l.varianceValue, 0)),
+    lossValue: roundMoney(counted.filter(l => l.variance < 0).reduce((sum, l) => sum - l.varianceValue, 0)),
+  };
+}
+
+export function buildStocktake(draft: StocktakeDraft, products: Product[], operator?: string, date = new Date()): Stocktake {
+  const lines = buildStocktakeLines(products, draft.counts, draft.expected);
+  const summary = summarizeStocktake(lines);
+  if (summary.countedCount === 0) {
+    throw new Error('还没有盘点任何商品');
+  }
+
+  return {
+    id: draft.id,
+    stocktakeNo: `PD${generateOrderNo(date)}`,
+    startedAt: draft.startedAt,
+    completedAt: date.toISOString(),
+    lines,
+    ...summary,
+    operator: operator || undefined,
+  };
+}
+
+export function stocktakeToCsv(stocktake: Stocktake) {
+  const rows: CsvCell[][] = [
+    ['盘点单号', stocktake.stocktakeNo],
+    ['完成时间', formatDateTime(stocktake.completedAt)],
+    ['盘盈金额', stocktake.gainValue.toFixed(2)],
+    ['盘亏金额', stocktake.lossValue.toFixed(2)],
+    ['未盘商品', stocktake.uncountedCount],
+    [],
+    ['商品', '条码', '账面库存', '实盘数量', '差异', '单价', '差异金额'],
+    ...stocktake.lines.map(line => [
+      line.name,
+      line.barcode,
+      line.expected,
+      line.counted ?? '未盘',
+      line.counted === undefined ? '' : line.variance,
+      line.unitPrice.toFixed(2),
+      line.counted === undefined ? '' : line.varianceValue.toFixed(2),
+    ]),
+  ];
+  return toCsv(rows);
+}
@@ -0,0 +1,301 @@
+import type {
+  AuditEntry,
+  Cashier,
+  Product,
+  Promotion,
+  PurchaseOrder,
+  Receiving,
+  Refund,
+  Sale,
+  Shift,
+  Stocktake,
+  Supplier,
+  SyncOp,
+  SyncOpResult,
+  SyncPull,
+} from '../types';
+import { api, ApiError } from './api';
+import { movingAverageCost } from './costing';
+import { localDb, type StoreName } from './localDb';
+
+// What the device shows: the last state confirmed by the server with every
+// still-queued local op replayed on top.
+export interface LocalData {
+  products: Product[];
+  sales: Sale[];
+  refunds: Refund[];
+  receivings: Receiving[];
+  stocktakes: Stocktake[];
+  promotions: Promotion[];
+  cashiers: Cashier[];
+  shifts: Shift[];
+  auditLog: AuditEntry[];
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+}
+
+type QueuedOp = SyncOp & { seq: number };
+
+const CURSOR_KEY = 'syncCursor';
+const PUSH_BATCH_SIZE = 50;
+
+// Same merge as the server: a null change removes the field
+function mergeProduct(product: Product, changes: Partial<Product>): Product {
+  const merged: Record<string, unknown> = { ...product, ...changes };
+  for (const key of Object.keys(merged)) {
+    if (merged[key] === null) delete merged[key];
+  }
+  return merged as unknown as Product;
+}
+
+export function applyOpLocally(data: LocalData, op: SyncOp): LocalData {
+  switch (op.type) {
+    case 'product.save': {
+      const { stock, version: _version, ...changes } = op.changes;
+      const exists = data.products.some(p => p.id === op.productId);
+      // Versions follow the server's (1 on create, +1 per edit), so a second
+      // edit queued on this device carries the version the first one leads to
+      if (!exists) {
+        if (op.baseVersion !== 0) return data;
+        const created = { ...changes, id: op.productId, stock: stock ?? 0, version: 1 } as Product;
+        return { ...data, products: [...data.products, created] };
+      }
+      return {
+        ...data,
+        products: data.products.map(p => p.id === op.productId
+          ? { ...mergeProduct(p, changes), version: (p.version ?? 0) + 1 }
+          : p),
+      };
+    }
+    case 'product.delete':
+      return { ...data, products: data.products.filter(p => p.id !== op.productId) };
+    case 'stock.adjust':
+      return {
+        ...data,
+        products: data.products.map(p => p.id === op.productId ? { ...p, stock: p.stock + op.quantity } : p),
+      };
+    case 'sale.create': {
+      if (data.sales.some(s => s.id === op.sale.id)) return data;
+      const sold = new Map<string, number>();
+      for (const item of op.sale.items) {
+        sold.set(item.productId, (sold.get(item.productId) ?? 0) + item.quantity);
+      }
+      return {
+        ...data,
+        products: data.products.map(p => sold.has(p.id) ? { ...p, stock: p.stock - sold.get(p.id)! } : p),
+        sales: [...data.sales, op.sale],
+      };
+    }
+    case 'refund.create': {
+      if (data.refunds.some(r => r.id === op.refund.id)) return data;
+      const restocked = new Map<string, number>();
+      for (const item of op.refund.items) {
+        if (item.restock) restocked.set(item.productId, (restocked.get(item.productId) ?? 0) + item.quantity);
+      }
+      return {
+        ...data,
+        products: data.products.map(p => restocked.has(p.id) ? { ...p, stock: p.stock + restocked.get(p.id)! } : p),
+        refunds: [...data.refunds, op.refund],
+      };
+    }
+    case 'receiving.create': {
+      if (data.receivings.some(r => r.id === op.receiving.id)) return data;
+      const products = new Map(data.products.map(p => [p.id, p]));
+      for (const item of op.receiving.items) {
+        const product = products.get(item.productId);
+        if (!product) continue;
+        products.set(product.id, {
+          ...product,
+          stock: product.stock + item.quantity,
+          ...(item.costPrice !== undefined
+            ? { costPrice: movingAverageCost(product.stock, product.costPrice, item.quantity, item.costPrice) }
+            : {}),
+        });
+      }
+      return {
+        ...data,
+        products: data.products.map(p => products.get(p.id)!),
+        receivings: [...data.receivings, op.receiving],
+      };
+    }
+    case 'stocktake.create': {
+      if (data.stocktakes.some(t => t.id === op.stocktake.id)) return data;
+      const corrections = new Map<string, number>();
+      for (const line of op.stocktake.lines) {
+        if (line.counted !== undefined && line.variance !== 0) corrections.set(line.productId, line.variance);
+      }
+      return {
+        ...data,
+        products: data.products.map(p => corrections.has(p.id) ? { ...p, stock: p.stock + corrections.get(p.id)! } : p),
+        stocktakes: [...data.stocktakes, op.stocktake],
+      };
+    }
+    case 'promotion.save': {
+      const others = data.promotions.filter(p => p.id !== op.promotion.id);
+      return { ...data, promotions: [...others, op.promotion] };
+    }
+    case 'promotion.delete':
+      return { ...data, promotions: data.promotions.filter(p => p.id !== op.promotionId) };
+    case 'cashier.save': {
+      const exists = data.cashiers.some(c => c.id === op.cashier.id);
+      return {
+        ...data,
+        cashiers: exists ? data.cashiers.map(c => c.id === op.cashier.id ? op.cashier : c) : [...data.cashiers, op.cashier],
+      };
+    }
+    case 'shift.save': {
+      const existing = data.shifts.find(s => s.id === op.shift.id);
+      if (existing?.closedAt) return data;
+      return {
+        ...data,
+        shifts: existing ? data.shifts.map(s => s.id === op.shift.id ? op.shift : s) : [...data.shifts, op.shift],
+      };
+    }
+    case 'audit.create':
+      if (data.auditLog.some(e => e.id === op.entry.id)) return data;
+      return { ...data, auditLog: [...data.auditLog, op.entry] };
+    case 'supplier.save': {
+      const others = data.suppliers.filter(s => s.id !== op.supplier.id);
+      return { ...data, suppliers: [...others, op.supplier] };
+    }
+    case 'supplier.delete':
+      return { ...data, suppliers: data.suppliers.filter(s => s.id !== op.supplierId) };
+    case 'purchaseOrder.save': {
+      const exists = data.purchaseOrders.some(o => o.id === op.purchaseOrder.id);
+      return {
+        ...data,
+        purchaseOrders: exists
+          ? data.purchaseOrders.map(o => o.id === op.purchaseOrder.id ? op.purchaseOrder : o)
+          : [...data.purchaseOrders, op.purchaseOrder],
+      };
+    }
+  }
+}
+
+export async function loadLocalData() {
+  const [products, sales, refunds, receivings, stocktakes, promotions, cashiers, shifts, auditLog, suppliers, purchaseOrders, outbox] = await Promise.all([
+    localDb.getAll<Product>('products'),
+    localDb.getAll<Sale>('sales'),
+    localDb.getAll<Refund>('refunds'),
+    localDb.getAll<Receiving>('receivings'),
+    localDb.getAll<Stocktake>('stocktakes'),
+    localDb.getAll<Promotion>('promotions'),
+    localDb.getAll<Cashier>('cashiers'),
+    localDb.getAll<Shift>('shifts'),
+    localDb.getAll<AuditEntry>('auditLog'),
+    localDb.getAll<Supplier>('suppliers'),
+    localDb.getAll<PurchaseOrder>('purchaseOrders'),
+    localDb.getAll<QueuedOp>('outbox'),
+  ]);
+  const data = outbox.reduce(applyOpLocally, {
+    products,
+    sales,
+    refunds,
+    receivings,
+    stocktakes,
+    promotions,
+    cashiers,
+    shifts,
+    auditLog,
+    suppliers,
+    purchaseOrders,
+  });
+  data.sales.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  data.refunds.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  data.receivings.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  data.stocktakes.sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+  data.shifts.sort((a, b) => a.openedAt.localeCompare(b.openedAt));
+  data.auditLog.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  data.purchaseOrders.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  return { data, pending: outbox.length };
+}
+
+export function enqueue(op: SyncOp) {
+  return localDb.put('outbox', op);
+}
+
+export function createOp<T extends SyncOp['type']>(
+  type: T,
+  fields: Omit<Extract<SyncOp, { type: T }>, 'id' | 'createdAt' | 'type'>
+) {
+  return { ...fields, type, id: crypto.randomUUID(), createdAt: new Date().toISOString() } as Extract<SyncOp, { type: T }>;
+}
+
+async function postOps(ops: QueuedOp[]) {
+  const { results } = await api.post<{ results: SyncOpResult[] }>('/sync', {
+    ops: ops.map(({ seq: _seq, ...op }) => op),
+  });
+  return results;
+}
+
+// Sends queued ops oldest first. Every answered op leaves the queue, whether
+// applied, merged or rejected; on a network or server failure the rest stay
+// queued.
+// A batch the server refuses outright is retried op by op so one malformed
+// entry can't block the queue forever.
+export async function pushOutbox() {
+  const outbox = await localDb.getAll<QueuedOp>('outbox');
+  const issues: SyncOpResult[] = [];
+
+  for (let i = 0; i < outbox.length; i += PUSH_BATCH_SIZE) {
+    const batch = outbox.slice(i, i + PUSH_BATCH_SIZE);
+    let results: SyncOpResult[];
+    try {
+      results = await postOps(batch);
+    } catch (e) {
+      if (!(e instanceof ApiError) || e.status !== 400) throw e;
+      results = [];
+      for (const op of batch) {
+        try {
+          results.push(...await postOps([op]));
+        } catch (inner) {
+          if (!(inner instanceof ApiError) || inner.status !== 400) throw inner;
+          results.push({ id: op.id, status: 'rejected', message: inner.message });
+        }
+      }
+    }
+    await localDb.deleteMany('outbox', batch.map(op => op.seq));
+    issues.push(...results.filter(r => r.status !== 'applied'));
+  }
+  return issues;
+}
+
+export async function pullChanges() {
+  const cursor = (await localDb.get<number>('meta', CURSOR_KEY)) ?? 0;
+  const changes = await api.get<SyncPull>(`/sync?cursor=${cursor}`);
+
+  const stores: StoreName[] = ['products', 'sales', 'refunds', 'receivings', 'stocktakes', 'promotions', 'cashiers', 'shifts', 'auditLog', 'suppliers', 'purchaseOrders', 'meta'];
+  await localDb.transaction(stores, tx => {
+    const products = tx.objectStore('products');
+    const sales = tx.objectStore('sales');
+    const refunds = tx.objectStore('refunds');
+    const receivings = tx.objectStore('receivings');
+    const stocktakes = tx.objectStore('stocktakes');
+    const promotions = tx.objectStore('promotions');
+    const cashiers = tx.objectStore('cashiers');
+    const shifts = tx.objectStore('shifts');
+    const auditLog = tx.objectStore('auditLog');
+    const suppliers = tx.objectStore('suppliers');
+    const purchaseOrders = tx.objectStore('purchaseOrders');
+    changes.products.forEach(p => products.put(p));
+    changes.deletedProductIds.forEach(id => products.delete(id));
+    changes.sales.forEach(s => sales.put(s));
+    changes.refunds.forEach(r => refunds.put(r));
+    changes.receivings.forEach(r => receivings.put(r));
+    changes.stocktakes.forEach(t => stocktakes.put(t));
+    changes.promotions.forEach(p => promotions.put(p));
+    changes.deletedPromotionIds.forEach(id => promotions.delete(id));
+    changes.cashiers.forEach(c => cashiers.put(c));
+    changes.shifts.forEach(s => shifts.put(s));
+    changes.auditLog.forEach(e => auditLog.put(e));
+    changes.suppliers.forEach(s => suppliers.put(s));
+    changes.deletedSupplierIds.forEach(id => suppliers.delete(id));
+    changes.purchaseOrders.forEach(o => purchaseOrders.put(o));
+    tx.objectStore('meta').put(changes.cursor, CURSOR_KEY);
+  });
+  return changes;
+}
+
+export function getPendingOps() {
+  return localDb.getAll<QueuedOp>('outbox');
+}
@@ -0,0 +1,34 @@
+import type { Product } from '../types';
+
+export const WEIGHT_UNIT = 'kg';
+
+// Scales weigh to the gram
+const WEIGHT_DECIMALS = 3;
+
+export function isWeighed(product: Pick<Product, 'soldByWeight'>) {
+  return !!product.soldByWeight;
+}
+
+// Trims trailing zeros: 0.5 kg, not 0.500 kg
+export function formatQuantity(quantity: number, product: Pick<Product, 'soldByWeight'>) {
+  if (!isWeighed(product)) return String(quantity);
+  return String(Number(quantity.toFixed(WEIGHT_DECIMALS)));
+}
+
+// Quantity with its unit where it needs one: '0.42kg', but plain '3' for pieces
+export function withUnit(quantity: number, product: Pick<Product, 'soldByWeight'>) {
+  return isWeighed(product) ? `${formatQuantity(quantity, product)}${WEIGHT_UNIT}` : String(quantity);
+}
+
+export function formatUnitPrice(product: Pick<Product, 'price' | 'soldByWeight'>) {
+  return isWeighed(product) ? `¥${product.price}/${WEIGHT_UNIT}` : `¥${product.price}`;
+}
+
+// Step for quantity inputs: grams for weighed goods, whole pieces otherwise
+export function quantityStep(product: Pick<Product, 'soldByWeight'>) {
+  return isWeighed(product) ? '0.001' : '1';
+}
+
+export function parseQuantity(value: string, product: Pick<Product, 'soldByWeight'>) {
+  return isWeighed(product) ? parseFloat(value) : parseInt(value, 10);
+}
@@ -0,0 +1,457 @@
+export interface Product {
+  id: string;
+  barcode: string;
+  name: string;
+  price: number;
+  stock: number;
+  // Average purchase cost per unit of stock; deliveries with a cost price
+  // move it as a moving average
+  costPrice?: number;
+  category?: string;
+  // Package size as printed on it: 500ml, 330ml×6
+  spec?: string;
+  // Stock at or below this needs reordering; falls back to a shop-wide default
+  minStock?: number;
+  // Usual order size, e.g. one carton
+  reorderQty?: number;
+  // Sold by weight: price is per kg and stock is counted in kg
+  soldByWeight?: boolean;
+  // Item number programmed into the shop scale, read back from its labels
+  plu?: string;
+  // What one unit of stock is: 瓶, 罐, 包
+  unit?: string;
+  // Further codes for the same stock, such as the case it is also sold in
+  barcodes?: ProductBarcode[];
+  // Bumped by the server on every edit (not on stock movements); used to
+  // detect concurrent edits
+  version?: number;
+}
+
+// A barcode on the outer packaging: scanning it moves `factor` units of
+// stock at once, e.g. 1 箱 = 24 瓶
+export interface ProductBarcode {
+  barcode: string;
+  // 箱, 提; the product's own unit when missing
+  unit?: string;
+  factor: number;
+  // For the whole pack; factor times the unit price when missing
+  price?: number;
+}
+
+// `percent` takes that share off (10 = 10% off); `amount` takes off a fixed sum
+export type DiscountType = 'percent' | 'amount';
+
+export interface Discount {
+  type: DiscountType;
+  value: number;
+}
+
+// 抹零: drop the 分, or both 角 and 分, from the amount payable
+export type RoundingMode = 'jiao' | 'yuan';
+
+// Shop-wide offers, evaluated against the cart at checkout. Product-based
+// rules count each listed product separately (第二件半价 on cola and juice
+// means the second cola and the second juice).
+export type PromotionRule =
+  // Every nth unit gets `percentOff`: nth 2 with 50 is 第二件半价
+  | { type: 'nth_item'; productIds: string[]; nth: number; percentOff: number }
+  // 买3送1: buy 3, the 4th is free
+  | { type: 'buy_get'; productIds: string[]; buy: number; free: number }
+  // One set of these products for a fixed price
+  | { type: 'bundle'; items: { productId: string; quantity: number }[]; price: number }
+  | { type: 'category'; category: string; percentOff: number }
+  // A lower unit price, usually limited to the promotion's dates
+  | { type: 'sale_price'; productIds: string[]; price: number };
+
+export type PromotionType = PromotionRule['type'];
+
+export type Promotion = PromotionRule & {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // ISO timestamps; open-ended when missing
+  startsAt?: string;
+  endsAt?: string;
+  updatedAt?: string;
+};
+
+// A promotion as it was applied to a sale line
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  amount: number;
+}
+
+export interface CartItem {
+  product: Product;
+  // Counted in packs when sold by a pack barcode
+  quantity: number;
+  pack?: ProductBarcode;
+  discount?: Discount;
+}
+
+export type PaymentMethod = 'cash' | 'wechat' | 'alipay' | 'card';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: '现金',
+  wechat: '微信',
+  alipay: '支付宝',
+  card: '银行卡',
+};
+
+export interface SaleItem {
+  productId: string;
+  barcode: string;
+  name: string;
+  category?: string;
+  // Price at the moment of sale, independent of later product edits
+  unitPrice: number;
+  // Cost per unit of stock at the moment of sale, when one was known
+  unitCost?: number;
+  // Units of stock, also for lines sold by the pack
+  quantity: number;
+  // Set when the quantity isn't a piece count, e.g. 'kg'
+  unit?: string;
+  // How the line was rung up when sold by a pack barcode
+  pack?: { barcode: string; unit: string; factor: number; price: number };
+  // Everything taken off this line, including its share of order discounts
+  discount?: number;
+  promotions?: AppliedPromotion[];
+  // What the customer paid for the line; lines add up to the sale total
+  subtotal: number;
+}
+
+export interface Payment {
+  method: PaymentMethod;
+  // Only meaningful for cash payments
+  cashTendered?: number;
+}
+
+export interface Sale {
+  id: string;
+  orderNo: string;
+  createdAt: string;
+  items: SaleItem[];
+  itemCount: number;
+  // Before any discount; missing on sales from before discounts existed
+  grossAmount?: number;
+  discountAmount?: number;
+  orderDiscount?: Discount;
+  roundingOff?: number;
+  totalAmount: number;
+  paymentMethod: PaymentMethod;
+  cashTendered?: number;
+  change?: number;
+  operator?: string;
+  // The till shift it was rung up in, for the cash count at close-out
+  shiftId?: string;
+}
+
+export interface RefundItem {
+  // Position of the line in the sale; one product can have two lines
+  // (single bottles and a case)
+  lineIndex: number;
+  productId: string;
+  barcode: string;
+  name: string;
+  category?: string;
+  // Units of stock, like the sale line
+  quantity: number;
+  // Money handed back for this line
+  amount: number;
+  // Back on the shelf, or written off as damaged
+  restock: boolean;
+}
+
+// Goods and money going back to the customer for part or all of a past
+// sale. The sale itself is never edited; reports net the two.
+export interface Refund {
+  id: string;
+  refundNo: string;
+  saleId: string;
+  orderNo: string;
+  createdAt: string;
+  items: RefundItem[];
+  itemCount: number;
+  totalAmount: number;
+  // Paid back the way the customer paid
+  paymentMethod: PaymentMethod;
+  reason?: string;
+  operator?: string;
+  // The shift whose drawer the money came out of
+  shiftId?: string;
+}
+
+export interface ReceivingItem {
+  productId: string;
+  barcode: string;
+  name: string;
+  quantity: number;
+  // Optional purchase price per unit, as on the supplier's delivery note
+  costPrice?: number;
+}
+
+// A supplier delivery booked into stock in one go
+export interface Receiving {
+  id: string;
+  receivingNo: string;
+  createdAt: string;
+  supplier?: string;
+  // Set when the supplier is in the directory
+  supplierId?: string;
+  // The purchase order this delivery was booked against
+  purchaseOrderId?: string;
+  items: ReceivingItem[];
+  itemCount: number;
+  totalCost?: number;
+  operator?: string;
+}
+
+// A wholesaler or distributor the shop buys from. Deleted suppliers keep
+// their name on the orders and deliveries already booked.
+export interface Supplier {
+  id: string;
+  name: string;
+  contact?: string;
+  phone?: string;
+  address?: string;
+  note?: string;
+  // Products usually bought here; the purchase list can be narrowed to them
+  productIds: string[];
+  updatedAt?: string;
+}
+
+export interface PurchaseOrderItem {
+  productId: string;
+  barcode: string;
+  name: string;
+  quantity: number;
+  // Agreed price per unit, carried over to the delivery as its 进价
+  costPrice?: number;
+}
+
+// Goods ordered from a supplier. What has arrived is not stored here but
+// worked out from the deliveries booked against it.
+export interface PurchaseOrder {
+  id: string;
+  orderNo: string;
+  createdAt: string;
+  supplierId?: string;
+  supplierName: string;
+  items: PurchaseOrderItem[];
+  note?: string;
+  operator?: string;
+  // Set when the order is closed before everything arrived, or cancelled
+  closedAt?: string;
+  updatedAt?: string;
+}
+
+export interface StocktakeLine {
+  productId: string;
+  barcode: string;
+  name: string;
+  // Stock on record when the count was completed
+  expected: number;
+  // Missing when the product was never counted; such lines are not corrected
+  counted?: number;
+  variance: number;
+  unitPrice: number;
+  varianceValue: number;
+}
+
+// A completed shelf count and the corrections it applied
+export interface Stocktake {
+  id: string;
+  stocktakeNo: string;
+  startedAt: string;
+  completedAt: string;
+  lines: StocktakeLine[];
+  countedCount: number;
+  uncountedCount: number;
+  gainValue: number;
+  lossValue: number;
+  operator?: string;
+}
+
+export type StockMovementType =
+  | 'initial'
+  | 'sale'
+  | 'purchase'
+  | 'adjustment'
+  | 'stocktake'
+  | 'return'
+  | 'damage';
+
+// Movement types a person can record by hand; sales and opening stock are
+// only ever written by the system.
+export type ManualMovementType = Exclude<StockMovementType, 'initial' | 'sale'>;
+
+export const MOVEMENT_TYPE_LABELS: Record<StockMovementType, string> = {
+  initial: '期初库存',
+  sale: '销售出库',
+  purchase: '进货入库',
+  adjustment: '手动调整',
+  stocktake: '盘点修正',
+  return: '退货入库',
+  damage: '报损出库',
+};
+
+export interface StockMovement {
+  id: string;
+  productId: string;
+  type: StockMovementType;
+  // Signed: negative for stock leaving the shop
+  quantity: number;
+  stockAfter: number;
+  // The product's average cost right after the movement
+  unitCost?: number;
+  reference?: string;
+  note?: string;
+  operator?: string;
+  createdAt: string;
+}
+
+export type CashierRole = 'owner' | 'cashier';
+
+export const CASHIER_ROLE_LABELS: Record<CashierRole, string> = {
+  owner: '店主',
+  cashier: '收银员',
+};
+
+// Someone who signs in on the till with a PIN. Disabled rather than deleted,
+// so their name stays on the sales and log entries they made.
+export interface Cashier {
+  id: string;
+  name: string;
+  role: CashierRole;
+  // SHA-256 of the id and PIN; the PIN itself is never stored. Kept on the
+  // server and left out of what it sends, so it is only ever set when the
+  // PIN is (re)set on this phone.
+  pinHash?: string;
+  disabled?: boolean;
+  updatedAt?: string;
+}
+
+// One cashier's turn at one till, from counting in the float to counting
+// the drawer at 交班
+export interface Shift {
+  id: string;
+  shiftNo: string;
+  // Each phone or till has its own drawer and so its own shift
+  deviceId: string;
+  cashierId?: string;
+  cashierName?: string;
+  openedAt: string;
+  // 备用金 put in the drawer at the start
+  openingFloat: number;
+  closedAt?: string;
+  // What the drawer should hold at close, as worked out then
+  expectedCash?: number;
+  countedCash?: number;
+  note?: string;
+}
+
+export type AuditAction =
+  | 'price.change'
+  | 'product.delete'
+  | 'stock.adjust'
+  | 'discount'
+  | 'refund'
+  | 'import'
+  | 'restore'
+  | 'staff'
+  | 'shift.open'
+  | 'shift.close'
+  | 'override';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'price.change': '改价',
+  'product.delete': '删除商品',
+  'stock.adjust': '调整库存',
+  discount: '折扣',
+  refund: '退款',
+  import: '导入',
+  restore: '恢复备份',
+  staff: '账号管理',
+  'shift.open': '开班',
+  'shift.close': '交班',
+  override: '店主授权',
+};
+
+// A sensitive action, written once and never changed
+export interface AuditEntry {
+  id: string;
+  createdAt: string;
+  action: AuditAction;
+  detail: string;
+  cashierId?: string;
+  operator?: string;
+  // The owner who entered their PIN to allow it
+  approvedBy?: string;
+  reference?: string;
+}
+
+// Local changes queued on a device until the server has applied them.
+// Stock only ever travels as a signed delta (sales, adjustments), so two
+// devices changing the same product's stock both count.
+interface SyncOpBase {
+  id: string;
+  createdAt: string;
+}
+
+export type SyncOp = SyncOpBase & (
+  // A null in `changes` removes that field from the product
+  | { type: 'product.save'; productId: string; baseVersion: number; changes: Partial<Product> }
+  | { type: 'product.delete'; productId: string }
+  | {
+      type: 'stock.adjust';
+      productId: string;
+      quantity: number;
+      movementType: ManualMovementType;
+      note?: string;
+      operator?: string;
+    }
+  | { type: 'sale.create'; sale: Sale }
+  | { type: 'refund.create'; refund: Refund }
+  | { type: 'receiving.create'; receiving: Receiving }
+  | { type: 'stocktake.create'; stocktake: Stocktake }
+  // Promotions are small and edited rarely, so the whole record is sent and
+  // the last save wins
+  | { type: 'promotion.save'; promotion: Promotion }
+  | { type: 'promotion.delete'; promotionId: string }
+  // Like promotions, cashiers and shifts travel whole; a closed shift stays closed
+  // approval is what the server handed out for an owner's PIN; it checks
+  // account changes itself
+  | { type: 'cashier.save'; cashier: Cashier; approval?: string }
+  | { type: 'shift.save'; shift: Shift }
+  | { type: 'audit.create'; entry: AuditEntry }
+  | { type: 'supplier.save'; supplier: Supplier }
+  | { type: 'supplier.delete'; supplierId: string }
+  | { type: 'purchaseOrder.save'; purchaseOrder: PurchaseOrder }
+);
+
+export type SyncOpStatus = 'applied' | 'conflict' | 'rejected';
+
+export interface SyncOpResult {
+  id: string;
+  status: SyncOpStatus;
+  message?: string;
+}
+
+export interface SyncPull {
+  cursor: number;
+  products: Product[];
+  deletedProductIds: string[];
+  sales: Sale[];
+  refunds: Refund[];
+  receivings: Receiving[];
+  stocktakes: Stocktake[];
+  promotions: Promotion[];
+  deletedPromotionIds: string[];
+  cashiers: Cashier[];
+  shifts: Shift[];
+  auditLog: AuditEntry[];
+  suppliers: Supplier[];
+  deletedSupplierIds: string[];
+  purchaseOrders: PurchaseOrder[];
+}
@@ -9,6 +9,13 @@ export default defineConfig(({mode}) => {
     plugins: [react(), tailwindcss()],
     define: {
       'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+      'process.env.PRODUCT_RECOGNIZER': JSON.stringify(env.PRODUCT_RECOGNIZER),
+      'process.env.ASSISTANT_MODEL': JSON.stringify(env.ASSISTANT_MODEL),
+    },
+    build: {
+      // Lists every built file, lazily loaded chunks included, for the
+      // service worker to cache at install
+      manifest: 'asset-manifest.json',
     },
     resolve: {
       alias: {